@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import { getBedTasks } from '../../../lib/beds';
+import { addDays } from '../../../lib/dates';
+import { getStockUsage } from '../../../lib/inventory';
+import { hasSchedule } from '../../../lib/recurrence';
+import { writeApplicationChange } from '../../../lib/repository';
+import { checkApplication } from '../../../lib/safety';
+import { resolveEventTaskId } from '../../../lib/taskCatalog';
+import { queryApplications } from '../../../lib/server/adminRepository';
+import {
+  ApiError,
+  loadGarden,
+  optionalString,
+  parseApplicationDetails,
+  parseDate,
+  parseLimit,
+  readJsonBody,
+  withApi,
+} from '../../../lib/server/api';
+import type { ApplicationEvent } from '../../../lib/types';
+
+// How far back the safety rules look for other treatments in the bed
+const SAFETY_LOOKBACK_DAYS = 365;
+
+// GET /api/applications?bedId=&taskId=&since=&limit=: applications, newest first
+export const GET = withApi(async (request, { repository }) => {
+  const params = new URL(request.url).searchParams;
+  const applications = await queryApplications(repository.householdId, {
+    bedId: params.get('bedId') ?? undefined,
+    taskId: params.get('taskId') ?? undefined,
+    since: parseDate(params.get('since'), 'since'),
+    limit: parseLimit(params.get('limit'), 50, 500),
+  });
+  return NextResponse.json({ applications });
+});
+
+// POST /api/applications: logs an application, like "Apply Now" in the app.
+// Body: { taskId, bedId?, timestampIso?, force?, ...details }. `bedId` can be left out when
+// there is only one bed. A `quantity` in the unit of the product the treatment uses is taken
+// from stock. Safety rules that block an application always reject it; warnings reject it
+// unless `force` is true.
+export const POST = withApi(async (request, { repository, tokenName }) => {
+  const body = await readJsonBody(request);
+  const taskId = optionalString(body, 'taskId');
+  if (!taskId) throw new ApiError(400, '"taskId" is required.');
+  if (body.force !== undefined && typeof body.force !== 'boolean') {
+    throw new ApiError(400, '"force" must be true or false.');
+  }
+
+  const { tasks, beds, products } = await loadGarden(repository);
+  const bedId = optionalString(body, 'bedId') ?? (beds.length === 1 ? beds[0].id : undefined);
+  if (!bedId) throw new ApiError(400, '"bedId" is required when there is more than one bed.');
+  const bed = beds.find((b) => b.id === bedId);
+  if (!bed) throw new ApiError(404, `There is no bed "${bedId}".`);
+  const bedTasks = getBedTasks(bed, tasks);
+  const task = bedTasks.find((t) => t.id === taskId);
+  if (!task) throw new ApiError(404, `"${taskId}" is not an active treatment in ${bed.name}.`);
+
+  const now = new Date();
+  const at = parseDate(optionalString(body, 'timestampIso'), 'timestampIso') ?? now;
+  if (at > addDays(now, 1)) throw new ApiError(400, '"timestampIso" can\'t be in the future.');
+
+  // Latest application of each treatment in the bed, for the safety rules
+  const recent = await queryApplications(repository.householdId, {
+    bedId,
+    since: addDays(at, -SAFETY_LOOKBACK_DAYS),
+  });
+  const latestApplied: Record<string, string> = {};
+  recent.forEach((appEvent) => {
+    const id = resolveEventTaskId(appEvent, tasks);
+    if (id && !latestApplied[id]) latestApplied[id] = appEvent.timestampIso;
+  });
+  const violations = checkApplication({ task, bed, bedTasks, latestApplied }, at);
+  if (violations.some((v) => v.severity === 'block') || (violations.length > 0 && body.force !== true)) {
+    throw new ApiError(409, `${task.label} breaks a safety rule.`, { violations });
+  }
+
+  const application: ApplicationEvent & { id: string; bedId: string } = {
+    ...parseApplicationDetails(body),
+    id: repository.newApplicationId(),
+    taskId: task.id,
+    bedId,
+    loggedByName: tokenName,
+    label: task.label,
+    dayLabel: task.dayLabel,
+    timestampIso: at.toISOString(),
+  };
+  const lastAppliedIso = await writeApplicationChange(repository, {
+    kind: 'add',
+    event: application,
+    updatesLastDate: hasSchedule(task),
+    stockUsage: getStockUsage(application, products, tasks),
+  });
+
+  return NextResponse.json({ application, lastAppliedIso, warnings: violations }, { status: 201 });
+});
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { getBedTasks } from '../../../lib/beds';
+import { loadGarden, withApi } from '../../../lib/server/api';
+
+// GET /api/beds: the beds, with the IDs of the treatments scheduled in each
+export const GET = withApi(async (_request, { repository }) => {
+  const { tasks, beds } = await loadGarden(repository);
+  return NextResponse.json({
+    beds: beds.map((bed) => ({ ...bed, taskIds: getBedTasks(bed, tasks).map((task) => task.id) })),
+  });
+});
@@ -0,0 +1,32 @@
+import { startOfDay } from '../../../lib/dates';
+import { buildIcs } from '../../../lib/ics';
+import { ApiError, loadBedSchedules, loadGarden, parseLocale, withApi } from '../../../lib/server/api';
+
+// GET /api/calendar?token=&bedId=&taskId=&lang=: upcoming due dates as an iCalendar feed to
+// subscribe to from Google or Apple Calendar, written in `lang`. The token goes in the URL because
+// calendar apps can't send headers; the household panel creates calendar tokens that only read
+// this feed.
+export const GET = withApi(async (request, { repository }) => {
+  const params = new URL(request.url).searchParams;
+  const today = startOfDay(new Date());
+
+  const { tasks, beds } = await loadGarden(repository);
+  const bedId = params.get('bedId');
+  const selected = bedId ? beds.filter((bed) => bed.id === bedId) : beds;
+  if (bedId && selected.length === 0) throw new ApiError(404, `There is no bed "${bedId}".`);
+
+  const ics = buildIcs({
+    schedules: await loadBedSchedules(repository, selected, tasks, today),
+    today,
+    calendarName: 'Gardenify',
+    taskId: params.get('taskId') ?? undefined,
+    i18n: parseLocale(params.get('lang')),
+  });
+  return new Response(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="gardenify.ics"',
+      'Cache-Control': 'no-store',
+    },
+  });
+}, { calendarFeed: true });
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { startOfDay, toDateKey } from '../../../../lib/dates';
+import { evaluateBedTask } from '../../../../lib/recurrence';
+import { ApiError, loadBedSchedules, loadGarden, parseDate, withApi } from '../../../../lib/server/api';
+
+// GET /api/schedule/due?date=&bedId=&days=: treatments overdue or due on `date` (today by
+// default, in the server's time zone), plus those due within the next `days` days
+export const GET = withApi(async (request, { repository }) => {
+  const params = new URL(request.url).searchParams;
+  const today = startOfDay(parseDate(params.get('date'), 'date') ?? new Date());
+  const days = Number(params.get('days') ?? 0);
+  if (!Number.isInteger(days) || days < 0) throw new ApiError(400, '"days" must be a whole number.');
+
+  const { tasks, beds } = await loadGarden(repository);
+  const bedId = params.get('bedId');
+  const selected = bedId ? beds.filter((bed) => bed.id === bedId) : beds;
+  if (bedId && selected.length === 0) throw new ApiError(404, `There is no bed "${bedId}".`);
+
+  const schedules = await loadBedSchedules(repository, selected, tasks, today);
+  const due = schedules.flatMap((schedule) =>
+    schedule.tasks.flatMap((task) => {
+      const state = evaluateBedTask(schedule, task, today);
+      const isDue =
+        state?.status === 'overdue' ||
+        state?.status === 'due' ||
+        (state?.status === 'upcoming' && (state.daysUntil ?? Infinity) <= days);
+      if (!state?.dueDate || !isDue) return [];
+      return [
+        {
+          bedId: schedule.bed.id,
+          bedName: schedule.bed.name,
+          taskId: task.id,
+          taskLabel: task.label,
+          status: state.status,
+          dueDate: toDateKey(state.dueDate),
+          daysUntil: state.daysUntil,
+        },
+      ];
+    })
+  );
+
+  return NextResponse.json({ date: toDateKey(today), due });
+});
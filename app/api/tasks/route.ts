@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { loadGarden, withApi } from '../../../lib/server/api';
+
+// GET /api/tasks: the treatment catalog, including archived treatments
+export const GET = withApi(async (_request, { repository }) => {
+  const { tasks } = await loadGarden(repository);
+  return NextResponse.json({ tasks });
+});
@@ -0,0 +1,222 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { AnimatePresence } from 'framer-motion';
+
+import ActivityItem from './ActivityItem';
+import { EMPTY_ACTIVITY_FILTER, matchesActivityFilter } from '../../lib/applicationDetails';
+import { getEventBedId } from '../../lib/beds';
+import {
+  groupHistory,
+  type HistoryCursor,
+  type HistoryGrouping,
+  type HistoryPage,
+  type HistoryQuery,
+} from '../../lib/history';
+import { TASK_CATEGORY_LABELS, getTaskCategory } from '../../lib/taskCatalog';
+import type { ApplicationEvent, Task, TaskCategory } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type ActivityHistoryProps = {
+  loadPage: (filter: HistoryQuery, cursor: HistoryCursor | null) => Promise<HistoryPage>;
+  bedId?: string; // Every bed when missing
+  tasks: Task[];
+  bedNameById: Map<string, string>;
+  getEventTaskLabel: (event: ApplicationEvent) => string;
+  // Edits and deletes (null) made since pages were loaded, applied over them
+  sessionEdits: Map<string, ApplicationEvent | null>;
+  pendingIds: Set<string>;
+  onEdit: (event: ApplicationEvent) => void;
+};
+
+// "task:<id>" or "category:<category>"; empty for every task
+type TaskFilter = string;
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+
+export default function ActivityHistory({
+  loadPage,
+  bedId,
+  tasks,
+  bedNameById,
+  getEventTaskLabel,
+  sessionEdits,
+  pendingIds,
+  onEdit,
+}: ActivityHistoryProps) {
+  const { t, formatDate, formatNumber } = useI18n();
+  const [taskFilter, setTaskFilter] = useState<TaskFilter>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [grouping, setGrouping] = useState<HistoryGrouping>('day');
+
+  const [events, setEvents] = useState<ApplicationEvent[]>([]);
+  const [cursor, setCursor] = useState<HistoryCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const historyQuery = useMemo<HistoryQuery>(() => {
+    const [kind, value] = taskFilter.split(':');
+    return {
+      bedId,
+      taskIds:
+        kind === 'task'
+          ? [value]
+          : kind === 'category'
+            ? tasks.filter((task) => getTaskCategory(task) === value).map((task) => task.id)
+            : undefined,
+      from: from || undefined,
+      to: to || undefined,
+    };
+  }, [bedId, taskFilter, tasks, from, to]);
+  // Refetch only when the query itself changes, not whenever the task list is recreated
+  const queryKey = JSON.stringify(historyQuery);
+
+  const loadNextPage = useCallback(
+    async (after: HistoryCursor | null) => {
+      setIsFetching(true);
+      setFailed(false);
+      try {
+        const page = await loadPage(JSON.parse(queryKey), after);
+        setEvents((prev) => (after ? [...prev, ...page.events] : page.events));
+        setCursor(page.cursor);
+        setHasMore(page.hasMore);
+      } catch (err) {
+        console.error('Error fetching history:', err);
+        setFailed(true);
+      } finally {
+        setIsFetching(false);
+      }
+    },
+    [loadPage, queryKey]
+  );
+
+  // Start over from the newest application whenever the filters change
+  useEffect(() => {
+    loadNextPage(null);
+  }, [loadNextPage]);
+
+  const visibleEvents = events
+    .filter((event) => !event.id || sessionEdits.get(event.id) !== null)
+    .map((event) => (event.id && sessionEdits.get(event.id)) || event)
+    .filter((event) =>
+      matchesActivityFilter(event, getEventTaskLabel(event), { ...EMPTY_ACTIVITY_FILTER, search })
+    );
+  const groups = groupHistory(visibleEvents, grouping);
+
+  const inputClass =
+    'bg-zinc-900/70 border border-zinc-700 rounded-full px-3 py-1.5 text-gray-200 focus:outline-none focus:border-emerald-500';
+  const activeTasks = tasks.filter((task) => !task.archived);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex-1 min-w-48 flex items-center gap-2 bg-zinc-900/70 border border-zinc-700 rounded-full px-3 py-1.5">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            className="flex-1 bg-transparent text-gray-100 focus:outline-none"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('history.search')}
+          />
+        </label>
+        <select
+          className={inputClass}
+          value={taskFilter}
+          onChange={(e) => setTaskFilter(e.target.value)}
+          aria-label={t('history.taskFilter')}
+        >
+          <option value="">{t('history.allTreatments')}</option>
+          <optgroup label={t('history.categories')}>
+            {(Object.keys(TASK_CATEGORY_LABELS) as TaskCategory[]).map((category) => (
+              <option key={category} value={`category:${category}`}>
+                {t(`category.${category}`)}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label={t('history.treatments')}>
+            {activeTasks.map((task) => (
+              <option key={task.id} value={`task:${task.id}`}>
+                {task.label}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+        <label className="flex items-center gap-1 text-gray-300">
+          {t('history.from')}
+          <input type="date" className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label className="flex items-center gap-1 text-gray-300">
+          {t('common.to')}
+          <input type="date" className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-full p-1">
+          {(['day', 'week'] as HistoryGrouping[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGrouping(g)}
+              className={`px-3 py-0.5 rounded-full ${
+                grouping === g ? 'bg-emerald-700 text-white' : 'text-gray-300 hover:text-emerald-300'
+              }`}
+            >
+              {t(g === 'day' ? 'history.byDay' : 'history.byWeek')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {groups.map((group) => (
+        <section key={group.key} className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-400 flex items-center gap-2">
+            {grouping === 'day'
+              ? formatDate(group.start, { weekday: 'short', ...DATE_FORMAT })
+              : t('calendar.weekOf', { date: formatDate(group.start, DATE_FORMAT) })}
+            <span className="text-xs font-normal text-gray-500">· {formatNumber(group.events.length)}</span>
+          </h3>
+          <ul className="space-y-2 text-gray-300 text-sm sm:text-base">
+            <AnimatePresence>
+              {group.events.map((event, i) => (
+                <ActivityItem
+                  key={event.id}
+                  event={event}
+                  taskLabel={getEventTaskLabel(event)}
+                  bedName={bedId ? undefined : bedNameById.get(getEventBedId(event)) ?? getEventBedId(event)}
+                  isPending={!!event.id && pendingIds.has(event.id)}
+                  index={i}
+                  onEdit={onEdit}
+                />
+              ))}
+            </AnimatePresence>
+          </ul>
+        </section>
+      ))}
+
+      {!isFetching && groups.length === 0 && (
+        <p className="text-gray-500 text-center py-4">
+          {search && hasMore
+            ? t('history.noMatchesLoaded')
+            : t('activity.noMatches')}
+        </p>
+      )}
+      {failed && <p className="text-sm text-red-400 text-center">{t('history.loadFailed')}</p>}
+
+      <div className="flex justify-center">
+        {isFetching ? (
+          <Loader2 className="w-5 h-5 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+        ) : (
+          hasMore && (
+            <button
+              onClick={() => loadNextPage(cursor)}
+              className="px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-sm text-gray-300 hover:text-emerald-300"
+            >
+              {t('history.loadOlder')}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { CloudOff, Pencil } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+import { describeApplicationDetails } from '../../lib/applicationDetails';
+import type { PhotoStore } from '../../lib/photos';
+import type { ApplicationEvent, PhotoRef } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+import PhotoThumbnail from './PhotoThumbnail';
+
+type ActivityItemProps = {
+  event: ApplicationEvent;
+  taskLabel: string; // Current label of the event's task
+  bedName?: string; // Shown when the list mixes beds
+  isPending: boolean;
+  photos?: PhotoRef[]; // Taken with the application, shown with `photoStore`
+  photoStore?: PhotoStore;
+  index: number; // Position in the list, to stagger the entrance
+  onEdit: (event: ApplicationEvent) => void;
+};
+
+// One logged application in Recent Activity or the history view
+export default function ActivityItem({
+  event,
+  taskLabel,
+  bedName,
+  isPending,
+  photos,
+  photoStore,
+  index,
+  onEdit,
+}: ActivityItemProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const details = describeApplicationDetails(event, i18n);
+  // The task label is highlighted wherever the language puts it in the sentence
+  const day = event.dayLabel.split(' ')[1] ?? '';
+  const [beforeTask, afterTask] = t('activity.applied', { day: /^\d+$/.test(day) ? Number(day) : day }).split('{task}');
+
+  return (
+    <motion.li
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      transition={{ type: 'spring', stiffness: 100, damping: 10, delay: Math.min(index, 10) * 0.03 }}
+      className="flex items-center gap-2 sm:gap-3 bg-zinc-900/50 p-2 sm:p-3 rounded-md sm:rounded-lg border border-zinc-700 shadow-md"
+    >
+      <span className="text-xl sm:text-2xl flex-shrink-0">✨</span>
+      <div className="flex-1 min-w-0">
+        <span>
+          {beforeTask}
+          <strong className="text-emerald-300">&ldquo;{taskLabel}&rdquo;</strong>
+          {afterTask}
+        </span>
+        <div className="text-xs sm:text-sm text-gray-400 mt-0.5">
+          {t('activity.loggedAt', { date: i18n.formatDateTime(event.timestampIso) })}
+          {event.loggedByName && <> {t('activity.loggedBy', { name: event.loggedByName })}</>}
+          {isPending && (
+            <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-900/50 border border-amber-800 text-amber-300">
+              <CloudOff className="w-3 h-3" /> {t('activity.pending')}
+            </span>
+          )}
+          {bedName && (
+            <span className="ml-2 px-2 py-0.5 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300">
+              {bedName}
+            </span>
+          )}
+        </div>
+        {details.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {details.map((part) => (
+              <span
+                key={part}
+                className="text-xs px-2 py-0.5 rounded-full bg-sky-900/50 border border-sky-800 text-sky-300"
+              >
+                {part}
+              </span>
+            ))}
+          </div>
+        )}
+        {photos && photoStore && photos.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {photos.map((photo) => (
+              <PhotoThumbnail key={photo.path} photo={photo} store={photoStore} />
+            ))}
+          </div>
+        )}
+        {event.photoRef && <div className="text-xs text-gray-400 mt-1 truncate">📷 {event.photoRef}</div>}
+        {event.notes && (
+          <p className="text-xs sm:text-sm text-gray-300 mt-1 italic whitespace-pre-line">{event.notes}</p>
+        )}
+      </div>
+      <button
+        onClick={() => onEdit(event)}
+        className="p-2 rounded-full text-gray-400 hover:text-emerald-300 hover:bg-zinc-800 flex-shrink-0"
+        aria-label={t('schedule.editApplication')}
+      >
+        <Pencil className="w-4 h-4" />
+      </button>
+    </motion.li>
+  );
+}
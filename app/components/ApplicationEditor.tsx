@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle, Save, Trash2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+import { useI18n } from './I18nProvider';
+import { QUANTITY_UNITS, WEATHER_LABELS } from '../../lib/applicationDetails';
+import type { ApplicationDetails, ApplicationEvent, WeatherCondition } from '../../lib/types';
+
+// The legacy photo reference isn't edited, so an application keeps any it has
+export type ApplicationChanges = Omit<ApplicationDetails, 'photoRef'> & Pick<ApplicationEvent, 'timestampIso'>;
+
+type ApplicationEditorProps = {
+  event: ApplicationEvent; // Without an ID, the form logs a new application
+  taskLabel: string;
+  onSave: (changes: ApplicationChanges, photos: File[]) => void; // Photos to add to the journal
+  onDelete?: () => void;
+  onClose: () => void;
+};
+
+// `<input type="datetime-local">` works in local time without a timezone suffix
+const toDateTimeLocalValue = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+export default function ApplicationEditor({
+  event,
+  taskLabel,
+  onSave,
+  onDelete,
+  onClose,
+}: ApplicationEditorProps) {
+  const { t } = useI18n();
+  const [appliedAt, setAppliedAt] = useState(toDateTimeLocalValue(event.timestampIso));
+  const [quantity, setQuantity] = useState(event.quantity?.toString() ?? '');
+  const [unit, setUnit] = useState(event.unit ?? 'ml');
+  const [dilution, setDilution] = useState(event.dilution ?? '');
+  const [productLot, setProductLot] = useState(event.productLot ?? '');
+  const [target, setTarget] = useState(event.target ?? '');
+  const [weather, setWeather] = useState<WeatherCondition | ''>(event.weather ?? '');
+  const [rainedAfter, setRainedAfter] = useState(event.rainedAfter ?? false);
+  const [notes, setNotes] = useState(event.notes ?? '');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const isNew = !event.id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const date = new Date(appliedAt);
+    if (Number.isNaN(date.getTime())) {
+      setError(t('application.error.date'));
+      return;
+    }
+    if (date.getTime() > Date.now()) {
+      setError(t('application.error.future'));
+      return;
+    }
+    if (quantity.trim() && !(Number(quantity) > 0)) {
+      setError(t('application.error.quantity'));
+      return;
+    }
+    onSave(
+      {
+        timestampIso: date.toISOString(),
+        quantity: quantity.trim() ? Number(quantity) : undefined,
+        unit: quantity.trim() ? unit : undefined,
+        dilution: dilution.trim() || undefined,
+        productLot: productLot.trim() || undefined,
+        target: target.trim() || undefined,
+        weather: weather || undefined,
+        rainedAfter: rainedAfter || undefined,
+        notes: notes.trim() || undefined,
+      },
+      photos
+    );
+  };
+
+  const handleDelete = () => {
+    if (onDelete && confirm(t('application.confirmDelete', { task: taskLabel }))) {
+      onDelete();
+    }
+  };
+
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 px-4"
+      onClick={onClose}
+    >
+      <motion.form
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4 bg-zinc-900 p-6 rounded-2xl border border-zinc-700 shadow-2xl text-gray-100"
+      >
+        <div className="flex items-start justify-between gap-3">
+          <h3 className="text-xl font-bold text-emerald-400">{taskLabel}</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-200"
+            aria-label={t('common.close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <label className="block text-sm text-gray-300 space-y-1">
+          <span>{t('application.appliedAt')}</span>
+          <input
+            className={inputClass}
+            type="datetime-local"
+            value={appliedAt}
+            max={toDateTimeLocalValue(new Date().toISOString())}
+            onChange={(e) => setAppliedAt(e.target.value)}
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>{t('application.quantity')}</span>
+            <div className="flex gap-2">
+              <input
+                className={inputClass}
+                type="number"
+                min={0}
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+              <select
+                className={`${inputClass} w-24`}
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+                aria-label={t('application.unit')}
+              >
+                {QUANTITY_UNITS.map((u) => (
+                  <option key={u} value={u}>
+                    {u}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </label>
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>{t('application.dilution')}</span>
+            <input
+              className={inputClass}
+              value={dilution}
+              onChange={(e) => setDilution(e.target.value)}
+              placeholder="2 ml/L"
+            />
+          </label>
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>{t('application.productLot')}</span>
+            <input className={inputClass} value={productLot} onChange={(e) => setProductLot(e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>{t('application.target')}</span>
+            <input
+              className={inputClass}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              placeholder={t('application.targetPlaceholder')}
+            />
+          </label>
+          <label className="block text-sm text-gray-300 space-y-1">
+            <span>{t('activity.weather')}</span>
+            <select
+              className={inputClass}
+              value={weather}
+              onChange={(e) => setWeather(e.target.value as WeatherCondition | '')}
+            >
+              <option value="">{t('application.weatherNotRecorded')}</option>
+              {(Object.keys(WEATHER_LABELS) as WeatherCondition[]).map((key) => (
+                <option key={key} value={key}>
+                  {t(`weather.${key}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300 pt-6">
+            <input type="checkbox" checked={rainedAfter} onChange={(e) => setRainedAfter(e.target.checked)} />
+            {t('application.rainedAfter')}
+          </label>
+        </div>
+        <label className="block text-sm text-gray-300 space-y-1">
+          <span>{t('application.notes')}</span>
+          <textarea
+            className={`${inputClass} min-h-24`}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t('application.notesPlaceholder')}
+          />
+        </label>
+        <label className="block text-sm text-gray-300 space-y-1">
+          <span>{t('application.photos')}</span>
+          <input
+            className="block w-full text-xs text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded-full file:border-0 file:bg-zinc-800 file:text-gray-200"
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            onChange={(e) => setPhotos([...(e.target.files ?? [])])}
+          />
+        </label>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex gap-2 justify-between">
+          {onDelete && !isNew ? (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="flex items-center gap-1 px-4 py-2 rounded-full bg-red-700 text-white text-sm font-semibold"
+            >
+              <Trash2 className="w-4 h-4" /> {t('common.delete')}
+            </button>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            className="flex items-center gap-1 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white text-sm font-semibold"
+          >
+            {isNew ? <CheckCircle className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+            {isNew ? t('application.apply') : t('common.save')}
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
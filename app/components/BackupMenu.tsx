@@ -0,0 +1,49 @@
+'use client';
+
+import { useRef } from 'react';
+import { Download, Upload } from 'lucide-react';
+
+import { useI18n } from './I18nProvider';
+
+type BackupMenuProps = {
+  onExport: (format: 'csv' | 'json') => void;
+  onImport: (file: File) => void;
+  isImporting: boolean;
+};
+
+export default function BackupMenu({ onExport, onImport, isImporting }: BackupMenuProps) {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const buttonClass =
+    'flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button onClick={() => onExport('csv')} className={buttonClass} title={t('backup.csvTitle')}>
+        <Download className="w-4 h-4" /> CSV
+      </button>
+      <button onClick={() => onExport('json')} className={buttonClass} title={t('backup.jsonTitle')}>
+        <Download className="w-4 h-4" /> JSON
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isImporting}
+        className={buttonClass}
+        title={t('backup.importTitle')}
+      >
+        <Upload className="w-4 h-4" /> {isImporting ? t('backup.importing') : t('backup.import')}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // Lets the same file be picked again
+          if (file) onImport(file);
+        }}
+      />
+    </div>
+  );
+}
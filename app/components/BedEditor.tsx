@@ -0,0 +1,323 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowUpCircle, Pencil, Plus, Save, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+import { useI18n } from './I18nProvider';
+import { createBedId } from '../../lib/beds';
+import { getEditedTaskIds, getProfileUpdate } from '../../lib/profiles';
+import type { Bed, PlantProfile, Task } from '../../lib/types';
+
+type BedEditorProps = {
+  beds: Bed[];
+  tasks: Task[]; // Active catalog tasks a bed can be scheduled with
+  profiles: PlantProfile[];
+  onSave: (bed: Bed) => Promise<void>;
+  onApplyProfile: (bed: Bed, profile: PlantProfile) => Promise<void>; // Sets the bed's program
+};
+
+type DraftBed = {
+  id?: string; // Set when editing an existing bed
+  name: string;
+  allTasks: boolean;
+  taskIds: string[];
+  intervalOverrides: Record<string, string>; // Kept as text so the inputs can be cleared
+  harvestDate: string;
+  profileId: string; // Empty for a program picked by hand
+};
+
+const emptyDraft: DraftBed = {
+  name: '',
+  allTasks: true,
+  taskIds: [],
+  intervalOverrides: {},
+  harvestDate: '',
+  profileId: '',
+};
+
+export default function BedEditor({ beds, tasks, profiles, onSave, onApplyProfile }: BedEditorProps) {
+  const { t, plural, formatDays } = useI18n();
+  const [draft, setDraft] = useState<DraftBed | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEdit = (bed: Bed) => {
+    setError(null);
+    setDraft({
+      id: bed.id,
+      name: bed.name,
+      allTasks: !bed.taskIds,
+      taskIds: bed.taskIds ?? [],
+      intervalOverrides: Object.fromEntries(
+        Object.entries(bed.intervalOverrides ?? {}).map(([taskId, days]) => [taskId, String(days)])
+      ),
+      harvestDate: bed.harvestDate ?? '',
+      profileId: bed.profile?.id ?? '',
+    });
+  };
+
+  const toggleTask = (taskId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      taskIds: draft.taskIds.includes(taskId)
+        ? draft.taskIds.filter((id) => id !== taskId)
+        : [...draft.taskIds, taskId],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    if (!name) {
+      setError(t('bedEditor.error.name'));
+      return;
+    }
+
+    const intervalOverrides: Record<string, number> = {};
+    for (const [taskId, value] of Object.entries(draft.intervalOverrides)) {
+      if (!value.trim() || (!draft.allTasks && !draft.taskIds.includes(taskId))) continue;
+      const days = Number(value);
+      if (!Number.isInteger(days) || days <= 0) {
+        setError(t('bedEditor.error.interval'));
+        return;
+      }
+      intervalOverrides[taskId] = days;
+    }
+
+    const existing = beds.find((bed) => bed.id === draft.id);
+    // A newly picked profile sets the treatments, intervals and cycle days
+    const newProfile =
+      draft.profileId && draft.profileId !== existing?.profile?.id
+        ? profiles.find((profile) => profile.id === draft.profileId)
+        : undefined;
+    const bed: Bed = {
+      ...existing, // Keeps fields edited elsewhere, such as the season start
+      id: existing?.id ?? createBedId(name, beds),
+      name,
+      taskIds: draft.allTasks ? undefined : draft.taskIds,
+      intervalOverrides: Object.keys(intervalOverrides).length > 0 ? intervalOverrides : undefined,
+      harvestDate: draft.harvestDate || undefined,
+      profile: draft.profileId ? existing?.profile : undefined,
+      order: existing?.order ?? beds.reduce((max, b) => Math.max(max, b.order + 1), 0),
+    };
+
+    setIsSaving(true);
+    try {
+      if (newProfile) {
+        await onApplyProfile(bed, newProfile);
+      } else {
+        await onSave(bed);
+      }
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving bed:', err);
+      setError(t('bedEditor.error.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const profileName = (profileId: string) => profiles.find((p) => p.id === profileId)?.name ?? profileId;
+
+  // A profile picked in the form that the bed isn't set up with yet
+  const pickedProfile =
+    draft?.profileId && draft.profileId !== beds.find((bed) => bed.id === draft.id)?.profile?.id
+      ? profiles.find((profile) => profile.id === draft.profileId)
+      : undefined;
+
+  const handleUpdateProfile = async (bed: Bed, profile: PlantProfile) => {
+    const note = profile.changeNote ? `\n\n${profile.changeNote}` : '';
+    const message = t('bedEditor.confirmUpdate', { bed: bed.name, profile: profile.name, version: profile.version });
+    const edited = getEditedTaskIds(bed).map((taskId) => tasks.find((task) => task.id === taskId)?.label ?? taskId);
+    const kept =
+      edited.length > 0
+        ? t('bedEditor.keptEdits', { treatments: edited.join(', ') })
+        : t('bedEditor.replacesProgram');
+    if (!confirm(`${message}${note}\n\n${kept}`)) return;
+    try {
+      await onApplyProfile(bed, profile);
+    } catch (err) {
+      console.error('Error updating bed profile:', err);
+      setError(t('bedEditor.error.updateFailed'));
+    }
+  };
+
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-4">
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {beds.map((bed) => {
+          const update = getProfileUpdate(bed, profiles);
+          return (
+            <li
+              key={bed.id}
+              className="flex items-center gap-3 bg-zinc-900/50 p-3 rounded-lg border border-zinc-700"
+            >
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold text-gray-100 truncate">{bed.name}</div>
+                <div className="text-xs text-gray-400">
+                  {bed.taskIds ? plural('beds.treatments', bed.taskIds.length) : t('bedEditor.allTreatments')}
+                  {bed.intervalOverrides &&
+                    ` · ${plural('bedEditor.customIntervals', Object.keys(bed.intervalOverrides).length)}`}
+                  {bed.profile && ` · ${profileName(bed.profile.id)} v${bed.profile.version}`}
+                </div>
+              </div>
+              {update && (
+                <button
+                  onClick={() => handleUpdateProfile(bed, update)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-full text-xs text-lime-300 hover:bg-zinc-800"
+                  aria-label={t('bedEditor.updateLabel', { bed: bed.name })}
+                >
+                  <ArrowUpCircle className="w-4 h-4" /> {t('bedEditor.update')}
+                </button>
+              )}
+              <button
+                onClick={() => startEdit(bed)}
+                className="p-2 rounded-full text-gray-300 hover:text-emerald-300 hover:bg-zinc-800"
+                aria-label={t('bedEditor.edit', { bed: bed.name })}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <AnimatePresence mode="wait">
+        {draft ? (
+          <motion.form
+            key="bed-form"
+            onSubmit={handleSubmit}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="space-y-3 bg-zinc-900/50 p-4 rounded-xl border border-zinc-700"
+          >
+            <label className="block text-sm text-gray-300 space-y-1">
+              <span>{t('bedEditor.name')}</span>
+              <input
+                className={inputClass}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('bedEditor.namePlaceholder')}
+              />
+            </label>
+            <label className="block text-sm text-gray-300 space-y-1">
+              <span>{t('bedEditor.harvestDate')}</span>
+              <input
+                className={inputClass}
+                type="date"
+                value={draft.harvestDate}
+                onChange={(e) => setDraft({ ...draft, harvestDate: e.target.value })}
+              />
+            </label>
+            <label className="block text-sm text-gray-300 space-y-1">
+              <span>{t('bedEditor.profile')}</span>
+              <select
+                className={inputClass}
+                value={draft.profileId}
+                onChange={(e) => setDraft({ ...draft, profileId: e.target.value })}
+              >
+                <option value="">{t('bedEditor.noProfile')}</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name} (v{profile.version})
+                  </option>
+                ))}
+              </select>
+            </label>
+            {pickedProfile ? (
+              <p className="text-sm text-gray-400">
+                {plural('bedEditor.profileSetup', pickedProfile.treatments.length, { profile: pickedProfile.name })}
+              </p>
+            ) : (
+              <>
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.allTasks}
+                    onChange={(e) => setDraft({ ...draft, allTasks: e.target.checked })}
+                  />
+                  {t('bedEditor.allTasks')}
+                </label>
+                <ul className="space-y-2">
+                  {tasks.map((task) => {
+                    const isScheduled = draft.allTasks || draft.taskIds.includes(task.id);
+                    return (
+                      <li key={task.id} className="flex items-center gap-3 text-sm">
+                        <label className="flex-1 flex items-center gap-2 text-gray-300 min-w-0">
+                          <input
+                            type="checkbox"
+                            checked={isScheduled}
+                            disabled={draft.allTasks}
+                            onChange={() => toggleTask(task.id)}
+                          />
+                          <span className="truncate">{task.label}</span>
+                        </label>
+                        {task.applyIntervalDays !== undefined && (
+                          <input
+                            className={`${inputClass} w-28`}
+                            type="number"
+                            min={1}
+                            disabled={!isScheduled}
+                            value={draft.intervalOverrides[task.id] ?? ''}
+                            onChange={(e) =>
+                              setDraft({
+                                ...draft,
+                                intervalOverrides: { ...draft.intervalOverrides, [task.id]: e.target.value },
+                              })
+                            }
+                            placeholder={formatDays(task.applyIntervalDays)}
+                            aria-label={t('bedEditor.intervalFor', { task: task.label })}
+                          />
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-zinc-700 text-gray-200 text-sm font-semibold"
+              >
+                <X className="w-4 h-4" /> {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white text-sm font-semibold disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" /> {draft.id ? t('common.saveChanges') : t('bedEditor.add')}
+              </button>
+            </div>
+          </motion.form>
+        ) : (
+          <motion.button
+            key="bed-add"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => {
+              setError(null);
+              setDraft(emptyDraft);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-emerald-300 text-sm font-semibold hover:bg-zinc-700"
+          >
+            <Plus className="w-4 h-4" /> {t('bedEditor.new')}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
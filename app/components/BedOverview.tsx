@@ -0,0 +1,65 @@
+'use client';
+
+import { AlertTriangle, CheckCircle, ChevronRight } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+import type { Bed, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+export type BedSummary = {
+  bed: Bed;
+  overdueTasks: Task[];
+  scheduledCount: number;
+  appliedCount: number;
+};
+
+type BedOverviewProps = {
+  summaries: BedSummary[];
+  onSelect: (bedId: string) => void;
+};
+
+export default function BedOverview({ summaries, onSelect }: BedOverviewProps) {
+  const { t, plural } = useI18n();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 sm:gap-8">
+      {summaries.map(({ bed, overdueTasks, scheduledCount, appliedCount }, idx) => (
+        <motion.button
+          key={bed.id}
+          onClick={() => onSelect(bed.id)}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          whileHover={{ scale: 1.02 }}
+          transition={{ type: 'spring', stiffness: 100, damping: 10, delay: idx * 0.1 }}
+          className={`flex flex-col text-left bg-zinc-900/50 p-5 sm:p-6 rounded-xl sm:rounded-2xl border shadow-xl ${
+            overdueTasks.length > 0 ? 'border-red-800' : 'border-zinc-700'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-lg sm:text-xl text-gray-100 font-bold">{bed.name}</span>
+            <ChevronRight className="w-5 h-5 text-gray-500" />
+          </div>
+          <span className="text-sm text-gray-400 mt-1">
+            {plural('beds.treatments', scheduledCount)} · {plural('beds.applications', appliedCount)}
+          </span>
+          {overdueTasks.length > 0 ? (
+            <div className="mt-3 pt-3 border-t border-zinc-700 space-y-1">
+              <span className="flex items-center gap-2 text-sm font-semibold text-red-400">
+                <AlertTriangle className="w-4 h-4" /> {t('beds.overdue', { count: overdueTasks.length })}
+              </span>
+              <ul className="text-xs sm:text-sm text-red-300 space-y-0.5">
+                {overdueTasks.map((task) => (
+                  <li key={task.id}>{task.label}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <span className="mt-3 pt-3 border-t border-zinc-700 flex items-center gap-2 text-sm font-semibold text-emerald-400">
+              <CheckCircle className="w-4 h-4" /> {t('beds.nothingOverdue')}
+            </span>
+          )}
+        </motion.button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CalendarDays, Crown, KeyRound, Link2, LogOut, Trash2 } from 'lucide-react';
+import type { User } from 'firebase/auth';
+
+import { createApiToken, listApiTokens, revokeApiToken } from '../../lib/apiTokens';
+import { createInvite, getHouseholdMembers } from '../../lib/households';
+import type { ApiToken, ApiTokenScope, Household, HouseholdMember } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type HouseholdPanelProps = {
+  household: Household;
+  user: User;
+  onSignOut: () => void;
+};
+
+export default function HouseholdPanel({ household, user, onSignOut }: HouseholdPanelProps) {
+  const { t, formatDate, locale } = useI18n();
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [apiTokens, setApiTokens] = useState<ApiToken[]>([]);
+  const [newToken, setNewToken] = useState<{ token: string; scope: ApiTokenScope } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getHouseholdMembers(household.id)
+      .then(setMembers)
+      .catch((err) => console.error('Error fetching household members:', err));
+    listApiTokens(household.id)
+      .then(setApiTokens)
+      .catch((err) => console.error('Error fetching API tokens:', err));
+  }, [household.id]);
+
+  const handleInvite = async () => {
+    setError(null);
+    try {
+      const code = await createInvite(household.id, user);
+      const link = `${window.location.origin}${window.location.pathname}?invite=${code}`;
+      setInviteLink(link);
+      await navigator.clipboard?.writeText(link).catch(() => undefined);
+    } catch (err) {
+      console.error('Error creating invite:', err);
+      setError(t('household.inviteFailed'));
+    }
+  };
+
+  // Calendar tokens go in a feed URL, so they can only read the feed
+  const handleCreateToken = async (scope: ApiTokenScope) => {
+    const name = prompt(
+      t(scope === 'calendar' ? 'household.calendarNamePrompt' : 'household.tokenNamePrompt'),
+      t(scope === 'calendar' ? 'household.calendarNameDefault' : 'household.tokenNameDefault')
+    )?.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      const { token, apiToken } = await createApiToken(household.id, user, name, scope);
+      setApiTokens((prev) => [...prev, apiToken]);
+      setNewToken({ token, scope });
+    } catch (err) {
+      console.error('Error creating API token:', err);
+      setError(t('household.tokenFailed'));
+    }
+  };
+
+  const handleRevokeToken = async (apiToken: ApiToken) => {
+    if (!confirm(t('household.confirmRevoke', { name: apiToken.name }))) return;
+    try {
+      await revokeApiToken(apiToken.id);
+      setApiTokens((prev) => prev.filter((token) => token.id !== apiToken.id));
+    } catch (err) {
+      console.error('Error revoking API token:', err);
+      setError(t('household.revokeFailed'));
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-100">{household.name}</h3>
+          <p className="text-gray-400 mt-1">
+            {t('household.signedInAs', { name: user.email ?? user.displayName ?? '' })}
+          </p>
+        </div>
+        <button
+          onClick={onSignOut}
+          className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-700 text-gray-200 font-semibold"
+        >
+          <LogOut className="w-4 h-4" /> {t('household.signOut')}
+        </button>
+      </div>
+
+      <ul className="flex flex-wrap gap-2">
+        {members.map((member) => (
+          <li
+            key={member.uid}
+            className="flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-900/50 border border-zinc-700"
+          >
+            {member.role === 'owner' && <Crown className="w-3 h-3 text-amber-300" aria-label={t('household.owner')} />}
+            {member.name}
+            {member.uid === user.uid && <span className="text-gray-500">{t('household.you')}</span>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <button
+          onClick={handleInvite}
+          className="flex items-center gap-2 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+        >
+          <Link2 className="w-4 h-4" /> {t('household.createInvite')}
+        </button>
+        {inviteLink && (
+          <p className="text-gray-400">
+            {t('household.inviteCopied')}{' '}
+            <span className="text-emerald-300 break-all select-all">{inviteLink}</span>
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-semibold text-gray-200">{t('household.apiTokens')}</h4>
+        <p className="text-gray-400">
+          {t('household.apiTokensIntro')}{' '}
+          <code className="text-gray-300">Authorization: Bearer &lt;token&gt;</code>
+        </p>
+        <ul className="space-y-1">
+          {apiTokens.map((apiToken) => (
+            <li key={apiToken.id} className="flex items-center gap-2">
+              {apiToken.scope === 'calendar' ? (
+                <CalendarDays className="w-4 h-4 text-gray-500" aria-label={t('household.calendarLink')} />
+              ) : (
+                <KeyRound className="w-4 h-4 text-gray-500" />
+              )}
+              <span className="flex-1">{apiToken.name}</span>
+              <span className="text-xs text-gray-500">
+                {formatDate(apiToken.createdAtIso)}
+              </span>
+              <button
+                onClick={() => handleRevokeToken(apiToken)}
+                className="p-1 rounded-full text-gray-400 hover:text-red-300"
+                aria-label={t('household.revoke', { name: apiToken.name })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleCreateToken('full')}
+            className="flex items-center gap-2 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+          >
+            <KeyRound className="w-4 h-4" /> {t('household.createToken')}
+          </button>
+          <button
+            onClick={() => handleCreateToken('calendar')}
+            className="flex items-center gap-2 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+          >
+            <CalendarDays className="w-4 h-4" /> {t('household.createCalendarLink')}
+          </button>
+        </div>
+        {newToken?.scope === 'full' && (
+          <p className="text-gray-400">
+            {t('household.tokenShownOnce')}{' '}
+            <span className="text-emerald-300 break-all select-all">{newToken.token}</span>
+          </p>
+        )}
+        {newToken?.scope === 'calendar' && (
+          <p className="text-gray-400">
+            {t('household.calendarLinkShownOnce')}{' '}
+            <span className="text-emerald-300 break-all select-all">
+              {`${window.location.origin}/api/calendar?token=${newToken.token}&lang=${locale}`}
+            </span>
+          </p>
+        )}
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+import { createI18n, DEFAULT_LOCALE, defaultI18n, loadLocale, saveLocale, type I18n, type Locale } from '../../lib/i18n';
+
+type I18nContextValue = I18n & {
+  setLocale: (locale: Locale) => void;
+};
+
+const I18nContext = createContext<I18nContextValue>({ ...defaultI18n, setLocale: () => {} });
+
+// The language chosen on this device, for every component below it
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  // Starts in the default language so the first render matches the server's
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    setLocaleState(loadLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(
+    () => ({
+      ...createI18n(locale),
+      setLocale: (next: Locale) => {
+        saveLocale(next);
+        setLocaleState(next);
+      },
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = () => useContext(I18nContext);
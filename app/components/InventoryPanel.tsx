@@ -0,0 +1,407 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ClipboardCheck, PackagePlus, Pencil, Plus, Save, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+import type { I18n } from '../../lib/i18n';
+import { createProductId, type StockAdjustment, type StockProjection } from '../../lib/inventory';
+import type { Product, StockEntry, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type InventoryPanelProps = {
+  products: Product[]; // Including archived products
+  projections: Map<string, StockProjection>; // By product ID
+  tasks: Task[]; // Active catalog tasks a product can be used by
+  onSaveProduct: (product: Product) => Promise<void>;
+  onAddStockEntry: (entry: Omit<StockAdjustment, 'byName'>) => Promise<void>;
+  loadStockEntries: () => Promise<StockEntry[]>;
+};
+
+type DraftProduct = {
+  id?: string; // Set when editing an existing product
+  name: string;
+  unit: string;
+  taskIds: string[];
+  lowStockAt: string; // Kept as text so the inputs can be cleared
+  usualQuantity: string;
+};
+
+const emptyDraft: DraftProduct = { name: '', unit: 'ml', taskIds: [], lowStockAt: '', usualQuantity: '' };
+
+// Restocks and stock takes listed under the products
+const RECENT_ENTRIES = 10;
+
+// A positive amount entered in a prompt, or null when cancelled or invalid
+const promptQuantity = (message: string, { t }: I18n) => {
+  const value = prompt(message);
+  if (value === null || !value.trim()) return null;
+  const quantity = Number(value);
+  if (!Number.isFinite(quantity) || quantity < 0) {
+    alert(t('inventory.amountInvalid'));
+    return null;
+  }
+  return quantity;
+};
+
+export default function InventoryPanel({
+  products,
+  projections,
+  tasks,
+  onSaveProduct,
+  onAddStockEntry,
+  loadStockEntries,
+}: InventoryPanelProps) {
+  const i18n = useI18n();
+  const { t, plural, formatDate, formatQuantity } = i18n;
+  const [draft, setDraft] = useState<DraftProduct | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [entries, setEntries] = useState<StockEntry[]>([]);
+  const activeProducts = products.filter((product) => !product.archived);
+  const productById = new Map(products.map((product) => [product.id, product]));
+  const taskLabel = (taskId: string) => tasks.find((task) => task.id === taskId)?.label ?? taskId;
+
+  const refreshEntries = useCallback(() => {
+    loadStockEntries()
+      .then((all) => setEntries(all.filter((entry) => entry.kind !== 'use').slice(0, RECENT_ENTRIES)))
+      .catch((err) => console.error('Error loading stock entries:', err));
+  }, [loadStockEntries]);
+
+  useEffect(refreshEntries, [refreshEntries]);
+
+  const startEdit = (product: Product) => {
+    setError(null);
+    setDraft({
+      id: product.id,
+      name: product.name,
+      unit: product.unit,
+      taskIds: product.taskIds,
+      lowStockAt: product.lowStockAt !== undefined ? String(product.lowStockAt) : '',
+      usualQuantity: product.usualQuantity !== undefined ? String(product.usualQuantity) : '',
+    });
+  };
+
+  const toggleTask = (taskId: string) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      taskIds: draft.taskIds.includes(taskId)
+        ? draft.taskIds.filter((id) => id !== taskId)
+        : [...draft.taskIds, taskId],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const unit = draft.unit.trim();
+    if (!name || !unit) {
+      setError(t('inventory.nameUnitRequired'));
+      return;
+    }
+    const lowStockAt = draft.lowStockAt.trim() ? Number(draft.lowStockAt) : undefined;
+    const usualQuantity = draft.usualQuantity.trim() ? Number(draft.usualQuantity) : undefined;
+    if ([lowStockAt, usualQuantity].some((n) => n !== undefined && (!Number.isFinite(n) || n < 0))) {
+      setError(t('inventory.amountsInvalid'));
+      return;
+    }
+
+    const existing = products.find((product) => product.id === draft.id);
+    const product: Product = {
+      id: existing?.id ?? createProductId(name, products),
+      name,
+      unit,
+      taskIds: draft.taskIds,
+      lowStockAt,
+      usualQuantity: usualQuantity || undefined,
+      archived: existing?.archived,
+      order: existing?.order ?? products.reduce((max, p) => Math.max(max, p.order + 1), 0),
+    };
+
+    setIsSaving(true);
+    try {
+      await onSaveProduct(product);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving product:', err);
+      setError(t('inventory.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStockEntry = async (product: Product, kind: StockAdjustment['kind']) => {
+    const params = { product: product.name, unit: product.unit };
+    const quantity = promptQuantity(
+      t(kind === 'restock' ? 'inventory.promptRestock' : 'inventory.promptCount', params),
+      i18n
+    );
+    if (quantity === null) return;
+    const note = kind === 'restock' ? prompt(t('inventory.promptNote'), '')?.trim() : undefined;
+    try {
+      await onAddStockEntry({
+        productId: product.id,
+        kind,
+        quantity,
+        timestampIso: new Date().toISOString(),
+        note: note || undefined,
+      });
+      refreshEntries();
+    } catch (err) {
+      console.error('Error saving stock entry:', err);
+      alert(t('inventory.stockFailed'));
+    }
+  };
+
+  const handleToggleArchive = async (product: Product) => {
+    try {
+      await onSaveProduct({ ...product, archived: !product.archived });
+    } catch (err) {
+      console.error('Error archiving product:', err);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-4 text-sm text-gray-300">
+      {activeProducts.length === 0 && (
+        <p className="text-gray-400">{t('inventory.intro')}</p>
+      )}
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {activeProducts.map((product) => {
+          const projection = projections.get(product.id);
+          const onHand = projection?.onHand ?? 0;
+          return (
+            <li
+              key={product.id}
+              className={`bg-zinc-900/50 p-3 rounded-lg border ${
+                projection?.isLow ? 'border-amber-500/70' : 'border-zinc-700'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-gray-100 truncate">{product.name}</div>
+                  <div className="text-xs text-gray-400 truncate">
+                    {product.taskIds.length > 0
+                      ? product.taskIds.map(taskLabel).join(', ')
+                      : t('inventory.noTreatments')}
+                  </div>
+                </div>
+                <div
+                  className={`text-lg font-bold ${projection?.isLow ? 'text-amber-300' : 'text-emerald-300'}`}
+                >
+                  {formatQuantity(onHand, product.unit)}
+                </div>
+              </div>
+              <div className="mt-2 text-xs text-gray-400 space-y-0.5">
+                {projection?.applicationsLeft !== undefined ? (
+                  <div>
+                    {plural('inventory.runsOutIn', projection.applicationsLeft, {
+                      amount: formatQuantity(projection.perApplication ?? 0, product.unit),
+                    })}
+                  </div>
+                ) : (
+                  <div>{t('inventory.noUsage')}</div>
+                )}
+                {projection?.runsOut && (
+                  <div className={projection.isLow ? 'text-amber-300' : undefined}>
+                    {projection.isLow && <AlertTriangle className="inline w-3 h-3 mr-1" />}
+                    {t('inventory.notEnough', {
+                      task: taskLabel(projection.runsOut.taskId),
+                      date: formatDate(projection.runsOut.date),
+                    })}
+                  </div>
+                )}
+                {product.lowStockAt !== undefined && onHand <= product.lowStockAt && (
+                  <div className="text-amber-300">
+                    {t('inventory.atOrBelow', { amount: formatQuantity(product.lowStockAt, product.unit) })}
+                  </div>
+                )}
+              </div>
+              <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                <button
+                  onClick={() => handleStockEntry(product, 'restock')}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 hover:text-emerald-300"
+                >
+                  <PackagePlus className="w-3 h-3" /> {t('inventory.restock')}
+                </button>
+                <button
+                  onClick={() => handleStockEntry(product, 'count')}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 hover:text-emerald-300"
+                >
+                  <ClipboardCheck className="w-3 h-3" /> {t('inventory.stockTake')}
+                </button>
+                <button
+                  onClick={() => startEdit(product)}
+                  className="p-1 rounded-full text-gray-300 hover:text-emerald-300"
+                  aria-label={t('inventory.edit', { product: product.name })}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <AnimatePresence mode="wait">
+        {draft ? (
+          <motion.form
+            key="product-form"
+            onSubmit={handleSubmit}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="space-y-3 bg-zinc-900/50 p-4 rounded-xl border border-zinc-700"
+          >
+            <div className="grid grid-cols-3 gap-2">
+              <label className="col-span-2 block space-y-1">
+                <span>{t('inventory.name')}</span>
+                <input
+                  className={inputClass}
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder={t('inventory.namePlaceholder')}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span>{t('inventory.unit')}</span>
+                <input
+                  className={inputClass}
+                  value={draft.unit}
+                  onChange={(e) => setDraft({ ...draft, unit: e.target.value })}
+                  placeholder={t('inventory.unitPlaceholder')}
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <span>{t('inventory.lowStockAt')}</span>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft.lowStockAt}
+                  onChange={(e) => setDraft({ ...draft, lowStockAt: e.target.value })}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span>{t('inventory.usualQuantity')}</span>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={draft.usualQuantity}
+                  onChange={(e) => setDraft({ ...draft, usualQuantity: e.target.value })}
+                />
+              </label>
+            </div>
+            <fieldset className="space-y-1">
+              <legend className="mb-1">{t('inventory.usedBy')}</legend>
+              {tasks.map((task) => (
+                <label key={task.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={draft.taskIds.includes(task.id)}
+                    onChange={() => toggleTask(task.id)}
+                  />
+                  {task.label}
+                </label>
+              ))}
+            </fieldset>
+            {error && <p className="text-red-400">{error}</p>}
+            <div className="flex gap-2 justify-end">
+              {draft.id && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    const product = productById.get(draft.id ?? '');
+                    if (product) handleToggleArchive(product);
+                    setDraft(null);
+                  }}
+                  className="mr-auto px-4 py-2 rounded-full text-gray-400 hover:text-red-300"
+                >
+                  {t('inventory.archive')}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-zinc-700 text-gray-200 font-semibold"
+              >
+                <X className="w-4 h-4" /> {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" /> {draft.id ? t('common.saveChanges') : t('inventory.add')}
+              </button>
+            </div>
+          </motion.form>
+        ) : (
+          <motion.button
+            key="product-add"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => {
+              setError(null);
+              setDraft(emptyDraft);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-emerald-300 font-semibold hover:bg-zinc-700"
+          >
+            <Plus className="w-4 h-4" /> {t('inventory.new')}
+          </motion.button>
+        )}
+      </AnimatePresence>
+
+      {products.some((product) => product.archived) && (
+        <div className="space-y-1">
+          <h4 className="font-semibold text-gray-200">{t('inventory.archived')}</h4>
+          {products
+            .filter((product) => product.archived)
+            .map((product) => (
+              <div key={product.id} className="flex items-center gap-2 text-gray-400">
+                <span className="flex-1">{product.name}</span>
+                <button onClick={() => handleToggleArchive(product)} className="hover:text-emerald-300 underline">
+                  {t('inventory.restore')}
+                </button>
+              </div>
+            ))}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="space-y-1">
+          <h4 className="font-semibold text-gray-200">{t('inventory.recentEntries')}</h4>
+          <ul className="space-y-1 text-xs text-gray-400">
+            {entries.map((entry) => {
+              const product = productById.get(entry.productId);
+              return (
+                <li key={entry.id}>
+                  {formatDate(entry.timestampIso)} ·{' '}
+                  {t(entry.kind === 'restock' ? 'inventory.bought' : 'inventory.counted', {
+                    amount: formatQuantity(entry.quantity, product?.unit),
+                    product: product?.name ?? entry.productId,
+                  })}
+                  {entry.byName && ` · ${entry.byName}`}
+                  {entry.note && ` · ${entry.note}`}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Camera, Loader2, Sparkles, Trash2 } from 'lucide-react';
+
+import { describeApplicationDetails } from '../../lib/applicationDetails';
+import { getEventBedId } from '../../lib/beds';
+import { buildJournal, type PhotoStore } from '../../lib/photos';
+import type { ApplicationEvent, Bed, Observation, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+import PhotoThumbnail from './PhotoThumbnail';
+
+export type ObservationEntry = Pick<Observation, 'bedId' | 'taskId' | 'applicationId' | 'note'>;
+
+type PhotoJournalProps = {
+  beds: Bed[];
+  activeBedId?: string; // The bed whose timeline is shown; every bed when missing
+  tasks: Task[];
+  applications: ApplicationEvent[];
+  observations: Observation[] | null; // Null while loading
+  store: PhotoStore;
+  getEventTaskLabel: (event: ApplicationEvent) => string;
+  onAdd: (entry: ObservationEntry, files: File[]) => Promise<void>;
+  onDelete: (observation: Observation) => Promise<void>;
+};
+
+// Photos of how the plants look, on their own or taken with an application, in one timeline
+export default function PhotoJournal({
+  beds,
+  activeBedId,
+  tasks,
+  applications,
+  observations,
+  store,
+  getEventTaskLabel,
+  onAdd,
+  onDelete,
+}: PhotoJournalProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [bedId, setBedId] = useState(activeBedId ?? beds[0]?.id ?? '');
+  const [taskId, setTaskId] = useState('');
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0); // Bumped to clear the file input
+  const [filterTaskId, setFilterTaskId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bedNameById = useMemo(() => new Map(beds.map((bed) => [bed.id, bed.name])), [beds]);
+  const taskLabel = (id?: string) => tasks.find((task) => task.id === id)?.label ?? '';
+
+  const entries = useMemo(
+    () =>
+      buildJournal({
+        applications,
+        observations: observations ?? [],
+        tasks,
+        bedId: activeBedId,
+        taskId: filterTaskId || undefined,
+      }),
+    [applications, observations, tasks, activeBedId, filterTaskId]
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bedId) {
+      setError(t('journal.chooseBed'));
+      return;
+    }
+    if (files.length === 0 && !note.trim()) {
+      setError(t('journal.addPhotoOrNote'));
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await onAdd({ bedId, taskId: taskId || undefined, note: note.trim() || undefined }, files);
+      setNote('');
+      setFiles([]);
+      setFileInputKey((key) => key + 1);
+    } catch (err) {
+      console.error('Error saving observation:', err);
+      setError(t('journal.saveFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (observation: Observation) => {
+    if (!confirm(t('journal.confirmDelete'))) return;
+    try {
+      await onDelete(observation);
+    } catch (err) {
+      console.error('Error deleting observation:', err);
+      alert(t('journal.deleteFailed'));
+    }
+  };
+
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-6 text-sm text-gray-300">
+      <form onSubmit={handleSubmit} className="space-y-3 bg-zinc-900/50 p-4 rounded-lg border border-zinc-700">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="block space-y-1">
+            <span>{t('journal.bed')}</span>
+            <select className={inputClass} value={bedId} onChange={(e) => setBedId(e.target.value)}>
+              {beds.map((bed) => (
+                <option key={bed.id} value={bed.id}>
+                  {bed.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span>{t('journal.about')}</span>
+            <select className={inputClass} value={taskId} onChange={(e) => setTaskId(e.target.value)}>
+              <option value="">{t('journal.aboutPlants')}</option>
+              {tasks
+                .filter((task) => !task.archived)
+                .map((task) => (
+                  <option key={task.id} value={task.id}>
+                    {task.label}
+                  </option>
+                ))}
+            </select>
+          </label>
+        </div>
+        <label className="block space-y-1">
+          <span>{t('journal.note')}</span>
+          <textarea
+            className={`${inputClass} min-h-20`}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t('journal.notePlaceholder')}
+          />
+        </label>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <input
+            key={fileInputKey}
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            onChange={(e) => setFiles([...(e.target.files ?? [])])}
+            className="text-xs text-gray-400 file:mr-3 file:px-3 file:py-1 file:rounded-full file:border-0 file:bg-zinc-800 file:text-gray-200"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Camera className="w-4 h-4" />}{' '}
+            {t('journal.add')}
+          </button>
+        </div>
+        {error && <p className="text-red-400">{error}</p>}
+      </form>
+
+      <div className="flex items-center gap-2">
+        <span className="text-gray-400">{t('journal.timelineOf')}</span>
+        <select
+          className={`${inputClass} w-auto`}
+          value={filterTaskId}
+          onChange={(e) => setFilterTaskId(e.target.value)}
+          aria-label={t('journal.treatment')}
+        >
+          <option value="">{t('journal.everyTreatment')}</option>
+          {tasks.map((task) => (
+            <option key={task.id} value={task.id}>
+              {task.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {!observations ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-gray-400 text-center">{t('journal.empty')}</p>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) =>
+            entry.kind === 'application' ? (
+              <li key={`application-${entry.event.id}`} className="bg-zinc-900/50 p-3 rounded-lg border border-zinc-700">
+                <div className="flex flex-wrap items-baseline gap-2">
+                  <Sparkles className="w-4 h-4 text-emerald-300 self-center" />
+                  <span className="font-semibold text-gray-100">{getEventTaskLabel(entry.event)}</span>
+                  <span className="text-xs text-gray-400">
+                    {i18n.formatDateTime(entry.timestampIso)}
+                    {!activeBedId && ` · ${bedNameById.get(getEventBedId(entry.event)) ?? ''}`}
+                    {entry.event.loggedByName && ` · ${entry.event.loggedByName}`}
+                  </span>
+                </div>
+                {describeApplicationDetails(entry.event, i18n).length > 0 && (
+                  <div className="text-xs text-gray-400 mt-1">
+                    {describeApplicationDetails(entry.event, i18n).join(' · ')}
+                  </div>
+                )}
+                {(entry.before || entry.photos.length > 0 || entry.after) && (
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    {entry.before && (
+                      <PhotoThumbnail
+                        photo={entry.before.photos[0]}
+                        store={store}
+                        size="large"
+                        caption={t('journal.before', { date: i18n.formatMonthDay(entry.before.timestampIso) })}
+                      />
+                    )}
+                    {entry.photos.map((photo) => (
+                      <PhotoThumbnail
+                        key={photo.path}
+                        photo={photo}
+                        store={store}
+                        size="large"
+                        caption={t('journal.atTreatment')}
+                      />
+                    ))}
+                    {entry.after && (
+                      <PhotoThumbnail
+                        photo={entry.after.photos[0]}
+                        store={store}
+                        size="large"
+                        caption={t('journal.after', { date: i18n.formatMonthDay(entry.after.timestampIso) })}
+                      />
+                    )}
+                  </div>
+                )}
+              </li>
+            ) : (
+              <li
+                key={`observation-${entry.observation.id}`}
+                className="bg-zinc-900/50 p-3 rounded-lg border border-zinc-700"
+              >
+                <div className="flex flex-wrap items-baseline gap-2">
+                  <Camera className="w-4 h-4 text-lime-300 self-center" />
+                  <span className="font-semibold text-gray-100">
+                    {taskLabel(entry.observation.taskId) || t('journal.observation')}
+                  </span>
+                  <span className="flex-1 text-xs text-gray-400">
+                    {i18n.formatDateTime(entry.timestampIso)}
+                    {!activeBedId && ` · ${bedNameById.get(entry.observation.bedId) ?? ''}`}
+                    {entry.observation.byName && ` · ${entry.observation.byName}`}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(entry.observation)}
+                    className="p-1 rounded-full text-gray-400 hover:text-red-400"
+                    aria-label={t('journal.deleteEntry')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {entry.observation.note && (
+                  <p className="mt-1 italic whitespace-pre-line">{entry.observation.note}</p>
+                )}
+                {entry.observation.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    {entry.observation.photos.map((photo) => (
+                      <PhotoThumbnail key={photo.path} photo={photo} store={store} size="large" />
+                    ))}
+                  </div>
+                )}
+              </li>
+            )
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { ImageOff, Loader2 } from 'lucide-react';
+
+import type { PhotoStore } from '../../lib/photos';
+import type { PhotoRef } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type PhotoThumbnailProps = {
+  photo: PhotoRef;
+  store: PhotoStore;
+  size?: 'small' | 'large';
+  caption?: string; // Under the photo, e.g. "Before"
+};
+
+// A journal photo, opening full size in a new tab
+export default function PhotoThumbnail({ photo, store, size = 'small', caption }: PhotoThumbnailProps) {
+  const { t } = useI18n();
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .getUrl(photo.path)
+      .then((photoUrl) => {
+        if (!cancelled) setUrl(photoUrl);
+      })
+      .catch((error) => {
+        console.error('Error loading photo:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [photo.path, store]);
+
+  const box = size === 'large' ? 'w-32 h-32 sm:w-40 sm:h-40' : 'w-14 h-14';
+
+  return (
+    <figure className="flex-shrink-0 space-y-1">
+      <div
+        className={`${box} rounded-lg overflow-hidden bg-zinc-800 border border-zinc-700 flex items-center justify-center`}
+      >
+        {url ? (
+          <a href={url} target="_blank" rel="noreferrer">
+            {/* Storage and blob URLs are shown as they are: the photos were compressed on upload */}
+            <Image
+              unoptimized
+              src={url}
+              alt={caption ?? ''}
+              width={photo.width}
+              height={photo.height}
+              className="w-full h-full object-cover"
+            />
+          </a>
+        ) : failed ? (
+          <ImageOff className="w-4 h-4 text-gray-500" aria-label={t('photo.unavailable')} />
+        ) : (
+          <Loader2 className="w-4 h-4 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+        )}
+      </div>
+      {caption && <figcaption className="text-xs text-gray-400 text-center">{caption}</figcaption>}
+    </figure>
+  );
+}
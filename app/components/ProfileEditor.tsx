@@ -0,0 +1,260 @@
+'use client';
+
+import { useState } from 'react';
+import { Pencil, Plus, Save, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+import { useI18n } from './I18nProvider';
+import { parseCycleDay } from '../../lib/calendar';
+import { createProfileId, PROFILE_TASKS } from '../../lib/profiles';
+import type { PlantProfile, ProfileTreatment, Task } from '../../lib/types';
+
+type ProfileEditorProps = {
+  profiles: PlantProfile[];
+  tasks: Task[]; // Active catalog tasks a profile can use
+  onSave: (profile: PlantProfile) => Promise<void>;
+};
+
+type DraftTreatment = {
+  included: boolean;
+  applyIntervalDays: string; // Kept as text so the inputs can be cleared
+  cycleDay: string;
+};
+
+type DraftProfile = {
+  id?: string; // Set when editing an existing profile
+  name: string;
+  changeNote: string;
+  treatments: Record<string, DraftTreatment>; // By task ID
+};
+
+const toDraftTreatments = (treatments: ProfileTreatment[]) =>
+  Object.fromEntries(
+    treatments.map(({ taskId, applyIntervalDays, cycleDay }) => [
+      taskId,
+      {
+        included: true,
+        applyIntervalDays: applyIntervalDays !== undefined ? String(applyIntervalDays) : '',
+        cycleDay: cycleDay !== undefined ? String(cycleDay) : '',
+      },
+    ])
+  );
+
+const treatmentKey = (treatments: ProfileTreatment[]) =>
+  treatments.map((t) => `${t.taskId}:${t.applyIntervalDays ?? ''}:${t.cycleDay ?? ''}`).join('|');
+
+export default function ProfileEditor({ profiles, tasks, onSave }: ProfileEditorProps) {
+  const { t, formatDays } = useI18n();
+  const [draft, setDraft] = useState<DraftProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEdit = (profile: PlantProfile) => {
+    setError(null);
+    setDraft({ id: profile.id, name: profile.name, changeNote: '', treatments: toDraftTreatments(profile.treatments) });
+  };
+
+  const updateTreatment = (taskId: string, changes: Partial<DraftTreatment>) => {
+    if (!draft) return;
+    const current = draft.treatments[taskId] ?? { included: false, applyIntervalDays: '', cycleDay: '' };
+    setDraft({ ...draft, treatments: { ...draft.treatments, [taskId]: { ...current, ...changes } } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    if (!name) {
+      setError(t('profiles.error.name'));
+      return;
+    }
+
+    // Kept in the order of the profile, then of the catalog for tasks added to it
+    const existing = profiles.find((profile) => profile.id === draft.id);
+    const orderedIds = [
+      ...(existing?.treatments.map((treatment) => treatment.taskId) ?? []),
+      ...tasks.map((task) => task.id),
+    ].filter((taskId, index, ids) => ids.indexOf(taskId) === index && draft.treatments[taskId]?.included);
+
+    const treatments: ProfileTreatment[] = [];
+    for (const taskId of orderedIds) {
+      const { applyIntervalDays, cycleDay } = draft.treatments[taskId];
+      const interval = applyIntervalDays.trim() ? Number(applyIntervalDays) : undefined;
+      const day = cycleDay.trim() ? Number(cycleDay) : undefined;
+      if ([interval, day].some((n) => n !== undefined && (!Number.isInteger(n) || n <= 0))) {
+        setError(t('profiles.error.numbers'));
+        return;
+      }
+      treatments.push({ taskId, applyIntervalDays: interval, cycleDay: day });
+    }
+    if (treatments.length === 0) {
+      setError(t('profiles.error.noTreatments'));
+      return;
+    }
+
+    // Beds only see a new version when the program itself changes
+    const changed = !existing || treatmentKey(existing.treatments) !== treatmentKey(treatments);
+    const profile: PlantProfile = {
+      id: existing?.id ?? createProfileId(name, profiles),
+      name,
+      treatments,
+      version: existing ? existing.version + (changed ? 1 : 0) : 1,
+      changeNote: changed ? draft.changeNote.trim() || undefined : existing?.changeNote,
+      updatedAtIso: changed ? new Date().toISOString() : (existing?.updatedAtIso ?? new Date().toISOString()),
+      order: existing?.order ?? profiles.reduce((max, p) => Math.max(max, p.order + 1), 0),
+    };
+
+    setIsSaving(true);
+    try {
+      await onSave(profile);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving profile:', err);
+      setError(t('profiles.error.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Tasks of the default profiles may not be in the catalog yet
+  const taskLabel = (taskId: string) =>
+    [...tasks, ...PROFILE_TASKS].find((task) => task.id === taskId)?.label ?? taskId;
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-4">
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {profiles.map((profile) => (
+          <li
+            key={profile.id}
+            className="flex items-center gap-3 bg-zinc-900/50 p-3 rounded-lg border border-zinc-700"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold text-gray-100 truncate">
+                {profile.name} <span className="text-xs font-normal text-gray-400">v{profile.version}</span>
+              </div>
+              <div className="text-xs text-gray-400 truncate">
+                {profile.treatments.map((treatment) => taskLabel(treatment.taskId)).join(', ')}
+              </div>
+            </div>
+            <button
+              onClick={() => startEdit(profile)}
+              className="p-2 rounded-full text-gray-300 hover:text-emerald-300 hover:bg-zinc-800"
+              aria-label={t('profiles.edit', { profile: profile.name })}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <AnimatePresence mode="wait">
+        {draft ? (
+          <motion.form
+            key="profile-form"
+            onSubmit={handleSubmit}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="space-y-3 bg-zinc-900/50 p-4 rounded-xl border border-zinc-700"
+          >
+            <label className="block text-sm text-gray-300 space-y-1">
+              <span>{t('profiles.name')}</span>
+              <input
+                className={inputClass}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder={t('profiles.namePlaceholder')}
+              />
+            </label>
+            <ul className="space-y-2">
+              {tasks.map((task) => {
+                const treatment = draft.treatments[task.id];
+                const included = !!treatment?.included;
+                return (
+                  <li key={task.id} className="flex items-center gap-2 text-sm">
+                    <label className="flex-1 flex items-center gap-2 text-gray-300 min-w-0">
+                      <input
+                        type="checkbox"
+                        checked={included}
+                        onChange={(e) => updateTreatment(task.id, { included: e.target.checked })}
+                      />
+                      <span className="truncate">{task.label}</span>
+                    </label>
+                    <input
+                      className={`${inputClass} w-24`}
+                      type="number"
+                      min={1}
+                      disabled={!included}
+                      value={treatment?.applyIntervalDays ?? ''}
+                      onChange={(e) => updateTreatment(task.id, { applyIntervalDays: e.target.value })}
+                      placeholder={
+                        task.applyIntervalDays !== undefined ? formatDays(task.applyIntervalDays) : t('profiles.once')
+                      }
+                      aria-label={t('profiles.intervalFor', { task: task.label })}
+                    />
+                    <input
+                      className={`${inputClass} w-24`}
+                      type="number"
+                      min={1}
+                      disabled={!included}
+                      value={treatment?.cycleDay ?? ''}
+                      onChange={(e) => updateTreatment(task.id, { cycleDay: e.target.value })}
+                      placeholder={t('profiles.cycleDayPlaceholder', { day: parseCycleDay(task.dayLabel) ?? '–' })}
+                      aria-label={t('profiles.cycleDayFor', { task: task.label })}
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+            {draft.id && (
+              <label className="block text-sm text-gray-300 space-y-1">
+                <span>{t('profiles.changeNote')}</span>
+                <input
+                  className={inputClass}
+                  value={draft.changeNote}
+                  onChange={(e) => setDraft({ ...draft, changeNote: e.target.value })}
+                  placeholder={t('profiles.changeNotePlaceholder')}
+                />
+              </label>
+            )}
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-zinc-700 text-gray-200 text-sm font-semibold"
+              >
+                <X className="w-4 h-4" /> {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white text-sm font-semibold disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" /> {draft.id ? t('common.saveChanges') : t('profiles.add')}
+              </button>
+            </div>
+          </motion.form>
+        ) : (
+          <motion.button
+            key="profile-add"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => {
+              setError(null);
+              setDraft({ name: '', changeNote: '', treatments: {} });
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-emerald-300 text-sm font-semibold hover:bg-zinc-700"
+          >
+            <Plus className="w-4 h-4" /> {t('profiles.new')}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { Bell, BellOff, Send } from 'lucide-react';
+
+import { useI18n } from './I18nProvider';
+import type { ReminderSettings } from '../../lib/reminders';
+
+type ReminderSettingsPanelProps = {
+  settings: ReminderSettings;
+  permission: NotificationPermission | 'unsupported';
+  inBackground: boolean; // Whether the service worker sends reminders while the app is closed
+  onChange: (settings: ReminderSettings) => void;
+  onTest: () => void;
+};
+
+export default function ReminderSettingsPanel({
+  settings,
+  permission,
+  inBackground,
+  onChange,
+  onTest,
+}: ReminderSettingsPanelProps) {
+  const { t } = useI18n();
+  const inputClass =
+    'bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-1 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-4 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-100 flex items-center gap-2">
+            {settings.enabled ? (
+              <Bell className="w-5 h-5 text-lime-400" />
+            ) : (
+              <BellOff className="w-5 h-5 text-gray-500" />
+            )}
+            {t('reminders.title')}
+          </h3>
+          <p className="text-gray-400 mt-1">{t('reminders.description', { manage: t('schedule.manageTreatments') })}</p>
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          className={`px-4 py-2 rounded-full font-semibold disabled:opacity-50 ${
+            settings.enabled
+              ? 'bg-zinc-700 text-gray-200'
+              : 'bg-gradient-to-r from-emerald-600 to-green-700 text-white'
+          }`}
+        >
+          {settings.enabled ? t('reminders.turnOff') : t('reminders.turnOn')}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <p className="text-gray-400">
+          {inBackground ? t('reminders.inBackground') : t('reminders.whileOpen')}
+        </p>
+      )}
+      {permission === 'unsupported' && (
+        <p className="text-amber-300">{t('reminders.unsupported')}</p>
+      )}
+      {permission === 'denied' && (
+        <p className="text-amber-300">{t('reminders.blocked')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!settings.quietHours}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                quietHours: e.target.checked ? { start: '21:00', end: '07:00' } : undefined,
+              })
+            }
+          />
+          {t('reminders.quietHours')}
+        </label>
+        {settings.quietHours && (
+          <>
+            <input
+              type="time"
+              className={inputClass}
+              value={settings.quietHours.start}
+              onChange={(e) =>
+                settings.quietHours &&
+                onChange({ ...settings, quietHours: { ...settings.quietHours, start: e.target.value } })
+              }
+              aria-label={t('reminders.quietStart')}
+            />
+            <span>{t('common.to')}</span>
+            <input
+              type="time"
+              className={inputClass}
+              value={settings.quietHours.end}
+              onChange={(e) =>
+                settings.quietHours &&
+                onChange({ ...settings, quietHours: { ...settings.quietHours, end: e.target.value } })
+              }
+              aria-label={t('reminders.quietEnd')}
+            />
+          </>
+        )}
+      </div>
+
+      {settings.enabled && (
+        <button
+          onClick={onTest}
+          className="flex items-center gap-2 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+        >
+          <Send className="w-4 h-4" /> {t('reminders.test')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Archive, ChevronDown, ChevronUp, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+
+import { describeApplicationDetails } from '../../lib/applicationDetails';
+import { getEventBedId } from '../../lib/beds';
+import { resolveEventTaskId } from '../../lib/taskCatalog';
+import type { ApplicationEvent, SeasonArchive, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type SeasonArchivePanelProps = {
+  seasons: SeasonArchive[] | null; // Null while loading
+  tasks: Task[];
+  bedNameById: Map<string, string>;
+  getEventTaskLabel: (event: ApplicationEvent) => string;
+  loadCurrent: () => Promise<ApplicationEvent[]>; // The season in progress
+  loadSeason: (seasonId: string) => Promise<ApplicationEvent[]>;
+  onCloseSeason: () => Promise<void>;
+  onRestore: (season: SeasonArchive) => Promise<void>;
+  onPurge?: () => Promise<void>; // Only for the household's owner
+};
+
+// The season in progress, next to the closed ones in the comparison
+const CURRENT = 'current';
+
+// Seasons compared side by side, besides the current one
+const MAX_COMPARED = 3;
+
+export default function SeasonArchivePanel({
+  seasons,
+  tasks,
+  bedNameById,
+  getEventTaskLabel,
+  loadCurrent,
+  loadSeason,
+  onCloseSeason,
+  onRestore,
+  onPurge,
+}: SeasonArchivePanelProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const formatDate = (iso?: string) => (iso ? i18n.formatDate(iso) : '–');
+  // Applications loaded so far, by season ID or CURRENT
+  const [loaded, setLoaded] = useState<Record<string, ApplicationEvent[]>>({});
+  const [browsingId, setBrowsingId] = useState<string | null>(null);
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const needed = useMemo(
+    () => [...comparedIds, ...(comparedIds.length > 0 ? [CURRENT] : []), ...(browsingId ? [browsingId] : [])],
+    [comparedIds, browsingId]
+  );
+
+  useEffect(() => {
+    needed
+      .filter((id) => !loaded[id])
+      .forEach((id) => {
+        (id === CURRENT ? loadCurrent() : loadSeason(id))
+          .then((events) => setLoaded((prev) => ({ ...prev, [id]: events })))
+          .catch((err) => {
+            console.error('Error loading season:', err);
+            setFailed(true);
+          });
+      });
+  }, [needed, loaded, loadCurrent, loadSeason]);
+
+  // Applications per task in each compared season, most applied first
+  const comparison = useMemo(() => {
+    const columns = [CURRENT, ...comparedIds];
+    const counts = new Map<string, Record<string, number>>();
+    columns.forEach((column) => {
+      (loaded[column] ?? []).forEach((event) => {
+        const key = resolveEventTaskId(event, tasks) ?? event.label;
+        const row = counts.get(key) ?? {};
+        row[column] = (row[column] ?? 0) + 1;
+        counts.set(key, row);
+      });
+    });
+    return [...counts.entries()]
+      .map(([key, row]) => ({
+        key,
+        label: tasks.find((task) => task.id === key)?.label ?? key,
+        row,
+      }))
+      .sort((a, b) => (b.row[CURRENT] ?? 0) - (a.row[CURRENT] ?? 0) || a.label.localeCompare(b.label));
+  }, [loaded, comparedIds, tasks]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setFailed(false);
+    try {
+      await action();
+      // Whatever was loaded may have moved between seasons
+      setLoaded({});
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleCompared = (seasonId: string) => {
+    setComparedIds((prev) =>
+      prev.includes(seasonId)
+        ? prev.filter((id) => id !== seasonId)
+        : [...prev, seasonId].slice(-MAX_COMPARED)
+    );
+  };
+
+  const seasonName = (id: string) =>
+    id === CURRENT ? t('season.current') : seasons?.find((season) => season.id === id)?.name ?? id;
+
+  return (
+    <div className="space-y-6 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-gray-400">{t('season.intro')}</p>
+        <button
+          onClick={() => run(onCloseSeason)}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold disabled:opacity-50"
+        >
+          <Archive className="w-4 h-4" /> {t('season.close')}
+        </button>
+      </div>
+      {failed && <p className="text-red-400">{t('season.loadFailed')}</p>}
+
+      {!seasons ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+        </div>
+      ) : seasons.length === 0 ? (
+        <p className="text-gray-400 text-center">{t('season.none')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {seasons.map((season) => (
+            <li key={season.id} className="bg-zinc-900/50 p-3 rounded-lg border border-zinc-700">
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold text-gray-100 truncate">{season.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {formatDate(season.firstAppliedIso)} – {formatDate(season.lastAppliedIso)} ·{' '}
+                    {i18n.plural('beds.applications', season.applicationCount)} ·{' '}
+                    {season.closedByName
+                      ? t('season.closedOnBy', { date: formatDate(season.closedAtIso), name: season.closedByName })
+                      : t('season.closedOn', { date: formatDate(season.closedAtIso) })}
+                  </div>
+                </div>
+                <label className="flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={comparedIds.includes(season.id)}
+                    onChange={() => toggleCompared(season.id)}
+                  />
+                  {t('season.compare')}
+                </label>
+                <button
+                  onClick={() => setBrowsingId((prev) => (prev === season.id ? null : season.id))}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-xs hover:text-emerald-300"
+                >
+                  {browsingId === season.id ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                  {t('season.browse')}
+                </button>
+                <button
+                  onClick={() => run(() => onRestore(season))}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-xs hover:text-emerald-300 disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3 h-3" /> {t('season.restore')}
+                </button>
+              </div>
+              {browsingId === season.id &&
+                (loaded[season.id] ? (
+                  <ul className="mt-3 max-h-72 overflow-y-auto space-y-1 text-xs text-gray-400">
+                    {loaded[season.id].map((event) => (
+                      <li key={event.id} className="flex gap-2">
+                        <span className="w-24 shrink-0">{formatDate(event.timestampIso)}</span>
+                        <span className="flex-1 text-gray-300">
+                          {[getEventTaskLabel(event), ...describeApplicationDetails(event, i18n)].join(' · ')}
+                        </span>
+                        <span>{bedNameById.get(getEventBedId(event)) ?? ''}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <Loader2 className="mt-3 w-4 h-4 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+                ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {comparedIds.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-400 border-b border-zinc-700">
+              <tr>
+                <th className="font-medium py-2 pr-3">{t('common.treatment')}</th>
+                {[CURRENT, ...comparedIds].map((id) => (
+                  <th key={id} className="font-medium py-2 px-2 text-right">
+                    {seasonName(id)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(({ key, label, row }) => (
+                <tr key={key} className="border-b border-zinc-800">
+                  <td className="py-2 pr-3">{label}</td>
+                  {[CURRENT, ...comparedIds].map((id) => (
+                    <td key={id} className="py-2 px-2 text-right">
+                      {loaded[id] ? i18n.formatNumber(row[id] ?? 0) : '…'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {onPurge && (
+        <div className="pt-4 border-t border-zinc-700 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-gray-400">{t('season.purgeIntro')}</p>
+          <button
+            onClick={() => run(onPurge)}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-red-700 text-white font-semibold disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" /> {t('season.purge')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Mail, Sprout } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+} from 'firebase/auth';
+
+import { useI18n } from './I18nProvider';
+import { auth } from '../../lib/firebase';
+
+// Remembers the address a sign-in link was sent to, for when the link is opened
+const EMAIL_STORAGE_KEY = 'gardenify.emailForSignIn';
+// Query parameters Firebase adds to email sign-in links
+const EMAIL_LINK_PARAMS = ['apiKey', 'oobCode', 'mode', 'lang', 'continueUrl'];
+
+type SignInProps = {
+  isInvite: boolean; // Opened from an invite link
+};
+
+export default function SignIn({ isInvite }: SignInProps) {
+  const { t } = useI18n();
+  // The current language, for finishing a sign-in that only starts once
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Finish signing in when the page was opened from an emailed link
+  useEffect(() => {
+    const href = window.location.href;
+    if (!isSignInWithEmailLink(auth, href)) return;
+
+    const storedEmail =
+      localStorage.getItem(EMAIL_STORAGE_KEY) ?? prompt(tRef.current('signIn.confirmEmail'));
+    if (!storedEmail) return;
+
+    signInWithEmailLink(auth, storedEmail, href)
+      .then(() => {
+        localStorage.removeItem(EMAIL_STORAGE_KEY);
+        // Drop the one-time code from the address bar, keeping anything else (like an invite)
+        const url = new URL(href);
+        EMAIL_LINK_PARAMS.forEach((param) => url.searchParams.delete(param));
+        window.history.replaceState(null, '', url);
+      })
+      .catch((err) => {
+        console.error('Error completing email sign-in:', err);
+        setError(tRef.current('signIn.linkInvalid'));
+      });
+  }, []);
+
+  const handleGoogle = async () => {
+    setError(null);
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider());
+    } catch (err) {
+      console.error('Error signing in with Google:', err);
+      setError(t('signIn.googleFailed'));
+    }
+  };
+
+  const handleEmailLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = email.trim();
+    if (!address) return;
+    setError(null);
+    try {
+      // The link comes back to this page, so an invite in the address is kept
+      await sendSignInLinkToEmail(auth, address, { url: window.location.href, handleCodeInApp: true });
+      localStorage.setItem(EMAIL_STORAGE_KEY, address);
+      setSentTo(address);
+    } catch (err) {
+      console.error('Error sending sign-in link:', err);
+      setError(t('signIn.sendFailed'));
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-gray-900 to-zinc-950 flex items-center justify-center px-4 text-gray-100">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ type: 'spring', stiffness: 100, damping: 10 }}
+        className="w-full max-w-md bg-zinc-800/60 p-6 sm:p-8 rounded-2xl border border-zinc-700 shadow-2xl space-y-5"
+      >
+        <h1 className="text-3xl font-extrabold text-emerald-400 flex items-center justify-center gap-2">
+          <Sprout className="w-8 h-8 text-lime-400" />
+          Gardenify
+        </h1>
+        <p className="text-center text-gray-400">
+          {isInvite ? t('signIn.invite') : t('signIn.intro')}
+        </p>
+
+        <button
+          onClick={handleGoogle}
+          className="w-full px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold shadow-lg"
+        >
+          {t('signIn.google')}
+        </button>
+
+        <div className="flex items-center gap-3 text-xs text-gray-500">
+          <span className="flex-1 border-t border-zinc-700" />
+          {t('signIn.or')}
+          <span className="flex-1 border-t border-zinc-700" />
+        </div>
+
+        {sentTo ? (
+          <p className="text-sm text-emerald-300 text-center">
+            {t('signIn.sent', { email: sentTo })}
+          </p>
+        ) : (
+          <form onSubmit={handleEmailLink} className="flex gap-2">
+            <input
+              type="email"
+              className="flex-1 bg-zinc-900/70 border border-zinc-700 rounded-full px-4 py-2 text-gray-100 focus:outline-none focus:border-emerald-500"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              aria-label={t('signIn.email')}
+            />
+            <button
+              type="submit"
+              className="flex items-center gap-1 px-4 py-2 rounded-full bg-zinc-700 text-gray-100 text-sm font-semibold hover:bg-zinc-600"
+            >
+              <Mail className="w-4 h-4" /> {t('signIn.emailLink')}
+            </button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-400 text-center">{error}</p>}
+      </motion.div>
+    </main>
+  );
+}
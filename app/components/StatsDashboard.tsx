@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+import { computeTaskStats, countByMonth, totalUsage } from '../../lib/analytics';
+import { getEventBedId } from '../../lib/beds';
+import { addDays, fromDateKey } from '../../lib/calendar';
+import { hasSchedule } from '../../lib/recurrence';
+import type { ApplicationEvent, Bed, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type StatsPeriod = 'season' | '90d' | '12m' | 'all';
+
+type StatsDashboardProps = {
+  beds: Bed[]; // The selected bed, or every bed
+  tasks: Task[];
+  today: Date;
+  loadApplications: () => Promise<ApplicationEvent[]>; // The full history
+};
+
+const PERIODS: StatsPeriod[] = ['season', '90d', '12m', 'all'];
+
+export default function StatsDashboard({ beds, tasks, today, loadApplications }: StatsDashboardProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [applications, setApplications] = useState<ApplicationEvent[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const seasonStart = beds.length === 1 ? beds[0].seasonStart : undefined;
+  const [period, setPeriod] = useState<StatsPeriod>(seasonStart ? 'season' : '12m');
+
+  useEffect(() => {
+    loadApplications()
+      .then(setApplications)
+      .catch((err) => {
+        console.error('Error loading history for stats:', err);
+        setFailed(true);
+      });
+  }, [loadApplications]);
+
+  const from = useMemo(() => {
+    switch (period) {
+      case 'season':
+        return seasonStart ? fromDateKey(seasonStart) : undefined;
+      case '90d':
+        return addDays(today, -90);
+      case '12m':
+        return addDays(today, -365);
+      default:
+        return undefined;
+    }
+  }, [period, seasonStart, today]);
+
+  const bedApplications = useMemo(() => {
+    const bedIds = new Set(beds.map((bed) => bed.id));
+    return (applications ?? []).filter((event) => bedIds.has(getEventBedId(event)));
+  }, [applications, beds]);
+
+  const taskStats = useMemo(
+    () => computeTaskStats({ applications: bedApplications, beds, tasks, from, today }),
+    [bedApplications, beds, tasks, from, today]
+  );
+  const months = useMemo(() => countByMonth(bedApplications, today, from), [bedApplications, today, from]);
+  const usage = useMemo(() => totalUsage(bedApplications, tasks, from), [bedApplications, tasks, from]);
+  const taskById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks]);
+  const maxMonthCount = Math.max(1, ...months.map((month) => month.count));
+
+  if (failed) {
+    return <p className="text-sm text-red-400 text-center">{t('history.loadFailed')}</p>;
+  }
+  if (!applications) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 text-emerald-300 animate-spin" aria-label={t('common.loading')} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-full p-1 w-fit">
+        {PERIODS.filter((p) => p !== 'season' || seasonStart).map((p) => (
+          <button
+            key={p}
+            onClick={() => setPeriod(p)}
+            className={`px-3 py-1 rounded-full ${
+              period === p ? 'bg-emerald-700 text-white' : 'text-gray-300 hover:text-emerald-300'
+            }`}
+          >
+            {t(`stats.period.${p}`)}
+          </button>
+        ))}
+      </div>
+
+      {/* Adherence per task */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-xs text-gray-400 border-b border-zinc-700">
+            <tr>
+              <th className="font-medium py-2 pr-3">{t('common.treatment')}</th>
+              <th className="font-medium py-2 px-2 text-right">{t('stats.applied')}</th>
+              <th className="font-medium py-2 px-2 text-right">{t('stats.onTime')}</th>
+              <th className="font-medium py-2 px-2 text-right">{t('stats.late')}</th>
+              <th className="font-medium py-2 px-2 text-right">{t('stats.averageInterval')}</th>
+              <th className="font-medium py-2 pl-2 text-right">{t('stats.longestOverdue')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {taskStats.map((stats) => {
+              const task = taskById.get(stats.taskId);
+              const scheduled = !!task && hasSchedule(task);
+              const rated = stats.onTime + stats.late;
+              return (
+                <tr key={stats.taskId} className="border-b border-zinc-800">
+                  <td className="py-2 pr-3 text-gray-100">{task?.label ?? stats.taskId}</td>
+                  <td className="py-2 px-2 text-right">{i18n.formatNumber(stats.applications)}</td>
+                  <td className="py-2 px-2 text-right text-emerald-300">
+                    {scheduled && rated > 0
+                      ? `${i18n.formatNumber(stats.onTime)} (${i18n.formatPercent(stats.onTime / rated)})`
+                      : '–'}
+                  </td>
+                  <td className="py-2 px-2 text-right text-red-300">
+                    {scheduled ? i18n.formatNumber(stats.late) : '–'}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    {stats.averageIntervalDays === null
+                      ? '–'
+                      : i18n.formatDays(Math.round(stats.averageIntervalDays * 10) / 10)}
+                    {task?.applyIntervalDays !== undefined && (
+                      <span className="text-gray-500"> / {i18n.formatDays(task.applyIntervalDays)}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pl-2 text-right text-amber-300">
+                    {scheduled && stats.longestOverdueDays > 0 ? i18n.formatDays(stats.longestOverdueDays) : '–'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {beds.length > 1 && (
+          <p className="text-xs text-gray-500 mt-2">{t('stats.perBed')}</p>
+        )}
+      </div>
+
+      {/* Applications per month */}
+      <div>
+        <h3 className="text-base font-semibold text-gray-100 mb-2">{t('stats.perMonth')}</h3>
+        {months.length === 0 ? (
+          <p className="text-gray-500">{t('stats.nothingLogged')}</p>
+        ) : (
+          <div className="flex items-end gap-1 h-40 overflow-x-auto pb-6">
+            {months.map((month, i) => (
+              <div key={month.key} className="flex flex-col items-center justify-end h-full min-w-8 flex-1">
+                <span className="text-[10px] text-gray-400">{month.count ? i18n.formatNumber(month.count) : ''}</span>
+                <motion.div
+                  initial={{ height: 0 }}
+                  animate={{ height: `${(month.count / maxMonthCount) * 100}%` }}
+                  transition={{ type: 'spring', stiffness: 100, damping: 15, delay: i * 0.02 }}
+                  className="w-full rounded-t bg-gradient-to-t from-emerald-700 to-lime-500"
+                />
+                <span className="text-[10px] text-gray-400 mt-1 -mb-5">
+                  {/* Januaries carry the year */}
+                  {i18n.formatDate(month.start, {
+                    month: 'short',
+                    year: month.start.getMonth() === 0 ? '2-digit' : undefined,
+                  })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Product usage */}
+      <div>
+        <h3 className="text-base font-semibold text-gray-100 mb-2">{t('stats.productUsed')}</h3>
+        {usage.length === 0 ? (
+          <p className="text-gray-500">
+            {t('stats.noQuantities', { details: t('schedule.applyWithDetails') })}
+          </p>
+        ) : (
+          <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {usage.map((total) => (
+              <li
+                key={`${total.taskId}|${total.unit}`}
+                className="flex justify-between gap-3 bg-zinc-900/50 px-3 py-2 rounded-lg border border-zinc-700"
+              >
+                <span className="truncate">{taskById.get(total.taskId)?.label ?? total.taskId}</span>
+                <span className="font-semibold text-sky-300 whitespace-nowrap">
+                  {i18n.formatQuantity(total.amount, total.unit)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Cloud, CloudOff, RefreshCw, Wifi } from 'lucide-react';
+
+import { useI18n } from './I18nProvider';
+
+type SyncStatusProps = {
+  isOnline: boolean;
+  isServerConfirmed: boolean; // The latest data came from the server, not the offline cache
+  pendingCount: number; // Changes recorded on this device that haven't reached Firestore
+};
+
+// Shows whether this device is receiving live updates and has sent its own changes
+export default function SyncStatus({ isOnline, isServerConfirmed, pendingCount }: SyncStatusProps) {
+  const { t, plural } = useI18n();
+  const pending = plural('sync.changes', pendingCount);
+  const { Icon, label, className } = !isOnline
+    ? {
+        Icon: CloudOff,
+        label: pendingCount > 0 ? t('sync.offlineWaiting', { changes: pending }) : t('sync.offline'),
+        className: 'bg-amber-900/50 border-amber-800 text-amber-300',
+      }
+    : pendingCount > 0
+      ? {
+          Icon: RefreshCw,
+          label: t('sync.syncing', { changes: pending }),
+          className: 'bg-sky-900/50 border-sky-800 text-sky-300',
+        }
+      : !isServerConfirmed
+        ? {
+            Icon: Wifi,
+            label: t('sync.connecting'),
+            className: 'bg-zinc-800 border-zinc-700 text-gray-300',
+          }
+        : {
+            Icon: Cloud,
+            label: t('sync.live'),
+            className: 'bg-emerald-900/50 border-emerald-800 text-emerald-300',
+          };
+
+  return (
+    <span
+      role="status"
+      className={`inline-flex items-center gap-1 px-3 py-0.5 rounded-full border text-xs font-semibold ${className}`}
+    >
+      <Icon className={`w-3 h-3 ${Icon === RefreshCw ? 'animate-spin' : ''}`} />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,528 @@
+'use client';
+
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Pencil, Plus, Save, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+import { TASK_ICONS, getTaskIcon } from './taskIcons';
+import { useI18n } from './I18nProvider';
+import type { I18n } from '../../lib/i18n';
+import { DEFAULT_LEAD_DAYS } from '../../lib/reminders';
+import { MONTH_DAY_PATTERN, TASK_CATEGORY_LABELS, createTaskId, getTaskCategory } from '../../lib/taskCatalog';
+import type { RecurrenceRule, SchedulePause, Task, TaskCategory, TaskIconKey } from '../../lib/types';
+
+type TaskCatalogEditorProps = {
+  tasks: Task[];
+  onSave: (task: Task) => Promise<void>;
+  onToggleArchive: (task: Task) => Promise<void>;
+};
+
+type DraftTask = {
+  id?: string; // Set when editing an existing task
+  label: string;
+  dayLabel: string;
+  icon: TaskIconKey;
+  category: TaskCategory;
+  applyIntervalDays: string; // Kept as text so the inputs can be cleared
+  reminderLeadDays: string;
+  preHarvestIntervalDays: string;
+  minGapDays: Record<string, string>;
+  doNotMixWith: string[];
+  monthDays: string; // Comma-separated, e.g. "1, 15"
+  windowStart: string; // "MM-DD"
+  windowEnd: string;
+  pauses: SchedulePause[];
+  maxPerSeason: string;
+};
+
+const emptyDraft: DraftTask = {
+  label: '',
+  dayLabel: '',
+  icon: 'sprout',
+  category: 'other',
+  applyIntervalDays: '',
+  reminderLeadDays: '',
+  preHarvestIntervalDays: '',
+  minGapDays: {},
+  doNotMixWith: [],
+  monthDays: '',
+  windowStart: '',
+  windowEnd: '',
+  pauses: [],
+  maxPerSeason: '',
+};
+
+const isWholeNumber = (value: string, min: number) =>
+  Number.isInteger(Number(value)) && Number(value) >= min;
+
+const describeSchedule = (task: Task, { t, formatDays, formatNumber }: I18n) => {
+  const { monthDays, seasonWindow, maxPerSeason } = task.recurrence ?? {};
+  let text = monthDays?.length
+    ? t('tasks.schedule.monthDays', { days: monthDays.map(formatNumber).join(', ') })
+    : task.applyIntervalDays
+      ? t('tasks.schedule.interval', { duration: formatDays(task.applyIntervalDays) })
+      : t('tasks.schedule.none');
+  if (seasonWindow) text += ` ${t('tasks.schedule.window', seasonWindow)}`;
+  if (maxPerSeason !== undefined) text += `, ${t('tasks.schedule.maxPerSeason', { count: maxPerSeason })}`;
+  return text;
+};
+
+export default function TaskCatalogEditor({ tasks, onSave, onToggleArchive }: TaskCatalogEditorProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [draft, setDraft] = useState<DraftTask | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEdit = (task: Task) => {
+    setError(null);
+    setDraft({
+      id: task.id,
+      label: task.label,
+      dayLabel: task.dayLabel,
+      icon: task.icon,
+      category: getTaskCategory(task),
+      applyIntervalDays: task.applyIntervalDays?.toString() ?? '',
+      reminderLeadDays: task.reminderLeadDays?.toString() ?? '',
+      preHarvestIntervalDays: task.preHarvestIntervalDays?.toString() ?? '',
+      minGapDays: Object.fromEntries(
+        Object.entries(task.minGapDays ?? {}).map(([taskId, days]) => [taskId, String(days)])
+      ),
+      doNotMixWith: task.doNotMixWith ?? [],
+      monthDays: task.recurrence?.monthDays?.join(', ') ?? '',
+      windowStart: task.recurrence?.seasonWindow?.start ?? '',
+      windowEnd: task.recurrence?.seasonWindow?.end ?? '',
+      pauses: task.recurrence?.pauses ?? [],
+      maxPerSeason: task.recurrence?.maxPerSeason?.toString() ?? '',
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    const label = draft.label.trim();
+    const interval = draft.applyIntervalDays.trim();
+    const leadDays = draft.reminderLeadDays.trim();
+    const preHarvest = draft.preHarvestIntervalDays.trim();
+    if (!label) {
+      setError(t('tasks.error.label'));
+      return;
+    }
+    if (interval && !isWholeNumber(interval, 1)) {
+      setError(t('tasks.error.interval'));
+      return;
+    }
+    if (leadDays && !isWholeNumber(leadDays, 0)) {
+      setError(t('tasks.error.leadDays'));
+      return;
+    }
+    if (preHarvest && !isWholeNumber(preHarvest, 1)) {
+      setError(t('tasks.error.preHarvest'));
+      return;
+    }
+    const minGapDays: Record<string, number> = {};
+    for (const [taskId, value] of Object.entries(draft.minGapDays)) {
+      if (!value.trim()) continue;
+      if (!isWholeNumber(value, 1)) {
+        setError(t('tasks.error.minGap'));
+        return;
+      }
+      minGapDays[taskId] = Number(value);
+    }
+
+    const monthDays = draft.monthDays
+      .split(',')
+      .map((day) => day.trim())
+      .filter(Boolean);
+    if (monthDays.some((day) => !isWholeNumber(day, 1) || Number(day) > 31)) {
+      setError(t('tasks.error.monthDays'));
+      return;
+    }
+    if (monthDays.length > 0 && interval) {
+      setError(t('tasks.error.intervalAndMonthDays'));
+      return;
+    }
+    const windowStart = draft.windowStart.trim();
+    const windowEnd = draft.windowEnd.trim();
+    const pauses = draft.pauses.map((pause) => ({ ...pause, reason: pause.reason.trim() }));
+    const ranges = pauses.flatMap((pause) => [pause.start, pause.end]);
+    if (windowStart || windowEnd) ranges.push(windowStart, windowEnd);
+    if (ranges.some((monthDay) => !MONTH_DAY_PATTERN.test(monthDay))) {
+      setError(t('tasks.error.monthDay'));
+      return;
+    }
+    const maxPerSeason = draft.maxPerSeason.trim();
+    if (maxPerSeason && !isWholeNumber(maxPerSeason, 1)) {
+      setError(t('tasks.error.maxPerSeason'));
+      return;
+    }
+    const recurrence: RecurrenceRule = {
+      monthDays: monthDays.length > 0 ? [...new Set(monthDays.map(Number))].sort((a, b) => a - b) : undefined,
+      seasonWindow: windowStart ? { start: windowStart, end: windowEnd } : undefined,
+      pauses: pauses.length > 0 ? pauses : undefined,
+      maxPerSeason: maxPerSeason ? Number(maxPerSeason) : undefined,
+    };
+
+    const existing = tasks.find((task) => task.id === draft.id);
+    const task: Task = {
+      ...existing, // Keeps fields this form doesn't edit
+      id: existing?.id ?? createTaskId(label, tasks),
+      label,
+      dayLabel: draft.dayLabel.trim(),
+      icon: draft.icon,
+      category: draft.category,
+      applyIntervalDays: interval ? Number(interval) : undefined,
+      reminderLeadDays: leadDays ? Number(leadDays) : undefined,
+      preHarvestIntervalDays: preHarvest ? Number(preHarvest) : undefined,
+      minGapDays: Object.keys(minGapDays).length > 0 ? minGapDays : undefined,
+      doNotMixWith: draft.doNotMixWith.length > 0 ? draft.doNotMixWith : undefined,
+      recurrence: Object.values(recurrence).some((value) => value !== undefined) ? recurrence : undefined,
+      archived: existing?.archived ?? false,
+      order: existing?.order ?? tasks.reduce((max, other) => Math.max(max, other.order + 1), 0),
+    };
+
+    setIsSaving(true);
+    try {
+      await onSave(task);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error saving task:', err);
+      setError(t('tasks.error.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-2 text-gray-100 focus:outline-none focus:border-emerald-500';
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {tasks.map((task) => {
+          const TaskIcon = getTaskIcon(task.icon);
+          return (
+            <li
+              key={task.id}
+              className={`flex items-center gap-3 bg-zinc-900/50 p-3 rounded-lg border border-zinc-700 ${
+                task.archived ? 'opacity-50' : ''
+              }`}
+            >
+              <TaskIcon className="w-5 h-5 text-lime-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold text-gray-100 truncate">{task.label}</div>
+                <div className="text-xs text-gray-400">
+                  {task.dayLabel || t('tasks.noCycleDay')} · {describeSchedule(task, i18n)}
+                  {task.archived && ` · ${t('tasks.archived')}`}
+                </div>
+              </div>
+              <button
+                onClick={() => startEdit(task)}
+                className="p-2 rounded-full text-gray-300 hover:text-emerald-300 hover:bg-zinc-800"
+                aria-label={t('tasks.edit', { task: task.label })}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onToggleArchive(task)}
+                className="p-2 rounded-full text-gray-300 hover:text-amber-300 hover:bg-zinc-800"
+                aria-label={t(task.archived ? 'tasks.restore' : 'tasks.archive', { task: task.label })}
+              >
+                {task.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      <AnimatePresence mode="wait">
+        {draft ? (
+          <motion.form
+            key="task-form"
+            onSubmit={handleSubmit}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="space-y-3 bg-zinc-900/50 p-4 rounded-xl border border-zinc-700"
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="sm:col-span-2 text-sm text-gray-300 space-y-1">
+                <span>{t('tasks.label')}</span>
+                <input
+                  className={inputClass}
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  placeholder={t('tasks.labelPlaceholder')}
+                />
+              </label>
+              <label className="text-sm text-gray-300 space-y-1">
+                <span>{t('tasks.cycleDay')}</span>
+                <input
+                  className={inputClass}
+                  value={draft.dayLabel}
+                  onChange={(e) => setDraft({ ...draft, dayLabel: e.target.value })}
+                  placeholder={t('tasks.cycleDayPlaceholder')}
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="block text-sm text-gray-300 space-y-1">
+                <span>{t('tasks.category')}</span>
+                <select
+                  className={inputClass}
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value as TaskCategory })}
+                >
+                  {(Object.keys(TASK_CATEGORY_LABELS) as TaskCategory[]).map((key) => (
+                    <option key={key} value={key}>
+                      {t(`category.${key}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm text-gray-300 space-y-1">
+                <span>{t('tasks.interval')}</span>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={1}
+                  value={draft.applyIntervalDays}
+                  onChange={(e) => setDraft({ ...draft, applyIntervalDays: e.target.value })}
+                />
+              </label>
+              <label className="block text-sm text-gray-300 space-y-1">
+                <span>{t('tasks.leadDays')}</span>
+                <input
+                  className={inputClass}
+                  type="number"
+                  min={0}
+                  value={draft.reminderLeadDays}
+                  onChange={(e) => setDraft({ ...draft, reminderLeadDays: e.target.value })}
+                  placeholder={String(DEFAULT_LEAD_DAYS)}
+                />
+              </label>
+            </div>
+            <details className="text-sm text-gray-300 bg-zinc-900/40 rounded-lg border border-zinc-700 p-3">
+              <summary className="cursor-pointer font-semibold text-gray-200">{t('tasks.recurrence')}</summary>
+              <div className="mt-3 space-y-3">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <label className="block space-y-1">
+                    <span>{t('tasks.monthDays')}</span>
+                    <input
+                      className={inputClass}
+                      value={draft.monthDays}
+                      onChange={(e) => setDraft({ ...draft, monthDays: e.target.value })}
+                      placeholder="1, 15"
+                    />
+                  </label>
+                  <label className="block space-y-1">
+                    <span>{t('tasks.maxPerSeason')}</span>
+                    <input
+                      className={inputClass}
+                      type="number"
+                      min={1}
+                      value={draft.maxPerSeason}
+                      onChange={(e) => setDraft({ ...draft, maxPerSeason: e.target.value })}
+                    />
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>{t('tasks.seasonFrom')}</span>
+                  <input
+                    className={`${inputClass} w-24`}
+                    value={draft.windowStart}
+                    onChange={(e) => setDraft({ ...draft, windowStart: e.target.value })}
+                    placeholder="03-01"
+                    aria-label={t('tasks.seasonStart')}
+                  />
+                  <span>{t('common.to')}</span>
+                  <input
+                    className={`${inputClass} w-24`}
+                    value={draft.windowEnd}
+                    onChange={(e) => setDraft({ ...draft, windowEnd: e.target.value })}
+                    placeholder="10-31"
+                    aria-label={t('tasks.seasonEnd')}
+                  />
+                  <span className="text-xs text-gray-500">{t('tasks.allYear')}</span>
+                </div>
+                <div className="space-y-2">
+                  <span>{t('tasks.pauses')}</span>
+                  {draft.pauses.map((pause, i) => {
+                    const updatePause = (changes: Partial<SchedulePause>) =>
+                      setDraft({
+                        ...draft,
+                        pauses: draft.pauses.map((p, j) => (j === i ? { ...p, ...changes } : p)),
+                      });
+                    return (
+                      <div key={i} className="flex flex-wrap items-center gap-2">
+                        <input
+                          className={`${inputClass} w-24`}
+                          value={pause.start}
+                          onChange={(e) => updatePause({ start: e.target.value })}
+                          placeholder="06-15"
+                          aria-label={t('tasks.pauseStart')}
+                        />
+                        <span>{t('common.to')}</span>
+                        <input
+                          className={`${inputClass} w-24`}
+                          value={pause.end}
+                          onChange={(e) => updatePause({ end: e.target.value })}
+                          placeholder="08-31"
+                          aria-label={t('tasks.pauseEnd')}
+                        />
+                        <input
+                          className={`${inputClass} flex-1 min-w-32`}
+                          value={pause.reason}
+                          onChange={(e) => updatePause({ reason: e.target.value })}
+                          placeholder={t('tasks.pauseReasonPlaceholder')}
+                          aria-label={t('tasks.pauseReason')}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setDraft({ ...draft, pauses: draft.pauses.filter((_, j) => j !== i) })}
+                          className="p-2 rounded-full text-gray-300 hover:text-red-300 hover:bg-zinc-800"
+                          aria-label={t('tasks.removePause')}
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setDraft({ ...draft, pauses: [...draft.pauses, { start: '', end: '', reason: '' }] })
+                    }
+                    className="flex items-center gap-1 text-emerald-300 hover:text-emerald-200"
+                  >
+                    <Plus className="w-4 h-4" /> {t('tasks.addPause')}
+                  </button>
+                </div>
+              </div>
+            </details>
+            <details className="text-sm text-gray-300 bg-zinc-900/40 rounded-lg border border-zinc-700 p-3">
+              <summary className="cursor-pointer font-semibold text-gray-200">{t('tasks.safetyRules')}</summary>
+              <div className="mt-3 space-y-3">
+                <label className="block space-y-1">
+                  <span>{t('tasks.preHarvest')}</span>
+                  <input
+                    className={inputClass}
+                    type="number"
+                    min={1}
+                    value={draft.preHarvestIntervalDays}
+                    onChange={(e) => setDraft({ ...draft, preHarvestIntervalDays: e.target.value })}
+                  />
+                </label>
+                <table className="w-full text-left">
+                  <thead className="text-xs text-gray-400">
+                    <tr>
+                      <th className="font-medium pb-1">{t('tasks.otherTreatment')}</th>
+                      <th className="font-medium pb-1 w-24">{t('tasks.minGap')}</th>
+                      <th className="font-medium pb-1 w-20 text-center">{t('tasks.doNotMix')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tasks
+                      .filter((task) => !task.archived && task.id !== draft.id)
+                      .map((task) => (
+                        <tr key={task.id}>
+                          <td className="py-1 pr-2 truncate max-w-0 w-full">{task.label}</td>
+                          <td className="py-1">
+                            <input
+                              className={`${inputClass} py-1`}
+                              type="number"
+                              min={1}
+                              value={draft.minGapDays[task.id] ?? ''}
+                              onChange={(e) =>
+                                setDraft({
+                                  ...draft,
+                                  minGapDays: { ...draft.minGapDays, [task.id]: e.target.value },
+                                })
+                              }
+                              aria-label={t('tasks.minGapTo', { task: task.label })}
+                            />
+                          </td>
+                          <td className="py-1 text-center">
+                            <input
+                              type="checkbox"
+                              checked={draft.doNotMixWith.includes(task.id)}
+                              onChange={(e) =>
+                                setDraft({
+                                  ...draft,
+                                  doNotMixWith: e.target.checked
+                                    ? [...draft.doNotMixWith, task.id]
+                                    : draft.doNotMixWith.filter((id) => id !== task.id),
+                                })
+                              }
+                              aria-label={t('tasks.doNotMixWith', { task: task.label })}
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+            <div className="text-sm text-gray-300 space-y-1">
+              <span>{t('tasks.icon')}</span>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(TASK_ICONS) as TaskIconKey[]).map((key) => {
+                  const Icon = TASK_ICONS[key];
+                  return (
+                    <button
+                      type="button"
+                      key={key}
+                      onClick={() => setDraft({ ...draft, icon: key })}
+                      className={`p-2 rounded-lg border ${
+                        draft.icon === key
+                          ? 'border-emerald-500 bg-emerald-900/40 text-lime-300'
+                          : 'border-zinc-700 text-gray-400 hover:text-gray-200'
+                      }`}
+                      aria-label={key}
+                      aria-pressed={draft.icon === key}
+                    >
+                      <Icon className="w-5 h-5" />
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+            <div className="flex gap-2 justify-end">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-zinc-700 text-gray-200 text-sm font-semibold"
+              >
+                <X className="w-4 h-4" /> {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white text-sm font-semibold disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" /> {draft.id ? t('common.saveChanges') : t('tasks.add')}
+              </button>
+            </div>
+          </motion.form>
+        ) : (
+          <motion.button
+            key="task-add"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => {
+              setError(null);
+              setDraft(emptyDraft);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-emerald-300 text-sm font-semibold hover:bg-zinc-700"
+          >
+            <Plus className="w-4 h-4" /> {t('tasks.new')}
+          </motion.button>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+import {
+  BedSchedule,
+  CalendarEntryKind,
+  addDays,
+  buildCalendar,
+  fromDateKey,
+  getCycleDay,
+  getCycleLength,
+  isCrowdedDay,
+  startOfDay,
+  startOfWeek,
+  toDateKey,
+} from '../../lib/calendar';
+import type { ApplicationEvent, Task } from '../../lib/types';
+import { useI18n } from './I18nProvider';
+
+type CalendarMode = 'month' | 'week';
+
+type TreatmentCalendarProps = {
+  schedules: BedSchedule[];
+  applications: ApplicationEvent[];
+  tasks: Task[];
+  today: Date;
+  onSeasonStartChange?: (seasonStart: string | undefined) => void; // Only offered for a single bed
+};
+
+const ENTRY_STYLES: Record<CalendarEntryKind, string> = {
+  applied: 'bg-sky-900/60 border-sky-700 text-sky-200',
+  projected: 'bg-amber-900/50 border-amber-700 text-amber-200',
+  overdue: 'bg-red-900/60 border-red-700 text-red-200',
+  cycle: 'bg-violet-900/40 border-violet-700 border-dashed text-violet-200',
+};
+
+export default function TreatmentCalendar({
+  schedules,
+  applications,
+  tasks,
+  today,
+  onSeasonStartChange,
+}: TreatmentCalendarProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(today));
+
+  const taskById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks]);
+  const showBedNames = schedules.length > 1;
+  const singleBed = schedules.length === 1 ? schedules[0].bed : undefined;
+
+  // Visible days: whole weeks covering the month, or the anchor's week
+  const visibleDays = useMemo(() => {
+    const first =
+      mode === 'month'
+        ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+        : startOfWeek(anchor);
+    const last =
+      mode === 'month'
+        ? addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 6)
+        : addDays(first, 6);
+    const result: Date[] = [];
+    for (let date = first; date <= last; date = addDays(date, 1)) result.push(date);
+    return result;
+  }, [anchor, mode]);
+
+  const calendar = useMemo(
+    () =>
+      buildCalendar({
+        schedules,
+        applications,
+        tasks,
+        rangeStart: visibleDays[0],
+        rangeEnd: visibleDays[visibleDays.length - 1],
+        today,
+      }),
+    [schedules, applications, tasks, visibleDays, today]
+  );
+
+  const move = (direction: 1 | -1) =>
+    setAnchor((prev) =>
+      mode === 'month'
+        ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+        : addDays(prev, 7 * direction)
+    );
+
+  const title =
+    mode === 'month'
+      ? i18n.formatDate(anchor, { month: 'long', year: 'numeric' })
+      : t('calendar.weekOf', { date: i18n.formatMonthDay(visibleDays[0]) });
+  // Both views start on a Sunday, so the first week names the columns
+  const weekdays = visibleDays.slice(0, 7).map((date) => i18n.formatDate(date, { weekday: 'short' }));
+  const todayKey = toDateKey(today);
+  const seasonStart = singleBed?.seasonStart ? fromDateKey(singleBed.seasonStart) : undefined;
+  const cycleLength = getCycleLength(schedules[0]?.tasks ?? []);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => move(-1)}
+            className="p-2 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+            aria-label={t('calendar.previous')}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-lg font-semibold text-gray-100 min-w-44 text-center">{title}</span>
+          <button
+            onClick={() => move(1)}
+            className="p-2 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+            aria-label={t('calendar.next')}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(startOfDay(today))}
+            className="px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-sm text-gray-300 hover:text-emerald-300"
+          >
+            {t('calendar.today')}
+          </button>
+        </div>
+        <div className="flex items-center gap-1 bg-zinc-800 border border-zinc-700 rounded-full p-1 text-sm">
+          {(['month', 'week'] as CalendarMode[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded-full ${
+                mode === m ? 'bg-emerald-700 text-white' : 'text-gray-300 hover:text-emerald-300'
+              }`}
+            >
+              {t(`calendar.${m}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {singleBed && onSeasonStartChange && (
+        <label className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          {t('calendar.seasonStart')}
+          <input
+            type="date"
+            className="bg-zinc-900/70 border border-zinc-700 rounded-lg px-3 py-1 text-gray-100"
+            value={singleBed.seasonStart ?? ''}
+            onChange={(e) => onSeasonStartChange(e.target.value || undefined)}
+          />
+        </label>
+      )}
+
+      <div className="grid grid-cols-7 gap-1 sm:gap-2 text-xs sm:text-sm">
+        {weekdays.map((day) => (
+          <div key={day} className="text-center font-semibold text-gray-400 pb-1">
+            {day}
+          </div>
+        ))}
+        {visibleDays.map((date, i) => {
+          const key = toDateKey(date);
+          const entries = calendar.get(key) ?? [];
+          const crowded = isCrowdedDay(entries);
+          const cycleDay = seasonStart ? getCycleDay(date, seasonStart, cycleLength) : undefined;
+          const isOtherMonth = mode === 'month' && date.getMonth() !== anchor.getMonth();
+
+          return (
+            <motion.div
+              key={key}
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: i * 0.005 }}
+              className={`flex flex-col gap-1 p-1 sm:p-2 rounded-lg border bg-zinc-900/50 ${
+                mode === 'week' ? 'min-h-48' : 'min-h-20 sm:min-h-28'
+              } ${crowded ? 'border-red-600' : key === todayKey ? 'border-emerald-500' : 'border-zinc-700'} ${
+                isOtherMonth ? 'opacity-40' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between gap-1">
+                <span className={key === todayKey ? 'font-bold text-emerald-300' : 'text-gray-300'}>
+                  {i18n.formatNumber(date.getDate())}
+                </span>
+                {crowded && (
+                  <AlertTriangle className="w-3 h-3 text-red-400" aria-label={t('calendar.crowded')} />
+                )}
+                {cycleDay !== undefined && (
+                  <span className="text-[10px] text-violet-300">{t('calendar.cycleDay', { day: cycleDay })}</span>
+                )}
+              </div>
+              {entries.map((entry, j) => {
+                const task = taskById.get(entry.taskId);
+                const bedName = schedules.find(({ bed }) => bed.id === entry.bedId)?.bed.name;
+                return (
+                  <span
+                    key={j}
+                    title={`${t('calendar.entryTitle', {
+                      kind: t(`calendar.entry.${entry.kind}`),
+                      task: task?.label ?? entry.taskId,
+                    })}${showBedNames && bedName ? ` (${bedName})` : ''}`}
+                    className={`truncate px-1 py-0.5 rounded border text-[10px] sm:text-xs ${ENTRY_STYLES[entry.kind]}`}
+                  >
+                    {task?.label ?? entry.taskId}
+                    {showBedNames && bedName && mode === 'week' && ` · ${bedName}`}
+                  </span>
+                );
+              })}
+            </motion.div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(ENTRY_STYLES) as CalendarEntryKind[]).map((kind) => (
+          <span key={kind} className={`px-2 py-0.5 rounded border ${ENTRY_STYLES[kind]}`}>
+            {t(`calendar.entry.${kind}`)}
+          </span>
+        ))}
+        <span className="flex items-center gap-1 px-2 py-0.5 rounded border border-red-600 text-red-300">
+          <AlertTriangle className="w-3 h-3" /> {t('calendar.crowdedDay')}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+
+import { useI18n } from './I18nProvider';
+
+type UndoToastProps = {
+  message: string | null; // Toast is hidden when null
+  onUndo: () => void;
+  onDismiss: () => void;
+  durationMs?: number;
+};
+
+export default function UndoToast({ message, onUndo, onDismiss, durationMs = 8000 }: UndoToastProps) {
+  const { t } = useI18n();
+
+  // Dismiss automatically; restarts whenever a new message is shown
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, durationMs]);
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <motion.div
+          key={message}
+          initial={{ opacity: 0, y: 40 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 40 }}
+          transition={{ type: 'spring', stiffness: 120, damping: 14 }}
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 rounded-full bg-zinc-800 border border-zinc-600 shadow-2xl text-sm text-gray-100"
+          role="status"
+        >
+          <span>{message}</span>
+          <button
+            onClick={onUndo}
+            className="flex items-center gap-1 font-semibold text-emerald-300 hover:text-emerald-200"
+          >
+            <Undo2 className="w-4 h-4" /> {t('undo.undo')}
+          </button>
+          <button onClick={onDismiss} className="text-gray-400 hover:text-gray-200" aria-label={t('undo.dismiss')}>
+            <X className="w-4 h-4" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
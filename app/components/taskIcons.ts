@@ -0,0 +1,27 @@
+import {
+  Bug,
+  Droplets,
+  FlaskConical,
+  Flower,
+  Leaf,
+  Shovel,
+  Sprout,
+  Sun,
+  Wheat,
+  type LucideIcon,
+} from 'lucide-react';
+import type { TaskIconKey } from '../../lib/types';
+
+export const TASK_ICONS: Record<TaskIconKey, LucideIcon> = {
+  droplets: Droplets,
+  leaf: Leaf,
+  flower: Flower,
+  sprout: Sprout,
+  sun: Sun,
+  bug: Bug,
+  flask: FlaskConical,
+  shovel: Shovel,
+  wheat: Wheat,
+};
+
+export const getTaskIcon = (key: TaskIconKey): LucideIcon => TASK_ICONS[key] ?? Sprout;
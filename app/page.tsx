@@ -1,96 +1,344 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Sprout,
   CalendarDays,
   CheckCircle,
-  Leaf,
-  Droplets,
-  Sun,
   History,
-  Flower,
-  RotateCcw,
+  Settings,
+  LayoutGrid,
+  Pencil,
+  ClipboardList,
+  Search,
+  LayoutList,
+  CalendarRange,
+  Bell,
+  ShieldAlert,
+  Users,
+  BarChart3,
+  Package,
+  AlertTriangle,
+  Archive,
+  Languages,
+  Camera,
 } from 'lucide-react';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
 
 // Firebase Imports
-import { db } from '../lib/firebase'; // Adjust path if needed
+import { onAuthStateChanged, signOut, type User } from 'firebase/auth';
+import { auth } from '../lib/firebase'; // Adjust path if needed
+import ActivityItem from './components/ActivityItem';
+import ActivityHistory from './components/ActivityHistory';
+import StatsDashboard from './components/StatsDashboard';
+import InventoryPanel from './components/InventoryPanel';
+import PhotoJournal, { ObservationEntry } from './components/PhotoJournal';
+import ProfileEditor from './components/ProfileEditor';
+import SeasonArchivePanel from './components/SeasonArchivePanel';
+import ApplicationEditor, { ApplicationChanges } from './components/ApplicationEditor';
+import BackupMenu from './components/BackupMenu';
+import BedEditor from './components/BedEditor';
+import BedOverview, { BedSummary } from './components/BedOverview';
+import HouseholdPanel from './components/HouseholdPanel';
+import { useI18n } from './components/I18nProvider';
+import ReminderSettingsPanel from './components/ReminderSettingsPanel';
+import SignIn from './components/SignIn';
+import SyncStatus from './components/SyncStatus';
+import TaskCatalogEditor from './components/TaskCatalogEditor';
+import TreatmentCalendar from './components/TreatmentCalendar';
+import UndoToast from './components/UndoToast';
+import { getTaskIcon } from './components/taskIcons';
 import {
-  collection,
-  doc,
-  getDocs,
-  getDoc,
-  setDoc,
-  addDoc,
-  writeBatch,
-  query,
-  orderBy,
-  serverTimestamp,
-  FieldValue, // <-- FIX: Import FieldValue
-} from 'firebase/firestore';
-
-// Type definitions
-type Task = {
-  label: string;
-  dayLabel: string;
-  icon: React.ElementType;
-  applyIntervalDays?: number;
-};
+  ActivityFilter,
+  EMPTY_ACTIVITY_FILTER,
+  WEATHER_LABELS,
+  isActivityFilterActive,
+  matchesActivityFilter,
+} from '../lib/applicationDetails';
+import { backupToCsv, backupToJson, createBackup, importBackup, parseBackup } from '../lib/backup';
+import { getBedTasks, getEventBedId } from '../lib/beds';
+import { addDays, fromDateKey, toDateKey, type BedSchedule } from '../lib/calendar';
+import { createFirestoreRepository } from '../lib/firestoreRepository';
+import { LOCALES, isLocale } from '../lib/i18n';
+import type { HistoryCursor, HistoryPage, HistoryQuery } from '../lib/history';
+import { buildIcs } from '../lib/ics';
+import { getStockUsage, projectStock, type StockAdjustment } from '../lib/inventory';
+import { createLocalPhotoStore, createStoragePhotoStore, storePhotos } from '../lib/photos';
+import { applyProfile } from '../lib/profiles';
+import { getMemberName, joinHousehold, loadHousehold } from '../lib/households';
+import { checkApplication, getSafeToApplyFrom } from '../lib/safety';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  ReminderSettings,
+  createBrowserNotifier,
+  createLocalStorageStore,
+  createMemoryNotifier,
+  loadReminderSettings,
+  registerBackgroundReminders,
+  runReminderCheck,
+  saveReminderSettings,
+  updateBackgroundReminders,
+} from '../lib/reminders';
+import { evaluateBedTask, getSeasonLookback, hasSchedule, type ScheduleStatus } from '../lib/recurrence';
+import {
+  applyQueuedChanges,
+  clearQueue,
+  enqueueApplication,
+  flushQueue,
+  getQueuedApplications,
+  isSameChange,
+  QueuedApplication,
+} from '../lib/syncQueue';
+import { resolveEventTaskId } from '../lib/taskCatalog';
+import type {
+  ApplicationEvent,
+  Bed,
+  Deferral,
+  Household,
+  Observation,
+  PlantProfile,
+  Product,
+  SeasonArchive,
+  Task,
+  WeatherCondition,
+} from '../lib/types';
+
+// Special bed selection that shows every bed side by side
+const ALL_BEDS = 'all';
+const ACTIVE_BED_STORAGE_KEY = 'gardenify.activeBedId';
+
+// How often countdowns refresh and due-date reminders are checked while the app is open
+const REFRESH_INTERVAL_MS = 1000 * 60 * 15;
 
-type ApplicationEvent = {
-  id?: string; // Add ID for keying
-  label: string;
-  dayLabel: string;
-  timestampIso: string;
+// Applications kept live: those of the current seasons, for per-season limits (see
+// `getSeasonLookback`). The counts, calendar and Recent Activity show the last
+// RECENT_WINDOW_DAYS of them; older ones are read a page at a time in the history view.
+const RECENT_WINDOW_DAYS = 180;
+const RECENT_ACTIVITY_LIMIT = 20;
+const EMPTY_HISTORY_PAGE: HistoryPage = { events: [], cursor: null, hasMore: false };
+
+// NEXT_PUBLIC_REMINDER_NOTIFIER=memory logs reminders to the console instead of showing them
+const logRemindersOnly = process.env.NEXT_PUBLIC_REMINDER_NOTIFIER === 'memory';
+
+// NEXT_PUBLIC_PHOTO_STORE=local keeps journal photos in this browser instead of Cloud Storage
+const keepPhotosLocal = process.env.NEXT_PUBLIC_PHOTO_STORE === 'local';
+
+const COUNTDOWN_STYLES: Record<ScheduleStatus, string> = {
+  overdue: 'text-red-400',
+  due: 'text-orange-300',
+  upcoming: 'text-amber-300',
+  snoozed: 'text-sky-300',
+  'out-of-season': 'text-gray-400',
+  complete: 'text-emerald-300',
 };
 
-// Firestore collection references
-const applicationsCollection = collection(db, 'applications');
-const lastDatesDoc = doc(db, 'metadata', 'lastApplicationDates');
+// Saves text as a file through a temporary link
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 export default function Home() {
-  const staticTasks = useMemo<Task[]>(
-    () => [
-      { label: 'Pest Control - Ch🧪', dayLabel: 'Day 1', icon: Droplets, applyIntervalDays: 7 },
-      { label: 'Pest Control - Neem 🌿', dayLabel: 'Day 7', icon: Leaf, applyIntervalDays: 7 },
-      { label: 'Fungicide - Amistar Top 🍄', dayLabel: 'Day 15', icon: Flower, applyIntervalDays: 30 },
-      { label: 'Chemical Fertilizer 🔬', dayLabel: 'Day 18', icon: Sprout, applyIntervalDays: 30 },
-      { label: 'Fungicide - Masnsar 🧪', dayLabel: 'Day 20', icon: Flower, applyIntervalDays: 30 },
-      { label: 'Mustard Fertilizer 🌱', dayLabel: 'Day 22', icon: Sprout, applyIntervalDays: 15 },
-      { label: 'Cow Dung & Vermicompost 🐮', dayLabel: 'Day 26', icon: Sprout },
-      { label: 'PGR Application 🪴', dayLabel: 'Day 30', icon: Sun, applyIntervalDays: 30 },
-    ],
-    []
+  const i18n = useI18n();
+  const { t } = i18n;
+  // The current language, for the sign-in listener that is only registered once
+  const tRef = useRef(t);
+  useEffect(() => {
+    tRef.current = t;
+  }, [t]);
+
+  // Signed-in user and the household whose garden they see
+  const [user, setUser] = useState<User | null>(null);
+  const [household, setHousehold] = useState<Household | null>(null);
+  const [isAuthLoading, setIsAuthLoading] = useState(true);
+  const [isHouseholdPanelOpen, setIsHouseholdPanelOpen] = useState(false);
+  const [hasInvite, setHasInvite] = useState(false);
+  const householdId = household?.id;
+  const repository = useMemo(
+    () => (householdId ? createFirestoreRepository(householdId) : null),
+    [householdId]
   );
-  const [tasks] = useState<Task[]>(staticTasks);
+  const photoStore = useMemo(
+    () =>
+      householdId ? (keepPhotosLocal ? createLocalPhotoStore(householdId) : createStoragePhotoStore(householdId)) : null,
+    [householdId]
+  );
+
+  // Full task catalog, including archived tasks, populated from Firebase
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isManagingTasks, setIsManagingTasks] = useState(false);
+  const activeTasks = useMemo(() => tasks.filter((task) => !task.archived), [tasks]);
+  const taskById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks]);
+  // Current label of an event's task, so renamed tasks show their new name
+  const getEventTaskLabel = (event: ApplicationEvent) =>
+    taskById.get(resolveEventTaskId(event, tasks) ?? '')?.label ?? event.label;
 
-  // State is now initialized as empty, will be populated from Firebase
-  const [applications, setApplications] = useState<ApplicationEvent[]>([]);
-  const [lastApplicationDates, setLastApplicationDates] = useState<Record<string, string>>({});
+  // Beds, and which one (or all of them) the schedule is showing
+  const [beds, setBeds] = useState<Bed[]>([]);
+  const [activeBedId, setActiveBedId] = useState<string>(ALL_BEDS);
+  const [isManagingBeds, setIsManagingBeds] = useState(false);
+  const [profiles, setProfiles] = useState<PlantProfile[]>([]);
+  const [view, setView] = useState<
+    'schedule' | 'calendar' | 'history' | 'stats' | 'inventory' | 'seasons' | 'journal'
+  >('schedule');
+  const activeBed = beds.find((bed) => bed.id === activeBedId);
+  const bedTasks = useMemo(() => (activeBed ? getBedTasks(activeBed, tasks) : []), [activeBed, tasks]);
+
+  // Products kept in stock, and how much of each is left by product ID
+  const [products, setProducts] = useState<Product[]>([]);
+  const [stockLevels, setStockLevels] = useState<Record<string, number>>({});
+
+  // Closed seasons, newest first; null until the seasons view first loads them
+  const [seasons, setSeasons] = useState<SeasonArchive[] | null>(null);
+
+  // Photo journal entries, newest first; null until they load
+  const [observations, setObservations] = useState<Observation[] | null>(null);
+  // Photos taken with each application, for Recent Activity
+  const photosByApplicationId = useMemo(() => {
+    const photos = new Map<string, Observation['photos']>();
+    (observations ?? []).forEach(({ applicationId, photos: taken }) => {
+      if (applicationId) photos.set(applicationId, [...(photos.get(applicationId) ?? []), ...taken]);
+    });
+    return photos;
+  }, [observations]);
+
+  // Applications and last-applied dates (per task ID, keyed by bed ID) as Firestore listeners
+  // last reported them; null until the first snapshot of the household's applications arrives
+  const [serverApplications, setServerApplications] = useState<ApplicationEvent[] | null>(null);
+  const [serverLastDates, setServerLastDates] = useState<Record<string, Record<string, string>>>({});
+  // Changes recorded locally that haven't reached Firestore yet, shown on top of the server data
+  const [queued, setQueued] = useState<QueuedApplication[]>([]);
+  // Edits and deletes (null) made this session, applied over history pages loaded before them
+  const [sessionEdits, setSessionEdits] = useState<Map<string, ApplicationEvent | null>>(new Map());
+  const isSyncingRef = useRef(false);
+  const { applications, lastApplicationDates } = useMemo(
+    () => applyQueuedChanges(serverApplications ?? [], serverLastDates, queued, tasks),
+    [serverApplications, serverLastDates, queued, tasks]
+  );
+  const pendingIds = useMemo(
+    () => new Set(queued.filter(({ kind }) => kind !== 'delete').map(({ event }) => event.id)),
+    [queued]
+  );
+  // Connection state for the sync indicator
+  const [isOnline, setIsOnline] = useState(true);
+  const [isServerConfirmed, setIsServerConfirmed] = useState(false); // Last snapshot wasn't from cache
+  // Most recent "Apply Now", offered for undo, and the application open in the editor
+  const [lastApplied, setLastApplied] = useState<ApplicationEvent | null>(null);
+  const [editingEvent, setEditingEvent] = useState<ApplicationEvent | null>(null);
+  // Task being applied through the detailed form instead of the one-tap button
+  const [detailsTask, setDetailsTask] = useState<Task | null>(null);
+  const [activityFilter, setActivityFilter] = useState<ActivityFilter>(EMPTY_ACTIVITY_FILTER);
+  const [isImporting, setIsImporting] = useState(false);
   const [isLoading, setIsLoading] = useState(true); // Loading state for initial fetch
 
-  // State for triggering daily re-render for countdowns
+  // State for triggering periodic re-render for countdowns
   const [currentDate, setCurrentDate] = useState(new Date());
 
+  // Due-date reminders, configured per device
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [notificationPermission, setNotificationPermission] = useState<
+    NotificationPermission | 'unsupported'
+  >('default');
+  const [isReminderPanelOpen, setIsReminderPanelOpen] = useState(false);
+  const [remindsInBackground, setRemindsInBackground] = useState(false);
+  const notifier = useMemo(
+    () => (logRemindersOnly ? createMemoryNotifier() : createBrowserNotifier()),
+    []
+  );
+
+  // --- Authentication ---
+  useEffect(() => {
+    setHasInvite(new URLSearchParams(window.location.search).has('invite'));
+
+    return onAuthStateChanged(auth, async (signedInUser) => {
+      setUser(signedInUser);
+      if (!signedInUser) {
+        setHousehold(null);
+        setIsLoading(true); // The next household's garden loads from scratch
+        setIsAuthLoading(false);
+        return;
+      }
+
+      // Opened from an invite link: join that household instead of loading your own
+      const url = new URL(window.location.href);
+      const inviteCode = url.searchParams.get('invite');
+      try {
+        if (inviteCode) {
+          try {
+            setHousehold(await joinHousehold(signedInUser, inviteCode));
+            return;
+          } catch (error) {
+            console.error('Error joining household:', error);
+            alert(tRef.current('household.joinFailed'));
+          } finally {
+            url.searchParams.delete('invite');
+            window.history.replaceState(null, '', url);
+            setHasInvite(false);
+          }
+        }
+        setHousehold(await loadHousehold(signedInUser));
+      } catch (error) {
+        console.error('Error loading household:', error);
+      } finally {
+        setIsAuthLoading(false);
+      }
+    });
+  }, []);
+
+  const handleSignOut = async () => {
+    if (
+      pendingIds.size > 0 &&
+      !confirm(t('auth.signOutPending'))
+    ) {
+      return;
+    }
+    try {
+      await signOut(auth);
+      setIsHouseholdPanelOpen(false);
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+  };
+
   // --- Data Fetching from Firebase ---
   useEffect(() => {
+    if (!repository) return;
+
     const fetchData = async () => {
       setIsLoading(true);
+      setActiveBedId(ALL_BEDS);
       try {
-        // Fetch all applications, ordered by timestamp descending
-        const q = query(applicationsCollection, orderBy('timestamp', 'desc'));
-        const appSnapshot = await getDocs(q);
-        const appData = appSnapshot.docs.map(
-          (doc) => ({ id: doc.id, ...doc.data() } as ApplicationEvent)
-        );
-        setApplications(appData);
+        // The task catalog and beds. Their last application dates are kept up to date by a
+        // listener below.
+        const {
+          tasks: taskData,
+          beds: bedData,
+          profiles: profileData,
+          products: productData,
+        } = await repository.loadGarden();
+        setTasks(taskData);
+        setBeds(bedData);
+        setProfiles(profileData);
+        setProducts(productData);
 
-        // Fetch the single document for last application dates
-        const datesSnapshot = await getDoc(lastDatesDoc);
-        if (datesSnapshot.exists()) {
-          setLastApplicationDates(datesSnapshot.data());
+        const storedBedId = localStorage.getItem(ACTIVE_BED_STORAGE_KEY);
+        if (bedData.length === 1) {
+          setActiveBedId(bedData[0].id);
+        } else if (storedBedId && bedData.some((bed) => bed.id === storedBedId)) {
+          setActiveBedId(storedBedId);
         }
+
+        // Changes recorded offline that haven't been replayed to Firestore yet
+        setQueued(
+          await getQueuedApplications(repository.householdId).catch((error) => {
+            console.error('Error reading the sync queue:', error);
+            return [];
+          })
+        );
       } catch (error) {
         console.error('Error fetching data from Firebase:', error);
       } finally {
@@ -99,125 +347,790 @@ export default function Home() {
     };
 
     fetchData();
+  }, [repository]);
+
+  // The photo journal's entries; the photos themselves load as they're shown
+  useEffect(() => {
+    if (!repository) return;
+    setObservations(null);
+    repository
+      .listObservations()
+      .then(setObservations)
+      .catch((error) => {
+        console.error('Error loading the photo journal:', error);
+        setObservations([]);
+      });
+  }, [repository]);
+
+  // --- Live updates from Firestore ---
+
+  // Applications of the current seasons, newest first. Includes metadata changes so the sync indicator
+  // knows when the data has been confirmed by the server rather than read from the offline cache.
+  const seasonLookbackKey = toDateKey(getSeasonLookback(beds, currentDate));
+  useEffect(() => {
+    if (!repository) return;
+    setServerApplications(null);
+    return repository.watchApplications(
+      fromDateKey(seasonLookbackKey),
+      (events, confirmed) => {
+        setServerApplications(events);
+        setIsServerConfirmed(confirmed);
+      },
+      (error) => console.error('Error listening to applications:', error)
+    );
+  }, [repository, seasonLookbackKey]);
+
+  // Each bed's document of last application dates
+  const bedIdsKey = beds.map((bed) => bed.id).join('|');
+  useEffect(() => {
+    if (!repository) return;
+    setServerLastDates({});
+    const unsubscribes = bedIdsKey
+      .split('|')
+      .filter(Boolean)
+      .map((bedId) =>
+        repository.watchLastDates(
+          bedId,
+          (dates) => setServerLastDates((prev) => ({ ...prev, [bedId]: dates })),
+          (error) => console.error('Error listening to last application dates:', error)
+        )
+      );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [repository, bedIdsKey]);
+
+  // Stock levels, which change with every application logged with a quantity
+  useEffect(() => {
+    if (!repository) return;
+    setStockLevels({});
+    return repository.watchStockLevels(setStockLevels, (error) =>
+      console.error('Error listening to stock levels:', error)
+    );
+  }, [repository]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
   }, []);
 
-  // Effect to update current date daily for countdown refresh
+  // --- Sync queue ---
+
+  // Replays applications recorded locally to Firestore. The listeners pick up the written
+  // events and merged last-applied dates, so synced entries only need dropping from the overlay;
+  // a change made to the same application while it synced stays there.
+  const syncPending = useCallback(async () => {
+    if (!repository || isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    try {
+      const results = await flushQueue(repository);
+      if (results.length === 0) return;
+      setQueued((prev) =>
+        prev.filter((entry) => !results.some((result) => result.id === entry.event.id && isSameChange(result, entry)))
+      );
+    } catch (error) {
+      console.error('Error syncing applications:', error);
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [repository]);
+
+  // Replay the queue once data has loaded, and again whenever connectivity returns
   useEffect(() => {
-    const timer = setInterval(() => setCurrentDate(new Date()), 1000 * 60 * 60 * 24);
+    if (isLoading) return;
+    syncPending();
+    window.addEventListener('online', syncPending);
+    return () => window.removeEventListener('online', syncPending);
+  }, [isLoading, syncPending]);
+
+  // Effect to update current date periodically, so countdowns roll over at midnight
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentDate(new Date()), REFRESH_INTERVAL_MS);
     return () => clearInterval(timer);
   }, []);
 
-  // --- Derive `appliedTimestamps` from the `applications` state ---
-  const appliedTimestamps = useMemo(() => {
-    const newTimestamps: string[][] = staticTasks.map(() => []);
-    const formatMonthDay = (date: Date) =>
-      `${
-        ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'][
-          date.getMonth()
-        ]
-      } ${date.getDate()}`;
-    const formatHourMinute = (date: Date) =>
-      `${date.getHours()}:${String(date.getMinutes()).padStart(2, '0')}`;
-
-    applications.forEach((appEvent) => {
-      const taskIndex = staticTasks.findIndex((task) => task.label === appEvent.label);
-      if (taskIndex !== -1) {
-        const date = new Date(appEvent.timestampIso);
-        const friendlyFormat = `${formatMonthDay(date)} – ${formatHourMinute(date)}`;
-        newTimestamps[taskIndex].push(friendlyFormat);
+  // Load this device's reminder settings and notification permission
+  useEffect(() => {
+    setReminderSettings(loadReminderSettings());
+    if (logRemindersOnly) {
+      setNotificationPermission('granted');
+    } else {
+      setNotificationPermission('Notification' in window ? Notification.permission : 'unsupported');
+    }
+  }, []);
+
+  const handleSelectBed = (bedId: string) => {
+    setActiveBedId(bedId);
+    localStorage.setItem(ACTIVE_BED_STORAGE_KEY, bedId);
+  };
+
+  // Applications logged in the last RECENT_WINDOW_DAYS, in the selected bed or in every bed
+  const recentApplications = useMemo(() => {
+    const sinceIso = addDays(currentDate, -RECENT_WINDOW_DAYS).toISOString();
+    return applications.filter((appEvent) => appEvent.timestampIso >= sinceIso);
+  }, [applications, currentDate]);
+  const bedApplications = useMemo(
+    () =>
+      activeBedId === ALL_BEDS
+        ? recentApplications
+        : recentApplications.filter((appEvent) => getEventBedId(appEvent) === activeBedId),
+    [recentApplications, activeBedId]
+  );
+
+  // --- Group the selected bed's `applications` by task ---
+  const applicationsByTask = useMemo(() => {
+    const grouped: Record<string, ApplicationEvent[]> = Object.fromEntries(
+      tasks.map((task) => [task.id, []])
+    );
+    bedApplications.forEach((appEvent) => {
+      const taskId = resolveEventTaskId(appEvent, tasks);
+      if (taskId && grouped[taskId]) {
+        grouped[taskId].push(appEvent);
       }
     });
-    return newTimestamps;
-  }, [applications, staticTasks]);
+    return grouped;
+  }, [bedApplications, tasks]);
+
+  // Inputs for the safety rules of a task in the selected bed
+  const getSafetyContext = (task: Task) => ({
+    task,
+    bed: activeBed as Bed,
+    bedTasks,
+    latestApplied: Object.fromEntries(
+      bedTasks
+        .filter((t) => applicationsByTask[t.id]?.length > 0)
+        .map((t) => [t.id, applicationsByTask[t.id][0].timestampIso])
+    ),
+  });
 
   // --- CRUD Functions for Firebase ---
 
-  const handleApply = async (index: number) => {
-    const task = tasks[index];
+  // One tap logs the application now; the detailed form passes its fields and time as `details`.
+  // Returns the new application, unless it wasn't logged.
+  const handleApply = async (task: Task, details?: ApplicationChanges) => {
+    if (!activeBed || !repository || !user) return;
+    const bedId = activeBed.id;
     const now = new Date();
-    const iso = now.toISOString();
+    const iso = details?.timestampIso ?? now.toISOString();
 
-    const newApplication: Omit<ApplicationEvent, 'id'> & { timestamp: FieldValue } = { // <-- FIX: Use FieldValue
+    const violations = checkApplication(getSafetyContext(task), new Date(iso), i18n);
+    const blocking = violations.filter((v) => v.severity === 'block');
+    if (blocking.length > 0) {
+      alert(t('safety.blocked', { task: task.label, problems: blocking.map((v) => v.message).join('\n') }));
+      return;
+    }
+    if (
+      violations.length > 0 &&
+      !confirm(
+        t('safety.confirm', { task: task.label, problems: violations.map((v) => v.message).join('\n') })
+      )
+    ) {
+      return;
+    }
+
+    // The ID is generated locally so replaying the write can never create a duplicate
+    const newApplication: QueuedApplication['event'] = {
+      ...details,
+      id: repository.newApplicationId(),
+      taskId: task.id,
+      bedId,
+      loggedByUid: user.uid,
+      loggedByName: getMemberName(user),
       label: task.label,
       dayLabel: task.dayLabel,
       timestampIso: iso,
-      timestamp: serverTimestamp(),
     };
+    setLastApplied(newApplication);
 
+    await queueChange({
+      kind: 'add',
+      event: newApplication,
+      updatesLastDate: hasSchedule(task),
+      queuedAtIso: now.toISOString(),
+    });
+    return newApplication;
+  };
+
+  // 1. Shows the change right away; it is marked pending until it reaches Firestore,
+  // 2. records it locally, so it survives losing signal or a reload,
+  // 3. then replays it (and anything queued earlier) to Firestore if we're online
+  const queueChange = async (change: Omit<QueuedApplication, 'householdId'>) => {
+    if (!householdId) return;
+    // New applications are taken from stock when they record a quantity. Once products are
+    // tracked, edits and deletes also put back what an application was recorded as using.
+    let stockUsage = getStockUsage(change.event, products, tasks);
+    if (change.kind !== 'add' && products.length > 0) {
+      stockUsage = change.kind === 'delete' ? null : stockUsage ?? null;
+    }
+    const entry: QueuedApplication = { ...change, stockUsage, householdId };
+    setQueued((prev) => [...prev.filter(({ event }) => event.id !== entry.event.id), entry]);
     try {
-      // 1. Add new application to the 'applications' collection
-      const docRef = await addDoc(applicationsCollection, newApplication);
+      await enqueueApplication(entry);
+    } catch (error) {
+      console.error('Error recording change locally:', error);
+      return;
+    }
+    syncPending();
+  };
 
-      // Optimistically update UI
-      setApplications((prev) => [{ id: docRef.id, ...newApplication, timestampIso: iso }, ...prev]);
+  // Whether the task is scheduled in the bed, so its last-applied date is tracked
+  const tracksLastDate = (bedId: string, taskId: string | undefined) => {
+    const bed = beds.find((b) => b.id === bedId);
+    const task = bed && getBedTasks(bed, tasks).find((t) => t.id === taskId);
+    return !!task && hasSchedule(task);
+  };
+
+  const toQueuedEvent = (event: ApplicationEvent & { id: string }): QueuedApplication['event'] => ({
+    ...event,
+    bedId: getEventBedId(event),
+    taskId: resolveEventTaskId(event, tasks),
+  });
+
+  const handleDeleteApplication = async (event: ApplicationEvent) => {
+    if (!event.id) return;
+    const queuedEvent = toQueuedEvent({ ...event, id: event.id });
+    setSessionEdits((prev) => new Map(prev).set(queuedEvent.id, null));
+    await queueChange({
+      kind: 'delete',
+      event: queuedEvent,
+      updatesLastDate: tracksLastDate(queuedEvent.bedId, queuedEvent.taskId),
+      queuedAtIso: new Date().toISOString(),
+    });
+  };
 
-      // 2. Update the last application date if interval exists
-      if (task.applyIntervalDays !== undefined) {
-        const newLastDate = { [task.label]: iso };
-        await setDoc(lastDatesDoc, newLastDate, { merge: true });
+  const handleUpdateApplication = async (event: ApplicationEvent, changes: ApplicationChanges) => {
+    if (!event.id) return;
+    const queuedEvent = toQueuedEvent({ ...event, ...changes, id: event.id });
+    setSessionEdits((prev) => new Map(prev).set(queuedEvent.id, queuedEvent));
+    await queueChange({
+      kind: 'update',
+      event: queuedEvent,
+      updatesLastDate: tracksLastDate(queuedEvent.bedId, queuedEvent.taskId),
+      queuedAtIso: new Date().toISOString(),
+    });
+  };
+
+  // --- Photo journal ---
+
+  // Compresses and uploads the photos, then records what they show
+  const handleAddObservation = async (entry: ObservationEntry, files: File[]) => {
+    if (!repository || !photoStore || !user) return;
+    const id = repository.newObservationId();
+    const observation: Observation = {
+      ...entry,
+      id,
+      photos: await storePhotos(photoStore, id, files),
+      timestampIso: new Date().toISOString(),
+      byName: getMemberName(user),
+    };
+    await repository.saveObservation(observation);
+    setObservations((prev) => [observation, ...(prev ?? [])]);
+  };
+
+  // Photos given with an application in the editor; the application itself is already queued
+  const attachPhotos = async (event: ApplicationEvent, files: File[]) => {
+    if (!event.id || files.length === 0) return;
+    try {
+      await handleAddObservation(
+        { bedId: getEventBedId(event), taskId: resolveEventTaskId(event, tasks), applicationId: event.id },
+        files
+      );
+    } catch (error) {
+      console.error('Error attaching photos:', error);
+      alert(t('journal.saveFailed'));
+    }
+  };
+
+  const handleDeleteObservation = async (observation: Observation) => {
+    if (!repository || !photoStore) return;
+    await repository.deleteObservation(observation.id);
+    setObservations((prev) => (prev ?? []).filter(({ id }) => id !== observation.id));
+    // A photo left behind is only wasted space, so the entry is gone either way
+    await Promise.all(
+      observation.photos.map(({ path }) =>
+        photoStore.remove(path).catch((error) => console.error('Error deleting photo:', error))
+      )
+    );
+  };
+
+  const handleUndoApply = () => {
+    if (lastApplied) handleDeleteApplication(lastApplied);
+    setLastApplied(null);
+  };
+  const dismissUndo = useCallback(() => setLastApplied(null), []);
+
+  const handleSaveTask = async (task: Task) => {
+    if (!repository) return;
+    await repository.saveTask(task);
+    const { id } = task;
+    setTasks((prev) =>
+      (prev.some((t) => t.id === id) ? prev.map((t) => (t.id === id ? task : t)) : [...prev, task]).sort(
+        (a, b) => a.order - b.order
+      )
+    );
+  };
+
+  const handleToggleArchive = async (task: Task) => {
+    try {
+      await handleSaveTask({ ...task, archived: !task.archived });
+    } catch (error) {
+      console.error('Error archiving task:', error);
+    }
+  };
+
+  const handleSaveBed = async (bed: Bed) => {
+    if (!repository) return;
+    await repository.saveBed(bed);
+    const { id } = bed;
+    setBeds((prev) =>
+      (prev.some((b) => b.id === id) ? prev.map((b) => (b.id === id ? bed : b)) : [...prev, bed]).sort(
+        (a, b) => a.order - b.order
+      )
+    );
+  };
+
+  const handleSaveProfile = async (profile: PlantProfile) => {
+    if (!repository) return;
+    await repository.saveProfile(profile);
+    const { id } = profile;
+    setProfiles((prev) =>
+      (prev.some((p) => p.id === id) ? prev.map((p) => (p.id === id ? profile : p)) : [...prev, profile]).sort(
+        (a, b) => a.order - b.order
+      )
+    );
+  };
+
+  // Sets a bed's treatments from a plant profile, adding the tasks it needs to the catalog first
+  const handleApplyProfile = async (bed: Bed, profile: PlantProfile) => {
+    const { bed: updated, savedTasks } = applyProfile({ bed, profile, tasks, today: currentDate });
+    for (const task of savedTasks) {
+      await handleSaveTask(task);
+    }
+    await handleSaveBed(updated);
+  };
+
+  const handleSeasonStartChange = async (seasonStart: string | undefined) => {
+    if (!activeBed) return;
+    try {
+      await handleSaveBed({ ...activeBed, seasonStart });
+    } catch (error) {
+      console.error('Error saving season start:', error);
+    }
+  };
+
+  // Snoozes or skips the next occurrence of a task in the active bed, with a reason
+  const handleDefer = async (task: Task, kind: Deferral['kind']) => {
+    const schedule = allBedSchedules.find(({ bed }) => bed.id === activeBed?.id);
+    const state = schedule && evaluateBedTask(schedule, task, currentDate);
+    if (!schedule || !state?.dueDate) return;
+
+    let until: string | undefined;
+    if (kind === 'snooze') {
+      const days = Number(prompt(t('defer.snoozeDays', { task: task.label }), '3'));
+      if (!Number.isInteger(days) || days <= 0) return;
+      until = toDateKey(addDays(state.dueDate < currentDate ? currentDate : state.dueDate, days));
+    }
+    const reason = prompt(
+      kind === 'snooze' ? t('defer.snoozeReason') : t('defer.skipReason'),
+      t('defer.defaultReason')
+    );
+    if (reason === null) return;
 
-        // Optimistically update UI
-        setLastApplicationDates((prev) => ({ ...prev, ...newLastDate }));
+    const deferral: Deferral = {
+      kind,
+      dueDate: toDateKey(state.dueDate),
+      until,
+      reason: reason.trim() || (kind === 'snooze' ? t('defer.snoozed') : t('defer.skipped')),
+      byName: user ? getMemberName(user) : undefined,
+    };
+    try {
+      await handleSaveBed({ ...schedule.bed, deferrals: { ...schedule.bed.deferrals, [task.id]: deferral } });
+    } catch (error) {
+      console.error('Error saving deferral:', error);
+      alert(t('defer.saveFailed'));
+    }
+  };
+
+  const handleClearDeferral = async (task: Task) => {
+    if (!activeBed?.deferrals?.[task.id]) return;
+    const deferrals = Object.fromEntries(
+      Object.entries(activeBed.deferrals).filter(([taskId]) => taskId !== task.id)
+    );
+    try {
+      await handleSaveBed({ ...activeBed, deferrals });
+    } catch (error) {
+      console.error('Error clearing deferral:', error);
+    }
+  };
+
+  // Upcoming due dates of one task in the active bed, to import into a phone calendar
+  const handleDownloadIcs = (task: Task) => {
+    const schedule = allBedSchedules.find(({ bed }) => bed.id === activeBed?.id);
+    if (!schedule) return;
+    const ics = buildIcs({
+      schedules: [schedule],
+      today: currentDate,
+      calendarName: `${task.label} · ${schedule.bed.name}`,
+      taskId: task.id,
+      i18n,
+    });
+    downloadFile(`gardenify-${task.id}.ics`, ics, 'text/calendar');
+  };
+
+  // --- Inventory ---
+
+  const handleSaveProduct = async (product: Product) => {
+    if (!repository) return;
+    await repository.saveProduct(product);
+    setProducts((prev) =>
+      prev.some((p) => p.id === product.id)
+        ? prev.map((p) => (p.id === product.id ? product : p))
+        : [...prev, product]
+    );
+  };
+
+  const handleAddStockEntry = async (entry: Omit<StockAdjustment, 'byName'>) => {
+    if (!repository) return;
+    await repository.addStockEntry({ ...entry, byName: user ? getMemberName(user) : undefined });
+  };
+
+  const loadStockEntries = useCallback(
+    () => (repository ? repository.listStockEntries() : Promise.resolve([])),
+    [repository]
+  );
+
+  // A page of the full history for the history view, filtered in Firestore
+  const loadHistoryPage = useCallback(
+    (filter: HistoryQuery, cursor: HistoryCursor | null) =>
+      repository ? repository.listHistoryPage(filter, cursor) : Promise.resolve(EMPTY_HISTORY_PAGE),
+    [repository]
+  );
+
+  // --- Backups ---
+
+  // Every application in the household's garden, including the ones not synced yet. The
+  // live listener only covers the recent window, so exports and stats load it all.
+  const loadAllApplications = useCallback(async () => {
+    if (!repository) return [];
+    const history = await repository.listApplications();
+    return applyQueuedChanges(history, serverLastDates, queued, tasks).applications;
+  }, [repository, serverLastDates, queued, tasks]);
+
+  const handleExport = useCallback(
+    async (format: 'csv' | 'json') => {
+      if (!householdId) return;
+      try {
+        const allApplications = await loadAllApplications();
+        const backup = createBackup({
+          tasks,
+          beds,
+          lastApplicationDates,
+          applications: allApplications,
+        });
+        const date = backup.exportedAtIso.slice(0, 10);
+        if (format === 'csv') {
+          downloadFile(`gardenify-${date}.csv`, backupToCsv(backup), 'text/csv');
+        } else {
+          downloadFile(`gardenify-${date}.json`, backupToJson(backup), 'application/json');
+        }
+      } catch (error) {
+        console.error('Error exporting history:', error);
+        alert(t('backup.exportFailed'));
       }
+    },
+    [householdId, tasks, beds, lastApplicationDates, loadAllApplications, t]
+  );
+
+  const handleImport = async (file: File) => {
+    if (!repository) return;
+    const parsed = parseBackup(await file.text());
+    if (parsed.applications.length === 0) {
+      alert(t('backup.nothingToImport', { file: file.name, errors: parsed.errors.slice(0, 10).join('\n') }));
+      return;
+    }
+    if (
+      parsed.errors.length > 0 &&
+      !confirm(
+        i18n.plural('backup.confirmInvalid', parsed.errors.length, {
+          file: file.name,
+          errors: parsed.errors.slice(0, 10).join('\n'),
+        })
+      )
+    ) {
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const result = await importBackup(repository, { tasks, beds, lastApplicationDates, applications }, parsed);
+      setTasks((prev) => [...prev, ...result.tasks].sort((a, b) => a.order - b.order));
+      setBeds((prev) => [...prev, ...result.beds].sort((a, b) => a.order - b.order));
+      alert(
+        [
+          i18n.plural('backup.imported', result.applications.length),
+          result.skipped > 0 ? i18n.plural('backup.alreadyThere', result.skipped) : '',
+        ]
+          .join(' ')
+          .trim()
+      );
     } catch (error) {
-      console.error('Error applying task:', error);
+      console.error('Error importing backup:', error);
+      alert(t('backup.importFailed'));
+    } finally {
+      setIsImporting(false);
     }
   };
 
-  const handleReset = useCallback(async () => {
-    if (!confirm('Are you sure you want to reset all data? This cannot be undone.')) {
+  // --- Seasons ---
+
+  const refreshSeasons = useCallback(async () => {
+    if (!repository) return;
+    try {
+      setSeasons(await repository.listSeasons());
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    if (view === 'seasons') refreshSeasons();
+  }, [view, refreshSeasons]);
+
+  const loadSeasonApplications = useCallback(
+    (seasonId: string) => (repository ? repository.listSeasonApplications(seasonId) : Promise.resolve([])),
+    [repository]
+  );
+
+  // Archives the history and last-applied dates under a named season and starts a clean slate
+  const handleCloseSeason = async () => {
+    if (!repository || !user) return;
+    if (queued.length > 0) {
+      alert(t('season.unsynced'));
       return;
     }
+    const name = prompt(
+      t('season.namePrompt'),
+      t('season.defaultName', { date: i18n.formatDate(currentDate, { month: 'long', year: 'numeric' }) })
+    );
+    if (!name?.trim()) return;
 
     try {
-      // Use a batch write for atomic deletion
-      const batch = writeBatch(db);
+      await repository.closeSeason(
+        { name: name.trim(), closedByName: getMemberName(user) },
+        beds.map((bed) => bed.id)
+      );
+      // Cycle days count from the season start, so beds that use one start over today
+      for (const bed of beds.filter((b) => b.seasonStart || b.deferrals)) {
+        await handleSaveBed({
+          ...bed,
+          seasonStart: bed.seasonStart ? toDateKey(currentDate) : undefined,
+          deferrals: undefined,
+        });
+      }
+      setLastApplied(null);
+      await refreshSeasons();
+    } catch (error) {
+      console.error('Error closing season:', error);
+      alert(t('season.closeFailed'));
+    }
+  };
 
-      // Delete all documents in the 'applications' collection
-      const appSnapshot = await getDocs(applicationsCollection);
-      appSnapshot.forEach((doc) => batch.delete(doc.ref));
+  const handleRestoreSeason = async (season: SeasonArchive) => {
+    if (!repository) return;
+    if (
+      !confirm(i18n.plural('season.confirmRestore', season.applicationCount, { name: season.name }))
+    ) {
+      return;
+    }
+    try {
+      await repository.restoreSeason(season);
+      await refreshSeasons();
+    } catch (error) {
+      console.error('Error restoring season:', error);
+      alert(t('season.restoreFailed'));
+    }
+  };
 
-      // Delete the 'lastApplicationDates' document
-      batch.delete(lastDatesDoc);
+  // Deletes the current history for good. The app only offers it to the owner, after typing the
+  // household's name.
+  const handlePurgeHistory = useCallback(async () => {
+    if (!repository || !household) return;
+    const typed = prompt(t('history.purgePrompt', { name: household.name }));
+    if (typed === null) return;
+    if (typed.trim() !== household.name) {
+      alert(t('history.purgeMismatch'));
+      return;
+    }
+    // Offer a way back: a backup can be imported after the purge
+    if (confirm(t('history.purgeBackup'))) {
+      await handleExport('json');
+    }
 
-      await batch.commit();
+    try {
+      await repository.resetHistory(beds.map((bed) => bed.id));
+      // Drop queued applications too, or they would reappear on the next sync
+      await clearQueue(repository.householdId);
 
-      // Clear local state
-      setApplications([]);
-      setLastApplicationDates({});
-      console.log('All data reset successfully.');
+      // Clear local state; the listeners pick up the deleted applications and dates
+      setQueued([]);
+      setLastApplied(null);
     } catch (error) {
-      console.error('Error resetting data:', error);
+      console.error('Error deleting history:', error);
+      alert(t('history.purgeFailed'));
     }
-  }, []);
+  }, [beds, repository, household, handleExport, t]);
+
+  // Effective tasks, last-applied dates and applications of every bed, for the schedule,
+  // calendar and reminders
+  const allBedSchedules = useMemo<BedSchedule[]>(
+    () =>
+      beds.map((bed) => ({
+        bed,
+        tasks: getBedTasks(bed, tasks),
+        lastDates: lastApplicationDates[bed.id] ?? {},
+        applications: applications.filter((appEvent) => getEventBedId(appEvent) === bed.id),
+      })),
+    [beds, tasks, lastApplicationDates, applications]
+  );
+
+  // How long each product lasts at the upcoming due dates in every bed
+  const stockProjections = useMemo(
+    () =>
+      new Map(
+        products
+          .filter((product) => !product.archived)
+          .map((product) => [
+            product.id,
+            projectStock({
+              product,
+              products,
+              onHand: stockLevels[product.id] ?? 0,
+              schedules: allBedSchedules,
+              applications,
+              tasks,
+              today: currentDate,
+            }),
+          ])
+      ),
+    [products, stockLevels, allBedSchedules, applications, tasks, currentDate]
+  );
+  const lowStockProducts = products.filter((product) => stockProjections.get(product.id)?.isLow);
 
   const calculateCountdown = useCallback(
-    (taskLabel: string, intervalDays: number | undefined) => {
-      if (intervalDays === undefined) return null;
-      const lastAppliedIso = lastApplicationDates[taskLabel];
-      if (!lastAppliedIso) return null;
-
-      const lastAppliedDate = new Date(lastAppliedIso);
-      const nextApplicationDate = new Date(lastAppliedDate);
-      nextApplicationDate.setDate(lastAppliedDate.getDate() + intervalDays);
-      nextApplicationDate.setHours(0, 0, 0, 0);
-
-      const today = new Date(currentDate); // Use a copy to avoid mutation
-      today.setHours(0, 0, 0, 0);
-
-      const diffTime = nextApplicationDate.getTime() - today.getTime();
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-      if (diffDays <= 0) {
-        return { text: 'Deadline Over', status: 'overdue' };
-      } else {
-        return { text: `Next Apply in ${diffDays} days`, status: 'countdown' };
+    (task: Task, bedId: string) => {
+      const schedule = allBedSchedules.find(({ bed }) => bed.id === bedId);
+      const state = schedule && evaluateBedTask(schedule, task, currentDate, i18n);
+      if (!state) return null;
+
+      const days = state.daysUntil ?? 0;
+      const resumes = state.dueDate ? ` · ${t('countdown.resumes', { date: i18n.formatMonthDay(state.dueDate) })}` : '';
+      switch (state.status) {
+        case 'overdue':
+          return { text: t('countdown.overdue', { duration: i18n.formatDays(-days) }), status: state.status };
+        case 'due':
+          return { text: t('countdown.due'), status: state.status };
+        case 'upcoming':
+          return { text: t('countdown.upcoming', { relative: i18n.formatRelativeDays(days) }), status: state.status };
+        case 'snoozed':
+          return {
+            text: t('countdown.snoozed', {
+              date: i18n.formatMonthDay(state.dueDate ?? currentDate),
+              reason: state.reason ?? '',
+            }),
+            status: state.status,
+          };
+        case 'out-of-season':
+          return { text: `${state.reason}${resumes}`, status: state.status };
+        case 'complete':
+          return { text: `${t('countdown.complete', { reason: state.reason ?? '' })}${resumes}`, status: state.status };
       }
     },
-    [lastApplicationDates, currentDate]
+    [allBedSchedules, currentDate, i18n, t]
+  );
+
+  const totalApplied = bedApplications.length;
+
+  // Per-bed status for the "all beds" overview
+  const bedSummaries = useMemo<BedSummary[]>(
+    () =>
+      beds.map((bed) => {
+        const scheduled = getBedTasks(bed, tasks);
+        return {
+          bed,
+          overdueTasks: scheduled.filter(
+            (task) => calculateCountdown(task, bed.id)?.status === 'overdue'
+          ),
+          scheduledCount: scheduled.length,
+          appliedCount: recentApplications.filter((appEvent) => getEventBedId(appEvent) === bed.id).length,
+        };
+      }),
+    [beds, tasks, recentApplications, calculateCountdown]
+  );
+  const bedSchedules = useMemo(
+    () =>
+      activeBed ? allBedSchedules.filter(({ bed }) => bed.id === activeBed.id) : allBedSchedules,
+    [activeBed, allBedSchedules]
   );
 
-  const totalApplied = applications.length;
+  // Send reminders for every bed whenever the schedule or the clock moves, after taking over
+  // what the service worker sent while the app was closed and planning what it sends next
+  useEffect(() => {
+    if (isLoading) return;
+    const store = createLocalStorageStore();
+    const reminderCheck = {
+      schedules: allBedSchedules,
+      now: currentDate,
+      settings: reminderSettings,
+      store,
+      i18n,
+    };
+    updateBackgroundReminders(reminderCheck)
+      .catch((error) => console.error('Error planning background reminders:', error))
+      .then(() => runReminderCheck({ ...reminderCheck, notifier }))
+      .catch((error) => console.error('Error sending reminders:', error));
+  }, [isLoading, allBedSchedules, currentDate, reminderSettings, notifier, i18n]);
+
+  // Wake the service worker for reminders while the app is closed, where the browser allows it
+  useEffect(() => {
+    registerBackgroundReminders(reminderSettings.enabled)
+      .then(setRemindsInBackground)
+      .catch((error) => console.error('Error registering background reminders:', error));
+  }, [reminderSettings.enabled]);
+
+  const handleReminderSettingsChange = async (settings: ReminderSettings) => {
+    // Turning reminders on asks for permission first, and stays off if it isn't given
+    if (settings.enabled && !reminderSettings.enabled && !logRemindersOnly) {
+      const permission = await Notification.requestPermission();
+      setNotificationPermission(permission);
+      if (permission !== 'granted') return;
+    }
+    setReminderSettings(settings);
+    saveReminderSettings(settings);
+  };
+
+  const handleTestReminder = () => {
+    notifier
+      .notify({
+        key: `test-${Date.now()}`,
+        kind: 'due',
+        bedId: activeBed?.id ?? '',
+        taskId: '',
+        dueDate: '',
+        title: t('reminder.testTitle'),
+        body: t('reminder.testBody'),
+      })
+      .catch((error) => console.error('Error sending test notification:', error));
+  };
+
+  const bedNameById = useMemo(() => new Map(beds.map((bed) => [bed.id, bed.name])), [beds]);
+
+  const filteredActivity = bedApplications.filter((event) =>
+    matchesActivityFilter(event, getEventTaskLabel(event), activityFilter)
+  );
 
   // Typed variants
   const sectionVariants: Variants = {
@@ -256,17 +1169,21 @@ export default function Home() {
     tap: { scale: 0.95 },
   };
 
-  const resetButtonVariants: Variants = {
-    hover: { y: -1, scale: 1.05, boxShadow: '0 5px 15px rgba(255,0,0,0.3)' },
+  const seasonButtonVariants: Variants = {
+    hover: { y: -1, scale: 1.05, boxShadow: '0 5px 15px rgba(0,200,0,0.3)' },
     tap: { scale: 0.9 },
   };
 
-  if (isLoading) {
+  if (!isAuthLoading && !user) {
+    return <SignIn isInvite={hasInvite} />;
+  }
+
+  if (isAuthLoading || isLoading || serverApplications === null || !user || !household) {
     return (
       <main className="min-h-screen bg-gradient-to-br from-gray-900 to-zinc-950 flex items-center justify-center">
         <div className="text-center">
           <Sprout className="w-16 h-16 text-lime-400 animate-bounce" />
-          <p className="text-xl text-gray-300 mt-4">Loading your garden...</p>
+          <p className="text-xl text-gray-300 mt-4">{t('app.loading')}</p>
         </div>
       </main>
     );
@@ -292,136 +1209,551 @@ export default function Home() {
             transition={{ type: 'spring', stiffness: 120, damping: 10, delay: 0.3 }}
             className="text-md sm:text-xl text-gray-400 mt-2 sm:mt-3 italic"
           >
-            Your personal garden care assistant 🌼
+            {t('app.tagline')}
           </motion.p>
 
+          {/* Bed switcher */}
+          <motion.nav
+            initial={{ y: -20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ type: 'spring', stiffness: 120, damping: 10, delay: 0.4 }}
+            className="mt-4 flex flex-wrap items-center justify-center gap-2"
+            aria-label={t('nav.beds')}
+          >
+            {beds.length > 1 && (
+              <button
+                onClick={() => handleSelectBed(ALL_BEDS)}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full border text-sm font-semibold ${
+                  activeBedId === ALL_BEDS
+                    ? 'bg-emerald-700 border-emerald-500 text-white'
+                    : 'bg-zinc-800 border-zinc-700 text-gray-300 hover:text-emerald-300'
+                }`}
+              >
+                <LayoutGrid className="w-4 h-4" /> {t('nav.allBeds')}
+              </button>
+            )}
+            {beds.map((bed) => (
+              <button
+                key={bed.id}
+                onClick={() => handleSelectBed(bed.id)}
+                className={`px-3 py-1 rounded-full border text-sm font-semibold ${
+                  activeBedId === bed.id
+                    ? 'bg-emerald-700 border-emerald-500 text-white'
+                    : 'bg-zinc-800 border-zinc-700 text-gray-300 hover:text-emerald-300'
+                }`}
+              >
+                {bed.name}
+              </button>
+            ))}
+            <button
+              onClick={() => setIsManagingBeds((prev) => !prev)}
+              className="p-1.5 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+              aria-label={t('nav.manageBeds')}
+            >
+              <Settings className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsReminderPanelOpen((prev) => !prev)}
+              className={`p-1.5 rounded-full bg-zinc-800 border border-zinc-700 hover:text-emerald-300 ${
+                reminderSettings.enabled ? 'text-lime-400' : 'text-gray-300'
+              }`}
+              aria-label={t('nav.reminders')}
+            >
+              <Bell className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setIsHouseholdPanelOpen((prev) => !prev)}
+              className="p-1.5 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+              aria-label={t('nav.household')}
+            >
+              <Users className="w-4 h-4" />
+            </button>
+            <label className="flex items-center gap-1 px-2 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 text-sm">
+              <Languages className="w-4 h-4" aria-hidden />
+              <select
+                className="bg-transparent focus:outline-none"
+                value={i18n.locale}
+                onChange={(e) => isLocale(e.target.value) && i18n.setLocale(e.target.value)}
+                aria-label={t('nav.language')}
+              >
+                {LOCALES.map(({ code, name }) => (
+                  <option key={code} value={code} className="bg-zinc-900">
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </motion.nav>
+
+          <div className="mt-3 flex justify-center">
+            <SyncStatus
+              isOnline={isOnline}
+              isServerConfirmed={isServerConfirmed}
+              pendingCount={pendingIds.size}
+            />
+          </div>
+
           <motion.button
-            onClick={handleReset}
-            variants={resetButtonVariants}
+            onClick={handleCloseSeason}
+            variants={seasonButtonVariants}
             whileHover="hover"
             whileTap="tap"
-            className="block mx-auto mt-4 sm:absolute sm:top-0 sm:right-0 sm:mt-4 sm:mr-4 flex items-center gap-2 px-3 py-1 sm:px-4 sm:py-2 rounded-full bg-red-700 text-white text-sm font-semibold shadow-lg transition-all duration-300 z-10"
+            className="block mx-auto mt-4 sm:absolute sm:top-0 sm:right-0 sm:mt-4 sm:mr-4 flex items-center gap-2 px-3 py-1 sm:px-4 sm:py-2 rounded-full bg-emerald-700 text-white text-sm font-semibold shadow-lg transition-all duration-300 z-10"
           >
-            <RotateCcw className="w-4 h-4" />
-            Reset All
+            <Archive className="w-4 h-4" />
+            {t('season.close')}
           </motion.button>
         </header>
 
-        {/* Treatment Schedule */}
-        <motion.section
-          variants={sectionVariants}
-          initial="initial"
-          animate="animate"
-          whileHover="hover"
-          className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 relative overflow-hidden"
-        >
-          <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
-            <CalendarDays className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
-            Treatment Schedule <span className="text-xl sm:text-2xl ml-1 sm:ml-2">🗓️</span>
-          </h2>
-          <p className="text-base sm:text-lg text-gray-300 mb-5 sm:mb-6 flex items-center gap-2">
-            <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-400" /> Total applied actions:{' '}
-            <span className="font-semibold text-emerald-300">{totalApplied}</span>
-          </p>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 sm:gap-8">
-            {tasks.map((task, idx) => {
-              const TaskIcon = task.icon;
-              const countdown = calculateCountdown(task.label, task.applyIntervalDays);
-              const appliedCountForTask = appliedTimestamps[idx].length;
-
-              return (
+        <AnimatePresence>
+          {isManagingBeds && (
+            <motion.section
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 overflow-hidden"
+            >
+              <BedEditor
+                beds={beds}
+                tasks={activeTasks}
+                profiles={profiles}
+                onSave={handleSaveBed}
+                onApplyProfile={handleApplyProfile}
+              />
+              <h3 className="mt-6 mb-3 text-lg font-semibold text-emerald-300">{t('profiles.title')}</h3>
+              <ProfileEditor profiles={profiles} tasks={activeTasks} onSave={handleSaveProfile} />
+            </motion.section>
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {isReminderPanelOpen && (
+            <motion.section
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 overflow-hidden"
+            >
+              <ReminderSettingsPanel
+                settings={reminderSettings}
+                permission={notificationPermission}
+                inBackground={remindsInBackground}
+                onChange={handleReminderSettingsChange}
+                onTest={handleTestReminder}
+              />
+            </motion.section>
+          )}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {isHouseholdPanelOpen && (
+            <motion.section
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 overflow-hidden"
+            >
+              <HouseholdPanel household={household} user={user} onSignOut={handleSignOut} />
+            </motion.section>
+          )}
+        </AnimatePresence>
+
+        {/* View switcher */}
+        <nav className="flex justify-center gap-2" aria-label={t('nav.views')}>
+          {(
+            [
+              { key: 'schedule', label: t('view.schedule'), Icon: LayoutList },
+              { key: 'calendar', label: t('view.calendar'), Icon: CalendarRange },
+              { key: 'history', label: t('view.history'), Icon: History },
+              { key: 'stats', label: t('view.stats'), Icon: BarChart3 },
+              { key: 'inventory', label: t('view.inventory'), Icon: Package },
+              { key: 'seasons', label: t('view.seasons'), Icon: Archive },
+              { key: 'journal', label: t('view.journal'), Icon: Camera },
+            ] as const
+          ).map(({ key, label, Icon }) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-full border text-sm font-semibold ${
+                view === key
+                  ? 'bg-emerald-700 border-emerald-500 text-white'
+                  : 'bg-zinc-800 border-zinc-700 text-gray-300 hover:text-emerald-300'
+              }`}
+            >
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+        </nav>
+
+        {lowStockProducts.length > 0 && view !== 'inventory' && (
+          <button
+            onClick={() => setView('inventory')}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-xl bg-amber-900/40 border border-amber-600/60 text-sm text-amber-200 hover:bg-amber-900/60"
+          >
+            <AlertTriangle className="w-4 h-4" />
+            {t('stock.runningLow', { products: lowStockProducts.map((product) => product.name).join(', ') })}
+          </button>
+        )}
+
+        {view === 'calendar' ? (
+          /* Treatment Calendar */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <CalendarRange className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('calendar.title')}
+              <span className="text-base sm:text-lg font-medium text-gray-400">
+                · {activeBed ? activeBed.name : t('nav.allBeds')}
+              </span>
+            </h2>
+            <TreatmentCalendar
+              schedules={bedSchedules}
+              applications={bedApplications}
+              tasks={tasks}
+              today={currentDate}
+              onSeasonStartChange={activeBed ? handleSeasonStartChange : undefined}
+            />
+          </motion.section>
+        ) : view === 'history' ? (
+          /* Activity History */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <History className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('view.history')}
+              <span className="text-base sm:text-lg font-medium text-gray-400">
+                · {activeBed ? activeBed.name : t('nav.allBeds')}
+              </span>
+            </h2>
+            <ActivityHistory
+              loadPage={loadHistoryPage}
+              bedId={activeBed?.id}
+              tasks={tasks}
+              bedNameById={bedNameById}
+              getEventTaskLabel={getEventTaskLabel}
+              sessionEdits={sessionEdits}
+              pendingIds={pendingIds}
+              onEdit={setEditingEvent}
+            />
+          </motion.section>
+        ) : view === 'stats' ? (
+          /* Stats */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <BarChart3 className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('view.stats')}
+              <span className="text-base sm:text-lg font-medium text-gray-400">
+                · {activeBed ? activeBed.name : t('nav.allBeds')}
+              </span>
+            </h2>
+            <StatsDashboard
+              key={activeBed?.id ?? ALL_BEDS}
+              beds={activeBed ? [activeBed] : beds}
+              tasks={tasks}
+              today={currentDate}
+              loadApplications={loadAllApplications}
+            />
+          </motion.section>
+        ) : view === 'inventory' ? (
+          /* Inventory */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <Package className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('view.inventory')}
+            </h2>
+            <InventoryPanel
+              products={products}
+              projections={stockProjections}
+              tasks={activeTasks}
+              onSaveProduct={handleSaveProduct}
+              onAddStockEntry={handleAddStockEntry}
+              loadStockEntries={loadStockEntries}
+            />
+          </motion.section>
+        ) : view === 'seasons' ? (
+          /* Seasons */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <Archive className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('view.seasons')}
+            </h2>
+            <SeasonArchivePanel
+              seasons={seasons}
+              tasks={tasks}
+              bedNameById={bedNameById}
+              getEventTaskLabel={getEventTaskLabel}
+              loadCurrent={loadAllApplications}
+              loadSeason={loadSeasonApplications}
+              onCloseSeason={handleCloseSeason}
+              onRestore={handleRestoreSeason}
+              // Only the household's owner is offered deleting its history for good
+              onPurge={household.ownerUid === user.uid ? handlePurgeHistory : undefined}
+            />
+          </motion.section>
+        ) : view === 'journal' && photoStore ? (
+          /* Photo Journal */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-4 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <Camera className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('journal.title')}
+              <span className="text-base sm:text-lg font-medium text-gray-400">
+                · {activeBed ? activeBed.name : t('nav.allBeds')}
+              </span>
+            </h2>
+            <PhotoJournal
+              key={activeBedId}
+              beds={beds}
+              activeBedId={activeBed?.id}
+              tasks={tasks}
+              applications={applications}
+              observations={observations}
+              store={photoStore}
+              getEventTaskLabel={getEventTaskLabel}
+              onAdd={handleAddObservation}
+              onDelete={handleDeleteObservation}
+            />
+          </motion.section>
+        ) : (
+          /* Treatment Schedule */
+          <motion.section
+            variants={sectionVariants}
+            initial="initial"
+            animate="animate"
+            whileHover="hover"
+            className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 relative overflow-hidden"
+          >
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
+              <CalendarDays className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('schedule.title')} <span className="text-xl sm:text-2xl ml-1 sm:ml-2">🗓️</span>
+              <span className="text-base sm:text-lg font-medium text-gray-400">
+                · {activeBed ? activeBed.name : t('nav.allBeds')}
+              </span>
+            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-5 sm:mb-6">
+              <p className="text-base sm:text-lg text-gray-300 flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-emerald-400" />{' '}
+                {t('schedule.appliedInWindow', { duration: i18n.formatDays(RECENT_WINDOW_DAYS) })}{' '}
+                <span className="font-semibold text-emerald-300">{totalApplied}</span>
+              </p>
+              <button
+                onClick={() => setIsManagingTasks((prev) => !prev)}
+                className="flex items-center gap-2 px-3 py-1 rounded-full bg-zinc-800 border border-zinc-700 text-sm text-gray-300 hover:text-emerald-300"
+              >
+                <Settings className="w-4 h-4" />
+                {isManagingTasks ? t('schedule.done') : t('schedule.manageTreatments')}
+              </button>
+            </div>
+            <AnimatePresence>
+              {isManagingTasks && (
                 <motion.div
-                  key={idx}
-                  variants={cardVariants}
-                  initial="initial"
-                  animate="animate"
-                  whileHover="hover"
-                  transition={{ delay: idx * 0.1 }}
-                  className="flex flex-col bg-zinc-900/50 p-5 sm:p-6 rounded-xl sm:rounded-2xl border border-zinc-700 shadow-xl"
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mb-6 sm:mb-8 overflow-hidden"
                 >
-                  <div className="flex justify-between items-start mb-3 sm:mb-4">
-                    <div className="flex items-center gap-2 sm:gap-3">
-                      <TaskIcon className="w-6 h-6 sm:w-7 sm:h-7 text-lime-400" />
-                      <div className="flex flex-col">
-                        <span className="text-lg sm:text-xl text-gray-100 font-bold">
-                          {task.label}
-                        </span>
-                        <span className="mt-0.5 sm:mt-1 text-sm sm:text-md text-gray-400">
-                          {task.dayLabel}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
-                  {appliedCountForTask > 0 && (
-                    <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-zinc-700">
-                      <h4 className="text-xs sm:text-sm font-medium text-gray-300 mb-1 sm:mb-2">
-                        Recent Applications:
-                      </h4>
-                      <ul className="space-y-1">
-                        {appliedTimestamps[idx].slice(0, 3).map((tsStr, i) => (
-                          <motion.li
-                            key={i}
-                            initial={{ opacity: 0, x: -10 }}
-                            animate={{ opacity: 1, x: 0 }}
-                            transition={{
-                              type: 'spring',
-                              stiffness: 100,
-                              damping: 10,
-                              delay: i * 0.03,
-                            }}
-                            className="flex items-center gap-2 text-xs sm:text-sm text-sky-300 bg-sky-900/50 px-2 py-0.5 sm:px-3 sm:py-1 rounded-md sm:rounded-lg border border-sky-800"
-                          >
-                            <span className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-sky-400 rounded-full flex-shrink-0" />
-                            <span>Applied: {tsStr}</span>
-                          </motion.li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                  {countdown && (
+                  <TaskCatalogEditor
+                    tasks={tasks}
+                    onSave={handleSaveTask}
+                    onToggleArchive={handleToggleArchive}
+                  />
+                </motion.div>
+              )}
+            </AnimatePresence>
+            {!activeBed ? (
+              <BedOverview summaries={bedSummaries} onSelect={handleSelectBed} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 sm:gap-8">
+                {bedTasks.map((task, idx) => {
+                  const TaskIcon = getTaskIcon(task.icon);
+                  const countdown = calculateCountdown(task, activeBed.id);
+                  const appliedCountForTask = applicationsByTask[task.id].length;
+                  const safeFrom = getSafeToApplyFrom(getSafetyContext(task), currentDate);
+
+                  return (
                     <motion.div
-                      key={`countdown-${idx}-${countdown.text}`}
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ type: 'spring', stiffness: 100, damping: 10, delay: 0.1 }}
-                      className={`mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-zinc-700 text-center text-sm sm:text-base font-semibold ${
-                        countdown.status === 'overdue' ? 'text-red-400' : 'text-amber-300'
-                      }`}
-                    >
-                      {countdown.text}
-                    </motion.div>
-                  )}
-                  <div className="mt-auto flex flex-col sm:flex-row items-center justify-between pt-3 sm:pt-4 gap-3 sm:gap-0">
-                    <motion.button
-                      onClick={() => handleApply(idx)}
-                      variants={buttonVariants}
-                      whileTap="tap"
+                      key={task.id}
+                      variants={cardVariants}
+                      initial="initial"
+                      animate="animate"
                       whileHover="hover"
-                      className="flex items-center justify-center gap-2 px-4 py-2 sm:px-6 sm:py-3 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold shadow-lg transition-all duration-300 w-full sm:w-auto"
+                      transition={{ delay: idx * 0.1 }}
+                      className="flex flex-col bg-zinc-900/50 p-5 sm:p-6 rounded-xl sm:rounded-2xl border border-zinc-700 shadow-xl"
                     >
-                      <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />
-                      Apply Now
-                    </motion.button>
-                    <AnimatePresence>
+                      <div className="flex justify-between items-start mb-3 sm:mb-4">
+                        <div className="flex items-center gap-2 sm:gap-3">
+                          <TaskIcon className="w-6 h-6 sm:w-7 sm:h-7 text-lime-400" />
+                          <div className="flex flex-col">
+                            <span className="text-lg sm:text-xl text-gray-100 font-bold">
+                              {task.label}
+                            </span>
+                            <span className="mt-0.5 sm:mt-1 text-sm sm:text-md text-gray-400">
+                              {task.dayLabel}
+                            </span>
+                          </div>
+                        </div>
+                      </div>
                       {appliedCountForTask > 0 && (
-                        <motion.span
-                          key={appliedCountForTask}
-                          initial={{ scale: 0.8, opacity: 0 }}
-                          animate={{ scale: 1, opacity: 1 }}
-                          exit={{ opacity: 0, scale: 0.8 }}
-                          transition={{ duration: 0.2 }}
-                          className="bg-yellow-900/50 text-yellow-300 text-xs sm:text-sm px-2 py-0.5 sm:px-3 sm:py-1 rounded-full font-medium shadow-sm border border-yellow-800"
+                        <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-zinc-700">
+                          <h4 className="text-xs sm:text-sm font-medium text-gray-300 mb-1 sm:mb-2">
+                            {t('schedule.recentApplications')}
+                          </h4>
+                          <ul className="space-y-1">
+                            {applicationsByTask[task.id].slice(0, 3).map((appEvent, i) => (
+                              <motion.li
+                                key={appEvent.id ?? i}
+                                initial={{ opacity: 0, x: -10 }}
+                                animate={{ opacity: 1, x: 0 }}
+                                transition={{
+                                  type: 'spring',
+                                  stiffness: 100,
+                                  damping: 10,
+                                  delay: i * 0.03,
+                                }}
+                                className="flex items-center gap-2 text-xs sm:text-sm text-sky-300 bg-sky-900/50 px-2 py-0.5 sm:px-3 sm:py-1 rounded-md sm:rounded-lg border border-sky-800"
+                              >
+                                <span className="w-1.5 h-1.5 sm:w-2 sm:h-2 bg-sky-400 rounded-full flex-shrink-0" />
+                                <span className="flex-1">
+                                  {t('schedule.appliedAt', {
+                                    date: i18n.formatMonthDay(appEvent.timestampIso),
+                                    time: i18n.formatTime(appEvent.timestampIso),
+                                  })}
+                                </span>
+                                <button
+                                  onClick={() => setEditingEvent(appEvent)}
+                                  className="text-sky-400 hover:text-sky-200"
+                                  aria-label={t('schedule.editApplication')}
+                                >
+                                  <Pencil className="w-3 h-3 sm:w-3.5 sm:h-3.5" />
+                                </button>
+                              </motion.li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {countdown && (
+                        <motion.div
+                          key={`countdown-${task.id}-${countdown.text}`}
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          transition={{ type: 'spring', stiffness: 100, damping: 10, delay: 0.1 }}
+                          className={`mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-zinc-700 text-center text-sm sm:text-base font-semibold ${
+                            COUNTDOWN_STYLES[countdown.status]
+                          }`}
                         >
-                          Applied {appliedCountForTask} times
-                        </motion.span>
+                          {countdown.text}
+                          {countdown.status === 'snoozed' ? (
+                            <div className="mt-1 text-xs font-normal">
+                              <button
+                                onClick={() => handleClearDeferral(task)}
+                                className="text-gray-400 hover:text-emerald-300 underline"
+                              >
+                                {t('schedule.cancelSnooze')}
+                              </button>
+                            </div>
+                          ) : (
+                            countdown.status !== 'out-of-season' &&
+                            countdown.status !== 'complete' && (
+                              <div className="mt-1 flex justify-center gap-3 text-xs font-normal">
+                                <button
+                                  onClick={() => handleDefer(task, 'snooze')}
+                                  className="text-gray-400 hover:text-emerald-300 underline"
+                                >
+                                  {t('schedule.snooze')}
+                                </button>
+                                <button
+                                  onClick={() => handleDefer(task, 'skip')}
+                                  className="text-gray-400 hover:text-emerald-300 underline"
+                                >
+                                  {t('schedule.skip')}
+                                </button>
+                                <button
+                                  onClick={() => handleDownloadIcs(task)}
+                                  className="text-gray-400 hover:text-emerald-300 underline"
+                                >
+                                  {t('schedule.addToCalendar')}
+                                </button>
+                              </div>
+                            )
+                          )}
+                        </motion.div>
                       )}
-                    </AnimatePresence>
-                  </div>
-                </motion.div>
-              );
-            })}
-          </div>
-        </motion.section>
+                      {safeFrom && (
+                        <div className="mt-2 flex items-center justify-center gap-1 text-xs sm:text-sm text-orange-300">
+                          <ShieldAlert className="w-4 h-4" />
+                          {t('schedule.safeFrom', { date: i18n.formatMonthDay(safeFrom) })}
+                        </div>
+                      )}
+                      <div className="mt-auto flex flex-col sm:flex-row items-center justify-between pt-3 sm:pt-4 gap-3 sm:gap-0">
+                        <div className="flex items-center gap-2 w-full sm:w-auto">
+                          <motion.button
+                            onClick={() => handleApply(task)}
+                            variants={buttonVariants}
+                            whileTap="tap"
+                            whileHover="hover"
+                            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 sm:px-6 sm:py-3 rounded-full bg-gradient-to-r from-emerald-600 to-green-700 text-white font-semibold shadow-lg transition-all duration-300 sm:flex-none"
+                          >
+                            <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5" />
+                            {t('schedule.applyNow')}
+                          </motion.button>
+                          <button
+                            onClick={() => setDetailsTask(task)}
+                            className="p-2 sm:p-3 rounded-full bg-zinc-800 border border-zinc-700 text-gray-300 hover:text-emerald-300"
+                            aria-label={t('schedule.applyTaskWithDetails', { task: task.label })}
+                            title={t('schedule.applyWithDetails')}
+                          >
+                            <ClipboardList className="w-4 h-4 sm:w-5 sm:h-5" />
+                          </button>
+                        </div>
+                        <AnimatePresence>
+                          {appliedCountForTask > 0 && (
+                            <motion.span
+                              key={appliedCountForTask}
+                              initial={{ scale: 0.8, opacity: 0 }}
+                              animate={{ scale: 1, opacity: 1 }}
+                              exit={{ opacity: 0, scale: 0.8 }}
+                              transition={{ duration: 0.2 }}
+                              className="bg-yellow-900/50 text-yellow-300 text-xs sm:text-sm px-2 py-0.5 sm:px-3 sm:py-1 rounded-full font-medium shadow-sm border border-yellow-800"
+                            >
+                              {i18n.plural('schedule.appliedTimes', appliedCountForTask)}
+                            </motion.span>
+                          )}
+                        </AnimatePresence>
+                      </div>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            )}
+          </motion.section>
+        )}
 
         {/* Recent Activity */}
         <motion.section
@@ -431,33 +1763,74 @@ export default function Home() {
           whileHover="hover"
           className="glass-effect rounded-2xl sm:rounded-3xl shadow-2xl border border-zinc-700 p-6 sm:p-8 relative overflow-hidden"
         >
-          <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 mb-4 sm:mb-5 flex items-center gap-2 sm:gap-3">
-            <History className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
-            Recent Activity <span className="text-xl sm:text-2xl ml-1 sm:ml-2">⏳</span>
-          </h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-5">
+            <h2 className="text-2xl sm:text-3xl font-bold text-emerald-400 flex items-center gap-2 sm:gap-3">
+              <History className="w-7 h-7 sm:w-8 sm:h-8 text-lime-400" />
+              {t('activity.title')} <span className="text-xl sm:text-2xl ml-1 sm:ml-2">⏳</span>
+            </h2>
+            <BackupMenu onExport={handleExport} onImport={handleImport} isImporting={isImporting} />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <label className="flex-1 min-w-48 flex items-center gap-2 bg-zinc-900/70 border border-zinc-700 rounded-full px-3 py-1.5">
+              <Search className="w-4 h-4 text-gray-400" />
+              <input
+                className="flex-1 bg-transparent text-gray-100 focus:outline-none"
+                value={activityFilter.search}
+                onChange={(e) => setActivityFilter({ ...activityFilter, search: e.target.value })}
+                placeholder={t('activity.search')}
+              />
+            </label>
+            <select
+              className="bg-zinc-900/70 border border-zinc-700 rounded-full px-3 py-1.5 text-gray-200"
+              value={activityFilter.weather}
+              onChange={(e) =>
+                setActivityFilter({ ...activityFilter, weather: e.target.value as WeatherCondition | 'any' })
+              }
+              aria-label={t('activity.weather')}
+            >
+              <option value="any">{t('activity.anyWeather')}</option>
+              {(Object.keys(WEATHER_LABELS) as WeatherCondition[]).map((key) => (
+                <option key={key} value={key}>
+                  {t(`weather.${key}`)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input
+                type="checkbox"
+                checked={activityFilter.rainedAfterOnly}
+                onChange={(e) => setActivityFilter({ ...activityFilter, rainedAfterOnly: e.target.checked })}
+              />
+              {t('activity.rainedAfter')}
+            </label>
+            <label className="flex items-center gap-1 text-gray-300">
+              <input
+                type="checkbox"
+                checked={activityFilter.withDetailsOnly}
+                onChange={(e) => setActivityFilter({ ...activityFilter, withDetailsOnly: e.target.checked })}
+              />
+              {t('activity.withDetails')}
+            </label>
+          </div>
           <ul className="space-y-2 sm:space-y-3 text-gray-300 text-sm sm:text-base max-h-64 sm:max-h-72 overflow-y-auto pr-2 custom-scrollbar">
             <AnimatePresence>
-              {applications.length > 0 ? (
-                applications.map((event, i) => (
-                  <motion.li
+              {filteredActivity.length > 0 ? (
+                filteredActivity.slice(0, RECENT_ACTIVITY_LIMIT).map((event, i) => (
+                  <ActivityItem
                     key={event.id}
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -10 }}
-                    transition={{ type: 'spring', stiffness: 100, damping: 10, delay: i * 0.03 }}
-                    className="flex items-center gap-2 sm:gap-3 bg-zinc-900/50 p-2 sm:p-3 rounded-md sm:rounded-lg border border-zinc-700 shadow-md"
-                  >
-                    <span className="text-xl sm:text-2xl flex-shrink-0">✨</span>
-                    <div>
-                      <span>
-                        Applied <strong className="text-emerald-300">&ldquo;{event.label}&rdquo;</strong> (Day{' '}
-                        <span className="font-semibold">{event.dayLabel.split(' ')[1]}</span>)
-                      </span>
-                      <div className="text-xs sm:text-sm text-gray-400 mt-0.5">
-                        on {new Date(event.timestampIso).toLocaleString()}
-                      </div>
-                    </div>
-                  </motion.li>
+                    event={event}
+                    taskLabel={getEventTaskLabel(event)}
+                    bedName={
+                      activeBedId === ALL_BEDS
+                        ? bedNameById.get(getEventBedId(event)) ?? getEventBedId(event)
+                        : undefined
+                    }
+                    isPending={!!event.id && pendingIds.has(event.id)}
+                    photos={photosByApplicationId.get(event.id ?? '')}
+                    photoStore={photoStore ?? undefined}
+                    index={i}
+                    onEdit={setEditingEvent}
+                  />
                 ))
               ) : (
                 <motion.li
@@ -465,14 +1838,63 @@ export default function Home() {
                   animate={{ opacity: 1 }}
                   className="text-gray-500 text-base sm:text-lg py-4 text-center"
                 >
-                  No applied actions yet. Let&rsquo;s get gardening! 🌱
+                  {isActivityFilterActive(activityFilter) ? t('activity.noMatches') : t('activity.empty')}
                 </motion.li>
               )}
             </AnimatePresence>
           </ul>
+          <button
+            onClick={() => setView('history')}
+            className="mt-4 mx-auto flex items-center gap-2 px-4 py-2 rounded-full bg-zinc-800 border border-zinc-700 text-sm text-gray-300 hover:text-emerald-300"
+          >
+            <History className="w-4 h-4" /> {t('activity.seeAll')}
+          </button>
         </motion.section>
       </div>
 
+      <AnimatePresence>
+        {editingEvent && (
+          <ApplicationEditor
+            key={editingEvent.id}
+            event={editingEvent}
+            taskLabel={getEventTaskLabel(editingEvent)}
+            onSave={(changes, photos) => {
+              handleUpdateApplication(editingEvent, changes);
+              attachPhotos(editingEvent, photos);
+              setEditingEvent(null);
+            }}
+            onDelete={() => {
+              handleDeleteApplication(editingEvent);
+              setEditingEvent(null);
+            }}
+            onClose={() => setEditingEvent(null)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {detailsTask && (
+          <ApplicationEditor
+            key={detailsTask.id}
+            event={{
+              label: detailsTask.label,
+              dayLabel: detailsTask.dayLabel,
+              timestampIso: new Date().toISOString(),
+            }}
+            taskLabel={detailsTask.label}
+            onSave={(details, photos) => {
+              handleApply(detailsTask, details).then((applied) => applied && attachPhotos(applied, photos));
+              setDetailsTask(null);
+            }}
+            onClose={() => setDetailsTask(null)}
+          />
+        )}
+      </AnimatePresence>
+      <UndoToast
+        message={lastApplied ? t('undo.applied', { task: getEventTaskLabel(lastApplied) }) : null}
+        onUndo={handleUndoApply}
+        onDismiss={dismissUndo}
+      />
+
       <style jsx>{`
         .custom-scrollbar::-webkit-scrollbar {
           width: 8px;
@@ -0,0 +1,126 @@
+import { expect, it } from 'vitest';
+
+import { computeTaskStats, countByMonth, totalUsage } from '../analytics';
+import type { Bed, Task } from '../types';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const statsFor = (task: Task, dates: Date[], today: Date, bed: Bed = makeBed()) =>
+  computeTaskStats({
+    applications: dates.map((date) => makeApplication(task, date)),
+    beds: [bed],
+    tasks: [task],
+    today,
+  })[0];
+
+describeInTimeZones('task stats', () => {
+  it('rates weekly applications against the due date across a DST change', () => {
+    const dates = [at('2026-03-22', 23, 30), at('2026-03-29', 6), at('2026-04-08', 7)];
+    expect(statsFor(makeTask(), dates, at('2026-04-10', 9))).toMatchObject({
+      applications: 3,
+      onTime: 1,
+      late: 1,
+      longestOverdueDays: 3,
+    });
+  });
+
+  it('rates tasks on fixed days of the month', () => {
+    const task = makeTask({ applyIntervalDays: undefined, recurrence: { monthDays: [1, 15] } });
+    const dates = [at('2026-10-01', 8), at('2026-10-15', 19), at('2026-11-04', 7)];
+    expect(statsFor(task, dates, at('2026-11-05', 9))).toMatchObject({ onTime: 1, late: 1, longestOverdueDays: 3 });
+  });
+
+  it("doesn't count a pause or a snooze as overdue", () => {
+    const task = makeTask({
+      applyIntervalDays: 14,
+      recurrence: { pauses: [{ start: '06-15', end: '08-31', reason: 'Monsoon' }] },
+    });
+    const dates = [at('2026-06-10', 8), at('2026-09-01', 8)];
+    expect(statsFor(task, dates, at('2026-09-10', 9))).toMatchObject({ onTime: 1, late: 0, longestOverdueDays: 0 });
+
+    const snoozed = makeBed({
+      deferrals: { neem: { kind: 'snooze', dueDate: '2026-09-08', until: '2026-09-12', reason: 'Rain' } },
+    });
+    expect(statsFor(makeTask(), [at('2026-09-01', 8)], at('2026-09-11', 9), snoozed)).toMatchObject({
+      longestOverdueDays: 0,
+    });
+    expect(statsFor(makeTask(), [at('2026-09-01', 8)], at('2026-09-11', 9))).toMatchObject({
+      longestOverdueDays: 3,
+    });
+  });
+
+  it('rates past applications without the deferrals made since', () => {
+    const dates = [at('2026-04-01', 8), at('2026-05-01', 8)];
+    const skipped = makeBed({ deferrals: { neem: { kind: 'skip', dueDate: '2026-10-25', reason: 'Away' } } });
+    expect(statsFor(makeTask(), dates, at('2026-10-19', 9))).toMatchObject({ late: 1, longestOverdueDays: 164 });
+    expect(statsFor(makeTask(), dates, at('2026-10-19', 9), skipped)).toMatchObject({
+      onTime: 0,
+      late: 1,
+      longestOverdueDays: 23,
+    });
+  });
+
+  it("doesn't count a season that is done as overdue", () => {
+    const task = makeTask({ recurrence: { maxPerSeason: 2 } });
+    const bed = makeBed({ seasonStart: '2026-09-01' });
+    const dates = [at('2026-09-01', 8), at('2026-09-08', 8)];
+    expect(statsFor(task, dates, at('2026-10-19', 9), bed)).toMatchObject({ onTime: 1, longestOverdueDays: 0 });
+  });
+
+  it('counts a task that is overdue right now', () => {
+    expect(statsFor(makeTask(), [at('2026-09-01', 8)], at('2026-09-11', 9))).toMatchObject({
+      applications: 1,
+      onTime: 0,
+      late: 0,
+      averageIntervalDays: null,
+      longestOverdueDays: 3,
+    });
+  });
+
+  it('only counts applications in the period, rating the first against the one before', () => {
+    const task = makeTask();
+    const stats = computeTaskStats({
+      applications: [at('2026-09-01', 8), at('2026-09-12', 8)].map((date) => makeApplication(task, date)),
+      beds: [makeBed()],
+      tasks: [task],
+      from: at('2026-09-10'),
+      today: at('2026-09-13', 9),
+    });
+    expect(stats).toMatchObject([{ applications: 1, late: 1, longestOverdueDays: 4 }]);
+  });
+});
+
+describeInTimeZones('usage', () => {
+  it('counts applications per month, including months without any', () => {
+    const task = makeTask();
+    const applications = [at('2026-08-31', 23, 30), at('2026-10-01', 0, 30), at('2026-10-19', 9)].map((date) =>
+      makeApplication(task, date)
+    );
+    expect(countByMonth(applications, at('2026-11-02', 9)).map(({ key, count }) => [key, count])).toEqual([
+      ['2026-08', 1],
+      ['2026-09', 0],
+      ['2026-10', 2],
+      ['2026-11', 0],
+    ]);
+    expect(countByMonth([], at('2026-11-02', 9))).toEqual([]);
+  });
+
+  it('adds up quantities per task, converting to the larger unit from 1000 up', () => {
+    const neem = makeTask();
+    const feed = makeTask({ id: 'feed', label: 'Feed' });
+    const applications = [
+      makeApplication(neem, at('2026-10-01', 8), { quantity: 750, unit: 'ml' }),
+      makeApplication(neem, at('2026-10-08', 8), { quantity: 0.5, unit: 'l' }),
+      makeApplication(feed, at('2026-10-08', 8), { quantity: 200, unit: 'g' }),
+      makeApplication(feed, at('2026-10-09', 8)),
+    ];
+    expect(totalUsage(applications, [neem, feed])).toEqual([
+      { taskId: 'neem', unit: 'l', amount: 1.25 },
+      { taskId: 'feed', unit: 'g', amount: 200 },
+    ]);
+    expect(totalUsage(applications, [neem, feed], at('2026-10-05'))).toEqual([
+      { taskId: 'neem', unit: 'ml', amount: 500 },
+      { taskId: 'feed', unit: 'g', amount: 200 },
+    ]);
+  });
+});
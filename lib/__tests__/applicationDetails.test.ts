@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  describeApplicationDetails,
+  EMPTY_ACTIVITY_FILTER,
+  isActivityFilterActive,
+  matchesActivityFilter,
+} from '../applicationDetails';
+import { makeApplication, makeTask } from './fixtures';
+
+describe('application details', () => {
+  const neem = makeTask();
+  const applied = new Date(Date.UTC(2026, 4, 1));
+  const detailed = makeApplication(neem, applied, {
+    quantity: 250,
+    unit: 'ml',
+    dilution: '2 ml/L',
+    productLot: 'B-114',
+    target: 'Aphids',
+    weather: 'cloudy',
+    rainedAfter: true,
+  });
+
+  it('describes the details an application was logged with', () => {
+    expect(describeApplicationDetails(detailed)).toEqual([
+      '250 mL',
+      '2 ml/L',
+      'Lot B-114',
+      'Target: Aphids',
+      'Cloudy ☁️',
+      'Rained after',
+    ]);
+    expect(describeApplicationDetails(makeApplication(neem, applied))).toEqual([]);
+  });
+
+  it('matches the search against the label, target, lot, dilution and notes', () => {
+    const filter = { ...EMPTY_ACTIVITY_FILTER, search: ' aphid ' };
+    expect(matchesActivityFilter(detailed, 'Neem', filter)).toBe(true);
+    expect(matchesActivityFilter(detailed, 'Neem', { ...filter, search: 'b-114' })).toBe(true);
+    expect(matchesActivityFilter(detailed, 'Neem', { ...filter, search: 'mildew' })).toBe(false);
+    expect(matchesActivityFilter(makeApplication(neem, applied), 'Neem oil', { ...filter, search: 'oil' })).toBe(
+      true
+    );
+  });
+
+  it('filters by weather, rain and whether any details were recorded', () => {
+    const plain = makeApplication(neem, applied);
+    const noted = makeApplication(neem, applied, { notes: 'Lower leaves only' });
+    expect(matchesActivityFilter(detailed, 'Neem', { ...EMPTY_ACTIVITY_FILTER, weather: 'sunny' })).toBe(false);
+    expect(matchesActivityFilter(plain, 'Neem', { ...EMPTY_ACTIVITY_FILTER, rainedAfterOnly: true })).toBe(false);
+    expect(matchesActivityFilter(plain, 'Neem', { ...EMPTY_ACTIVITY_FILTER, withDetailsOnly: true })).toBe(false);
+    expect(matchesActivityFilter(noted, 'Neem', { ...EMPTY_ACTIVITY_FILTER, withDetailsOnly: true })).toBe(true);
+  });
+
+  it('knows when a filter is set', () => {
+    expect(isActivityFilterActive(EMPTY_ACTIVITY_FILTER)).toBe(false);
+    expect(isActivityFilterActive({ ...EMPTY_ACTIVITY_FILTER, search: '  ' })).toBe(false);
+    expect(isActivityFilterActive({ ...EMPTY_ACTIVITY_FILTER, weather: 'rainy' })).toBe(true);
+  });
+});
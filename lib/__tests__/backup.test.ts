@@ -0,0 +1,132 @@
+import { expect, it } from 'vitest';
+
+import { backupToCsv, backupToJson, createBackup, parseBackup } from '../backup';
+import type { Task } from '../types';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+const backupFor = (applications = [makeApplication(neem, at('2026-10-25', 1, 30), { id: 'app-1' })]) =>
+  createBackup(
+    {
+      tasks: [neem],
+      beds: [makeBed()],
+      lastApplicationDates: { main: { neem: applications[0].timestampIso } },
+      applications,
+    },
+    at('2026-10-26', 9)
+  );
+
+const backupWith = (tasks: unknown[], beds: unknown[] = [makeBed()]) =>
+  JSON.stringify({
+    version: 1,
+    exportedAtIso: at('2026-10-25', 9).toISOString(),
+    tasks,
+    beds,
+    lastApplicationDates: {},
+    applications: [makeApplication(makeTask(), at('2026-10-25', 1, 30))],
+  });
+
+describeInTimeZones('backup', () => {
+  it('reads back what it exports as JSON', () => {
+    const backup = backupFor();
+    expect(parseBackup(backupToJson(backup))).toEqual({
+      tasks: backup.tasks,
+      beds: backup.beds,
+      applications: backup.applications,
+      errors: [],
+    });
+  });
+
+  it('reads back the applications it exports as CSV, quoting where needed', () => {
+    const application = makeApplication(neem, at('2026-10-25', 1, 30), {
+      id: 'app-1',
+      quantity: 250,
+      unit: 'ml',
+      weather: 'rainy',
+      rainedAfter: true,
+      notes: 'Leaves "curling",\nlower side only',
+    });
+    const csv = backupToCsv(backupFor([application]));
+    expect(csv).toContain('"Leaves ""curling"",\nlower side only"');
+
+    const { applications, errors } = parseBackup(csv);
+    expect(errors).toEqual([]);
+    expect(applications).toEqual([
+      expect.objectContaining({
+        id: 'app-1',
+        timestampIso: application.timestampIso,
+        bedId: 'main',
+        taskId: 'neem',
+        quantity: 250,
+        weather: 'rainy',
+        rainedAfter: true,
+        notes: application.notes,
+      }),
+    ]);
+  });
+
+  it('skips rows it cannot import and says which', () => {
+    const csv = ['timestampIso,taskLabel,quantity,weather', ',Neem,,', '2026-10-25T08:00:00Z,Neem,lots,'];
+    expect(parseBackup(csv.join('\n'))).toEqual({
+      tasks: [],
+      beds: [],
+      applications: [],
+      errors: ['Row 2: missing or invalid timestamp.', 'Row 3: invalid quantity.'],
+    });
+    expect(parseBackup('id,taskLabel\n1,Neem').errors).toEqual(['The file has no timestampIso column.']);
+  });
+
+  it('refuses files it cannot read', () => {
+    expect(parseBackup('{ nope').errors).toEqual(['The file is not valid JSON.']);
+    expect(parseBackup('{"tasks": []}').errors).toEqual(['The file is not a Gardenify backup.']);
+    expect(parseBackup(JSON.stringify({ ...backupFor(), version: 99 })).errors).toEqual([
+      'This backup was made by a newer version of Gardenify.',
+    ]);
+  });
+});
+
+describeInTimeZones('backup import', () => {
+  it('keeps tasks the task editor would accept', () => {
+    const tasks: Task[] = [
+      makeTask(),
+      makeTask({ id: 'feed', applyIntervalDays: undefined, recurrence: { monthDays: [1, 31], maxPerSeason: 4 } }),
+      makeTask({ id: 'winter', recurrence: { seasonWindow: { start: '11-01', end: '02-28' } } }),
+    ];
+    const parsed = parseBackup(backupWith(tasks));
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.tasks).toEqual(tasks);
+    expect(parsed.applications).toHaveLength(1);
+  });
+
+  it.each([
+    [{ applyIntervalDays: 0 }, 'the interval must be a whole number of days'],
+    [{ applyIntervalDays: -7 }, 'the interval must be a whole number of days'],
+    [{ applyIntervalDays: 2.5 }, 'the interval must be a whole number of days'],
+    [
+      { applyIntervalDays: undefined, recurrence: { monthDays: [0] } },
+      'days of the month must be numbers from 1 to 31',
+    ],
+    [{ recurrence: { monthDays: [15] } }, 'both an interval and days of the month'],
+    [
+      { recurrence: { pauses: [{ start: '6-1', end: '08-31', reason: 'Monsoon' }] } },
+      'season and pause dates must be written as MM-DD',
+    ],
+    [
+      { recurrence: { seasonWindow: { start: '03-01', end: '13-01' } } },
+      'season and pause dates must be written as MM-DD',
+    ],
+    [{ recurrence: { maxPerSeason: 0 } }, 'applications per season must be a whole number'],
+    [{ minGapDays: { other: -1 } }, 'minimum gaps must be whole numbers of days'],
+  ] as [Partial<Task>, string][])('skips a task with %o', (overrides, problem) => {
+    const parsed = parseBackup(backupWith([makeTask(overrides)]));
+    expect(parsed.tasks).toEqual([]);
+    expect(parsed.errors).toEqual([`Task 1: ${problem}.`]);
+  });
+
+  it('skips beds with intervals the schedule could not move forward by', () => {
+    const parsed = parseBackup(backupWith([makeTask()], [makeBed({ intervalOverrides: { neem: 0 } })]));
+    expect(parsed.beds).toEqual([]);
+    expect(parsed.errors).toEqual(['Bed 1: interval overrides must be whole numbers of days.']);
+  });
+});
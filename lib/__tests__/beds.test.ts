@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { createBedId, getBedTasks, getEventBedId, getLatestApplicationIso } from '../beds';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+
+describe('beds', () => {
+  const neem = makeTask();
+  const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', applyIntervalDays: 30, order: 1 });
+  const retired = makeTask({ id: 'retired', label: 'Retired', archived: true, order: 2 });
+
+  it('schedules every active task in a bed that does not pick any', () => {
+    expect(getBedTasks(makeBed(), [neem, fungicide, retired])).toEqual([neem, fungicide]);
+  });
+
+  it("schedules a bed's own tasks with its interval overrides", () => {
+    const bed = makeBed({ taskIds: ['fungicide', 'retired'], intervalOverrides: { fungicide: 21, neem: 3 } });
+    expect(getBedTasks(bed, [neem, fungicide, retired])).toEqual([{ ...fungicide, applyIntervalDays: 21 }]);
+  });
+
+  it('moves tasks to the cycle days a bed sets', () => {
+    const bed = makeBed({ cycleDays: { neem: 3 }, intervalOverrides: { neem: 10 } });
+    expect(getBedTasks(bed, [neem, fungicide])).toEqual([
+      { ...neem, dayLabel: 'Day 3', applyIntervalDays: 10 },
+      fungicide,
+    ]);
+  });
+
+  it('puts events logged before beds existed in the default bed', () => {
+    const applied = new Date(Date.UTC(2026, 4, 1));
+    expect(getEventBedId(makeApplication(neem, applied, { bedId: undefined }))).toBe('main');
+    expect(getEventBedId(makeApplication(neem, applied, { bedId: 'pots' }))).toBe('pots');
+  });
+
+  it('makes readable bed IDs that are not taken', () => {
+    expect(createBedId('Balcony Pots', [makeBed()])).toBe('balcony-pots');
+    expect(createBedId('My Garden!', [makeBed({ id: 'my-garden' })])).toBe('my-garden-2');
+    expect(createBedId('', [])).toBe('bed');
+  });
+
+  it('finds the latest remaining application of a task in a bed', () => {
+    const day = (date: number) => new Date(Date.UTC(2026, 4, date));
+    const applications = [
+      makeApplication(neem, day(3)),
+      makeApplication(neem, day(9), { bedId: 'pots' }),
+      makeApplication(fungicide, day(12)),
+      makeApplication(neem, day(5), { taskId: undefined }), // Logged by label
+      makeApplication(neem, day(1)),
+    ];
+    expect(getLatestApplicationIso(applications, 'main', 'neem', [neem, fungicide])).toBe(day(5).toISOString());
+    expect(getLatestApplicationIso(applications, 'main', 'retired', [neem, fungicide])).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { expect, it } from 'vitest';
+
+import {
+  addDays,
+  buildCalendar,
+  daysBetween,
+  fromDateKey,
+  getCycleDay,
+  getCycleLength,
+  isCrowdedDay,
+  parseCycleDay,
+  toDateKey,
+  type BedSchedule,
+} from '../calendar';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones, DST_TRANSITIONS } from './timeZones';
+
+const neem = makeTask({ dayLabel: 'Day 7' });
+const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', dayLabel: 'Day 15', applyIntervalDays: 30 });
+
+// Entries of each day as "kind:taskId", for the days that have any
+const summarize = (days: ReturnType<typeof buildCalendar>) =>
+  Object.fromEntries([...days].map(([key, entries]) => [key, entries.map((e) => `${e.kind}:${e.taskId}`)]));
+
+describeInTimeZones('calendar', () => {
+  it('counts calendar days across DST changes', () => {
+    DST_TRANSITIONS.forEach((key) => {
+      const day = fromDateKey(key);
+      expect(toDateKey(addDays(day, 1))).toBe(toDateKey(at(key, 24)));
+      expect(daysBetween(addDays(day, -1), at(key, 23, 30))).toBe(1);
+    });
+  });
+
+  it('reads cycle days from day labels', () => {
+    expect(parseCycleDay('Day 15')).toBe(15);
+    expect(parseCycleDay('day7')).toBe(7);
+    expect(parseCycleDay('Weekly')).toBeUndefined();
+  });
+
+  it('counts cycle days from the season start', () => {
+    const seasonStart = fromDateKey('2026-03-01');
+    expect(getCycleDay(fromDateKey('2026-02-28'), seasonStart)).toBeUndefined();
+    expect(getCycleDay(seasonStart, seasonStart)).toBe(1);
+    expect(getCycleDay(fromDateKey('2026-03-30'), seasonStart)).toBe(30);
+    expect(getCycleDay(fromDateKey('2026-03-31'), seasonStart)).toBe(1);
+    expect(getCycleDay(fromDateKey('2026-03-31'), seasonStart, 45)).toBe(31);
+    expect(getCycleDay(fromDateKey('2026-04-15'), seasonStart, 45)).toBe(1);
+  });
+
+  it('makes the cycle as long as the latest cycle day of the program', () => {
+    expect(getCycleLength([neem, fungicide])).toBe(30);
+    expect(getCycleLength([neem, makeTask({ id: 'compost', dayLabel: 'Day 45' })])).toBe(45);
+    expect(getCycleLength([makeTask({ dayLabel: 'Weekly' })])).toBe(30);
+  });
+
+  it('shows applications and projects due dates by the interval', () => {
+    const schedules: BedSchedule[] = [
+      {
+        bed: makeBed(),
+        tasks: [neem],
+        lastDates: { neem: at('2026-03-05', 18).toISOString() },
+        applications: [],
+      },
+    ];
+    const days = buildCalendar({
+      schedules,
+      applications: [
+        makeApplication(neem, at('2026-03-05', 18)),
+        makeApplication(neem, at('2026-03-06', 9), { bedId: 'pots' }), // Not shown
+      ],
+      tasks: [neem],
+      rangeStart: fromDateKey('2026-03-01'),
+      rangeEnd: fromDateKey('2026-03-31'),
+      today: at('2026-03-06', 12),
+    });
+
+    expect(summarize(days)).toEqual({
+      '2026-03-05': ['applied:neem'],
+      '2026-03-12': ['projected:neem'],
+      '2026-03-19': ['projected:neem'],
+      '2026-03-26': ['projected:neem'],
+    });
+  });
+
+  it('shows a missed due date on today and counts the next ones from there', () => {
+    const schedules: BedSchedule[] = [
+      {
+        bed: makeBed(),
+        tasks: [neem],
+        lastDates: { neem: at('2026-03-01', 8).toISOString() },
+        applications: [],
+      },
+    ];
+    const days = buildCalendar({
+      schedules,
+      applications: [],
+      tasks: [neem],
+      rangeStart: fromDateKey('2026-03-01'),
+      rangeEnd: fromDateKey('2026-03-31'),
+      today: at('2026-03-10', 7),
+    });
+
+    expect(summarize(days)).toEqual({
+      '2026-03-10': ['overdue:neem'],
+      '2026-03-17': ['projected:neem'],
+      '2026-03-24': ['projected:neem'],
+      '2026-03-31': ['projected:neem'],
+    });
+  });
+
+  it('plans the cycle days from the season start of a bed', () => {
+    const schedules: BedSchedule[] = [
+      {
+        bed: makeBed({ seasonStart: '2026-03-01' }),
+        tasks: [neem, fungicide],
+        lastDates: {},
+        applications: [],
+      },
+    ];
+    const days = buildCalendar({
+      schedules,
+      applications: [],
+      tasks: [neem, fungicide],
+      rangeStart: fromDateKey('2026-03-01'),
+      rangeEnd: fromDateKey('2026-04-15'),
+      today: at('2026-03-01'),
+    });
+
+    // Never applied, so also due from their cycle day on, by their interval
+    expect(summarize(days)).toEqual({
+      '2026-03-07': ['projected:neem', 'cycle:neem'],
+      '2026-03-14': ['projected:neem'],
+      '2026-03-15': ['projected:fungicide', 'cycle:fungicide'],
+      '2026-03-21': ['projected:neem'],
+      '2026-03-28': ['projected:neem'],
+      '2026-04-04': ['projected:neem'],
+      '2026-04-06': ['cycle:neem'],
+      '2026-04-11': ['projected:neem'],
+      '2026-04-14': ['projected:fungicide', 'cycle:fungicide'],
+    });
+  });
+
+  it('plans cycle days beyond the 30th in a longer program', () => {
+    const compost = makeTask({ id: 'compost', label: 'Compost', dayLabel: 'Day 45', applyIntervalDays: 60 });
+    const days = buildCalendar({
+      schedules: [{ bed: makeBed({ seasonStart: '2026-03-01' }), tasks: [compost], lastDates: {}, applications: [] }],
+      applications: [],
+      tasks: [compost],
+      rangeStart: fromDateKey('2026-03-01'),
+      rangeEnd: fromDateKey('2026-06-01'),
+      today: at('2026-03-01'),
+    });
+
+    expect(summarize(days)).toEqual({
+      '2026-04-14': ['projected:compost', 'cycle:compost'],
+      '2026-05-29': ['cycle:compost'],
+    });
+  });
+
+  it('flags a day with three different treatments in one bed', () => {
+    const entry = (taskId: string, bedId = 'main') => ({ kind: 'projected' as const, taskId, bedId });
+    expect(isCrowdedDay([entry('a'), entry('b'), entry('c')])).toBe(true);
+    expect(isCrowdedDay([entry('a'), entry('a'), entry('b')])).toBe(false);
+    expect(isCrowdedDay([entry('a'), entry('b'), entry('c', 'pots')])).toBe(false);
+  });
+});
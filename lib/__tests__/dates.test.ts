@@ -0,0 +1,42 @@
+import { expect, it } from 'vitest';
+
+import { addDays, daysBetween, fromDateKey, startOfDay, startOfWeek, toDateKey } from '../dates';
+import { at, describeInTimeZones, DST_TRANSITIONS } from './timeZones';
+
+describeInTimeZones('dates', (timeZone) => {
+  it('uses the time zone it runs in', () => {
+    const hourIn = (date: Date) =>
+      Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(date));
+    [at('2026-01-15', 9), at('2026-07-15', 21)].forEach((date) => expect(hourIn(date)).toBe(date.getHours()));
+  });
+
+  it.each(DST_TRANSITIONS)('adds calendar days across %s', (transition) => {
+    const before = at(transition, 23, 30);
+    const dayBefore = addDays(before, -1);
+    expect(toDateKey(dayBefore)).toBe(toDateKey(addDays(fromDateKey(transition), -1)));
+    expect(toDateKey(addDays(dayBefore, 1))).toBe(transition);
+    expect(toDateKey(addDays(dayBefore, 2))).toBe(toDateKey(addDays(fromDateKey(transition), 1)));
+    // Always local midnight, even on the day the clocks change
+    const after = addDays(dayBefore, 2);
+    expect([after.getHours(), after.getMinutes()]).toEqual([0, 0]);
+  });
+
+  it.each(DST_TRANSITIONS)('counts whole days across %s', (transition) => {
+    const from = at(transition, 0, 30);
+    expect(daysBetween(addDays(from, -3), at(transition, 23, 59))).toBe(3);
+    expect(daysBetween(at(transition, 23, 59), addDays(from, 7))).toBe(7);
+    expect(daysBetween(startOfDay(at(transition, 12)), at(transition, 1))).toBe(0);
+  });
+
+  it('round-trips date keys', () => {
+    DST_TRANSITIONS.forEach((key) => expect(toDateKey(fromDateKey(key))).toBe(key));
+    expect(toDateKey(fromDateKey('2028-02-29'))).toBe('2028-02-29');
+  });
+
+  it('starts weeks on Sunday', () => {
+    // 2026-03-08 is the Sunday the US clocks go forward
+    expect(toDateKey(startOfWeek(at('2026-03-11', 22)))).toBe('2026-03-08');
+    expect(toDateKey(startOfWeek(at('2026-03-08', 3)))).toBe('2026-03-08');
+    expect(toDateKey(startOfWeek(at('2026-11-07', 23, 59)))).toBe('2026-11-01');
+  });
+});
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createFirestoreRepository } from '../firestoreRepository';
+
+// Firestore documents by path, read and written through the mocked client SDK below. The batch
+// commit numbered `failAtCommit` fails, as when the connection drops halfway through.
+const firestore = vi.hoisted(() => ({
+  docs: new Map<string, Record<string, unknown>>(),
+  commits: 0,
+  failAtCommit: 0,
+  nextId: 0,
+}));
+
+vi.mock('../firebase', () => ({ db: { path: '' } }));
+vi.mock('firebase/firestore', () => {
+  const join = (parent: { path: string }, segments: string[]) => [parent.path, ...segments].filter(Boolean).join('/');
+  const ref = (path: string) => ({ path, id: path.split('/').pop()! });
+  const parentOf = (path: string) => path.split('/').slice(0, -1).join('/');
+  const snapshotOf = (path: string) => ({
+    id: ref(path).id,
+    ref: ref(path),
+    exists: () => firestore.docs.has(path),
+    data: () => firestore.docs.get(path),
+  });
+  return {
+    collection: (parent: { path: string }, ...segments: string[]) => ref(join(parent, segments)),
+    doc: (parent: { path: string }, ...segments: string[]) =>
+      ref(join(parent, segments.length > 0 ? segments : [`auto-${firestore.nextId++}`])),
+    getDoc: async ({ path }: { path: string }) => snapshotOf(path),
+    getDocs: async ({ path }: { path: string }) => {
+      const docs = [...firestore.docs.keys()].filter((key) => parentOf(key) === path).sort().map(snapshotOf);
+      return { docs, empty: docs.length === 0 };
+    },
+    setDoc: async ({ path }: { path: string }, data: Record<string, unknown>) => void firestore.docs.set(path, data),
+    deleteDoc: async ({ path }: { path: string }) => void firestore.docs.delete(path),
+    writeBatch: () => {
+      const writes: (() => void)[] = [];
+      return {
+        set: ({ path }: { path: string }, data: Record<string, unknown>) =>
+          writes.push(() => firestore.docs.set(path, data)),
+        delete: ({ path }: { path: string }) => writes.push(() => firestore.docs.delete(path)),
+        commit: async () => {
+          if (++firestore.commits === firestore.failAtCommit) throw new Error('Connection lost');
+          writes.forEach((write) => write());
+        },
+      };
+    },
+  };
+});
+
+// More than one batch of applications, so the copies and the deletes each take two commits
+const APPLICATION_COUNT = 600;
+
+const pathsUnder = (prefix: string) => [...firestore.docs.keys()].filter((path) => path.startsWith(prefix));
+
+describe('closing a season in Firestore', () => {
+  beforeEach(() => {
+    firestore.docs.clear();
+    firestore.commits = 0;
+    firestore.nextId = 0;
+    for (let i = 0; i < APPLICATION_COUNT; i++) {
+      const timestampIso = new Date(Date.UTC(2026, 2, 1) + i * 3_600_000).toISOString();
+      firestore.docs.set(`households/home/applications/app-${String(i).padStart(3, '0')}`, {
+        taskId: 'neem',
+        bedId: 'main',
+        label: 'Neem',
+        dayLabel: 'Day 1',
+        timestampIso,
+      });
+    }
+    firestore.docs.set('households/home/beds/main/metadata/lastApplicationDates', {
+      neem: '2026-03-26T00:00:00.000Z',
+    });
+  });
+
+  it.each([
+    ['while copying the applications', 2],
+    ['while deleting the originals', 4],
+  ])('finishes the same season when run again after failing %s', async (_when, failAtCommit) => {
+    const repository = createFirestoreRepository('home');
+    firestore.failAtCommit = failAtCommit;
+    await expect(repository.closeSeason({ name: 'Spring' }, ['main'])).rejects.toThrow('Connection lost');
+
+    const season = await repository.closeSeason({ name: 'Spring' }, ['main']);
+    expect(season).toMatchObject({
+      name: 'Spring',
+      applicationCount: APPLICATION_COUNT,
+      firstAppliedIso: '2026-03-01T00:00:00.000Z',
+      lastDates: { main: { neem: '2026-03-26T00:00:00.000Z' } },
+    });
+    // One season, with no copies left behind under another ID
+    expect(pathsUnder('households/home/seasons/')).toHaveLength(APPLICATION_COUNT + 1);
+    expect(pathsUnder(`households/home/seasons/${season.id}/applications/`)).toHaveLength(APPLICATION_COUNT);
+    expect(pathsUnder('households/home/applications/')).toEqual([]);
+    expect(pathsUnder('households/home/metadata/')).toEqual([]);
+    expect(pathsUnder('households/home/beds/')).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  addStockEntryIn,
+  advanceLastDateIn,
+  BATCH_LIMIT,
+  recordStockUsageIn,
+  toBatches,
+  type FirestoreTransaction,
+} from '../firestoreWrites';
+
+// Documents by path, written through a transaction the way both SDKs do
+const createStore = (documents: Record<string, Record<string, unknown>> = {}) => {
+  const transaction: FirestoreTransaction<string> = {
+    get: async (path) => ({ data: () => documents[path] }),
+    set: (path: string, data: Record<string, unknown>, options?: { merge: boolean }) => {
+      documents[path] = options?.merge ? { ...documents[path], ...data } : data;
+    },
+    delete: (path) => {
+      delete documents[path];
+    },
+  };
+  return { documents, transaction };
+};
+
+describe('Firestore writes', () => {
+  it('only moves a last-applied date forward', async () => {
+    const { documents, transaction } = createStore({ dates: { neem: '2026-10-10T08:00:00.000Z' } });
+    expect(await advanceLastDateIn(transaction, 'dates', 'neem', '2026-10-01T08:00:00.000Z')).toBe(
+      '2026-10-10T08:00:00.000Z'
+    );
+    expect(await advanceLastDateIn(transaction, 'dates', 'feed', '2026-10-01T08:00:00.000Z')).toBe(
+      '2026-10-01T08:00:00.000Z'
+    );
+    expect(documents.dates).toEqual({ neem: '2026-10-10T08:00:00.000Z', feed: '2026-10-01T08:00:00.000Z' });
+  });
+
+  it('keeps stock levels in step with restocks and usage', async () => {
+    const { documents, transaction } = createStore();
+    await addStockEntryIn(transaction, 'levels', 'restock', {
+      kind: 'restock',
+      productId: 'neem-oil',
+      quantity: 500,
+      timestampIso: '2026-10-01T08:00:00.000Z',
+    });
+    await recordStockUsageIn(transaction, 'levels', 'app-1', { productId: 'neem-oil', quantity: 30 }, '2026-10-02');
+    await recordStockUsageIn(transaction, 'levels', 'app-1', { productId: 'neem-oil', quantity: 20 }, '2026-10-02');
+    expect(documents.levels).toEqual({ 'neem-oil': 480 });
+
+    await recordStockUsageIn(transaction, 'levels', 'app-1', null, '2026-10-02');
+    expect(documents.levels).toEqual({ 'neem-oil': 500 });
+    expect(documents['app-1']).toBeUndefined();
+  });
+
+  it('splits writes into batches Firestore accepts', () => {
+    const batches = toBatches(Array.from({ length: BATCH_LIMIT * 2 + 1 }, (_, i) => i));
+    expect(batches.map((batch) => batch.length)).toEqual([BATCH_LIMIT, BATCH_LIMIT, 1]);
+    expect(toBatches([])).toEqual([]);
+  });
+});
@@ -0,0 +1,23 @@
+import type { ApplicationEvent, Bed, Task } from '../types';
+
+export const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'neem',
+  label: 'Neem',
+  dayLabel: 'Day 1',
+  icon: 'leaf',
+  applyIntervalDays: 7,
+  order: 0,
+  ...overrides,
+});
+
+export const makeBed = (overrides: Partial<Bed> = {}): Bed => ({ id: 'main', name: 'My Garden', order: 0, ...overrides });
+
+export const makeApplication = (task: Task, date: Date, overrides: Partial<ApplicationEvent> = {}) => ({
+  id: `${task.id}-${date.toISOString()}`,
+  taskId: task.id,
+  bedId: 'main',
+  label: task.label,
+  dayLabel: task.dayLabel,
+  timestampIso: date.toISOString(),
+  ...overrides,
+});
@@ -0,0 +1,34 @@
+import { expect, it } from 'vitest';
+
+import { groupHistory } from '../history';
+import { makeApplication, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+
+describeInTimeZones('history', () => {
+  // Newest first, as the history is listed
+  const eventsFor = () => [
+    makeApplication(neem, at('2026-11-01', 23, 30), { id: 'sun-late' }),
+    makeApplication(neem, at('2026-11-01', 0, 30), { id: 'sun-early' }),
+    makeApplication(neem, at('2026-10-31', 23, 30), { id: 'sat' }),
+    makeApplication(neem, at('2026-10-25', 1, 30), { id: 'last-week' }),
+  ];
+  const groupsOf = (grouping: 'day' | 'week') =>
+    groupHistory(eventsFor(), grouping).map(({ key, events: grouped }) => [key, grouped.map(({ id }) => id)]);
+
+  it('groups applications by the local day they were applied', () => {
+    expect(groupsOf('day')).toEqual([
+      ['2026-11-01', ['sun-late', 'sun-early']],
+      ['2026-10-31', ['sat']],
+      ['2026-10-25', ['last-week']],
+    ]);
+  });
+
+  it('groups applications by weeks starting on Sunday', () => {
+    expect(groupsOf('week')).toEqual([
+      ['2026-11-01', ['sun-late', 'sun-early']],
+      ['2026-10-25', ['sat', 'last-week']],
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { createI18n } from '../i18n';
+
+describe('i18n', () => {
+  const en = createI18n('en');
+  const bn = createI18n('bn');
+  const hi = createI18n('hi');
+
+  it('fills placeholders, formatting numbers for the language', () => {
+    expect(en.t('reminder.lastApplied', { bed: 'Pots', date: 'Oct 19' })).toBe('Pots · last applied Oct 19');
+    expect(bn.t('sync.changes.other', { count: 12 })).toBe('১২টি পরিবর্তন');
+    // Placeholders without a value are left for the caller to split the message around
+    expect(en.t('reminder.upcoming', { task: 'Neem' })).toBe('Neem is due {relative}');
+  });
+
+  it('picks the plural form for the count', () => {
+    expect(en.plural('sync.changes', 1)).toBe('1 change');
+    expect(en.plural('sync.changes', 3)).toBe('3 changes');
+    expect(hi.plural('sync.changes', 1)).toBe('1 बदलाव');
+  });
+
+  it('formats quantities, spelling out the units it knows', () => {
+    expect(en.formatQuantity(250, 'ml')).toBe('250 mL');
+    expect(en.formatQuantity(1.255, 'kg')).toBe('1.26 kg');
+    expect(en.formatQuantity(2, 'scoops')).toBe('2 scoops');
+    expect(en.formatQuantity(2)).toBe('2');
+  });
+
+  it('formats days and relative days', () => {
+    expect(en.formatRelativeDays(1)).toBe('tomorrow');
+    expect(en.formatRelativeDays(-2)).toBe('2 days ago');
+    expect(en.formatDays(3)).toBe('3 days');
+    expect(en.formatPercent(0.85)).toBe('85%');
+  });
+});
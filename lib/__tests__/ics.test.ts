@@ -0,0 +1,101 @@
+import { expect, it } from 'vitest';
+
+import { createI18n } from '../i18n';
+import { buildIcs } from '../ics';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+const schedulesFor = (lastApplied: Date, task = neem) => [
+  { bed: makeBed(), tasks: [task], lastDates: { [task.id]: lastApplied.toISOString() }, applications: [] },
+];
+
+const icsFor = (lastApplied: Date, today: Date, overrides: Partial<Parameters<typeof buildIcs>[0]> = {}) =>
+  buildIcs({
+    schedules: schedulesFor(lastApplied),
+    today,
+    calendarName: 'Gardenify',
+    horizonDays: 20,
+    ...overrides,
+  });
+
+// Content lines, with folded lines joined back together
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+const valuesOf = (ics: string, name: string) =>
+  unfold(ics)
+    .filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`))
+    .map((line) => line.slice(line.indexOf(':') + 1));
+
+describeInTimeZones('ics', () => {
+  it('lists the occurrences within the horizon as all-day events', () => {
+    const ics = icsFor(at('2026-10-19', 9), at('2026-10-20', 12));
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(valuesOf(ics, 'DTSTART')).toEqual(['20261026', '20261102', '20261109']);
+    expect(valuesOf(ics, 'DTEND')).toEqual(['20261027', '20261103', '20261110']);
+  });
+
+  it('keeps the UID of each occurrence when an application moves the due date', () => {
+    const before = icsFor(at('2026-10-19', 9), at('2026-10-22', 12), { horizonDays: 21 });
+    const after = icsFor(at('2026-10-22', 9), at('2026-10-22', 12), { horizonDays: 21 });
+    expect(valuesOf(before, 'UID')).toEqual([
+      'main.neem.0@gardenify',
+      'main.neem.1@gardenify',
+      'main.neem.2@gardenify',
+    ]);
+    expect(valuesOf(after, 'UID')).toEqual(valuesOf(before, 'UID'));
+    expect(valuesOf(after, 'DTSTART')[0]).toBe('20261029');
+  });
+
+  it('lists a missed due date on today, alarming that morning', () => {
+    const ics = icsFor(at('2026-10-01', 9), at('2026-10-20', 12));
+    expect(valuesOf(ics, 'DTSTART')[0]).toBe('20261020');
+    expect(valuesOf(ics, 'SUMMARY')[0]).toBe('Overdue: Neem · My Garden');
+    // Alarms go off at 9:00 on the morning of the lead day
+    expect(valuesOf(ics, 'TRIGGER')).toEqual(['PT9H', '-PT15H', '-PT15H']);
+  });
+
+  it('writes the events in the chosen language', () => {
+    const ics = icsFor(at('2026-10-01', 9), at('2026-10-20', 12), { i18n: createI18n('hi') });
+    expect(valuesOf(ics, 'SUMMARY')[0]).toBe('बकाया: Neem · My Garden');
+    expect(valuesOf(ics, 'DESCRIPTION')).toContain('Neem देय है');
+  });
+
+  it('sets alarms from the reminder lead days of the task', () => {
+    const task = makeTask({ reminderLeadDays: 3 });
+    const ics = icsFor(at('2026-10-19', 9), at('2026-10-20', 12), {
+      schedules: schedulesFor(at('2026-10-19', 9), task),
+    });
+    expect(valuesOf(ics, 'TRIGGER')[0]).toBe('-PT63H');
+  });
+
+  it('stops at the limit of a season, until the next one starts', () => {
+    const task = makeTask({ recurrence: { maxPerSeason: 3, seasonWindow: { start: '03-01', end: '11-15' } } });
+    const applied = [at('2026-09-28', 9), at('2026-10-05', 9)];
+    const ics = buildIcs({
+      schedules: [
+        {
+          bed: makeBed(),
+          tasks: [task],
+          lastDates: { neem: applied[1].toISOString() },
+          applications: applied.map((date) => makeApplication(task, date)),
+        },
+      ],
+      today: at('2026-10-06', 12),
+      calendarName: 'Gardenify',
+      horizonDays: 200,
+    });
+    expect(valuesOf(ics, 'DTSTART')).toEqual(['20261012', '20270301', '20270308', '20270315']);
+  });
+
+  it('escapes text and folds long lines at 75 octets', () => {
+    const calendarName = 'Garden; beds, pots\\and a very long name 🌿🌿🌿 that needs folding onto more lines';
+    const ics = icsFor(at('2026-10-19', 9), at('2026-10-20', 12), { calendarName });
+
+    const lines = ics.split('\r\n');
+    lines.forEach((line) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.filter((line) => line.startsWith(' '))).toHaveLength(1);
+    expect(valuesOf(ics, 'X-WR-CALNAME')).toEqual([
+      'Garden\\; beds\\, pots\\\\and a very long name 🌿🌿🌿 that needs folding onto more lines',
+    ]);
+  });
+});
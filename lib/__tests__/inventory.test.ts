@@ -0,0 +1,123 @@
+import { expect, it } from 'vitest';
+
+import { getQuantityPerApplication, getStockUsage, projectStock } from '../inventory';
+import { createMemoryRepository, writeApplicationChange } from '../repository';
+import type { Product } from '../types';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+const neemOil: Product = { id: 'neem-oil', name: 'Neem oil', unit: 'ml', taskIds: ['neem'], order: 0 };
+
+// Neem last applied on Oct 19, so due weekly from Oct 26
+const schedulesFor = () => [
+  { bed: makeBed(), tasks: [neem], lastDates: { neem: at('2026-10-19', 8).toISOString() }, applications: [] },
+];
+
+const stockLevels = (repository: ReturnType<typeof createMemoryRepository>) =>
+  new Promise<Record<string, number>>((resolve) => {
+    const unsubscribe = repository.watchStockLevels((levels) => {
+      unsubscribe();
+      resolve(levels);
+    }, () => {});
+  });
+
+describeInTimeZones('inventory', () => {
+  it('draws down the product of the treatment, in its unit only', () => {
+    const usageOf = (details: { quantity?: number; unit?: string }, products = [neemOil]) =>
+      getStockUsage(makeApplication(neem, at('2026-10-19', 8), details), products, [neem]);
+
+    expect(usageOf({ quantity: 30, unit: 'ML' })).toEqual({ productId: 'neem-oil', quantity: 30 });
+    expect(usageOf({ quantity: 2, unit: 'l' })).toBeNull();
+    expect(usageOf({})).toBeNull();
+    expect(usageOf({ quantity: 30 }, [{ ...neemOil, archived: true }])).toBeUndefined();
+  });
+
+  it('depletes the stock with each application and gives it back when one is undone', async () => {
+    const repository = createMemoryRepository('local', { tasks: [neem], products: [neemOil] });
+    await repository.addStockEntry({ productId: 'neem-oil', kind: 'restock', quantity: 500, timestampIso: '' });
+    const event = { ...makeApplication(neem, at('2026-10-19', 8), { quantity: 30, unit: 'ml' }), id: 'app-1' };
+    const change = { event, updatesLastDate: true, stockUsage: { productId: 'neem-oil', quantity: 30 } };
+
+    await writeApplicationChange(repository, { ...change, kind: 'add' });
+    await writeApplicationChange(repository, { ...change, kind: 'add' }); // Replayed
+    expect(await stockLevels(repository)).toEqual({ 'neem-oil': 470 });
+
+    const corrected = { productId: 'neem-oil', quantity: 50 };
+    await writeApplicationChange(repository, { ...change, kind: 'update', stockUsage: corrected });
+    expect(await stockLevels(repository)).toEqual({ 'neem-oil': 450 });
+
+    await writeApplicationChange(repository, { ...change, kind: 'delete' });
+    expect(await stockLevels(repository)).toEqual({ 'neem-oil': 500 });
+    expect(await repository.listStockEntries()).toMatchObject([{ kind: 'restock', quantity: 500 }]);
+
+    await repository.addStockEntry({ productId: 'neem-oil', kind: 'count', quantity: 420, timestampIso: '' });
+    expect(await stockLevels(repository)).toEqual({ 'neem-oil': 420 });
+  });
+
+  it('averages the latest recorded quantities, or falls back to the usual one', () => {
+    const applications = [20, 30, 40].map((quantity, i) =>
+      makeApplication(neem, at('2026-10-01', 8 + i), { quantity, unit: 'ml' })
+    );
+    expect(getQuantityPerApplication(neemOil, [neemOil], applications, [neem])).toBe(30);
+    const usual = { ...neemOil, usualQuantity: 25 };
+    expect(getQuantityPerApplication(usual, [usual], [], [neem])).toBe(25);
+    expect(getQuantityPerApplication(neemOil, [neemOil], [], [neem])).toBeUndefined();
+  });
+
+  it('projects the due date the stock runs out on', () => {
+    const product = { ...neemOil, usualQuantity: 30 };
+    const projection = projectStock({
+      product,
+      products: [product],
+      onHand: 100,
+      schedules: schedulesFor(),
+      applications: [],
+      tasks: [neem],
+      today: at('2026-10-20', 12),
+    });
+
+    // Enough for Oct 26, Nov 2 and Nov 9, but not Nov 16
+    expect(projection).toMatchObject({ onHand: 100, perApplication: 30, applicationsLeft: 3, isLow: false });
+    expect(projection.runsOut).toMatchObject({ taskId: 'neem', bedId: 'main' });
+    expect(projection.runsOut!.date).toEqual(at('2026-11-16'));
+  });
+
+  it('only counts a treatment towards the product its applications draw from', () => {
+    const bottle = { ...neemOil, usualQuantity: 30 };
+    const spare = { ...neemOil, id: 'spare-neem-oil', name: 'Spare neem oil', usualQuantity: 30, order: 1 };
+    const applications = [makeApplication(neem, at('2026-10-19', 8), { quantity: 40, unit: 'ml' })];
+    const projectionOf = (product: Product) =>
+      projectStock({
+        product,
+        products: [bottle, spare],
+        onHand: 100,
+        schedules: schedulesFor(),
+        applications,
+        tasks: [neem],
+        today: at('2026-10-20', 12),
+      });
+
+    expect(getStockUsage(applications[0], [bottle, spare], [neem])).toMatchObject({ productId: 'neem-oil' });
+    expect(projectionOf(bottle)).toMatchObject({ perApplication: 40, applicationsLeft: 2 });
+    expect(projectionOf(spare)).toMatchObject({ perApplication: 30, runsOut: undefined });
+  });
+
+  it('flags stock that is low or runs out soon', () => {
+    const projectionWith = (product: Product, onHand: number) =>
+      projectStock({
+        product,
+        products: [product],
+        onHand,
+        schedules: schedulesFor(),
+        applications: [],
+        tasks: [neem],
+        today: at('2026-10-20', 12),
+      });
+
+    expect(projectionWith({ ...neemOil, lowStockAt: 100 }, 100).isLow).toBe(true);
+    expect(projectionWith({ ...neemOil, usualQuantity: 30 }, 40).isLow).toBe(true); // Runs out on Nov 2
+    expect(projectionWith({ ...neemOil, usualQuantity: 30 }, 100).isLow).toBe(false);
+    expect(projectionWith(neemOil, 0)).toMatchObject({ applicationsLeft: undefined, runsOut: undefined, isLow: false });
+  });
+});
@@ -0,0 +1,145 @@
+import 'fake-indexeddb/auto';
+import { afterEach, expect, it, vi } from 'vitest';
+
+import { buildJournal, createLocalPhotoStore, createStoragePhotoStore, storePhotos, type PhotoStore } from '../photos';
+import type { Observation } from '../types';
+import { makeApplication, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+// Storage references are their full path
+const storage = vi.hoisted(() => ({ uploads: [] as string[] }));
+vi.mock('../firebase', () => ({ storage: {} }));
+vi.mock('firebase/storage', () => ({
+  ref: (_storage: unknown, path: string) => path,
+  uploadBytes: async (path: string) => void storage.uploads.push(path),
+  getDownloadURL: async (path: string) => `https://storage.example/${path}`,
+  deleteObject: async () => {},
+}));
+
+const neem = makeTask();
+const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', applyIntervalDays: 30 });
+const photo = (path: string) => ({ path, width: 1600, height: 1200 });
+
+const observation = (id: string, taken: Date, overrides: Partial<Observation> = {}): Observation => ({
+  id,
+  bedId: 'main',
+  photos: [photo(`${id}-0.jpg`)],
+  timestampIso: taken.toISOString(),
+  ...overrides,
+});
+
+// A browser's image decoding and canvas, enough for `compressImage`: every picture decodes to the
+// given size and comes out as the canvas's size
+const stubImageDecoding = (width: number, height: number) => {
+  vi.stubGlobal('createImageBitmap', async () => ({ width, height, close: () => {} }));
+  vi.stubGlobal('document', {
+    createElement: () => {
+      const canvas = {
+        width: 0,
+        height: 0,
+        getContext: () => ({ drawImage: () => {} }),
+        toBlob: (done: (blob: Blob) => void, type: string) =>
+          done(new Blob([`${canvas.width}x${canvas.height}`], { type })),
+      };
+      return canvas;
+    },
+  });
+};
+
+describeInTimeZones('photo journal', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps photos under the household's folder in Cloud Storage", async () => {
+    const store = createStoragePhotoStore('home');
+    await store.put('obs-1-0.jpg', new Blob(['jpeg'], { type: 'image/jpeg' }));
+    expect(storage.uploads).toContain('households/home/photos/obs-1-0.jpg');
+    expect(await store.getUrl('obs-1-0.jpg')).toBe('https://storage.example/households/home/photos/obs-1-0.jpg');
+  });
+
+  it('keeps photos on this device apart per household', async () => {
+    const home = createLocalPhotoStore('home');
+    await home.put('obs-1-0.jpg', new Blob(['jpeg'], { type: 'image/jpeg' }));
+    expect(await home.getUrl('obs-1-0.jpg')).toMatch(/^blob:/);
+    await expect(createLocalPhotoStore('other').getUrl('obs-1-0.jpg')).rejects.toThrow(
+      'Photo obs-1-0.jpg is not on this device'
+    );
+    await home.remove('obs-1-0.jpg');
+    await expect(home.getUrl('obs-1-0.jpg')).rejects.toThrow('is not on this device');
+  });
+
+  it('stores photos as JPEGs named after their observation, no larger than 1600 pixels', async () => {
+    stubImageDecoding(4000, 3000);
+    const stored = new Map<string, Blob>();
+    const store: PhotoStore = {
+      put: async (path, image) => void stored.set(path, image),
+      getUrl: async (path) => path,
+      remove: async () => {},
+    };
+
+    const photos = await storePhotos(store, 'obs-1', [new File(['a'], 'a.heic'), new File(['b'], 'b.png')]);
+    expect(photos).toEqual([
+      { path: 'obs-1-0.jpg', width: 1600, height: 1200 },
+      { path: 'obs-1-1.jpg', width: 1600, height: 1200 },
+    ]);
+    expect([...stored.values()].map((image) => image.type)).toEqual(['image/jpeg', 'image/jpeg']);
+    expect(await stored.get('obs-1-0.jpg')!.text()).toBe('1600x1200');
+  });
+
+  it('keeps the size of photos that are already small', async () => {
+    stubImageDecoding(800, 1200);
+    const store = createStoragePhotoStore('home');
+    expect(await storePhotos(store, 'obs-2', [new File(['a'], 'a.jpg')])).toEqual([
+      { path: 'obs-2-0.jpg', width: 800, height: 1200 },
+    ]);
+    expect(storage.uploads).toContain('households/home/photos/obs-2-0.jpg');
+  });
+
+  it('shows the photos of the bed just before and after an application', () => {
+    const applied = { ...makeApplication(neem, at('2026-10-19', 8)), id: 'app-1' };
+    const journal = buildJournal({
+      applications: [applied],
+      observations: [
+        observation('too-early', at('2026-10-04', 8)),
+        observation('before', at('2026-10-18', 18)),
+        observation('with', at('2026-10-19', 8), { applicationId: 'app-1' }),
+        observation('after', at('2026-11-18', 9)),
+        observation('other-bed', at('2026-10-20', 8), { bedId: 'pots' }),
+        observation('other-task', at('2026-10-20', 8), { taskId: 'fungicide' }),
+      ],
+      tasks: [neem, fungicide],
+      bedId: 'main',
+    });
+
+    expect(journal.map((entry) => (entry.kind === 'application' ? entry.event.id : entry.observation.id))).toEqual([
+      'after',
+      'other-task',
+      'app-1',
+      'before',
+      'too-early',
+    ]);
+    expect(journal[2]).toMatchObject({
+      photos: [photo('with-0.jpg')],
+      before: { id: 'before' },
+      after: { id: 'after' },
+    });
+  });
+
+  it('shows one treatment, with photos of a deleted application standing alone', () => {
+    const journal = buildJournal({
+      applications: [{ ...makeApplication(fungicide, at('2026-10-19', 8)), id: 'app-2' }],
+      observations: [
+        observation('orphan', at('2026-10-10', 8), { applicationId: 'deleted', taskId: 'fungicide' }),
+        observation('neem-only', at('2026-10-12', 8), { taskId: 'neem' }),
+      ],
+      tasks: [neem, fungicide],
+      taskId: 'fungicide',
+    });
+
+    expect(journal).toMatchObject([
+      { kind: 'application', event: { id: 'app-2' }, before: { id: 'orphan' } },
+      { kind: 'observation', observation: { id: 'orphan' } },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyProfile, getEditedTaskIds, getProfileUpdate, PROFILE_TASKS } from '../profiles';
+import type { PlantProfile } from '../types';
+import { makeBed, makeTask } from './fixtures';
+
+const tasks = [
+  makeTask(),
+  makeTask({ id: 'feed', label: 'Feed', dayLabel: 'Day 5', applyIntervalDays: 15, order: 1 }),
+  makeTask({ id: 'spray', label: 'Spray', dayLabel: 'Day 10', applyIntervalDays: 30, order: 2 }),
+  makeTask({ id: 'mulch', label: 'Mulch', dayLabel: 'Day 20', applyIntervalDays: 60, order: 3 }),
+];
+
+const rose = (version: number, treatments: PlantProfile['treatments']): PlantProfile => ({
+  id: 'rose',
+  name: 'Rose',
+  treatments,
+  version,
+  updatedAtIso: '2026-01-01T00:00:00.000Z',
+  order: 0,
+});
+
+const today = new Date(2026, 9, 19);
+
+describe('plant profiles', () => {
+  const v1 = rose(1, [
+    { taskId: 'neem', applyIntervalDays: 10 },
+    { taskId: 'feed', cycleDay: 3 },
+    { taskId: 'spray' },
+  ]);
+  const v2 = rose(2, [
+    { taskId: 'neem', applyIntervalDays: 14 },
+    { taskId: 'feed', applyIntervalDays: 20 },
+    { taskId: 'spray' },
+  ]);
+  const { bed: setUp } = applyProfile({ bed: makeBed(), profile: v1, tasks, today });
+
+  it('sets a bed up from a profile', () => {
+    expect(setUp).toMatchObject({
+      taskIds: ['neem', 'feed', 'spray'],
+      intervalOverrides: { neem: 10 },
+      cycleDays: { feed: 3 },
+      profile: { id: 'rose', version: 1 },
+      seasonStart: '2026-10-19',
+    });
+    expect(getEditedTaskIds(setUp)).toEqual([]);
+  });
+
+  it('takes the new version as is when the bed was not edited', () => {
+    const { bed } = applyProfile({ bed: setUp, profile: v2, tasks, today });
+    expect(bed).toMatchObject({
+      taskIds: ['neem', 'feed', 'spray'],
+      intervalOverrides: { neem: 14, feed: 20 },
+      profile: { version: 2 },
+    });
+    expect(bed.cycleDays).toBeUndefined();
+  });
+
+  it('keeps the edits made since over the new version', () => {
+    const edited = {
+      ...setUp,
+      taskIds: ['neem', 'feed', 'mulch'], // Spray removed, mulch added
+      intervalOverrides: { neem: 10, feed: 12 },
+      cycleDays: undefined, // Feed back on its own cycle day
+    };
+    expect(getEditedTaskIds(edited).sort()).toEqual(['feed', 'mulch', 'spray']);
+
+    const { bed } = applyProfile({ bed: edited, profile: v2, tasks, today });
+    expect(bed).toMatchObject({
+      taskIds: ['neem', 'feed', 'mulch'],
+      intervalOverrides: { neem: 14, feed: 12 },
+      profile: { version: 2, applied: { taskIds: ['neem', 'feed', 'spray'] } },
+    });
+    expect(bed.cycleDays).toBeUndefined();
+  });
+
+  it('keeps every override of a bed set up before edits were tracked', () => {
+    const legacy = { ...setUp, intervalOverrides: { neem: 10 }, profile: { id: 'rose', version: 1 } };
+    const { bed } = applyProfile({ bed: legacy, profile: v2, tasks, today });
+    expect(bed.intervalOverrides).toEqual({ neem: 10, feed: 20 });
+  });
+
+  it('replaces the program when another profile is picked', () => {
+    const edited = { ...setUp, intervalOverrides: { neem: 3 } };
+    const { bed } = applyProfile({ bed: edited, profile: { ...v1, id: 'tomato' }, tasks, today });
+    expect(bed.intervalOverrides).toEqual({ neem: 10 });
+  });
+
+  it('brings back the archived tasks a profile needs', () => {
+    const archived = tasks.map((task) => (task.id === 'spray' ? { ...task, archived: true } : task));
+    const { savedTasks } = applyProfile({ bed: makeBed(), profile: v1, tasks: archived, today });
+    expect(savedTasks).toEqual([{ ...tasks[2], archived: false }]);
+  });
+
+  it('offers a newer version and adds the catalog tasks it needs', () => {
+    expect(getProfileUpdate(setUp, [v1])).toBeUndefined();
+    expect(getProfileUpdate(setUp, [v2])).toBe(v2);
+
+    const v3 = rose(3, [...v2.treatments, { taskId: 'rose-bone-meal' }]);
+    const { bed, savedTasks } = applyProfile({ bed: setUp, profile: v3, tasks, today });
+    expect(bed.taskIds).toEqual(['neem', 'feed', 'spray', 'rose-bone-meal']);
+    const boneMeal = PROFILE_TASKS.find((task) => task.id === 'rose-bone-meal');
+    expect(savedTasks).toEqual([{ ...boneMeal, order: 4 }]);
+  });
+});
@@ -0,0 +1,119 @@
+import { expect, it } from 'vitest';
+
+import { addDays, fromDateKey, toDateKey } from '../dates';
+import { evaluateSchedule, getSeasonLookback, nextOccurrence } from '../recurrence';
+import type { Task } from '../types';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones, DST_TRANSITIONS } from './timeZones';
+
+const evaluate = (task: Task, lastApplied: Date | null, today: Date, bed = makeBed()) =>
+  evaluateSchedule({
+    task,
+    bed,
+    lastAppliedIso: lastApplied?.toISOString(),
+    applications: lastApplied ? [makeApplication(task, lastApplied)] : [],
+    tasks: [task],
+    today,
+  });
+
+describeInTimeZones('recurrence', () => {
+  it.each(DST_TRANSITIONS)('is due a week after a late-evening application across %s', (transition) => {
+    const applied = at(toDateKey(addDays(fromDateKey(transition), -3)), 23, 45);
+    const dueKey = toDateKey(addDays(fromDateKey(transition), 4));
+
+    expect(toDateKey(nextOccurrence(makeTask(), applied)!)).toBe(dueKey);
+    expect(evaluate(makeTask(), applied, at(dueKey, 0, 5))).toMatchObject({ status: 'due', daysUntil: 0 });
+    expect(evaluate(makeTask(), applied, addDays(at(dueKey, 23, 59), -1))).toMatchObject({
+      status: 'upcoming',
+      daysUntil: 1,
+    });
+    expect(evaluate(makeTask(), applied, addDays(at(dueKey, 0, 1), 1))).toMatchObject({
+      status: 'overdue',
+      daysUntil: -1,
+    });
+  });
+
+  it.each(DST_TRANSITIONS)('counts days until a 30-day task across %s', (transition) => {
+    const applied = at(toDateKey(addDays(fromDateKey(transition), -10)), 0, 10);
+    const state = evaluate(makeTask({ applyIntervalDays: 30 }), applied, at(transition, 12));
+    expect(toDateKey(state!.dueDate!)).toBe(toDateKey(addDays(applied, 30)));
+    expect(state!.daysUntil).toBe(20);
+  });
+
+  it('falls on the last day of short months for day 31', () => {
+    const task = makeTask({ applyIntervalDays: undefined, recurrence: { monthDays: [31] } });
+    expect(toDateKey(nextOccurrence(task, at('2026-01-31', 22))!)).toBe('2026-02-28');
+    expect(toDateKey(nextOccurrence(task, at('2026-02-28', 1))!)).toBe('2026-03-31');
+    expect(toDateKey(nextOccurrence(task, at('2026-10-31', 23, 30))!)).toBe('2026-11-30');
+  });
+
+  it.each([0, -3, 0.2])('moves at least a day forward from an interval of %s days', (interval) => {
+    const next = nextOccurrence(makeTask({ applyIntervalDays: interval }), at('2026-03-29', 23, 30));
+    expect(toDateKey(next!)).toBe('2026-03-30');
+    expect(nextOccurrence(makeTask({ applyIntervalDays: Number.NaN }), at('2026-03-29', 23, 30))).toBeNull();
+  });
+
+  it('ignores days of the month that no month has', () => {
+    const task = (monthDays: number[]) => makeTask({ applyIntervalDays: undefined, recurrence: { monthDays } });
+    expect(toDateKey(nextOccurrence(task([0, 15, 40]), at('2026-10-15', 8))!)).toBe('2026-11-15');
+    expect(nextOccurrence(task([0]), at('2026-10-15', 8))).toBeNull();
+  });
+
+  it('is due on the next fixed day of the month, even if never applied', () => {
+    const task = makeTask({ applyIntervalDays: undefined, recurrence: { monthDays: [1, 15] } });
+    expect(evaluate(task, null, at('2026-03-08', 3))).toMatchObject({ status: 'upcoming', daysUntil: 7 });
+    expect(evaluate(task, at('2026-10-15', 23), at('2026-10-25', 1))).toMatchObject({ daysUntil: 7 });
+  });
+
+  it('starts from the cycle day in the bed season when never applied', () => {
+    const state = evaluate(makeTask({ dayLabel: 'Day 15' }), null, at('2026-03-20', 8), makeBed({ seasonStart: '2026-03-01' }));
+    expect(toDateKey(state!.dueDate!)).toBe('2026-03-15');
+    expect(state).toMatchObject({ status: 'overdue', daysUntil: -5 });
+  });
+
+  it('moves past a pause to the day after it ends', () => {
+    const task = makeTask({ recurrence: { pauses: [{ start: '06-15', end: '09-15', reason: 'Monsoon' }] } });
+    expect(toDateKey(nextOccurrence(task, at('2026-06-10', 20))!)).toBe('2026-09-16');
+    expect(evaluate(task, at('2026-06-10', 20), at('2026-07-01', 9))).toMatchObject({
+      status: 'out-of-season',
+      reason: 'Monsoon',
+      daysUntil: 77,
+    });
+  });
+
+  it('waits for the season window, across the new year', () => {
+    const task = makeTask({ recurrence: { seasonWindow: { start: '11-01', end: '02-28' } } });
+    expect(toDateKey(nextOccurrence(task, at('2026-02-25', 18))!)).toBe('2026-11-01');
+    expect(toDateKey(nextOccurrence(task, at('2026-12-28', 18))!)).toBe('2027-01-04');
+  });
+
+  it('is done for the season after its maximum', () => {
+    const task = makeTask({ recurrence: { seasonWindow: { start: '03-01', end: '10-31' }, maxPerSeason: 1 } });
+    const state = evaluate(task, at('2026-03-29', 0, 30), at('2026-04-10', 9));
+    expect(state).toMatchObject({ status: 'complete' });
+    expect(toDateKey(state!.dueDate!)).toBe('2027-03-01');
+  });
+
+  it('honours a snooze until it runs out, and skips to the next occurrence', () => {
+    const applied = at('2026-10-20', 22);
+    const snoozed = makeBed({
+      deferrals: { neem: { kind: 'snooze', dueDate: '2026-10-27', until: '2026-10-29', reason: 'Rain' } },
+    });
+    expect(evaluate(makeTask(), applied, at('2026-10-27', 9), snoozed)).toMatchObject({
+      status: 'snoozed',
+      daysUntil: 2,
+    });
+    expect(evaluate(makeTask(), applied, at('2026-10-29', 9), snoozed)).toMatchObject({ status: 'due' });
+
+    const skipped = makeBed({ deferrals: { neem: { kind: 'skip', dueDate: '2026-10-27', reason: 'Rain' } } });
+    const state = evaluate(makeTask(), applied, at('2026-10-27', 9), skipped);
+    expect(toDateKey(state!.dueDate!)).toBe('2026-11-03');
+  });
+
+  it('looks back far enough for every current season', () => {
+    const today = at('2026-10-25', 9);
+    expect(toDateKey(getSeasonLookback([makeBed({ seasonStart: '2026-03-01' })], today))).toBe('2025-10-24');
+    const longSeason = makeBed({ id: 'orchard', seasonStart: '2025-03-01' });
+    expect(toDateKey(getSeasonLookback([makeBed(), longSeason], today))).toBe('2025-03-01');
+  });
+});
@@ -0,0 +1,130 @@
+import 'fake-indexeddb/auto';
+import { expect, it } from 'vitest';
+
+import { createI18n } from '../i18n';
+import {
+  computeReminders,
+  createMemoryNotifier,
+  createMemoryStore,
+  isWithinQuietHours,
+  planReminders,
+  runReminderCheck,
+  updateBackgroundReminders,
+  type BackgroundReminders,
+  type ReminderSettings,
+} from '../reminders';
+import { makeApplication, makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+const settings: ReminderSettings = { enabled: true, quietHours: { start: '21:00', end: '07:00' } };
+
+// Neem applied on Oct 19 is due on Oct 26, the day after the UK clocks go back
+const schedulesFor = () => {
+  const applied = at('2026-10-19', 9);
+  return [
+    {
+      bed: makeBed(),
+      tasks: [neem],
+      lastDates: { neem: applied.toISOString() },
+      applications: [makeApplication(neem, applied)],
+    },
+  ];
+};
+
+// Reads the plan left for the service worker, or replaces it as the worker would
+const runPlan = <T>(run: (plans: IDBObjectStore) => IDBRequest<T>, mode: IDBTransactionMode = 'readonly') =>
+  new Promise<T>((resolve, reject) => {
+    const open = indexedDB.open('gardenify-reminders', 1);
+    open.onupgradeneeded = () => open.result.createObjectStore('plan');
+    open.onsuccess = () => {
+      const request = run(open.result.transaction('plan', mode).objectStore('plan'));
+      request.onsuccess = () => {
+        open.result.close();
+        resolve(request.result);
+      };
+      request.onerror = () => reject(request.error);
+    };
+    open.onerror = () => reject(open.error);
+  });
+
+describeInTimeZones('reminders', () => {
+  it('tells quiet hours apart, including ones that span midnight', () => {
+    const overnight = { start: '21:00', end: '07:00' };
+    expect(isWithinQuietHours(at('2026-10-25', 22), overnight)).toBe(true);
+    expect(isWithinQuietHours(at('2026-10-26', 6, 59), overnight)).toBe(true);
+    expect(isWithinQuietHours(at('2026-10-26', 7), overnight)).toBe(false);
+    expect(isWithinQuietHours(at('2026-10-26', 13), { start: '12:00', end: '14:00' })).toBe(true);
+    expect(isWithinQuietHours(at('2026-10-26', 13), { start: '12:00', end: '12:00' })).toBe(false);
+    expect(isWithinQuietHours(at('2026-10-26', 13))).toBe(false);
+  });
+
+
+  it('reminds ahead of the due date, on it and after it', () => {
+    const keysOn = (dateKey: string) =>
+      computeReminders(schedulesFor(), at(dateKey, 12)).map((reminder) => reminder.key);
+    expect(keysOn('2026-10-24')).toEqual([]);
+    expect(keysOn('2026-10-25')).toEqual(['main:neem:2026-10-26:upcoming']);
+    expect(keysOn('2026-10-26')).toEqual(['main:neem:2026-10-26:due']);
+    expect(keysOn('2026-10-30')).toEqual(['main:neem:2026-10-26:overdue']);
+  });
+
+
+  it('writes reminders in the chosen language', () => {
+    const [reminder] = computeReminders(schedulesFor(), at('2026-10-25', 12), createI18n('hi'));
+    expect(reminder.title).toBe('Neem कल देय है');
+  });
+
+
+  it('sends each reminder once, and holds it back during quiet hours', async () => {
+    const notifier = createMemoryNotifier(() => {});
+    const store = createMemoryStore();
+    const check = (now: Date) =>
+      runReminderCheck({ schedules: schedulesFor(), now, settings, notifier, store });
+
+    expect(await check(at('2026-10-25', 22))).toEqual([]);
+    expect((await check(at('2026-10-26', 8))).map((reminder) => reminder.kind)).toEqual(['due']);
+    expect(await check(at('2026-10-26', 12))).toEqual([]);
+    expect(notifier.sent.map((reminder) => reminder.key)).toEqual(['main:neem:2026-10-26:due']);
+  });
+
+  it('sends nothing while reminders are off', async () => {
+    const notifier = createMemoryNotifier(() => {});
+    const sent = await runReminderCheck({
+      schedules: schedulesFor(),
+      now: at('2026-10-26', 12),
+      settings: { ...settings, enabled: false },
+      notifier,
+      store: createMemoryStore(),
+    });
+    expect(sent).toEqual([]);
+    expect(notifier.sent).toEqual([]);
+  });
+
+  it('plans the reminders of the coming days from the start of their day', () => {
+    const store = createMemoryStore();
+    store.add('main:neem:2026-10-26:due');
+    const planned = planReminders(schedulesFor(), at('2026-10-23', 10), store);
+    expect(planned.map(({ kind, notBeforeIso }) => [kind, notBeforeIso])).toEqual([
+      ['upcoming', at('2026-10-25').toISOString()],
+      ['overdue', at('2026-10-27').toISOString()],
+    ]);
+  });
+
+  it('takes over what the service worker sent before planning again', async () => {
+    const store = createMemoryStore();
+    const update = () =>
+      updateBackgroundReminders({ schedules: schedulesFor(), now: at('2026-10-23', 10), settings, store });
+    await update();
+    const plan = await runPlan<BackgroundReminders>((plans) => plans.get('current'));
+    expect(plan.reminders).toHaveLength(3);
+
+    const sentKeys = ['main:neem:2026-10-26:upcoming']; // Sent by the worker on Oct 25
+    await runPlan((plans) => plans.put({ ...plan, sentKeys }, 'current'), 'readwrite');
+    await update();
+    expect(store.has('main:neem:2026-10-26:upcoming')).toBe(true);
+    const next = await runPlan<BackgroundReminders>((plans) => plans.get('current'));
+    expect(next.sentKeys).toEqual([]);
+    expect(next.reminders.map((reminder) => reminder.kind)).toEqual(['due', 'overdue']);
+  });
+});
@@ -0,0 +1,154 @@
+import { expect, it } from 'vitest';
+
+import { importBackup, type ParsedBackup } from '../backup';
+import { DEFAULT_BED } from '../beds';
+import { addDays } from '../dates';
+import { HISTORY_PAGE_SIZE } from '../history';
+import { createMemoryRepository, type StoredApplication } from '../repository';
+import { DEFAULT_TASKS } from '../taskCatalog';
+import { makeApplication, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', applyIntervalDays: 30, order: 1 });
+
+// One application a day, alternating neem and fungicide, the newest on the evening of `lastDay`
+const dailyApplications = (count: number, lastDay: string): StoredApplication[] =>
+  Array.from({ length: count }, (_, i) => ({
+    ...makeApplication(i % 2 ? fungicide : neem, addDays(at(lastDay, 23, 30), -i)),
+    id: `app-${i}`,
+  }));
+
+const lastDates = (repository: ReturnType<typeof createMemoryRepository>) =>
+  new Promise<Record<string, string>>((resolve) => {
+    const unsubscribe = repository.watchLastDates(
+      'main',
+      (dates) => {
+        unsubscribe();
+        resolve(dates);
+      },
+      () => {}
+    );
+  });
+
+describeInTimeZones('memory repository', () => {
+  it('seeds the default program on first load only', async () => {
+    const repository = createMemoryRepository();
+    const { tasks, beds } = await repository.loadGarden();
+    expect(tasks.map((task) => task.id)).toEqual(DEFAULT_TASKS.map((task) => task.id));
+    expect(beds).toEqual([DEFAULT_BED]);
+
+    const seeded = createMemoryRepository('local', { tasks: [fungicide, neem] });
+    expect((await seeded.loadGarden()).tasks).toEqual([neem, fungicide]);
+  });
+
+  it('never moves a last-applied date back', async () => {
+    const repository = createMemoryRepository();
+    const later = at('2026-03-29', 8).toISOString();
+    expect(await repository.advanceLastDate('main', 'neem', later)).toBe(later);
+    expect(await repository.advanceLastDate('main', 'neem', at('2026-03-28', 23).toISOString())).toBe(later);
+    expect(await lastDates(repository)).toEqual({ neem: later });
+  });
+
+  it('watches the applications logged since a date, newest first', async () => {
+    const repository = createMemoryRepository('local', { applications: dailyApplications(5, '2026-10-25') });
+    const seen: (string | undefined)[][] = [];
+    const unsubscribe = repository.watchApplications(
+      at('2026-10-23'),
+      (applications) => seen.push(applications.map(({ id }) => id)),
+      () => {}
+    );
+    await Promise.resolve();
+    await repository.putApplication({ ...makeApplication(neem, at('2026-10-26', 7)), id: 'new' });
+    await Promise.resolve();
+    unsubscribe();
+
+    expect(seen).toEqual([
+      ['app-0', 'app-1', 'app-2'],
+      ['new', 'app-0', 'app-1', 'app-2'],
+    ]);
+  });
+
+  it('clears the history but keeps the catalog and beds', async () => {
+    const repository = createMemoryRepository('local', { tasks: [neem], applications: dailyApplications(3, '2026-10-25') });
+    await repository.advanceLastDate('main', 'neem', at('2026-10-25', 23, 30).toISOString());
+
+    await repository.resetHistory(['main']);
+
+    expect(await repository.listApplications()).toEqual([]);
+    expect(await lastDates(repository)).toEqual({});
+    expect((await repository.loadGarden()).tasks).toEqual([neem]);
+  });
+
+  it('pages through the history newest first', async () => {
+    const repository = createMemoryRepository('local', { tasks: [neem, fungicide], applications: dailyApplications(60, '2026-03-29') });
+
+    const first = await repository.listHistoryPage({});
+    expect(first.events).toHaveLength(HISTORY_PAGE_SIZE);
+    expect(first.events[0].id).toBe('app-0');
+    expect(first.hasMore).toBe(true);
+
+    const second = await repository.listHistoryPage({}, first.cursor);
+    expect(second.events[0].id).toBe(`app-${HISTORY_PAGE_SIZE}`);
+    const third = await repository.listHistoryPage({}, second.cursor);
+    expect(third.events).toHaveLength(60 - 2 * HISTORY_PAGE_SIZE);
+    expect(third.hasMore).toBe(false);
+  });
+
+  it('filters the history by task and local date range across a DST change', async () => {
+    const repository = createMemoryRepository('local', { tasks: [neem, fungicide], applications: dailyApplications(10, '2026-03-31') });
+
+    const page = await repository.listHistoryPage({ taskIds: ['neem'], from: '2026-03-27', to: '2026-03-29' });
+    expect(page.events.map((event) => event.id)).toEqual(['app-2', 'app-4']);
+  });
+
+  it('archives a season and restores it next to what was logged since', async () => {
+    const history = dailyApplications(4, '2026-10-24');
+    const repository = createMemoryRepository('local', { tasks: [neem, fungicide], applications: history });
+    await repository.advanceLastDate('main', 'neem', history[0].timestampIso);
+
+    const season = await repository.closeSeason({ name: 'Winter' }, ['main']);
+    expect(season).toMatchObject({
+      name: 'Winter',
+      applicationCount: 4,
+      firstAppliedIso: history[3].timestampIso,
+      lastAppliedIso: history[0].timestampIso,
+      lastDates: { main: { neem: history[0].timestampIso } },
+    });
+    expect(await repository.listApplications()).toEqual([]);
+    expect(await lastDates(repository)).toEqual({});
+    expect((await repository.listSeasonApplications(season.id)).map(({ id }) => id)).toEqual(['app-0', 'app-1', 'app-2', 'app-3']);
+
+    const since = { ...makeApplication(neem, at('2026-10-26', 8)), id: 'since' };
+    await repository.putApplication(since);
+    await repository.advanceLastDate('main', 'neem', since.timestampIso);
+    await repository.restoreSeason(season);
+
+    expect(await repository.listSeasons()).toEqual([]);
+    expect(await repository.listApplications()).toHaveLength(5);
+    expect(await lastDates(repository)).toEqual({ neem: since.timestampIso });
+  });
+
+  it('imports a backup once, moving last-applied dates forward', async () => {
+    const repository = createMemoryRepository('local', { tasks: [neem] });
+    const { tasks, beds } = await repository.loadGarden();
+    const parsed: ParsedBackup = {
+      tasks: [fungicide],
+      beds: [],
+      applications: [makeApplication(fungicide, at('2026-11-01', 1, 30)), makeApplication(neem, at('2026-11-01', 2))],
+      errors: [],
+    };
+    const garden = { tasks, beds, lastApplicationDates: {}, applications: [] };
+
+    const plan = await importBackup(repository, garden, parsed);
+    expect(plan).toMatchObject({ skipped: 0, tasks: [fungicide] });
+    expect(await lastDates(repository)).toEqual({
+      neem: at('2026-11-01', 2).toISOString(),
+      fungicide: at('2026-11-01', 1, 30).toISOString(),
+    });
+
+    const again = await importBackup(repository, { ...garden, tasks: [neem, fungicide] }, parsed);
+    expect(again).toMatchObject({ skipped: 2, applications: [] });
+    expect(await repository.listApplications()).toHaveLength(2);
+  });
+});
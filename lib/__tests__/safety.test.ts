@@ -0,0 +1,59 @@
+import { expect, it } from 'vitest';
+
+import { addDays, fromDateKey, toDateKey } from '../dates';
+import { checkApplication, getSafeToApplyFrom } from '../safety';
+import { makeBed, makeTask } from './fixtures';
+import { at, describeInTimeZones, DST_TRANSITIONS } from './timeZones';
+
+const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', minGapDays: { neem: 3 }, doNotMixWith: ['neem'] });
+const neem = makeTask();
+
+const contextAfterNeem = (applied: Date, bed = makeBed()) => ({
+  task: fungicide,
+  bed,
+  bedTasks: [fungicide, neem],
+  latestApplied: { neem: applied.toISOString() },
+});
+
+describeInTimeZones('safety', () => {
+  it.each(DST_TRANSITIONS)('keeps the minimum gap in calendar days across %s', (transition) => {
+    const applied = at(toDateKey(addDays(fromDateKey(transition), -1)), 23, 30);
+    const context = contextAfterNeem(applied);
+
+    expect(checkApplication(context, at(transition, 0, 30)).map((v) => v.kind)).toEqual(['min-gap']);
+    expect(checkApplication(context, addDays(applied, 3))).toEqual([]);
+    expect(toDateKey(getSafeToApplyFrom(context, at(transition, 12))!)).toBe(toDateKey(addDays(applied, 3)));
+  });
+
+  it('blocks mixing on the same local day only', () => {
+    const context = contextAfterNeem(at('2026-11-01', 0, 30));
+    expect(checkApplication(context, at('2026-11-01', 23, 30)).map((v) => v.kind)).toEqual([
+      'do-not-mix',
+      'min-gap',
+    ]);
+    expect(checkApplication(context, at('2026-10-31', 23, 30)).map((v) => v.kind)).toEqual(['min-gap']);
+  });
+
+  it('blocks a task inside its pre-harvest interval', () => {
+    const task = makeTask({ preHarvestIntervalDays: 7 });
+    const context = { task, bed: makeBed({ harvestDate: '2026-04-08' }), bedTasks: [task], latestApplied: {} };
+
+    expect(checkApplication(context, at('2026-04-01', 23))).toEqual([]);
+    const [violation] = checkApplication(context, at('2026-04-02', 0, 30));
+    expect(violation.kind).toBe('pre-harvest');
+    expect(toDateKey(violation.safeFrom)).toBe('2026-04-09');
+    expect(checkApplication(context, at('2026-04-09', 8))).toEqual([]);
+  });
+
+  it('finds the first safe day when waiting out one rule runs into another', () => {
+    const task = { ...fungicide, preHarvestIntervalDays: 5 };
+    const context = {
+      ...contextAfterNeem(at('2026-03-28', 18)),
+      task,
+      bedTasks: [task, neem],
+      bed: makeBed({ harvestDate: '2026-04-03' }),
+    };
+    expect(toDateKey(getSafeToApplyFrom(context, at('2026-03-29', 9))!)).toBe('2026-04-04');
+    expect(getSafeToApplyFrom(context, at('2026-04-05', 9))).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { expect, it } from 'vitest';
+
+import { getRestoredDates, summarizeSeason } from '../seasons';
+import { makeApplication, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+
+describeInTimeZones('seasons', () => {
+  it('summarizes the history a season closes with', () => {
+    const applications = ['2026-04-05', '2026-03-08', '2026-10-04'].map((day) => makeApplication(neem, at(day, 8)));
+    const lastDates = { main: { neem: at('2026-10-04', 8).toISOString() } };
+    const closing = { id: 'spring', name: 'Spring', closedAtIso: '2026-10-19T00:00:00.000Z' };
+
+    expect(summarizeSeason(closing, applications, lastDates)).toEqual({
+      ...closing,
+      firstAppliedIso: at('2026-03-08', 8).toISOString(),
+      lastAppliedIso: at('2026-10-04', 8).toISOString(),
+      applicationCount: 3,
+      lastDates,
+    });
+    expect(summarizeSeason({ ...closing, id: 'empty' }, [], {})).toMatchObject({
+      applicationCount: 0,
+      firstAppliedIso: undefined,
+    });
+  });
+
+  it('only moves last-applied dates forward when a season is restored', () => {
+    const current = { neem: at('2026-10-25', 8).toISOString(), spray: at('2026-03-29', 8).toISOString() };
+    const archived = {
+      neem: at('2026-10-24', 8).toISOString(),
+      spray: at('2026-04-05', 8).toISOString(),
+      fungicide: at('2026-03-08', 8).toISOString(),
+    };
+
+    expect(getRestoredDates(current, archived)).toEqual({ spray: archived.spray, fungicide: archived.fungicide });
+  });
+});
@@ -0,0 +1,202 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+import { createMemoryRepository } from '../repository';
+import {
+  applyQueuedChanges,
+  clearQueue,
+  enqueueApplication,
+  flushQueue,
+  getQueuedApplications,
+  removeQueuedApplication,
+  type QueuedApplication,
+} from '../syncQueue';
+import { makeApplication, makeTask } from './fixtures';
+import { at, describeInTimeZones } from './timeZones';
+
+const neem = makeTask();
+let sequence = 0; // Keeps entries queued in one test in order
+
+const queuedChange = (
+  kind: QueuedApplication['kind'],
+  applied: Date,
+  overrides: Partial<QueuedApplication['event']> = {}
+): QueuedApplication => ({
+  householdId: 'local',
+  kind,
+  event: { ...makeApplication(neem, applied), id: 'app-1', ...overrides },
+  updatesLastDate: true,
+  queuedAtIso: new Date(Date.UTC(2026, 0, 1) + sequence++).toISOString(),
+});
+
+const watchLastDates = (repository: ReturnType<typeof createMemoryRepository>) =>
+  new Promise<Record<string, string>>((resolve) => {
+    const unsubscribe = repository.watchLastDates(
+      'main',
+      (dates) => {
+        unsubscribe();
+        resolve(dates);
+      },
+      () => {}
+    );
+  });
+
+describeInTimeZones('sync queue', () => {
+  beforeEach(async () => {
+    await clearQueue('local');
+    await clearQueue('other');
+  });
+
+  it('shows queued changes over the server data until they are replayed', async () => {
+    const applied = at('2026-03-08', 1, 30);
+    await enqueueApplication(queuedChange('add', applied));
+    const queued = await getQueuedApplications('local');
+
+    const { applications, lastApplicationDates } = applyQueuedChanges([], {}, queued, [neem]);
+    expect(applications.map((event) => event.id)).toEqual(['app-1']);
+    expect(lastApplicationDates.main.neem).toBe(applied.toISOString());
+  });
+
+  it('moves the shown date back when a queued delete removes the latest application', () => {
+    const earlier = { ...makeApplication(neem, at('2026-03-01', 8)), id: 'app-0' };
+    const latest = { ...makeApplication(neem, at('2026-03-08', 1, 30)), id: 'app-1' };
+    const dates = { main: { neem: latest.timestampIso } };
+
+    const { applications, lastApplicationDates } = applyQueuedChanges(
+      [latest, earlier],
+      dates,
+      [queuedChange('delete', at('2026-03-08', 1, 30))],
+      [neem]
+    );
+    expect(applications).toEqual([earlier]);
+    expect(lastApplicationDates.main.neem).toBe(earlier.timestampIso);
+    expect(dates.main.neem).toBe(latest.timestampIso); // The server data is left as it was
+  });
+
+  it('keeps changes in the order they were made', async () => {
+    await enqueueApplication(queuedChange('add', at('2026-03-08', 3), { id: 'app-2' }));
+    await enqueueApplication(queuedChange('add', at('2026-03-07', 3)));
+
+    expect((await getQueuedApplications('local')).map(({ event }) => event.id)).toEqual(['app-2', 'app-1']);
+  });
+
+  it('replays an application and moves its last-applied date forward', async () => {
+    const repository = createMemoryRepository();
+    await repository.loadGarden();
+    const applied = at('2026-10-25', 1, 30);
+    const entry = queuedChange('add', applied);
+    await enqueueApplication(entry);
+
+    const results = await flushQueue(repository);
+
+    expect(results).toEqual([
+      {
+        kind: 'add',
+        queuedAtIso: entry.queuedAtIso,
+        id: 'app-1',
+        bedId: 'main',
+        taskId: 'neem',
+        lastAppliedIso: applied.toISOString(),
+      },
+    ]);
+    expect((await repository.listApplications()).map((event) => event.id)).toEqual(['app-1']);
+    expect(await watchLastDates(repository)).toEqual({ neem: applied.toISOString() });
+    expect(await getQueuedApplications('local')).toEqual([]);
+  });
+
+  it('replays only the latest change of an application', async () => {
+    const repository = createMemoryRepository();
+    await enqueueApplication(queuedChange('add', at('2026-03-29', 23)));
+    await enqueueApplication(queuedChange('update', at('2026-03-28', 23), { notes: 'Back-dated' }));
+
+    await flushQueue(repository);
+
+    const [stored] = await repository.listApplications();
+    expect(stored).toMatchObject({ notes: 'Back-dated', timestampIso: at('2026-03-28', 23).toISOString() });
+    expect(await watchLastDates(repository)).toEqual({ neem: at('2026-03-28', 23).toISOString() });
+  });
+
+  it('recomputes the last-applied date after a delete', async () => {
+    const earlier = { ...makeApplication(neem, at('2026-11-01', 0, 30)), id: 'app-0' };
+    const repository = createMemoryRepository('local', { tasks: [neem], applications: [earlier] });
+    await repository.advanceLastDate('main', 'neem', at('2026-11-02', 9).toISOString());
+    await enqueueApplication(queuedChange('delete', at('2026-11-02', 9)));
+
+    await flushQueue(repository);
+
+    expect(await watchLastDates(repository)).toEqual({ neem: earlier.timestampIso });
+  });
+
+  it('keeps a change queued while the earlier one was syncing', async () => {
+    const repository = createMemoryRepository();
+    const putApplication = repository.putApplication;
+    const undo = queuedChange('delete', at('2026-03-08', 3));
+    repository.putApplication = async (event) => {
+      await enqueueApplication(undo); // Undone before the add reached the server
+      return putApplication(event);
+    };
+    await enqueueApplication(queuedChange('add', at('2026-03-08', 3)));
+
+    const results = await flushQueue(repository);
+
+    expect(results.map(({ kind }) => kind)).toEqual(['add', 'delete']);
+    expect(await repository.listApplications()).toEqual([]);
+    expect(await getQueuedApplications('local')).toEqual([]);
+  });
+
+  it('only removes an entry that is still the latest change', async () => {
+    const add = queuedChange('add', at('2026-11-01', 1, 30));
+    const update = queuedChange('update', at('2026-11-01', 1, 30), { notes: 'Edited' });
+    await enqueueApplication(add);
+    await enqueueApplication(update);
+
+    expect(await removeQueuedApplication(add)).toBe(false);
+    expect(await getQueuedApplications('local')).toEqual([update]);
+    expect(await removeQueuedApplication(update)).toBe(true);
+    expect(await getQueuedApplications('local')).toEqual([]);
+  });
+
+  it('forgets the last-applied date once no application is left', async () => {
+    const repository = createMemoryRepository();
+    await repository.advanceLastDate('main', 'neem', at('2026-11-02', 9).toISOString());
+    await enqueueApplication(queuedChange('delete', at('2026-11-02', 9)));
+
+    const [result] = await flushQueue(repository);
+
+    expect(result.lastAppliedIso).toBeNull();
+    expect(await watchLastDates(repository)).toEqual({});
+  });
+
+  it('stops at the first failure and keeps the rest in order', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const repository = createMemoryRepository();
+    const putApplication = repository.putApplication;
+    let failures = 1;
+    repository.putApplication = async (event) => {
+      if (event.id === 'app-1' && failures-- > 0) throw new Error('offline');
+      return putApplication(event);
+    };
+    await enqueueApplication(queuedChange('add', at('2026-04-05', 1)));
+    await enqueueApplication(queuedChange('add', at('2026-04-05', 2), { id: 'app-2' }));
+
+    expect(await flushQueue(repository)).toEqual([]);
+    expect((await getQueuedApplications('local')).map(({ event }) => event.id)).toEqual(['app-1', 'app-2']);
+
+    expect((await flushQueue(repository)).map(({ id }) => id)).toEqual(['app-1', 'app-2']);
+    expect(await getQueuedApplications('local')).toEqual([]);
+  });
+
+  it('only replays the signed-in household', async () => {
+    await enqueueApplication({ ...queuedChange('add', at('2026-10-04', 8)), householdId: 'other' });
+
+    expect(await flushQueue(createMemoryRepository())).toEqual([]);
+    expect(await getQueuedApplications('other')).toHaveLength(1);
+  });
+
+  it('replays changes queued before sign-in in the first household that loads', async () => {
+    await enqueueApplication({ ...queuedChange('add', at('2026-10-04', 8)), householdId: undefined });
+
+    expect((await flushQueue(createMemoryRepository('home'))).map(({ id }) => id)).toEqual(['app-1']);
+    expect(await getQueuedApplications('local')).toEqual([]);
+  });
+});
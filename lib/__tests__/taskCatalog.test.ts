@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  createTaskId,
+  DEFAULT_TASKS,
+  getLastAppliedIso,
+  getTaskCategory,
+  resolveEventTaskId,
+} from '../taskCatalog';
+import { makeApplication, makeTask } from './fixtures';
+
+describe('task catalog', () => {
+  const neem = makeTask({ label: 'Pest Control - Neem 🌿' });
+
+  it('resolves events by task ID, or by the label of older events', () => {
+    const applied = new Date(Date.UTC(2026, 4, 1));
+    expect(resolveEventTaskId(makeApplication(neem, applied), [neem])).toBe('neem');
+    expect(resolveEventTaskId(makeApplication(neem, applied, { taskId: undefined }), [neem])).toBe('neem');
+    expect(
+      resolveEventTaskId(makeApplication(neem, applied, { taskId: undefined, label: 'Gone' }), [neem])
+    ).toBeUndefined();
+  });
+
+  it('reads last-applied dates keyed by ID, or by label in older documents', () => {
+    expect(getLastAppliedIso({ neem: '2026-05-01T00:00:00.000Z' }, neem)).toBe('2026-05-01T00:00:00.000Z');
+    expect(getLastAppliedIso({ 'Pest Control - Neem 🌿': '2026-04-01T00:00:00.000Z' }, neem)).toBe(
+      '2026-04-01T00:00:00.000Z'
+    );
+    expect(getLastAppliedIso({}, neem)).toBeUndefined();
+  });
+
+  it('makes readable task IDs that are not taken', () => {
+    expect(createTaskId('Pest Control - Neem 🌿', [])).toBe('pest-control-neem');
+    expect(createTaskId('Neem', [neem, makeTask({ id: 'neem-2' })])).toBe('neem-3');
+    expect(createTaskId('🌿', [])).toBe('task');
+  });
+
+  it('seeds tasks with unique IDs', () => {
+    const ids = DEFAULT_TASKS.map((task) => task.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('takes the category of the default a task was seeded from', () => {
+    expect(getTaskCategory(makeTask({ id: 'pest-control-neem' }))).toBe('pest-control');
+    expect(getTaskCategory(makeTask({ id: 'pest-control-neem', category: 'other' }))).toBe('other');
+    expect(getTaskCategory(neem)).toBe('other');
+  });
+});
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, describe } from 'vitest';
+
+// Time zones the date logic is checked in: no DST, northern and southern DST, and offsets
+// that aren't whole hours
+export const TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Los_Angeles',
+  'Europe/London',
+  'Australia/Sydney',
+  'Asia/Kolkata',
+  'Asia/Dhaka',
+];
+
+// DST transitions in 2026 across those zones, as "YYYY-MM-DD"
+export const DST_TRANSITIONS = [
+  '2026-03-08', // US clocks go forward
+  '2026-03-29', // UK clocks go forward
+  '2026-04-05', // Sydney clocks go back
+  '2026-10-04', // Sydney clocks go forward
+  '2026-10-25', // UK clocks go back
+  '2026-11-01', // US clocks go back
+];
+
+// Runs the suite once per time zone. Node picks up `process.env.TZ` changes straight away,
+// so dates must be created inside the tests, not while the suite is being collected.
+export const describeInTimeZones = (name: string, suite: (timeZone: string) => void) => {
+  describe.each(TIME_ZONES)(`${name} (TZ=%s)`, (timeZone) => {
+    const original = process.env.TZ;
+    beforeAll(() => {
+      process.env.TZ = timeZone;
+    });
+    afterAll(() => {
+      process.env.TZ = original;
+    });
+    suite(timeZone);
+  });
+};
+
+// A local time on a "YYYY-MM-DD" day
+export const at = (dateKey: string, hours = 0, minutes = 0) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
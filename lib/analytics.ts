@@ -0,0 +1,173 @@
+import { daysBetween, startOfDay } from './calendar';
+import { getBedTasks, getEventBedId } from './beds';
+import { evaluateSchedule, hasSchedule } from './recurrence';
+import { resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Bed, Task } from './types';
+
+// Adherence and usage statistics over the application history, for the stats view.
+// An application is on time when it came no later than the day the schedule had it due after
+// the previous one in the same bed, and late otherwise. Due dates come from `evaluateSchedule`,
+// so days of the month, pauses, season windows, snoozes and per-season limits all count.
+
+export type TaskStats = {
+  taskId: string;
+  applications: number;
+  // Only for tasks with a schedule; the first application in a bed has nothing to compare to
+  onTime: number;
+  late: number;
+  averageIntervalDays: number | null;
+  longestOverdueDays: number; // Longest time past a due date, including a current one
+};
+
+type StatsInput = {
+  applications: ApplicationEvent[];
+  beds: Bed[]; // The beds to include
+  tasks: Task[];
+  from?: Date; // Start of the period; the whole history when missing
+  today: Date;
+};
+
+const isInPeriod = (event: ApplicationEvent, from: Date | undefined) =>
+  !from || new Date(event.timestampIso) >= from;
+
+export const computeTaskStats = ({ applications, beds, tasks, from, today }: StatsInput) => {
+  const stats = new Map<string, TaskStats & { intervalTotal: number; intervalCount: number }>();
+  const todayStart = startOfDay(today);
+
+  beds.forEach((bed) => {
+    getBedTasks(bed, tasks).forEach((task) => {
+      // All of the bed's applications of the task, oldest first, so the first one in the
+      // period is still compared to the one before it
+      const dates = applications
+        .filter(
+          (event) => getEventBedId(event) === bed.id && resolveEventTaskId(event, tasks) === task.id
+        )
+        .sort((a, b) => a.timestampIso.localeCompare(b.timestampIso));
+
+      const entry = stats.get(task.id) ?? {
+        taskId: task.id,
+        applications: 0,
+        onTime: 0,
+        late: 0,
+        averageIntervalDays: null,
+        longestOverdueDays: 0,
+        intervalTotal: 0,
+        intervalCount: 0,
+      };
+      // The schedule as it stood on `today`, with the applications up to the `count`th. A bed
+      // only keeps the deferrals of its current occurrences, so past ones are rated without them.
+      const evaluate = (count: number, today: Date, current = false) =>
+        evaluateSchedule({
+          task,
+          bed: current ? bed : { ...bed, deferrals: undefined },
+          lastAppliedIso: dates[count - 1]?.timestampIso,
+          applications: dates.slice(0, count),
+          tasks,
+          today,
+        });
+
+      dates.forEach((event, i) => {
+        if (!isInPeriod(event, from)) return;
+        entry.applications++;
+        if (i === 0) return;
+        const applied = new Date(event.timestampIso);
+        const previous = new Date(dates[i - 1].timestampIso);
+        entry.intervalTotal += daysBetween(previous, applied);
+        entry.intervalCount++;
+        // When it was due, as of the day of the previous application
+        const due = hasSchedule(task) ? evaluate(i, previous)?.dueDate : undefined;
+        if (!due) return;
+        const overdue = daysBetween(due, applied);
+        if (overdue <= 0) {
+          entry.onTime++;
+        } else {
+          entry.late++;
+          entry.longestOverdueDays = Math.max(entry.longestOverdueDays, overdue);
+        }
+      });
+
+      // A task that is overdue right now counts too
+      const current = dates.length > 0 ? evaluate(dates.length, todayStart, true) : null;
+      if (current?.status === 'overdue') {
+        entry.longestOverdueDays = Math.max(entry.longestOverdueDays, -(current.daysUntil ?? 0));
+      }
+      stats.set(task.id, entry);
+    });
+  });
+
+  return tasks
+    .filter((task) => stats.has(task.id))
+    .map((task): TaskStats => {
+      const { intervalTotal, intervalCount, ...entry } = stats.get(task.id)!;
+      return {
+        ...entry,
+        averageIntervalDays: intervalCount > 0 ? intervalTotal / intervalCount : null,
+      };
+    });
+};
+
+export type MonthCount = {
+  key: string; // "YYYY-MM"
+  start: Date;
+  count: number;
+};
+
+const toMonthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Applications per calendar month, from the period start (or the first application) to today,
+// including months without any
+export const countByMonth = (applications: ApplicationEvent[], today: Date, from?: Date) => {
+  const counts = new Map<string, number>();
+  let earliest = from;
+  applications.forEach((event) => {
+    const date = new Date(event.timestampIso);
+    if (from && date < from) return;
+    if (!earliest || date < earliest) earliest = date;
+    counts.set(toMonthKey(date), (counts.get(toMonthKey(date)) ?? 0) + 1);
+  });
+
+  const months: MonthCount[] = [];
+  if (!earliest) return months;
+  for (
+    let month = new Date(earliest.getFullYear(), earliest.getMonth(), 1);
+    month <= today;
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  ) {
+    months.push({ key: toMonthKey(month), start: month, count: counts.get(toMonthKey(month)) ?? 0 });
+  }
+  return months;
+};
+
+export type UsageTotal = {
+  taskId: string;
+  unit: string;
+  amount: number;
+};
+
+// Units summed together, as [smaller unit, factor to it]
+const UNIT_CONVERSIONS: Record<string, [string, number]> = {
+  l: ['ml', 1000],
+  kg: ['g', 1000],
+};
+
+// Total quantity used per task, for the applications that recorded one. Litres and kilograms
+// are added up with millilitres and grams, and shown in the larger unit from 1000 up.
+export const totalUsage = (applications: ApplicationEvent[], tasks: Task[], from?: Date) => {
+  const totals = new Map<string, UsageTotal>();
+  applications.forEach((event) => {
+    if (event.quantity === undefined || !isInPeriod(event, from)) return;
+    const taskId = resolveEventTaskId(event, tasks) ?? event.label;
+    const [unit, factor] = UNIT_CONVERSIONS[event.unit ?? ''] ?? [event.unit ?? '', 1];
+    const key = `${taskId}|${unit}`;
+    const total = totals.get(key) ?? { taskId, unit, amount: 0 };
+    total.amount += event.quantity * factor;
+    totals.set(key, total);
+  });
+
+  return [...totals.values()].map((total) => {
+    const larger = Object.entries(UNIT_CONVERSIONS).find(([, [smaller]]) => smaller === total.unit);
+    return larger && total.amount >= larger[1][1]
+      ? { ...total, unit: larger[0], amount: total.amount / larger[1][1] }
+      : total;
+  });
+};
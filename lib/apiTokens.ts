@@ -0,0 +1,42 @@
+import { deleteDoc, doc, getDocs, query, setDoc, where } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { apiTokensCollection } from './collections';
+import { hashApiToken } from './ids';
+import type { ApiToken, ApiTokenScope } from './types';
+
+// Tokens that let scripts and devices use the API routes (app/api) for one household.
+// Members create and revoke them from the household panel. Calendar tokens only read the
+// iCalendar feed, since they end up in a URL that calendar apps store and sync.
+
+const TOKEN_PREFIX = 'gdn_';
+
+export const createApiToken = async (
+  householdId: string,
+  user: User,
+  name: string,
+  scope: ApiTokenScope = 'full'
+) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = TOKEN_PREFIX + Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  const apiToken: ApiToken = {
+    id: await hashApiToken(token),
+    householdId,
+    name,
+    scope,
+    createdByUid: user.uid,
+    createdAtIso: new Date().toISOString(),
+  };
+  const { id, ...data } = apiToken;
+  await setDoc(doc(apiTokensCollection, id), data);
+  // The token can't be read back later, only revoked
+  return { token, apiToken };
+};
+
+export const listApiTokens = async (householdId: string) => {
+  const snapshot = await getDocs(query(apiTokensCollection, where('householdId', '==', householdId)));
+  return snapshot.docs
+    .map((tokenDoc) => ({ id: tokenDoc.id, ...tokenDoc.data() } as ApiToken))
+    .sort((a, b) => a.createdAtIso.localeCompare(b.createdAtIso));
+};
+
+export const revokeApiToken = (id: string) => deleteDoc(doc(apiTokensCollection, id));
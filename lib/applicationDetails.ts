@@ -0,0 +1,61 @@
+import { defaultI18n, type I18n } from './i18n';
+import type { ApplicationDetails, ApplicationEvent, WeatherCondition } from './types';
+
+export const WEATHER_LABELS: Record<WeatherCondition, string> = {
+  sunny: 'Sunny ☀️',
+  cloudy: 'Cloudy ☁️',
+  humid: 'Humid 💧',
+  windy: 'Windy 🌬️',
+  rainy: 'Rainy 🌧️',
+};
+
+export const QUANTITY_UNITS = ['ml', 'l', 'g', 'kg', 'tsp', 'tbsp', 'cups'];
+
+// Short human-readable parts for the details an application was logged with
+export const describeApplicationDetails = (details: ApplicationDetails, i18n: I18n = defaultI18n) => {
+  const parts: string[] = [];
+  if (details.quantity !== undefined) parts.push(i18n.formatQuantity(details.quantity, details.unit));
+  if (details.dilution) parts.push(details.dilution);
+  if (details.productLot) parts.push(i18n.t('activity.lot', { lot: details.productLot }));
+  if (details.target) parts.push(i18n.t('activity.target', { target: details.target }));
+  if (details.weather) parts.push(i18n.t(`weather.${details.weather}`));
+  if (details.rainedAfter) parts.push(i18n.t('activity.rainedAfter'));
+  return parts;
+};
+
+export type ActivityFilter = {
+  search: string; // Matched against task label, target, lot, dilution and notes
+  weather: WeatherCondition | 'any';
+  rainedAfterOnly: boolean;
+  withDetailsOnly: boolean;
+};
+
+export const EMPTY_ACTIVITY_FILTER: ActivityFilter = {
+  search: '',
+  weather: 'any',
+  rainedAfterOnly: false,
+  withDetailsOnly: false,
+};
+
+export const isActivityFilterActive = (filter: ActivityFilter) =>
+  filter.search.trim() !== '' ||
+  filter.weather !== 'any' ||
+  filter.rainedAfterOnly ||
+  filter.withDetailsOnly;
+
+export const matchesActivityFilter = (
+  event: ApplicationEvent,
+  taskLabel: string,
+  filter: ActivityFilter
+) => {
+  if (filter.weather !== 'any' && event.weather !== filter.weather) return false;
+  if (filter.rainedAfterOnly && !event.rainedAfter) return false;
+  if (filter.withDetailsOnly && describeApplicationDetails(event).length === 0 && !event.notes) {
+    return false;
+  }
+  const search = filter.search.trim().toLowerCase();
+  if (!search) return true;
+  return [taskLabel, event.target, event.productLot, event.dilution, event.notes].some((field) =>
+    field?.toLowerCase().includes(search)
+  );
+};
@@ -0,0 +1,329 @@
+import { getBedProblem, getBedTasks, getEventBedId } from './beds';
+import { hasSchedule } from './recurrence';
+import type { AppRepository } from './repository';
+import { getTaskProblem, resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Bed, Task, WeatherCondition } from './types';
+
+// Backups of a household's garden. JSON holds everything needed to restore it; CSV has one
+// row per application, with its task and bed, for spreadsheets. Either can be imported:
+// applications already in the garden (same time and task) are skipped.
+
+export const BACKUP_VERSION = 1;
+
+export type Backup = {
+  version: number;
+  exportedAtIso: string;
+  tasks: Task[];
+  beds: Bed[];
+  lastApplicationDates: Record<string, Record<string, string>>; // Keyed by bed ID, then task ID
+  applications: ApplicationEvent[];
+};
+
+// Contents of an imported file, with the rows that had to be skipped
+export type ParsedBackup = {
+  tasks: Task[];
+  beds: Bed[];
+  applications: ApplicationEvent[];
+  errors: string[];
+};
+
+export const createBackup = (
+  data: Omit<Backup, 'version' | 'exportedAtIso'>,
+  now = new Date()
+): Backup => ({ version: BACKUP_VERSION, exportedAtIso: now.toISOString(), ...data });
+
+export const backupToJson = (backup: Backup) => JSON.stringify(backup, null, 2);
+
+// --- CSV ---
+
+const CSV_COLUMNS = [
+  'id',
+  'timestampIso',
+  'bedId',
+  'bedName',
+  'taskId',
+  'taskLabel',
+  'dayLabel',
+  'applyIntervalDays',
+  'lastAppliedIso',
+  'quantity',
+  'unit',
+  'dilution',
+  'productLot',
+  'target',
+  'weather',
+  'rainedAfter',
+  'notes',
+  'photoRef',
+  'loggedByName',
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const backupToCsv = (backup: Backup) => {
+  const taskById = new Map(backup.tasks.map((task) => [task.id, task]));
+  const bedById = new Map(backup.beds.map((bed) => [bed.id, bed]));
+
+  const rows = backup.applications.map((event) => {
+    const bedId = getEventBedId(event);
+    const taskId = resolveEventTaskId(event, backup.tasks);
+    const task = taskId ? taskById.get(taskId) : undefined;
+    const bed = bedById.get(bedId);
+    const bedTask = bed && task ? getBedTasks(bed, [task])[0] : task;
+    const row: Record<CsvColumn, unknown> = {
+      id: event.id,
+      timestampIso: event.timestampIso,
+      bedId,
+      bedName: bed?.name,
+      taskId,
+      taskLabel: task?.label ?? event.label,
+      dayLabel: event.dayLabel,
+      applyIntervalDays: bedTask?.applyIntervalDays,
+      lastAppliedIso: taskId ? backup.lastApplicationDates[bedId]?.[taskId] : undefined,
+      quantity: event.quantity,
+      unit: event.unit,
+      dilution: event.dilution,
+      productLot: event.productLot,
+      target: event.target,
+      weather: event.weather,
+      rainedAfter: event.rainedAfter,
+      notes: event.notes,
+      photoRef: event.photoRef,
+      loggedByName: event.loggedByName,
+    };
+    return CSV_COLUMNS.map((column) => escapeCsv(String(row[column] ?? ''))).join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+// Splits CSV text into rows of fields, following RFC 4180 quoting
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+const WEATHER_CONDITIONS: WeatherCondition[] = ['sunny', 'cloudy', 'humid', 'windy', 'rainy'];
+
+const isValidIso = (value: unknown): value is string =>
+  typeof value === 'string' && value !== '' && !Number.isNaN(new Date(value).getTime());
+
+// Checks one imported application, returning the reason it can't be imported if any
+const validateApplication = (event: ApplicationEvent) => {
+  if (!isValidIso(event.timestampIso)) return 'missing or invalid timestamp';
+  if (!event.label && !event.taskId) return 'missing task';
+  if (event.quantity !== undefined && !Number.isFinite(event.quantity)) return 'invalid quantity';
+  if (event.weather && !WEATHER_CONDITIONS.includes(event.weather)) return 'unknown weather';
+  return null;
+};
+
+const parseCsv = (text: string): ParsedBackup => {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = header?.map((name) => name.trim()) ?? [];
+  if (!columns.includes('timestampIso')) {
+    return { tasks: [], beds: [], applications: [], errors: ['The file has no timestampIso column.'] };
+  }
+
+  const applications: ApplicationEvent[] = [];
+  const errors: string[] = [];
+  rows.forEach((fields, i) => {
+    const get = (column: CsvColumn) => {
+      const value = fields[columns.indexOf(column)]?.trim();
+      return value ? value : undefined;
+    };
+    const quantity = get('quantity');
+    const event: ApplicationEvent = {
+      id: get('id'),
+      timestampIso: get('timestampIso') ?? '',
+      bedId: get('bedId'),
+      taskId: get('taskId'),
+      label: get('taskLabel') ?? '',
+      dayLabel: get('dayLabel') ?? '',
+      quantity: quantity !== undefined ? Number(quantity) : undefined,
+      unit: get('unit'),
+      dilution: get('dilution'),
+      productLot: get('productLot'),
+      target: get('target'),
+      weather: get('weather') as WeatherCondition | undefined,
+      rainedAfter: get('rainedAfter') === 'true' ? true : undefined,
+      notes: get('notes'),
+      photoRef: get('photoRef'),
+      loggedByName: get('loggedByName'),
+    };
+    const problem = validateApplication(event);
+    if (problem) {
+      errors.push(`Row ${i + 2}: ${problem}.`); // Counting the header as row 1
+    } else {
+      applications.push(event);
+    }
+  });
+
+  return { tasks: [], beds: [], applications, errors };
+};
+
+const parseJson = (text: string): ParsedBackup => {
+  let data: Partial<Backup>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { tasks: [], beds: [], applications: [], errors: ['The file is not valid JSON.'] };
+  }
+  if (typeof data !== 'object' || data === null || !Array.isArray(data.applications)) {
+    return { tasks: [], beds: [], applications: [], errors: ['The file is not a Gardenify backup.'] };
+  }
+  if (typeof data.version === 'number' && data.version > BACKUP_VERSION) {
+    return {
+      tasks: [],
+      beds: [],
+      applications: [],
+      errors: ['This backup was made by a newer version of Gardenify.'],
+    };
+  }
+
+  const errors: string[] = [];
+  const tasks = (Array.isArray(data.tasks) ? data.tasks : []).filter((task, i) => {
+    const problem = getTaskProblem(task);
+    if (problem) errors.push(`Task ${i + 1}: ${problem}.`);
+    return !problem;
+  });
+  const beds = (Array.isArray(data.beds) ? data.beds : []).filter((bed, i) => {
+    const problem = getBedProblem(bed);
+    if (problem) errors.push(`Bed ${i + 1}: ${problem}.`);
+    return !problem;
+  });
+  const applications = data.applications.filter((event, i) => {
+    const problem = typeof event === 'object' && event !== null ? validateApplication(event) : 'not an object';
+    if (problem) errors.push(`Application ${i + 1}: ${problem}.`);
+    return !problem;
+  });
+
+  return { tasks, beds, applications, errors };
+};
+
+export const parseBackup = (text: string) =>
+  text.trimStart().startsWith('{') ? parseJson(text) : parseCsv(text);
+
+// --- Import ---
+
+// The same application in two backups: logged at the same time for the same task
+const getDedupeKey = (event: ApplicationEvent, tasks: Task[]) =>
+  `${new Date(event.timestampIso).toISOString()}|${resolveEventTaskId(event, tasks) ?? event.label}`;
+
+type GardenData = Omit<Backup, 'version' | 'exportedAtIso'>;
+
+// What an import adds to the garden
+export type ImportPlan = {
+  tasks: Task[];
+  beds: Bed[];
+  applications: (ApplicationEvent & { id: string; bedId: string })[];
+  lastDateChanges: Record<string, Record<string, string>>; // By bed ID, then task ID
+  skipped: number; // Applications already in the garden
+};
+
+// Works out what to add from an imported backup. Tasks and beds are only added when missing,
+// applications when they aren't a duplicate of one in `garden` or `history`, and last-applied
+// dates only move forward. `newId` names applications whose ID is missing or taken.
+export const planImport = (
+  garden: GardenData,
+  history: ApplicationEvent[],
+  parsed: ParsedBackup,
+  newId: () => string
+): ImportPlan => {
+  const localIds = new Set(garden.applications.map((event) => event.id));
+  const existing = [...garden.applications, ...history.filter((event) => !localIds.has(event.id))];
+
+  const knownTaskIds = new Set(garden.tasks.map((task) => task.id));
+  const knownBedIds = new Set(garden.beds.map((bed) => bed.id));
+  const newTasks = parsed.tasks.filter((task) => !knownTaskIds.has(task.id));
+  const newBeds = parsed.beds.filter((bed) => !knownBedIds.has(bed.id));
+  const tasks = [...garden.tasks, ...newTasks];
+  const beds = [...garden.beds, ...newBeds];
+
+  const seen = new Set(existing.map((event) => getDedupeKey(event, tasks)));
+  const usedIds = new Set(existing.map((event) => event.id));
+  const newApplications: ImportPlan['applications'] = [];
+  parsed.applications.forEach((event) => {
+    const key = getDedupeKey(event, tasks);
+    if (seen.has(key)) return;
+    seen.add(key);
+    const taskId = resolveEventTaskId(event, tasks);
+    const task = tasks.find((t) => t.id === taskId);
+    const id = event.id && !usedIds.has(event.id) ? event.id : newId();
+    usedIds.add(id);
+    newApplications.push({
+      ...event,
+      id,
+      taskId,
+      bedId: getEventBedId(event),
+      label: event.label || task?.label || '',
+      dayLabel: event.dayLabel || task?.dayLabel || '',
+      timestampIso: new Date(event.timestampIso).toISOString(),
+    });
+  });
+
+  // Move each scheduled task's last-applied date forward to its latest imported application
+  const lastDateChanges: Record<string, Record<string, string>> = {};
+  newApplications.forEach((event) => {
+    const bed = beds.find((b) => b.id === event.bedId);
+    const task = bed && getBedTasks(bed, tasks).find((t) => t.id === event.taskId);
+    if (!task || !hasSchedule(task)) return;
+    const current =
+      lastDateChanges[event.bedId]?.[task.id] ?? garden.lastApplicationDates[event.bedId]?.[task.id];
+    if (current && current >= event.timestampIso) return;
+    (lastDateChanges[event.bedId] ??= {})[task.id] = event.timestampIso;
+  });
+
+  return {
+    tasks: newTasks,
+    beds: newBeds,
+    applications: newApplications,
+    lastDateChanges,
+    skipped: parsed.applications.length - newApplications.length,
+  };
+};
+
+// Merges an imported backup into the household's garden. `garden.applications` are the ones
+// known locally, including changes not synced yet; the rest of the history is read from the
+// repository. Returns what was written.
+export const importBackup = async (repository: AppRepository, garden: GardenData, parsed: ParsedBackup) => {
+  const history = await repository.listApplications();
+  const plan = planImport(garden, history, parsed, () => repository.newApplicationId());
+  await repository.importGarden(plan);
+  return plan;
+};
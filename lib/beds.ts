@@ -0,0 +1,53 @@
+import { createReadableId } from './ids';
+import { isWholeNumber, resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Bed, Task } from './types';
+
+// The bed that existing single-garden data is moved into
+export const DEFAULT_BED: Bed = { id: 'main', name: 'My Garden', order: 0 };
+
+export const getEventBedId = (event: ApplicationEvent) => event.bedId ?? DEFAULT_BED.id;
+
+// Active tasks scheduled for a bed, with the bed's interval and cycle day overrides applied
+export const getBedTasks = (bed: Bed, tasks: Task[]): Task[] =>
+  tasks
+    .filter((task) => !task.archived && (!bed.taskIds || bed.taskIds.includes(task.id)))
+    .map((task) => {
+      const override = bed.intervalOverrides?.[task.id];
+      const cycleDay = bed.cycleDays?.[task.id];
+      if (override === undefined && cycleDay === undefined) return task;
+      return {
+        ...task,
+        ...(override !== undefined && { applyIntervalDays: override }),
+        ...(cycleDay !== undefined && { dayLabel: `Day ${cycleDay}` }),
+      };
+    });
+
+// Checks a bed that didn't come from the bed editor, e.g. from an imported backup. Returns what's
+// wrong with it, if anything.
+export const getBedProblem = (bed: Bed) => {
+  if (typeof bed?.id !== 'string' || !bed.id || typeof bed.name !== 'string') return 'missing ID or name';
+  if (!Object.values(bed.intervalOverrides ?? {}).every((days) => isWholeNumber(days, 1))) {
+    return 'interval overrides must be whole numbers of days';
+  }
+  if (!Object.values(bed.cycleDays ?? {}).every((day) => isWholeNumber(day, 1))) {
+    return 'cycle days must be whole numbers';
+  }
+  return null;
+};
+
+export const createBedId = (name: string, existing: Bed[]) =>
+  createReadableId(name, existing.map((bed) => bed.id), 'bed');
+
+// Latest remaining application of a task in a bed, used to recompute its last-applied date
+export const getLatestApplicationIso = (
+  applications: ApplicationEvent[],
+  bedId: string,
+  taskId: string,
+  tasks: Task[]
+) =>
+  applications.reduce<string | null>((latest, appEvent) => {
+    if (getEventBedId(appEvent) !== bedId || resolveEventTaskId(appEvent, tasks) !== taskId) {
+      return latest;
+    }
+    return latest && latest >= appEvent.timestampIso ? latest : appEvent.timestampIso;
+  }, null);
@@ -0,0 +1,118 @@
+import { getEventBedId } from './beds';
+import { addDays, daysBetween, fromDateKey, startOfDay, toDateKey } from './dates';
+import { evaluateBedTask, nextOccurrence, parseCycleDay } from './recurrence';
+import { resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Bed, Task } from './types';
+
+// Shortest treatment cycle; a program whose "Day N" labels go further runs until its last day
+export const CYCLE_LENGTH_DAYS = 30;
+
+// A day with this many different treatments is flagged as crowded
+export const CROWDED_DAY_THRESHOLD = 3;
+
+export type CalendarEntryKind = 'applied' | 'projected' | 'overdue' | 'cycle';
+
+export type CalendarEntry = {
+  kind: CalendarEntryKind;
+  taskId: string;
+  bedId: string;
+};
+
+// What the calendar needs to know about one bed
+export type BedSchedule = {
+  bed: Bed;
+  tasks: Task[]; // Effective tasks, with the bed's interval overrides applied
+  lastDates: Record<string, string>;
+  applications: ApplicationEvent[]; // The bed's recent applications, for per-season limits
+};
+
+// Day helpers live in lib/dates.ts so the scheduling modules can share them
+export { addDays, daysBetween, fromDateKey, startOfDay, startOfWeek, toDateKey } from './dates';
+export { parseCycleDay } from './recurrence';
+
+// Days in one cycle of the bed's program, so a task planned for day 45 still comes around
+export const getCycleLength = (tasks: Task[]) =>
+  Math.max(CYCLE_LENGTH_DAYS, ...tasks.map((task) => parseCycleDay(task.dayLabel) ?? 0));
+
+// 1-based day of the treatment cycle, counting from the season start
+export const getCycleDay = (date: Date, seasonStart: Date, cycleLength = CYCLE_LENGTH_DAYS) => {
+  const elapsed = daysBetween(seasonStart, date);
+  return elapsed < 0 ? undefined : (elapsed % cycleLength) + 1;
+};
+
+// Logged, projected and cycle-planned treatments per day between `rangeStart` and `rangeEnd`
+export const buildCalendar = ({
+  schedules,
+  applications,
+  tasks,
+  rangeStart,
+  rangeEnd,
+  today,
+}: {
+  schedules: BedSchedule[];
+  applications: ApplicationEvent[];
+  tasks: Task[]; // Full catalog, used to resolve older events logged by label
+  rangeStart: Date;
+  rangeEnd: Date;
+  today: Date;
+}) => {
+  const days = new Map<string, CalendarEntry[]>();
+  const first = startOfDay(rangeStart);
+  const last = startOfDay(rangeEnd);
+  const todayStart = startOfDay(today);
+  const inRange = (date: Date) => date >= first && date <= last;
+  const add = (date: Date, entry: CalendarEntry) => {
+    const key = toDateKey(date);
+    days.set(key, [...(days.get(key) ?? []), entry]);
+  };
+
+  const bedIds = new Set(schedules.map(({ bed }) => bed.id));
+  applications.forEach((appEvent) => {
+    const date = startOfDay(new Date(appEvent.timestampIso));
+    const taskId = resolveEventTaskId(appEvent, tasks);
+    const bedId = getEventBedId(appEvent);
+    if (taskId && bedIds.has(bedId) && inRange(date)) {
+      add(date, { kind: 'applied', taskId, bedId });
+    }
+  });
+
+  schedules.forEach((schedule) => {
+    const { bed, tasks: bedTasks } = schedule;
+    bedTasks.forEach((task) => {
+      const state = evaluateBedTask(schedule, task, todayStart);
+      let due: Date | null | undefined = state?.dueDate;
+      if (!due) return;
+
+      // A missed due date is shown on today, and the following ones counted from there
+      if (due < todayStart) {
+        if (inRange(todayStart)) add(todayStart, { kind: 'overdue', taskId: task.id, bedId: bed.id });
+        due = nextOccurrence(task, todayStart);
+      }
+      for (; due && due <= last; due = nextOccurrence(task, due)) {
+        if (due >= first) add(due, { kind: 'projected', taskId: task.id, bedId: bed.id });
+      }
+    });
+
+    if (!bed.seasonStart) return;
+    const seasonStart = fromDateKey(bed.seasonStart);
+    const cycleLength = getCycleLength(bedTasks);
+    for (let date = first; date <= last; date = addDays(date, 1)) {
+      const cycleDay = getCycleDay(date, seasonStart, cycleLength);
+      if (cycleDay === undefined) continue;
+      bedTasks
+        .filter((task) => parseCycleDay(task.dayLabel) === cycleDay)
+        .forEach((task) => add(date, { kind: 'cycle', taskId: task.id, bedId: bed.id }));
+    }
+  });
+
+  return days;
+};
+
+// Too many different treatments landing on one bed on the same day
+export const isCrowdedDay = (entries: CalendarEntry[]) => {
+  const perBed = new Map<string, Set<string>>();
+  entries.forEach(({ bedId, taskId }) => {
+    perBed.set(bedId, (perBed.get(bedId) ?? new Set()).add(taskId));
+  });
+  return [...perBed.values()].some((taskIds) => taskIds.size >= CROWDED_DAY_THRESHOLD);
+};
@@ -0,0 +1,46 @@
+import { collection, doc } from 'firebase/firestore';
+import { db } from './firebase';
+
+// Each household's garden lives under `households/{householdId}`; see lib/households.ts
+const householdDoc = (householdId: string) => doc(db, 'households', householdId);
+
+// Firestore collection references
+export const applicationsCollection = (householdId: string) =>
+  collection(householdDoc(householdId), 'applications');
+export const tasksCollection = (householdId: string) => collection(householdDoc(householdId), 'tasks');
+export const bedsCollection = (householdId: string) => collection(householdDoc(householdId), 'beds');
+export const profilesCollection = (householdId: string) => collection(householdDoc(householdId), 'profiles');
+export const productsCollection = (householdId: string) => collection(householdDoc(householdId), 'products');
+export const stockEntriesCollection = (householdId: string) =>
+  collection(householdDoc(householdId), 'stockEntries');
+export const observationsCollection = (householdId: string) =>
+  collection(householdDoc(householdId), 'observations');
+
+// How much of each product is left, by product ID; see lib/inventory.ts
+export const stockLevelsDoc = (householdId: string) => doc(householdDoc(householdId), 'metadata', 'stockLevels');
+
+// Closed seasons, each with its applications in a subcollection; see lib/seasons.ts
+export const seasonsCollection = (householdId: string) => collection(householdDoc(householdId), 'seasons');
+export const seasonApplicationsCollection = (householdId: string, seasonId: string) =>
+  collection(householdDoc(householdId), 'seasons', seasonId, 'applications');
+// The season being closed, kept until the close finishes so an interrupted one resumes under its ID
+export const closingSeasonDoc = (householdId: string) => doc(householdDoc(householdId), 'metadata', 'closingSeason');
+
+// Last application date per task ID, one document per bed
+export const bedLastDatesDoc = (householdId: string, bedId: string) =>
+  doc(householdDoc(householdId), 'beds', bedId, 'metadata', 'lastApplicationDates');
+
+// Before beds existed, a single document held the last dates for the whole garden
+export const legacyLastDatesDoc = (householdId: string) =>
+  doc(householdDoc(householdId), 'metadata', 'lastApplicationDates');
+
+// --- Households ---
+
+export const householdsCollection = collection(db, 'households');
+export const householdMembersCollection = (householdId: string) =>
+  collection(householdDoc(householdId), 'members');
+export const invitesCollection = collection(db, 'invites');
+// Which household each user belongs to, keyed by user ID
+export const usersCollection = collection(db, 'users');
+// API tokens, keyed by the SHA-256 hash of the token; see lib/apiTokens.ts
+export const apiTokensCollection = collection(db, 'apiTokens');
@@ -0,0 +1,32 @@
+// Local calendar-day helpers (all dates are local midnight)
+
+export const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// setDate() moves by calendar days, so adding days is not thrown off by DST changes
+export const addDays = (date: Date, days: number) => {
+  const result = startOfDay(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Weeks start on Sunday
+export const startOfWeek = (date: Date) => addDays(date, -startOfDay(date).getDay());
+
+export const daysBetween = (from: Date, to: Date) =>
+  Math.round(
+    (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+      Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+      (1000 * 60 * 60 * 24)
+  );
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(
+    2,
+    '0'
+  )}`;
+
+// Parses a "YYYY-MM-DD" key as a local date
+export const fromDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
@@ -1,7 +1,16 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp, getApps } from "firebase/app";
 import { getAnalytics, isSupported } from "firebase/analytics";
-import { getFirestore } from "firebase/firestore";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
 
 // Your web app's Firebase configuration, using environment variables
 const firebaseConfig = {
@@ -15,12 +24,45 @@ const firebaseConfig = {
 };
 
 // Initialize Firebase for SSR and SSG, prevent re-initialization
-const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
+const isFirstInit = getApps().length === 0;
+const app = isFirstInit ? initializeApp(firebaseConfig) : getApps()[0];
 
-// Initialize Cloud Firestore and get a reference to the service
-const db = getFirestore(app);
+// Initialize Cloud Firestore and get a reference to the service.
+// Optional fields (e.g. a task without `applyIntervalDays`) are written as `undefined`, so skip them.
+// In the browser, data is cached in IndexedDB so the garden still loads without signal.
+const db = isFirstInit
+  ? initializeFirestore(app, {
+      ignoreUndefinedProperties: true,
+      localCache:
+        typeof window === "undefined"
+          ? memoryLocalCache()
+          : persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+    })
+  : getFirestore(app);
+
+// Initialize Firebase Authentication; every garden belongs to a signed-in household
+const auth = getAuth(app);
+
+// Initialize Cloud Storage for the photo journal (see lib/photos.ts)
+const storage = getStorage(app);
+
+// Point at the local emulators when their hosts are set (e.g. "127.0.0.1:9099"), see README
+const authEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST;
+const firestoreEmulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+const storageEmulatorHost = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST;
+if (isFirstInit && authEmulatorHost) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
+if (isFirstInit && firestoreEmulatorHost) {
+  const [host, port] = firestoreEmulatorHost.split(":");
+  connectFirestoreEmulator(db, host, Number(port));
+}
+if (isFirstInit && storageEmulatorHost) {
+  const [host, port] = storageEmulatorHost.split(":");
+  connectStorageEmulator(storage, host, Number(port));
+}
 
 // Initialize Analytics if supported
 const analytics = isSupported().then(yes => yes ? getAnalytics(app) : null);
 
-export { db, analytics };
\ No newline at end of file
+export { db, auth, storage, analytics };
\ No newline at end of file
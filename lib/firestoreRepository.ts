@@ -0,0 +1,386 @@
+import {
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  setDoc,
+  startAfter,
+  Timestamp,
+  where,
+  writeBatch,
+  type DocumentData,
+  type DocumentReference,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  applicationsCollection,
+  bedLastDatesDoc,
+  bedsCollection,
+  closingSeasonDoc,
+  legacyLastDatesDoc,
+  observationsCollection,
+  productsCollection,
+  profilesCollection,
+  seasonApplicationsCollection,
+  seasonsCollection,
+  stockEntriesCollection,
+  stockLevelsDoc,
+  tasksCollection,
+} from './collections';
+import { addDays, fromDateKey } from './dates';
+import { HISTORY_PAGE_SIZE, MAX_HISTORY_TASK_IDS } from './history';
+import {
+  addStockEntryIn,
+  advanceLastDateIn,
+  getLatestTimestampIso,
+  recordStockUsageIn,
+  toBatches,
+} from './firestoreWrites';
+import { migrateToBeds } from './migrations';
+import { DEFAULT_PROFILES } from './profiles';
+import type { AppRepository } from './repository';
+import { getRestoredDates, summarizeSeason } from './seasons';
+import { DEFAULT_TASKS } from './taskCatalog';
+import type {
+  ApplicationEvent,
+  Bed,
+  Observation,
+  PlantProfile,
+  Product,
+  SeasonArchive,
+  StockEntry,
+  Task,
+} from './types';
+
+const toApplications = (docs: QueryDocumentSnapshot[]) =>
+  docs.map((appDoc) => ({ id: appDoc.id, ...appDoc.data() } as ApplicationEvent));
+
+// Sets each document given data, and deletes the others
+const runBatches = async (operations: (readonly [DocumentReference, DocumentData?])[]) => {
+  for (const operationBatch of toBatches(operations)) {
+    const batch = writeBatch(db);
+    operationBatch.forEach(([ref, data]) => {
+      if (data) {
+        batch.set(ref, data);
+      } else {
+        batch.delete(ref);
+      }
+    });
+    await batch.commit();
+  }
+};
+
+// Applications are stamped with the time of application rather than of the write, so
+// replayed and imported events sort correctly
+const withTimestamp = (event: Omit<ApplicationEvent, 'id'>) => ({
+  ...event,
+  timestamp: Timestamp.fromDate(new Date(event.timestampIso)),
+});
+
+// The household's garden in Firestore, under `households/{householdId}` (see lib/collections.ts)
+export const createFirestoreRepository = (householdId: string): AppRepository => ({
+  householdId,
+
+  async loadGarden() {
+    // Seed the catalog with the default program on first run
+    const taskSnapshot = await getDocs(query(tasksCollection(householdId), orderBy('order')));
+    let tasks: Task[];
+    if (taskSnapshot.empty) {
+      const batch = writeBatch(db);
+      DEFAULT_TASKS.forEach(({ id, ...task }) => batch.set(doc(tasksCollection(householdId), id), task));
+      await batch.commit();
+      tasks = DEFAULT_TASKS;
+    } else {
+      tasks = taskSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Task));
+    }
+
+    // Move single-garden data into a default bed on first run
+    const bedSnapshot = await getDocs(query(bedsCollection(householdId), orderBy('order')));
+    const beds = bedSnapshot.empty
+      ? [(await migrateToBeds(householdId, tasks)).bed]
+      : bedSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Bed));
+
+    // Seed the plant profiles on first run, including for gardens created before they existed
+    const profileSnapshot = await getDocs(query(profilesCollection(householdId), orderBy('order')));
+    let profiles: PlantProfile[];
+    if (profileSnapshot.empty) {
+      const batch = writeBatch(db);
+      DEFAULT_PROFILES.forEach(({ id, ...profile }) =>
+        batch.set(doc(profilesCollection(householdId), id), profile)
+      );
+      await batch.commit();
+      profiles = DEFAULT_PROFILES;
+    } else {
+      profiles = profileSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as PlantProfile));
+    }
+
+    const productSnapshot = await getDocs(query(productsCollection(householdId), orderBy('order')));
+    const products = productSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Product));
+
+    return { tasks, beds, profiles, products };
+  },
+
+  async saveTask({ id, ...data }) {
+    // Full overwrite so a cleared field is removed from the document
+    await setDoc(doc(tasksCollection(householdId), id), data);
+  },
+
+  async saveBed({ id, ...data }) {
+    await setDoc(doc(bedsCollection(householdId), id), data);
+  },
+
+  async saveProfile({ id, ...data }) {
+    await setDoc(doc(profilesCollection(householdId), id), data);
+  },
+
+  async saveProduct({ id, ...data }) {
+    await setDoc(doc(productsCollection(householdId), id), data);
+  },
+
+  newApplicationId: () => doc(applicationsCollection(householdId)).id,
+
+  async listApplications() {
+    const snapshot = await getDocs(query(applicationsCollection(householdId), orderBy('timestamp', 'desc')));
+    return toApplications(snapshot.docs);
+  },
+
+  watchApplications(since, onChange, onError) {
+    const q = query(
+      applicationsCollection(householdId),
+      where('timestamp', '>=', Timestamp.fromDate(since)),
+      orderBy('timestamp', 'desc')
+    );
+    // Metadata changes tell when cached data has been confirmed by the server
+    return onSnapshot(
+      q,
+      { includeMetadataChanges: true },
+      (snapshot) =>
+        onChange(
+          snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as ApplicationEvent)),
+          !snapshot.metadata.fromCache
+        ),
+      onError
+    );
+  },
+
+  watchLastDates(bedId, onChange, onError) {
+    return onSnapshot(
+      bedLastDatesDoc(householdId, bedId),
+      (snapshot) => onChange(snapshot.data() ?? {}),
+      onError
+    );
+  },
+
+  async putApplication({ id, ...data }) {
+    await setDoc(doc(applicationsCollection(householdId), id), withTimestamp(data));
+  },
+
+  async deleteApplication(id) {
+    await deleteDoc(doc(applicationsCollection(householdId), id));
+  },
+
+  advanceLastDate(bedId, taskId, timestampIso) {
+    return runTransaction(db, (transaction) =>
+      advanceLastDateIn(transaction, bedLastDatesDoc(householdId, bedId), taskId, timestampIso)
+    );
+  },
+
+  async recomputeLastDate(bedId, taskId) {
+    const snapshot = await getDocs(
+      query(applicationsCollection(householdId), where('bedId', '==', bedId), where('taskId', '==', taskId))
+    );
+    const latestIso = getLatestTimestampIso(toApplications(snapshot.docs));
+    await setDoc(
+      bedLastDatesDoc(householdId, bedId),
+      { [taskId]: latestIso ?? deleteField() },
+      { merge: true }
+    );
+    return latestIso;
+  },
+
+  async resetHistory(bedIds) {
+    const appSnapshot = await getDocs(applicationsCollection(householdId));
+    const refs: DocumentReference[] = [
+      ...appSnapshot.docs.map((appDoc) => appDoc.ref),
+      // Every bed's last-applied dates, and the pre-beds document
+      ...bedIds.map((bedId) => bedLastDatesDoc(householdId, bedId)),
+      legacyLastDatesDoc(householdId),
+    ];
+    await runBatches(refs.map((ref): [DocumentReference] => [ref]));
+  },
+
+  watchStockLevels(onChange, onError) {
+    return onSnapshot(stockLevelsDoc(householdId), (snapshot) => onChange(snapshot.data() ?? {}), onError);
+  },
+
+  async listStockEntries() {
+    const snapshot = await getDocs(query(stockEntriesCollection(householdId), orderBy('timestampIso', 'desc')));
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as StockEntry));
+  },
+
+  addStockEntry(entry) {
+    return runTransaction(db, (transaction) =>
+      addStockEntryIn(transaction, stockLevelsDoc(householdId), doc(stockEntriesCollection(householdId)), entry)
+    );
+  },
+
+  recordStockUsage(applicationId, usage, timestampIso) {
+    return runTransaction(db, (transaction) =>
+      recordStockUsageIn(
+        transaction,
+        stockLevelsDoc(householdId),
+        doc(stockEntriesCollection(householdId), applicationId),
+        usage,
+        timestampIso
+      )
+    );
+  },
+
+  newObservationId: () => doc(observationsCollection(householdId)).id,
+
+  async listObservations() {
+    const snapshot = await getDocs(query(observationsCollection(householdId), orderBy('timestampIso', 'desc')));
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Observation));
+  },
+
+  async saveObservation({ id, ...data }) {
+    await setDoc(doc(observationsCollection(householdId), id), data);
+  },
+
+  async deleteObservation(id) {
+    await deleteDoc(doc(observationsCollection(householdId), id));
+  },
+
+  // --- History, imports and seasons ---
+
+  async listHistoryPage(filter, cursor) {
+    if (filter.taskIds?.length === 0) {
+      return { events: [], cursor: null, hasMore: false };
+    }
+
+    const constraints: QueryConstraint[] = [];
+    if (filter.bedId) constraints.push(where('bedId', '==', filter.bedId));
+    if (filter.taskIds) {
+      constraints.push(
+        filter.taskIds.length === 1
+          ? where('taskId', '==', filter.taskIds[0])
+          : where('taskId', 'in', filter.taskIds.slice(0, MAX_HISTORY_TASK_IDS))
+      );
+    }
+    if (filter.from) {
+      constraints.push(where('timestamp', '>=', Timestamp.fromDate(fromDateKey(filter.from))));
+    }
+    if (filter.to) {
+      constraints.push(where('timestamp', '<', Timestamp.fromDate(addDays(fromDateKey(filter.to), 1))));
+    }
+    constraints.push(orderBy('timestamp', 'desc'));
+    // The cursor is the last document of the previous page
+    if (cursor) constraints.push(startAfter(cursor as QueryDocumentSnapshot));
+    // One extra document tells whether there is another page
+    constraints.push(limit(HISTORY_PAGE_SIZE + 1));
+
+    const snapshot = await getDocs(query(applicationsCollection(householdId), ...constraints));
+    const docs = snapshot.docs.slice(0, HISTORY_PAGE_SIZE);
+    return {
+      events: toApplications(docs),
+      cursor: docs[docs.length - 1] ?? null,
+      hasMore: snapshot.docs.length > HISTORY_PAGE_SIZE,
+    };
+  },
+
+  async importGarden({ tasks, beds, applications, lastDateChanges }) {
+    await runBatches([
+      ...tasks.map(({ id, ...task }) => [doc(tasksCollection(householdId), id), task] as const),
+      ...beds.map(({ id, ...bed }) => [doc(bedsCollection(householdId), id), bed] as const),
+      ...applications.map(
+        ({ id, ...event }) => [doc(applicationsCollection(householdId), id), withTimestamp(event)] as const
+      ),
+    ]);
+    // Dates are written last, once the applications they point at exist
+    await Promise.all(
+      Object.entries(lastDateChanges).map(([bedId, dates]) =>
+        setDoc(bedLastDatesDoc(householdId, bedId), dates, { merge: true })
+      )
+    );
+  },
+
+  async listSeasons() {
+    const snapshot = await getDocs(query(seasonsCollection(householdId), orderBy('closedAtIso', 'desc')));
+    return snapshot.docs.map((seasonDoc) => ({ id: seasonDoc.id, ...seasonDoc.data() } as SeasonArchive));
+  },
+
+  async listSeasonApplications(seasonId) {
+    const snapshot = await getDocs(seasonApplicationsCollection(householdId, seasonId));
+    return toApplications(snapshot.docs).sort((a, b) => b.timestampIso.localeCompare(a.timestampIso));
+  },
+
+  // The applications are copied before the originals are removed, and the season document is
+  // only written once every copy exists. An interrupted close is run again under the same season
+  // ID, recorded in `closingSeasonDoc`, so it finishes the season it started instead of archiving
+  // what is left into another one.
+  async closeSeason({ name, closedByName }, bedIds) {
+    const closing = (await getDoc(closingSeasonDoc(householdId))).data();
+    const seasonRef = closing
+      ? doc(seasonsCollection(householdId), closing.seasonId)
+      : doc(seasonsCollection(householdId));
+    if (!closing) await setDoc(closingSeasonDoc(householdId), { seasonId: seasonRef.id });
+
+    const [appSnapshot, seasonSnapshot, ...dateSnapshots] = await Promise.all([
+      getDocs(applicationsCollection(householdId)),
+      getDoc(seasonRef),
+      ...bedIds.map((bedId) => getDoc(bedLastDatesDoc(householdId, bedId))),
+    ]);
+    const archived = seasonApplicationsCollection(householdId, seasonRef.id);
+    await runBatches(appSnapshot.docs.map((appDoc) => [doc(archived, appDoc.id), appDoc.data()]));
+
+    let season: SeasonArchive;
+    if (seasonSnapshot.exists()) {
+      season = { id: seasonRef.id, ...seasonSnapshot.data() } as SeasonArchive;
+    } else {
+      // Copies from an interrupted run count too
+      const { id, ...summary } = summarizeSeason(
+        { id: seasonRef.id, name, closedAtIso: new Date().toISOString(), closedByName },
+        toApplications((await getDocs(archived)).docs),
+        Object.fromEntries(bedIds.map((bedId, i) => [bedId, dateSnapshots[i].data() ?? {}]))
+      );
+      await setDoc(seasonRef, summary);
+      season = { id, ...summary };
+    }
+    await runBatches([
+      ...appSnapshot.docs.map((appDoc): [DocumentReference] => [appDoc.ref]),
+      ...bedIds.map((bedId): [DocumentReference] => [bedLastDatesDoc(householdId, bedId)]),
+      [legacyLastDatesDoc(householdId)],
+    ]);
+    await deleteDoc(closingSeasonDoc(householdId));
+    return season;
+  },
+
+  async restoreSeason(season) {
+    const appSnapshot = await getDocs(seasonApplicationsCollection(householdId, season.id));
+    await runBatches(
+      appSnapshot.docs.map((appDoc) => [doc(applicationsCollection(householdId), appDoc.id), appDoc.data()])
+    );
+
+    await Promise.all(
+      Object.entries(season.lastDates).map(async ([bedId, archived]) => {
+        const snapshot = await getDoc(bedLastDatesDoc(householdId, bedId));
+        const later = getRestoredDates(snapshot.data() ?? {}, archived);
+        if (Object.keys(later).length > 0) {
+          await setDoc(bedLastDatesDoc(householdId, bedId), later, { merge: true });
+        }
+      })
+    );
+
+    // The season disappears first, so it is never listed with only part of its history
+    await deleteDoc(doc(seasonsCollection(householdId), season.id));
+    await runBatches(appSnapshot.docs.map((appDoc): [DocumentReference] => [appDoc.ref]));
+  },
+});
@@ -0,0 +1,83 @@
+import { applyStockEntry, applyUsageChange, type StockAdjustment } from './inventory';
+import type { StockUsage } from './types';
+
+// The transactions and batched writes of the Firestore repositories, shared by the app's
+// (lib/firestoreRepository.ts) and the API routes' (lib/server/adminRepository.ts). This module
+// imports neither SDK: both transactions have the same `get`, `set` and `delete`, and each
+// repository passes in its own document references.
+
+type DocumentData = Record<string, unknown>;
+
+const readData = async <Ref>(transaction: FirestoreTransaction<Ref>, ref: Ref) =>
+  (await transaction.get(ref)).data() as DocumentData | undefined;
+
+// The part of a transaction used here, the same in the web and Admin SDKs
+export interface FirestoreTransaction<Ref> {
+  get(ref: Ref): Promise<{ data(): unknown }>;
+  set(ref: Ref, data: DocumentData, options: { merge: boolean }): unknown;
+  set(ref: Ref, data: DocumentData): unknown;
+  delete(ref: Ref): unknown;
+}
+
+// Firestore rejects batches with more than 500 writes
+export const BATCH_LIMIT = 500;
+
+// Splits writes into batches Firestore accepts
+export const toBatches = <T>(writes: T[]) =>
+  Array.from({ length: Math.ceil(writes.length / BATCH_LIMIT) }, (_, i) =>
+    writes.slice(i * BATCH_LIMIT, (i + 1) * BATCH_LIMIT)
+  );
+
+// Moves a task's last-applied date forward, never back, so replayed or concurrent writes of
+// older applications can't undo a newer one. Resolves to the date now stored.
+export const advanceLastDateIn = async <Ref>(
+  transaction: FirestoreTransaction<Ref>,
+  datesRef: Ref,
+  taskId: string,
+  timestampIso: string
+) => {
+  const current = (await readData(transaction, datesRef))?.[taskId] as string | undefined;
+  if (current && current >= timestampIso) return current;
+  transaction.set(datesRef, { [taskId]: timestampIso }, { merge: true });
+  return timestampIso;
+};
+
+// The latest of the remaining applications of a task, once one was edited or deleted
+export const getLatestTimestampIso = (applications: { timestampIso: string }[]) =>
+  applications.reduce<string | null>(
+    (latest, { timestampIso }) => (latest && latest >= timestampIso ? latest : timestampIso),
+    null
+  );
+
+// Records a purchase or count and moves the product's stock level with it
+export const addStockEntryIn = async <Ref>(
+  transaction: FirestoreTransaction<Ref>,
+  levelsRef: Ref,
+  entryRef: Ref,
+  entry: StockAdjustment
+) => {
+  const current = ((await readData(transaction, levelsRef))?.[entry.productId] as number | undefined) ?? 0;
+  transaction.set(entryRef, entry);
+  transaction.set(levelsRef, { [entry.productId]: applyStockEntry(current, entry) }, { merge: true });
+};
+
+// Replaces what an application was recorded as using, stored under the application's ID, and
+// puts the difference on the stock levels
+export const recordStockUsageIn = async <Ref>(
+  transaction: FirestoreTransaction<Ref>,
+  levelsRef: Ref,
+  entryRef: Ref,
+  usage: StockUsage | null,
+  timestampIso: string
+) => {
+  // Both reads come before any write, as transactions require
+  const [levels = {}, entry] = await Promise.all([readData(transaction, levelsRef), readData(transaction, entryRef)]);
+  const previous = (entry as StockUsage | undefined) ?? null;
+  if (!previous && !usage) return;
+  if (usage) {
+    transaction.set(entryRef, { ...usage, kind: 'use', timestampIso });
+  } else {
+    transaction.delete(entryRef);
+  }
+  transaction.set(levelsRef, applyUsageChange(levels as Record<string, number>, previous, usage), { merge: true });
+};
@@ -0,0 +1,65 @@
+import { addDays, fromDateKey, startOfDay, startOfWeek, toDateKey } from './calendar';
+import { getEventBedId } from './beds';
+import type { ApplicationEvent } from './types';
+
+// The full application history, read a page at a time through `AppRepository.listHistoryPage`.
+// The task, bed and date filters run in the repository (in Firestore, see
+// firestore.indexes.json); text search runs over the pages loaded so far.
+
+export const HISTORY_PAGE_SIZE = 25;
+
+// Firestore accepts at most 30 values in an 'in' filter, so longer task lists are cut there
+export const MAX_HISTORY_TASK_IDS = 30;
+
+export type HistoryQuery = {
+  bedId?: string;
+  taskIds?: string[]; // One task, or every task in a category
+  from?: string; // "YYYY-MM-DD", inclusive
+  to?: string; // "YYYY-MM-DD", inclusive
+};
+
+// Where the next page starts; only the repository that returned it knows what it holds
+export type HistoryCursor = unknown;
+
+export type HistoryPage = {
+  events: ApplicationEvent[];
+  cursor: HistoryCursor | null;
+  hasMore: boolean;
+};
+
+// The same filter as the Firestore query, for repositories that filter in memory
+export const matchesHistoryQuery = (event: ApplicationEvent, filter: HistoryQuery) => {
+  const time = new Date(event.timestampIso).getTime();
+  const taskIds = filter.taskIds?.slice(0, MAX_HISTORY_TASK_IDS);
+  return (
+    (!filter.bedId || getEventBedId(event) === filter.bedId) &&
+    (!taskIds || (!!event.taskId && taskIds.includes(event.taskId))) &&
+    (!filter.from || time >= fromDateKey(filter.from).getTime()) &&
+    (!filter.to || time < addDays(fromDateKey(filter.to), 1).getTime())
+  );
+};
+
+export type HistoryGrouping = 'day' | 'week';
+
+export type HistoryGroup = {
+  key: string; // "YYYY-MM-DD" of the day, or of the Sunday starting the week
+  start: Date;
+  events: ApplicationEvent[];
+};
+
+// Groups events (newest first) by the day or week they were applied, keeping their order
+export const groupHistory = (events: ApplicationEvent[], grouping: HistoryGrouping) => {
+  const groups: HistoryGroup[] = [];
+  events.forEach((event) => {
+    const date = new Date(event.timestampIso);
+    const start = grouping === 'day' ? startOfDay(date) : startOfWeek(date);
+    const key = toDateKey(start);
+    const last = groups[groups.length - 1];
+    if (last?.key === key) {
+      last.events.push(event);
+    } else {
+      groups.push({ key, start, events: [event] });
+    }
+  });
+  return groups;
+};
@@ -0,0 +1,105 @@
+import { doc, getDoc, getDocs, setDoc, Timestamp, writeBatch } from 'firebase/firestore';
+import type { User } from 'firebase/auth';
+import { db } from './firebase';
+import {
+  householdMembersCollection,
+  householdsCollection,
+  invitesCollection,
+  usersCollection,
+} from './collections';
+import type { Household, HouseholdMember } from './types';
+
+// Every garden belongs to a household. A user gets their own on first sign-in and can
+// share it through invite links; `users/{uid}` points at the household they're in.
+// firestore.rules only lets members read or write a household's garden.
+
+// How long an invite link can be used
+const INVITE_TTL_DAYS = 7;
+
+export const getMemberName = (user: User) => user.displayName || user.email || 'Gardener';
+
+const getHousehold = async (householdId: string) => {
+  const snapshot = await getDoc(doc(householdsCollection, householdId));
+  return snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as Household) : null;
+};
+
+const getUserHouseholdId = async (uid: string): Promise<string | undefined> =>
+  (await getDoc(doc(usersCollection, uid))).data()?.householdId;
+
+// Creates a household owned by the user
+const createHousehold = async (user: User) => {
+  const householdRef = doc(householdsCollection);
+  const now = new Date().toISOString();
+  const name = getMemberName(user);
+  const household: Household = {
+    id: householdRef.id,
+    name: `${name}'s garden`,
+    ownerUid: user.uid,
+    createdAtIso: now,
+  };
+  const member: HouseholdMember = { uid: user.uid, name, role: 'owner', joinedAtIso: now };
+
+  const { id, ...householdData } = household;
+  const batch = writeBatch(db);
+  batch.set(householdRef, householdData);
+  batch.set(doc(householdMembersCollection(id), user.uid), member);
+  batch.set(doc(usersCollection, user.uid), { householdId: id });
+  await batch.commit();
+  return household;
+};
+
+// The user's household, created on their first sign-in
+export const loadHousehold = async (user: User) => {
+  const householdId = await getUserHouseholdId(user.uid);
+  const household = householdId ? await getHousehold(householdId) : null;
+  return household ?? createHousehold(user);
+};
+
+// Joins the household an invite was created for, which becomes the user's household
+export const joinHousehold = async (user: User, inviteCode: string) => {
+  const invite = await getDoc(doc(invitesCollection, inviteCode));
+  const expiresAt: Timestamp | undefined = invite.data()?.expiresAt;
+  if (!invite.exists() || !expiresAt || expiresAt.toMillis() < Date.now()) {
+    throw new Error('This invite link is invalid or has expired.');
+  }
+  const householdId: string = invite.data().householdId;
+
+  // Following an invite to a household you're already in keeps your membership as it is
+  if ((await getUserHouseholdId(user.uid)) !== householdId) {
+    const member: HouseholdMember = {
+      uid: user.uid,
+      name: getMemberName(user),
+      role: 'member',
+      joinedAtIso: new Date().toISOString(),
+      inviteCode,
+    };
+    await setDoc(doc(householdMembersCollection(householdId), user.uid), member);
+    await setDoc(doc(usersCollection, user.uid), { householdId });
+  }
+
+  const household = await getHousehold(householdId);
+  if (!household) {
+    throw new Error('The household for this invite no longer exists.');
+  }
+  return household;
+};
+
+// Creates an invite and returns its code; the link is the app URL with `?invite=<code>`
+export const createInvite = async (householdId: string, user: User) => {
+  const inviteRef = doc(invitesCollection);
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + INVITE_TTL_DAYS);
+  await setDoc(inviteRef, {
+    householdId,
+    createdByUid: user.uid,
+    expiresAt: Timestamp.fromDate(expiresAt),
+  });
+  return inviteRef.id;
+};
+
+export const getHouseholdMembers = async (householdId: string) => {
+  const snapshot = await getDocs(householdMembersCollection(householdId));
+  return snapshot.docs
+    .map((memberDoc) => memberDoc.data() as HouseholdMember)
+    .sort((a, b) => a.joinedAtIso.localeCompare(b.joinedAtIso));
+};
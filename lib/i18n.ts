@@ -0,0 +1,1377 @@
+// Translations and locale-aware formatting. Messages live in one catalog per locale, keyed the
+// same way, with `{name}` placeholders; every date, duration, number and quantity shown in the
+// app goes through the `Intl` formatters here so they follow the chosen language.
+
+export const LOCALES = [
+  { code: 'en', name: 'English' },
+  { code: 'bn', name: 'বাংলা' },
+  { code: 'hi', name: 'हिन्दी' },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]['code'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// --- Messages ---
+
+const en = {
+  'app.tagline': 'Your personal garden care assistant 🌼',
+  'app.loading': 'Loading your garden...',
+  'nav.beds': 'Garden beds',
+  'nav.allBeds': 'All beds',
+  'nav.manageBeds': 'Manage beds',
+  'nav.reminders': 'Reminder settings',
+  'nav.household': 'Household',
+  'nav.language': 'Language',
+  'nav.views': 'Views',
+  'view.schedule': 'Schedule',
+  'view.calendar': 'Calendar',
+  'view.history': 'History',
+  'view.stats': 'Stats',
+  'view.inventory': 'Inventory',
+  'view.seasons': 'Seasons',
+  'view.journal': 'Journal',
+  'season.close': 'Close season',
+  'stock.runningLow': 'Running low: {products}',
+  'calendar.title': 'Treatment Calendar',
+  'journal.title': 'Photo Journal',
+  'calendar.weekOf': 'Week of {date}',
+  'schedule.title': 'Treatment Schedule',
+  'schedule.appliedInWindow': 'Applied in the last {duration}:',
+  'schedule.manageTreatments': 'Manage treatments',
+  'schedule.done': 'Done',
+  'schedule.recentApplications': 'Recent Applications:',
+  'schedule.appliedAt': 'Applied: {date} – {time}',
+  'schedule.editApplication': 'Edit application',
+  'schedule.cancelSnooze': 'Cancel snooze',
+  'schedule.snooze': 'Snooze',
+  'schedule.skip': 'Skip this one',
+  'schedule.addToCalendar': 'Add to calendar',
+  'schedule.safeFrom': 'Safe to apply from {date}',
+  'schedule.applyNow': 'Apply Now',
+  'schedule.applyWithDetails': 'Apply with details',
+  'schedule.applyTaskWithDetails': 'Apply {task} with details',
+  'schedule.appliedTimes.one': 'Applied {count} time',
+  'schedule.appliedTimes.other': 'Applied {count} times',
+  'countdown.overdue': 'Deadline over · {duration} late',
+  'countdown.due': 'Due today',
+  'countdown.upcoming': 'Next apply {relative}',
+  'countdown.snoozed': 'Snoozed until {date} · {reason}',
+  'countdown.complete': 'Done for the season ({reason})',
+  'countdown.resumes': 'back on {date}',
+  'defer.snoozeDays': 'Snooze {task} for how many days?',
+  'defer.snoozeReason': 'Why snooze it?',
+  'defer.skipReason': 'Why skip it?',
+  'defer.defaultReason': 'Rain forecast',
+  'defer.snoozed': 'Snoozed',
+  'defer.skipped': 'Skipped',
+  'defer.saveFailed': 'Could not save. Check your connection and try again.',
+  'activity.title': 'Recent Activity',
+  'activity.search': 'Search target, lot, notes…',
+  'activity.weather': 'Weather',
+  'activity.anyWeather': 'Any weather',
+  'activity.rainedAfter': 'Rained after',
+  'activity.withDetails': 'With details',
+  'activity.noMatches': 'No applications match these filters.',
+  'activity.empty': 'No applied actions yet. Let’s get gardening! 🌱',
+  'activity.seeAll': 'See the full history',
+  'activity.applied': 'Applied {task} (Day {day})',
+  'activity.loggedAt': 'on {date}',
+  'activity.loggedBy': 'by {name}',
+  'activity.pending': 'Pending sync',
+  'activity.lot': 'Lot {lot}',
+  'activity.target': 'Target: {target}',
+  'undo.applied': 'Applied "{task}"',
+  'undo.undo': 'Undo',
+  'undo.dismiss': 'Dismiss',
+  'sync.changes.one': '{count} change',
+  'sync.changes.other': '{count} changes',
+  'sync.offlineWaiting': 'Offline · {changes} waiting',
+  'sync.offline': 'Offline · showing saved data',
+  'sync.syncing': 'Syncing {changes}…',
+  'sync.connecting': 'Connecting…',
+  'sync.live': 'Live',
+  'beds.treatments.one': '{count} treatment',
+  'beds.treatments.other': '{count} treatments',
+  'beds.applications.one': '{count} application',
+  'beds.applications.other': '{count} applications',
+  'beds.overdue': '{count} overdue',
+  'beds.nothingOverdue': 'Nothing overdue',
+  'weather.sunny': 'Sunny ☀️',
+  'weather.cloudy': 'Cloudy ☁️',
+  'weather.humid': 'Humid 💧',
+  'weather.windy': 'Windy 🌬️',
+  'weather.rainy': 'Rainy 🌧️',
+  'reminder.overdue': '{task} is overdue',
+  'reminder.due': '{task} is due today',
+  'reminder.upcoming': '{task} is due {relative}',
+  'reminder.lastApplied': '{bed} · last applied {date}',
+  'reminder.testTitle': 'Gardenify reminders are on 🌱',
+  'reminder.testBody': 'You will be notified here when a treatment is due.',
+  'journal.bed': 'Bed',
+  'journal.about': 'About',
+  'journal.aboutPlants': 'The plants in general',
+  'journal.note': 'Note',
+  'journal.notePlaceholder': 'Yellow spots on the lower leaves…',
+  'journal.add': 'Add to journal',
+  'journal.chooseBed': 'Choose a bed.',
+  'journal.addPhotoOrNote': 'Add a photo or a note.',
+  'journal.saveFailed': 'Could not save the photos. Check your connection and try again.',
+  'journal.confirmDelete': 'Delete this journal entry and its photos?',
+  'journal.deleteFailed': 'Could not delete the entry. Check your connection and try again.',
+  'journal.deleteEntry': 'Delete entry',
+  'journal.timelineOf': 'Timeline of',
+  'journal.treatment': 'Treatment',
+  'journal.everyTreatment': 'every treatment',
+  'journal.empty': 'Nothing in the journal yet.',
+  'journal.observation': 'Observation',
+  'journal.before': 'Before · {date}',
+  'journal.atTreatment': 'At treatment',
+  'journal.after': 'After · {date}',
+  'common.loading': 'Loading',
+  'photo.unavailable': 'Photo unavailable',
+  'safety.doNotMix': '{task} must not be applied on the same day as {other}.',
+  'safety.minGap': '{other} was applied {when}; keep at least {gap} between it and {task}.',
+  'safety.preHarvest': '{task} needs {interval} before harvest, and {bed} is harvested {when}.',
+  'safety.blocked': 'Can\'t log {task}:\n\n{problems}',
+  'safety.confirm': '{problems}\n\nLog {task} anyway?',
+  'household.joinFailed': 'Could not join the household. The invite link may be invalid or expired.',
+  'auth.signOutPending':
+    'Some applications have not synced yet. They will sync the next time you sign in. Sign out?',
+  'backup.exportFailed': 'Could not export the history. Check your connection and try again.',
+  'backup.nothingToImport': 'Nothing to import from {file}.\n\n{errors}',
+  'backup.confirmInvalid.one':
+    '{count} entry in {file} is invalid and will be skipped:\n\n{errors}\n\nImport the rest?',
+  'backup.confirmInvalid.other':
+    '{count} entries in {file} are invalid and will be skipped:\n\n{errors}\n\nImport the rest?',
+  'backup.imported.one': 'Imported {count} application.',
+  'backup.imported.other': 'Imported {count} applications.',
+  'backup.alreadyThere.one': 'Skipped {count} already in the garden.',
+  'backup.alreadyThere.other': 'Skipped {count} already in the garden.',
+  'backup.importFailed': 'Could not import the backup. Check your connection and try again.',
+  'season.unsynced': 'Some changes haven\'t synced yet. Close the season once you are back online.',
+  'season.namePrompt':
+    'Name the season you are closing. Its history moves to the Seasons view, where it can be restored.',
+  'season.defaultName': 'Season ending {date}',
+  'season.closeFailed':
+    'Could not close the season. Check your connection and try again; nothing archived so far is lost.',
+  'season.confirmRestore.one':
+    'Restore "{name}"? Its {count} application moves back into the history, next to anything logged since.',
+  'season.confirmRestore.other':
+    'Restore "{name}"? Its {count} applications move back into the history, next to anything logged since.',
+  'season.restoreFailed': 'Could not restore the season. Check your connection and try again.',
+  'history.purgePrompt':
+    'This permanently deletes every application and last-applied date, without archiving them. It cannot be undone.\n\nType "{name}" to confirm.',
+  'history.purgeMismatch': 'The name did not match; nothing was deleted.',
+  'history.purgeBackup': 'Download a backup of your history before deleting it?',
+  'history.purgeFailed': 'Could not delete the history. Check your connection and try again.',
+  'common.cancel': 'Cancel',
+  'common.saveChanges': 'Save changes',
+  'common.to': 'to',
+  'category.pest-control': 'Pest control',
+  'category.fungicide': 'Fungicide',
+  'category.fertilizer': 'Fertilizer',
+  'category.pgr': 'PGR',
+  'category.other': 'Other',
+  'tasks.schedule.monthDays': 'on day {days} of the month',
+  'tasks.schedule.interval': 'every {duration}',
+  'tasks.schedule.none': 'no schedule',
+  'tasks.schedule.window': 'from {start} to {end}',
+  'tasks.schedule.maxPerSeason': 'at most {count} a season',
+  'tasks.noCycleDay': 'No cycle day',
+  'tasks.archived': 'archived',
+  'tasks.edit': 'Edit {task}',
+  'tasks.archive': 'Archive {task}',
+  'tasks.restore': 'Restore {task}',
+  'tasks.error.label': 'Label is required.',
+  'tasks.error.interval': 'Interval must be a whole number of days.',
+  'tasks.error.leadDays': 'Reminder lead time must be a whole number of days.',
+  'tasks.error.preHarvest': 'Pre-harvest interval must be a whole number of days.',
+  'tasks.error.minGap': 'Minimum gaps must be whole numbers of days.',
+  'tasks.error.monthDays': 'Days of the month must be numbers from 1 to 31.',
+  'tasks.error.intervalAndMonthDays': 'Use either an interval or days of the month, not both.',
+  'tasks.error.monthDay': 'Season and pause dates must be written as MM-DD, e.g. 03-01.',
+  'tasks.error.maxPerSeason': 'Applications per season must be a whole number.',
+  'tasks.error.saveFailed': 'Could not save the task. Please try again.',
+  'tasks.label': 'Label',
+  'tasks.labelPlaceholder': 'Fungicide - Amistar Top 🍄',
+  'tasks.cycleDay': 'Cycle day',
+  'tasks.cycleDayPlaceholder': 'Day 15',
+  'tasks.category': 'Category',
+  'tasks.interval': 'Apply every (days, leave empty for no schedule)',
+  'tasks.leadDays': 'Remind me (days before due)',
+  'tasks.recurrence': 'Recurrence',
+  'tasks.monthDays': 'Days of the month (instead of an interval)',
+  'tasks.maxPerSeason': 'At most per season',
+  'tasks.seasonFrom': 'Season from',
+  'tasks.seasonStart': 'Season start (MM-DD)',
+  'tasks.seasonEnd': 'Season end (MM-DD)',
+  'tasks.allYear': 'Leave empty to schedule all year',
+  'tasks.pauses': 'Pauses',
+  'tasks.pauseStart': 'Pause start (MM-DD)',
+  'tasks.pauseEnd': 'Pause end (MM-DD)',
+  'tasks.pauseReason': 'Pause reason',
+  'tasks.pauseReasonPlaceholder': 'Monsoon',
+  'tasks.removePause': 'Remove pause',
+  'tasks.addPause': 'Add a pause',
+  'tasks.safetyRules': 'Safety rules',
+  'tasks.preHarvest': 'Pre-harvest interval (days)',
+  'tasks.otherTreatment': 'Other treatment',
+  'tasks.minGap': 'Min. gap (days)',
+  'tasks.doNotMix': 'Don\'t mix',
+  'tasks.minGapTo': 'Minimum gap to {task}',
+  'tasks.doNotMixWith': 'Don\'t mix with {task}',
+  'tasks.icon': 'Icon',
+  'tasks.add': 'Add treatment',
+  'tasks.new': 'New treatment',
+  'bedEditor.error.name': 'Name is required.',
+  'bedEditor.error.interval': 'Intervals must be whole numbers of days.',
+  'bedEditor.error.saveFailed': 'Could not save the bed. Please try again.',
+  'bedEditor.error.updateFailed': 'Could not update the bed. Please try again.',
+  'bedEditor.confirmUpdate': 'Update {bed} to {profile} v{version}?',
+  'bedEditor.keptEdits': 'Changes made to this bed since are kept for: {treatments}.',
+  'bedEditor.replacesProgram': 'This sets its treatments, intervals and cycle days from the new version.',
+  'bedEditor.allTreatments': 'All treatments',
+  'bedEditor.customIntervals.one': '{count} custom interval',
+  'bedEditor.customIntervals.other': '{count} custom intervals',
+  'bedEditor.updateLabel': 'Update {bed} to the new profile version',
+  'bedEditor.update': 'Update',
+  'bedEditor.edit': 'Edit {bed}',
+  'bedEditor.name': 'Name',
+  'bedEditor.namePlaceholder': 'Rose bed, balcony pots…',
+  'bedEditor.harvestDate': 'Harvest date (checked against pre-harvest intervals)',
+  'bedEditor.profile': 'Plant profile',
+  'bedEditor.noProfile': 'None, pick treatments by hand',
+  'bedEditor.profileSetup.one':
+    'Sets up {count} treatment from {profile}, with its intervals and cycle days. Treatments missing from the catalog are added to it.',
+  'bedEditor.profileSetup.other':
+    'Sets up {count} treatments from {profile}, with its intervals and cycle days. Treatments missing from the catalog are added to it.',
+  'bedEditor.allTasks': 'Use every treatment in the catalog',
+  'bedEditor.intervalFor': 'Interval for {task}',
+  'bedEditor.add': 'Add bed',
+  'bedEditor.new': 'New bed',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.save': 'Save',
+  'application.error.date': 'Enter a valid date and time.',
+  'application.error.future': 'An application cannot be logged in the future.',
+  'application.error.quantity': 'Quantity must be a positive number.',
+  'application.confirmDelete': 'Delete this application of "{task}"?',
+  'application.appliedAt': 'Applied at',
+  'application.quantity': 'Quantity',
+  'application.unit': 'Unit',
+  'application.dilution': 'Dilution',
+  'application.productLot': 'Product lot',
+  'application.target': 'Target pest / disease',
+  'application.targetPlaceholder': 'Leaf spot',
+  'application.weatherNotRecorded': 'Not recorded',
+  'application.rainedAfter': 'Rained afterwards',
+  'application.notes': 'Notes',
+  'application.notesPlaceholder': 'Sprayed only the front row…',
+  'application.photos': 'Photos',
+  'application.apply': 'Apply',
+  'profiles.title': 'Plant profiles',
+  'profiles.error.name': 'Name is required.',
+  'profiles.error.numbers': 'Intervals and cycle days must be whole numbers of days.',
+  'profiles.error.noTreatments': 'Pick at least one treatment.',
+  'profiles.error.saveFailed': 'Could not save the profile. Please try again.',
+  'profiles.edit': 'Edit {profile}',
+  'profiles.name': 'Name',
+  'profiles.namePlaceholder': 'Rose, chili, lawn…',
+  'profiles.once': 'Once',
+  'profiles.intervalFor': 'Interval for {task}',
+  'profiles.cycleDayPlaceholder': 'Day {day}',
+  'profiles.cycleDayFor': 'Cycle day for {task}',
+  'profiles.changeNote': 'What changed (shown to beds on the previous version)',
+  'profiles.changeNotePlaceholder': 'Fungicide every 10 days in the monsoon',
+  'profiles.add': 'Add profile',
+  'profiles.new': 'New profile',
+  'signIn.confirmEmail': 'Confirm the email address you signed in with',
+  'signIn.linkInvalid': 'This sign-in link is invalid or has expired. Request a new one.',
+  'signIn.googleFailed': 'Could not sign in with Google. Please try again.',
+  'signIn.sendFailed': 'Could not send the sign-in link. Check the address and try again.',
+  'signIn.invite': 'Sign in to join the garden you were invited to.',
+  'signIn.intro': 'Sign in to keep your garden’s treatment log and share it with your household.',
+  'signIn.google': 'Continue with Google',
+  'signIn.or': 'or',
+  'signIn.sent': 'Check {email} for a sign-in link. Open it on this device.',
+  'signIn.email': 'Email address',
+  'signIn.emailLink': 'Email link',
+  'reminders.title': 'Due-date reminders',
+  'reminders.description':
+    'Notifies this device when a treatment is coming up, due or overdue. Set how many days ahead to remind for each treatment under “{manage}”.',
+  'reminders.turnOff': 'Turn off',
+  'reminders.turnOn': 'Turn on',
+  'reminders.inBackground':
+    'Reminders also arrive while Gardenify is closed, as planned the last time it was open.',
+  'reminders.whileOpen':
+    'Reminders only arrive while Gardenify is open. Install it as an app to get them while it is closed.',
+  'reminders.unsupported': 'This browser does not support notifications.',
+  'reminders.blocked':
+    'Notifications are blocked for Gardenify. Allow them in the browser’s site settings to turn reminders on.',
+  'reminders.quietHours': 'Quiet hours',
+  'reminders.quietStart': 'Quiet hours start',
+  'reminders.quietEnd': 'Quiet hours end',
+  'reminders.test': 'Send a test notification',
+  'inventory.amountInvalid': 'Enter an amount of 0 or more.',
+  'inventory.nameUnitRequired': 'Name and unit are required.',
+  'inventory.amountsInvalid': 'Amounts must be 0 or more.',
+  'inventory.saveFailed': 'Could not save the product. Please try again.',
+  'inventory.promptRestock': 'How much {product} did you buy ({unit})?',
+  'inventory.promptCount': 'How much {product} is left ({unit})?',
+  'inventory.promptNote': 'Note (shop, price, lot…)',
+  'inventory.stockFailed': 'Could not update the stock. Check your connection and try again.',
+  'inventory.intro':
+    'Add the chemicals and fertilizers you keep, and which treatments use them. Applications logged with a quantity are taken from stock.',
+  'inventory.noTreatments': 'No treatments',
+  'inventory.runsOutIn.one': 'Runs out in ~{count} application ({amount} each)',
+  'inventory.runsOutIn.other': 'Runs out in ~{count} applications ({amount} each)',
+  'inventory.noUsage': 'Record a quantity or set the usual amount to see how long it lasts',
+  'inventory.notEnough': 'Not enough for {task} on {date}',
+  'inventory.atOrBelow': 'At or below {amount}',
+  'inventory.restock': 'Restock',
+  'inventory.stockTake': 'Stock take',
+  'inventory.edit': 'Edit {product}',
+  'inventory.name': 'Name',
+  'inventory.namePlaceholder': 'Neem oil, Amistar Top…',
+  'inventory.unit': 'Unit',
+  'inventory.unitPlaceholder': 'ml, g, kg',
+  'inventory.lowStockAt': 'Alert at or below',
+  'inventory.usualQuantity': 'Usual amount per application',
+  'inventory.usedBy': 'Used by',
+  'inventory.archive': 'Archive',
+  'inventory.add': 'Add product',
+  'inventory.new': 'New product',
+  'inventory.archived': 'Archived',
+  'inventory.restore': 'Restore',
+  'inventory.recentEntries': 'Recent restocks and stock takes',
+  'inventory.bought': 'Bought {amount} {product}',
+  'inventory.counted': 'Counted {amount} {product}',
+  'common.treatment': 'Treatment',
+  'history.loadFailed': 'Could not load the history. Check your connection and try again.',
+  'stats.period.season': 'This season',
+  'stats.period.90d': 'Last 90 days',
+  'stats.period.12m': 'Last 12 months',
+  'stats.period.all': 'All time',
+  'stats.applied': 'Applied',
+  'stats.onTime': 'On time',
+  'stats.late': 'Late',
+  'stats.averageInterval': 'Avg. interval',
+  'stats.longestOverdue': 'Longest overdue',
+  'stats.perBed': 'Intervals are measured within each bed, then added up.',
+  'stats.perMonth': 'Applications per month',
+  'stats.nothingLogged': 'Nothing logged in this period.',
+  'stats.productUsed': 'Product used',
+  'stats.noQuantities': 'No quantities recorded in this period. Add them with “{details}”.',
+  'history.search': 'Search notes, target, lot…',
+  'history.taskFilter': 'Treatment or category',
+  'history.allTreatments': 'All treatments',
+  'history.categories': 'Categories',
+  'history.treatments': 'Treatments',
+  'history.from': 'From',
+  'history.byDay': 'By day',
+  'history.byWeek': 'By week',
+  'history.noMatchesLoaded':
+    'No matches in the applications loaded so far. Load older ones to keep searching.',
+  'history.loadOlder': 'Load older applications',
+  'season.loadFailed': 'Could not load the season. Check your connection and try again.',
+  'season.current': 'This season',
+  'season.intro': 'Closing the season archives its history and last-applied dates, and starts a clean slate.',
+  'season.none': 'No closed seasons yet.',
+  'season.closedOn': 'closed {date}',
+  'season.closedOnBy': 'closed {date} by {name}',
+  'season.compare': 'Compare',
+  'season.browse': 'Browse',
+  'season.restore': 'Restore',
+  'season.purgeIntro': 'Permanently delete the current history, without archiving it.',
+  'season.purge': 'Delete history',
+  'backup.csvTitle': 'Applications, for spreadsheets',
+  'backup.jsonTitle': 'Full backup, for restoring',
+  'backup.importTitle': 'Merge a CSV or JSON backup',
+  'backup.import': 'Import',
+  'backup.importing': 'Importing…',
+  'calendar.entry.applied': 'Applied',
+  'calendar.entry.projected': 'Due',
+  'calendar.entry.overdue': 'Overdue',
+  'calendar.entry.cycle': 'Cycle plan',
+  'calendar.entryTitle': '{kind}: {task}',
+  'calendar.previous': 'Previous',
+  'calendar.next': 'Next',
+  'calendar.today': 'Today',
+  'calendar.month': 'Month',
+  'calendar.week': 'Week',
+  'calendar.seasonStart': 'Season start (Day 1 of the cycle):',
+  'calendar.cycleDay': 'D{day}',
+  'calendar.crowded': 'Many treatments this day',
+  'calendar.crowdedDay': 'Crowded day',
+  'household.inviteFailed': 'Could not create an invite link. Please try again.',
+  'household.calendarNamePrompt': 'Which calendar is the link for?',
+  'household.calendarNameDefault': 'Phone calendar',
+  'household.tokenNamePrompt': 'What is the token for?',
+  'household.tokenNameDefault': 'Shed button',
+  'household.tokenFailed': 'Could not create an API token. Please try again.',
+  'household.confirmRevoke': 'Revoke “{name}”? Anything using it stops working.',
+  'household.revokeFailed': 'Could not revoke the token. Please try again.',
+  'household.signedInAs': 'Signed in as {name}. Everyone here shares the same beds, treatments and history.',
+  'household.signOut': 'Sign out',
+  'household.owner': 'Owner',
+  'household.you': '(you)',
+  'household.createInvite': 'Create invite link',
+  'household.inviteCopied': 'Copied to the clipboard, valid for a week:',
+  'household.apiTokens': 'API tokens',
+  'household.apiTokensIntro':
+    'Let scripts, shortcuts and buttons log applications and check what’s due by sending this header:',
+  'household.calendarLink': 'Calendar link',
+  'household.revoke': 'Revoke {name}',
+  'household.createToken': 'Create API token',
+  'household.createCalendarLink': 'Create calendar link',
+  'household.tokenShownOnce': 'Copy it now, it won’t be shown again:',
+  'household.calendarLinkShownOnce':
+    'To see due dates in Google or Apple Calendar, subscribe to this link. Copy it now, it won’t be shown again; it can only read due dates:',
+  'schedule.outOfSeason': 'Out of season',
+  'schedule.seasonCount': '{count} of {max} this season',
+  'ics.overdue': 'Overdue: {summary}',
+  'ics.alarm': '{task} is due',
+};
+
+export type MessageKey = keyof typeof en;
+
+// Messages with a form per plural category, such as `sync.changes.one` and `sync.changes.other`
+type PluralKey = MessageKey extends infer K ? (K extends `${infer Base}.other` ? Base : never) : never;
+
+type Catalog = Record<MessageKey, string>;
+
+const bn: Catalog = {
+  'app.tagline': 'আপনার ব্যক্তিগত বাগান পরিচর্যার সহকারী 🌼',
+  'app.loading': 'আপনার বাগান লোড হচ্ছে...',
+  'nav.beds': 'বাগানের বেড',
+  'nav.allBeds': 'সব বেড',
+  'nav.manageBeds': 'বেড পরিচালনা',
+  'nav.reminders': 'রিমাইন্ডার সেটিংস',
+  'nav.household': 'পরিবার',
+  'nav.language': 'ভাষা',
+  'nav.views': 'ভিউ',
+  'view.schedule': 'সময়সূচি',
+  'view.calendar': 'ক্যালেন্ডার',
+  'view.history': 'ইতিহাস',
+  'view.stats': 'পরিসংখ্যান',
+  'view.inventory': 'মজুদ',
+  'view.seasons': 'মৌসুম',
+  'view.journal': 'জার্নাল',
+  'season.close': 'মৌসুম শেষ করুন',
+  'stock.runningLow': 'কমে আসছে: {products}',
+  'calendar.title': 'পরিচর্যার ক্যালেন্ডার',
+  'journal.title': 'ছবির জার্নাল',
+  'calendar.weekOf': '{date} থেকে শুরু সপ্তাহ',
+  'schedule.title': 'পরিচর্যার সময়সূচি',
+  'schedule.appliedInWindow': 'গত {duration}-এ প্রয়োগ:',
+  'schedule.manageTreatments': 'পরিচর্যা পরিচালনা',
+  'schedule.done': 'সম্পন্ন',
+  'schedule.recentApplications': 'সাম্প্রতিক প্রয়োগ:',
+  'schedule.appliedAt': 'প্রয়োগ: {date} – {time}',
+  'schedule.editApplication': 'প্রয়োগ সম্পাদনা',
+  'schedule.cancelSnooze': 'পিছানো বাতিল করুন',
+  'schedule.snooze': 'পিছিয়ে দিন',
+  'schedule.skip': 'এটি বাদ দিন',
+  'schedule.addToCalendar': 'ক্যালেন্ডারে যোগ করুন',
+  'schedule.safeFrom': '{date} থেকে প্রয়োগ নিরাপদ',
+  'schedule.applyNow': 'এখন প্রয়োগ করুন',
+  'schedule.applyWithDetails': 'বিস্তারিতসহ প্রয়োগ',
+  'schedule.applyTaskWithDetails': 'বিস্তারিতসহ {task} প্রয়োগ',
+  'schedule.appliedTimes.one': '{count} বার প্রয়োগ',
+  'schedule.appliedTimes.other': '{count} বার প্রয়োগ',
+  'countdown.overdue': 'সময় পেরিয়ে গেছে · {duration} দেরি',
+  'countdown.due': 'আজ করণীয়',
+  'countdown.upcoming': 'পরবর্তী প্রয়োগ {relative}',
+  'countdown.snoozed': '{date} পর্যন্ত পিছানো · {reason}',
+  'countdown.complete': 'এই মৌসুমের জন্য শেষ ({reason})',
+  'countdown.resumes': '{date} থেকে আবার',
+  'defer.snoozeDays': '{task} কত দিন পিছিয়ে দেবেন?',
+  'defer.snoozeReason': 'কেন পিছিয়ে দিচ্ছেন?',
+  'defer.skipReason': 'কেন বাদ দিচ্ছেন?',
+  'defer.defaultReason': 'বৃষ্টির পূর্বাভাস',
+  'defer.snoozed': 'পিছানো হয়েছে',
+  'defer.skipped': 'বাদ দেওয়া হয়েছে',
+  'defer.saveFailed': 'সংরক্ষণ করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'activity.title': 'সাম্প্রতিক কার্যকলাপ',
+  'activity.search': 'লক্ষ্য, লট, নোট খুঁজুন…',
+  'activity.weather': 'আবহাওয়া',
+  'activity.anyWeather': 'যেকোনো আবহাওয়া',
+  'activity.rainedAfter': 'পরে বৃষ্টি হয়েছে',
+  'activity.withDetails': 'বিস্তারিতসহ',
+  'activity.noMatches': 'এই ফিল্টারগুলোর সাথে কোনো প্রয়োগ মেলেনি।',
+  'activity.empty': 'এখনো কিছু প্রয়োগ করা হয়নি। চলুন বাগানের কাজ শুরু করি! 🌱',
+  'activity.seeAll': 'পুরো ইতিহাস দেখুন',
+  'activity.applied': '{task} প্রয়োগ করা হয়েছে (দিন {day})',
+  'activity.loggedAt': '{date} তারিখে',
+  'activity.loggedBy': '{name} করেছেন',
+  'activity.pending': 'সিঙ্ক বাকি',
+  'activity.lot': 'লট {lot}',
+  'activity.target': 'লক্ষ্য: {target}',
+  'undo.applied': '"{task}" প্রয়োগ করা হয়েছে',
+  'undo.undo': 'ফিরিয়ে নিন',
+  'undo.dismiss': 'বন্ধ করুন',
+  'sync.changes.one': '{count}টি পরিবর্তন',
+  'sync.changes.other': '{count}টি পরিবর্তন',
+  'sync.offlineWaiting': 'অফলাইন · {changes} অপেক্ষায়',
+  'sync.offline': 'অফলাইন · সংরক্ষিত তথ্য দেখানো হচ্ছে',
+  'sync.syncing': '{changes} সিঙ্ক হচ্ছে…',
+  'sync.connecting': 'সংযোগ হচ্ছে…',
+  'sync.live': 'লাইভ',
+  'beds.treatments.one': '{count}টি পরিচর্যা',
+  'beds.treatments.other': '{count}টি পরিচর্যা',
+  'beds.applications.one': '{count}টি প্রয়োগ',
+  'beds.applications.other': '{count}টি প্রয়োগ',
+  'beds.overdue': '{count}টি সময় পেরিয়েছে',
+  'beds.nothingOverdue': 'কিছুই বাকি নেই',
+  'weather.sunny': 'রৌদ্রোজ্জ্বল ☀️',
+  'weather.cloudy': 'মেঘলা ☁️',
+  'weather.humid': 'আর্দ্র 💧',
+  'weather.windy': 'ঝোড়ো হাওয়া 🌬️',
+  'weather.rainy': 'বৃষ্টি 🌧️',
+  'reminder.overdue': '{task}-এর সময় পেরিয়ে গেছে',
+  'reminder.due': '{task} আজ করণীয়',
+  'reminder.upcoming': '{task} {relative} করণীয়',
+  'reminder.lastApplied': '{bed} · শেষ প্রয়োগ {date}',
+  'reminder.testTitle': 'Gardenify রিমাইন্ডার চালু হয়েছে 🌱',
+  'reminder.testBody': 'কোনো পরিচর্যার সময় হলে এখানে জানানো হবে।',
+  'journal.bed': 'বেড',
+  'journal.about': 'বিষয়',
+  'journal.aboutPlants': 'সাধারণভাবে গাছগুলো',
+  'journal.note': 'নোট',
+  'journal.notePlaceholder': 'নিচের পাতায় হলুদ দাগ…',
+  'journal.add': 'জার্নালে যোগ করুন',
+  'journal.chooseBed': 'একটি বেড বেছে নিন।',
+  'journal.addPhotoOrNote': 'একটি ছবি বা নোট যোগ করুন।',
+  'journal.saveFailed': 'ছবিগুলো সংরক্ষণ করা যায়নি। সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'journal.confirmDelete': 'জার্নালের এই এন্ট্রি আর এর ছবিগুলো মুছবেন?',
+  'journal.deleteFailed': 'এন্ট্রিটি মোছা যায়নি। সংযোগ পরীক্ষা করে আবার চেষ্টা করুন।',
+  'journal.deleteEntry': 'এন্ট্রি মুছুন',
+  'journal.timelineOf': 'টাইমলাইন:',
+  'journal.treatment': 'পরিচর্যা',
+  'journal.everyTreatment': 'সব পরিচর্যা',
+  'journal.empty': 'জার্নালে এখনো কিছু নেই।',
+  'journal.observation': 'পর্যবেক্ষণ',
+  'journal.before': 'আগে · {date}',
+  'journal.atTreatment': 'প্রয়োগের সময়',
+  'journal.after': 'পরে · {date}',
+  'common.loading': 'লোড হচ্ছে',
+  'photo.unavailable': 'ছবি পাওয়া যাচ্ছে না',
+  'safety.doNotMix': '{task} আর {other} একই দিনে প্রয়োগ করা যাবে না।',
+  'safety.minGap': '{other} প্রয়োগ করা হয়েছে {when}; এটি আর {task}-এর মধ্যে অন্তত {gap} ব্যবধান রাখুন।',
+  'safety.preHarvest': 'ফসল তোলার আগে {task}-এর জন্য {interval} দরকার, আর {bed}-এর ফসল তোলা হবে {when}।',
+  'safety.blocked': '{task} লগ করা যাবে না:\n\n{problems}',
+  'safety.confirm': '{problems}\n\nতবুও {task} লগ করবেন?',
+  'household.joinFailed': 'পরিবারে যোগ দেওয়া যায়নি। আমন্ত্রণ লিংকটি হয়তো অবৈধ বা মেয়াদোত্তীর্ণ।',
+  'auth.signOutPending':
+    'কিছু প্রয়োগ এখনো সিঙ্ক হয়নি। পরের বার সাইন ইন করলে সেগুলো সিঙ্ক হবে। সাইন আউট করবেন?',
+  'backup.exportFailed': 'ইতিহাস এক্সপোর্ট করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'backup.nothingToImport': '{file} থেকে ইমপোর্ট করার মতো কিছু নেই।\n\n{errors}',
+  'backup.confirmInvalid.one':
+    '{file}-এর {count}টি এন্ট্রি অবৈধ, সেটি বাদ যাবে:\n\n{errors}\n\nবাকিগুলো ইমপোর্ট করবেন?',
+  'backup.confirmInvalid.other':
+    '{file}-এর {count}টি এন্ট্রি অবৈধ, সেগুলো বাদ যাবে:\n\n{errors}\n\nবাকিগুলো ইমপোর্ট করবেন?',
+  'backup.imported.one': '{count}টি প্রয়োগ ইমপোর্ট হয়েছে।',
+  'backup.imported.other': '{count}টি প্রয়োগ ইমপোর্ট হয়েছে।',
+  'backup.alreadyThere.one': 'বাগানে আগে থেকেই থাকা {count}টি বাদ দেওয়া হয়েছে।',
+  'backup.alreadyThere.other': 'বাগানে আগে থেকেই থাকা {count}টি বাদ দেওয়া হয়েছে।',
+  'backup.importFailed': 'ব্যাকআপ ইমপোর্ট করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'season.unsynced': 'কিছু পরিবর্তন এখনো সিঙ্ক হয়নি। আবার অনলাইনে এলে মৌসুম বন্ধ করুন।',
+  'season.namePrompt':
+    'যে মৌসুম বন্ধ করছেন তার একটি নাম দিন। এর ইতিহাস মৌসুম ভিউতে চলে যাবে, সেখান থেকে ফিরিয়ে আনা যাবে।',
+  'season.defaultName': '{date}-এ শেষ হওয়া মৌসুম',
+  'season.closeFailed':
+    'মৌসুম বন্ধ করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন; এ পর্যন্ত যা আর্কাইভ হয়েছে তা হারাবে না।',
+  'season.confirmRestore.one':
+    '"{name}" ফিরিয়ে আনবেন? এর {count}টি প্রয়োগ ইতিহাসে ফিরে যাবে, এর পরে লগ করা সবকিছুর পাশে।',
+  'season.confirmRestore.other':
+    '"{name}" ফিরিয়ে আনবেন? এর {count}টি প্রয়োগ ইতিহাসে ফিরে যাবে, এর পরে লগ করা সবকিছুর পাশে।',
+  'season.restoreFailed': 'মৌসুম ফিরিয়ে আনা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'history.purgePrompt':
+    'এটি সব প্রয়োগ আর শেষ প্রয়োগের তারিখ আর্কাইভ না করেই চিরতরে মুছে ফেলবে। এটি আর ফেরানো যাবে না।\n\nনিশ্চিত করতে "{name}" লিখুন।',
+  'history.purgeMismatch': 'নাম মেলেনি; কিছুই মোছা হয়নি।',
+  'history.purgeBackup': 'মোছার আগে ইতিহাসের একটি ব্যাকআপ ডাউনলোড করবেন?',
+  'history.purgeFailed': 'ইতিহাস মোছা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'common.cancel': 'বাতিল',
+  'common.saveChanges': 'পরিবর্তন সংরক্ষণ করুন',
+  'common.to': 'পর্যন্ত',
+  'category.pest-control': 'কীট নিয়ন্ত্রণ',
+  'category.fungicide': 'ছত্রাকনাশক',
+  'category.fertilizer': 'সার',
+  'category.pgr': 'বৃদ্ধি নিয়ন্ত্রক (PGR)',
+  'category.other': 'অন্যান্য',
+  'tasks.schedule.monthDays': 'মাসের {days} তারিখে',
+  'tasks.schedule.interval': 'প্রতি {duration}',
+  'tasks.schedule.none': 'কোনো সূচি নেই',
+  'tasks.schedule.window': '{start} থেকে {end}',
+  'tasks.schedule.maxPerSeason': 'মৌসুমে সর্বোচ্চ {count} বার',
+  'tasks.noCycleDay': 'চক্রের দিন নেই',
+  'tasks.archived': 'আর্কাইভ করা',
+  'tasks.edit': '{task} সম্পাদনা করুন',
+  'tasks.archive': '{task} আর্কাইভ করুন',
+  'tasks.restore': '{task} ফিরিয়ে আনুন',
+  'tasks.error.label': 'নাম দেওয়া আবশ্যক।',
+  'tasks.error.interval': 'ব্যবধান পূর্ণ সংখ্যার দিন হতে হবে।',
+  'tasks.error.leadDays': 'রিমাইন্ডারের আগাম সময় পূর্ণ সংখ্যার দিন হতে হবে।',
+  'tasks.error.preHarvest': 'ফসল তোলার আগের ব্যবধান পূর্ণ সংখ্যার দিন হতে হবে।',
+  'tasks.error.minGap': 'ন্যূনতম ব্যবধান পূর্ণ সংখ্যার দিন হতে হবে।',
+  'tasks.error.monthDays': 'মাসের তারিখ ১ থেকে ৩১-এর মধ্যে সংখ্যা হতে হবে।',
+  'tasks.error.intervalAndMonthDays': 'ব্যবধান অথবা মাসের তারিখ ব্যবহার করুন, দুটো একসাথে নয়।',
+  'tasks.error.monthDay': 'মৌসুম আর বিরতির তারিখ MM-DD আকারে লিখুন, যেমন 03-01।',
+  'tasks.error.maxPerSeason': 'মৌসুমপ্রতি প্রয়োগ পূর্ণ সংখ্যা হতে হবে।',
+  'tasks.error.saveFailed': 'পরিচর্যাটি সংরক্ষণ করা যায়নি। আবার চেষ্টা করুন।',
+  'tasks.label': 'নাম',
+  'tasks.labelPlaceholder': 'ছত্রাকনাশক - Amistar Top 🍄',
+  'tasks.cycleDay': 'চক্রের দিন',
+  'tasks.cycleDayPlaceholder': 'দিন ১৫',
+  'tasks.category': 'বিভাগ',
+  'tasks.interval': 'কত দিন পরপর প্রয়োগ (সূচি না চাইলে খালি রাখুন)',
+  'tasks.leadDays': 'মনে করিয়ে দিন (নির্ধারিত দিনের কত দিন আগে)',
+  'tasks.recurrence': 'পুনরাবৃত্তি',
+  'tasks.monthDays': 'মাসের তারিখ (ব্যবধানের বদলে)',
+  'tasks.maxPerSeason': 'মৌসুমে সর্বোচ্চ',
+  'tasks.seasonFrom': 'মৌসুম:',
+  'tasks.seasonStart': 'মৌসুম শুরু (MM-DD)',
+  'tasks.seasonEnd': 'মৌসুম শেষ (MM-DD)',
+  'tasks.allYear': 'সারা বছরের সূচির জন্য খালি রাখুন',
+  'tasks.pauses': 'বিরতি',
+  'tasks.pauseStart': 'বিরতি শুরু (MM-DD)',
+  'tasks.pauseEnd': 'বিরতি শেষ (MM-DD)',
+  'tasks.pauseReason': 'বিরতির কারণ',
+  'tasks.pauseReasonPlaceholder': 'বর্ষা',
+  'tasks.removePause': 'বিরতি সরান',
+  'tasks.addPause': 'বিরতি যোগ করুন',
+  'tasks.safetyRules': 'নিরাপত্তা নিয়ম',
+  'tasks.preHarvest': 'ফসল তোলার আগের ব্যবধান (দিন)',
+  'tasks.otherTreatment': 'অন্য পরিচর্যা',
+  'tasks.minGap': 'ন্যূনতম ব্যবধান (দিন)',
+  'tasks.doNotMix': 'মেশাবেন না',
+  'tasks.minGapTo': '{task}-এর সাথে ন্যূনতম ব্যবধান',
+  'tasks.doNotMixWith': '{task}-এর সাথে মেশাবেন না',
+  'tasks.icon': 'আইকন',
+  'tasks.add': 'পরিচর্যা যোগ করুন',
+  'tasks.new': 'নতুন পরিচর্যা',
+  'bedEditor.error.name': 'নাম দেওয়া আবশ্যক।',
+  'bedEditor.error.interval': 'ব্যবধান পূর্ণ সংখ্যার দিন হতে হবে।',
+  'bedEditor.error.saveFailed': 'বেডটি সংরক্ষণ করা যায়নি। আবার চেষ্টা করুন।',
+  'bedEditor.error.updateFailed': 'বেডটি হালনাগাদ করা যায়নি। আবার চেষ্টা করুন।',
+  'bedEditor.confirmUpdate': '{bed}-কে {profile} v{version}-এ হালনাগাদ করবেন?',
+  'bedEditor.keptEdits': 'এরপর এই বেডে করা পরিবর্তনগুলো থাকবে: {treatments}।',
+  'bedEditor.replacesProgram': 'এটি নতুন সংস্করণ থেকে এর পরিচর্যা, ব্যবধান আর চক্রের দিন ঠিক করবে।',
+  'bedEditor.allTreatments': 'সব পরিচর্যা',
+  'bedEditor.customIntervals.one': '{count}টি নিজস্ব ব্যবধান',
+  'bedEditor.customIntervals.other': '{count}টি নিজস্ব ব্যবধান',
+  'bedEditor.updateLabel': '{bed}-কে প্রোফাইলের নতুন সংস্করণে হালনাগাদ করুন',
+  'bedEditor.update': 'হালনাগাদ',
+  'bedEditor.edit': '{bed} সম্পাদনা করুন',
+  'bedEditor.name': 'নাম',
+  'bedEditor.namePlaceholder': 'গোলাপের বেড, বারান্দার টব…',
+  'bedEditor.harvestDate': 'ফসল তোলার তারিখ (ফসল তোলার আগের ব্যবধানের সাথে মেলানো হয়)',
+  'bedEditor.profile': 'গাছের প্রোফাইল',
+  'bedEditor.noProfile': 'নেই, নিজে পরিচর্যা বেছে নিন',
+  'bedEditor.profileSetup.one':
+    '{profile} থেকে {count}টি পরিচর্যা, এর ব্যবধান আর চক্রের দিনসহ, ঠিক করা হবে। তালিকায় না থাকা পরিচর্যা তালিকায় যোগ হবে।',
+  'bedEditor.profileSetup.other':
+    '{profile} থেকে {count}টি পরিচর্যা, এর ব্যবধান আর চক্রের দিনসহ, ঠিক করা হবে। তালিকায় না থাকা পরিচর্যা তালিকায় যোগ হবে।',
+  'bedEditor.allTasks': 'তালিকার সব পরিচর্যা ব্যবহার করুন',
+  'bedEditor.intervalFor': '{task}-এর ব্যবধান',
+  'bedEditor.add': 'বেড যোগ করুন',
+  'bedEditor.new': 'নতুন বেড',
+  'common.close': 'বন্ধ করুন',
+  'common.delete': 'মুছুন',
+  'common.save': 'সংরক্ষণ করুন',
+  'application.error.date': 'সঠিক তারিখ ও সময় দিন।',
+  'application.error.future': 'ভবিষ্যতের কোনো প্রয়োগ লগ করা যায় না।',
+  'application.error.quantity': 'পরিমাণ ধনাত্মক সংখ্যা হতে হবে।',
+  'application.confirmDelete': '"{task}"-এর এই প্রয়োগটি মুছবেন?',
+  'application.appliedAt': 'প্রয়োগের সময়',
+  'application.quantity': 'পরিমাণ',
+  'application.unit': 'একক',
+  'application.dilution': 'মিশ্রণের হার',
+  'application.productLot': 'পণ্যের লট',
+  'application.target': 'লক্ষ্য পোকা / রোগ',
+  'application.targetPlaceholder': 'পাতার দাগ',
+  'application.weatherNotRecorded': 'লেখা হয়নি',
+  'application.rainedAfter': 'পরে বৃষ্টি হয়েছে',
+  'application.notes': 'নোট',
+  'application.notesPlaceholder': 'শুধু সামনের সারিতে স্প্রে করা হয়েছে…',
+  'application.photos': 'ছবি',
+  'application.apply': 'প্রয়োগ করুন',
+  'profiles.title': 'গাছের প্রোফাইল',
+  'profiles.error.name': 'নাম দেওয়া আবশ্যক।',
+  'profiles.error.numbers': 'ব্যবধান আর চক্রের দিন পূর্ণ সংখ্যার দিন হতে হবে।',
+  'profiles.error.noTreatments': 'অন্তত একটি পরিচর্যা বেছে নিন।',
+  'profiles.error.saveFailed': 'প্রোফাইলটি সংরক্ষণ করা যায়নি। আবার চেষ্টা করুন।',
+  'profiles.edit': '{profile} সম্পাদনা করুন',
+  'profiles.name': 'নাম',
+  'profiles.namePlaceholder': 'গোলাপ, মরিচ, লন…',
+  'profiles.once': 'একবার',
+  'profiles.intervalFor': '{task}-এর ব্যবধান',
+  'profiles.cycleDayPlaceholder': 'দিন {day}',
+  'profiles.cycleDayFor': '{task}-এর চক্রের দিন',
+  'profiles.changeNote': 'কী বদলেছে (আগের সংস্করণের বেডগুলোকে দেখানো হবে)',
+  'profiles.changeNotePlaceholder': 'বর্ষায় প্রতি ১০ দিনে ছত্রাকনাশক',
+  'profiles.add': 'প্রোফাইল যোগ করুন',
+  'profiles.new': 'নতুন প্রোফাইল',
+  'signIn.confirmEmail': 'যে ইমেইল ঠিকানা দিয়ে সাইন ইন করেছেন সেটি নিশ্চিত করুন',
+  'signIn.linkInvalid': 'এই সাইন-ইন লিংকটি অবৈধ বা মেয়াদোত্তীর্ণ। নতুন একটি চেয়ে নিন।',
+  'signIn.googleFailed': 'Google দিয়ে সাইন ইন করা যায়নি। আবার চেষ্টা করুন।',
+  'signIn.sendFailed': 'সাইন-ইন লিংক পাঠানো যায়নি। ঠিকানাটি দেখে আবার চেষ্টা করুন।',
+  'signIn.invite': 'যে বাগানে আমন্ত্রণ পেয়েছেন তাতে যোগ দিতে সাইন ইন করুন।',
+  'signIn.intro': 'আপনার বাগানের পরিচর্যার লগ রাখতে আর পরিবারের সাথে ভাগ করতে সাইন ইন করুন।',
+  'signIn.google': 'Google দিয়ে চালিয়ে যান',
+  'signIn.or': 'অথবা',
+  'signIn.sent': 'সাইন-ইন লিংকের জন্য {email} দেখুন। লিংকটি এই ডিভাইসেই খুলুন।',
+  'signIn.email': 'ইমেইল ঠিকানা',
+  'signIn.emailLink': 'ইমেইলে লিংক',
+  'reminders.title': 'নির্ধারিত দিনের রিমাইন্ডার',
+  'reminders.description':
+    'কোনো পরিচর্যার সময় ঘনিয়ে এলে, আজ করণীয় হলে বা সময় পেরিয়ে গেলে এই ডিভাইসে জানায়। প্রতিটি পরিচর্যার জন্য কত দিন আগে জানাবে তা “{manage}”-য় ঠিক করুন।',
+  'reminders.turnOff': 'বন্ধ করুন',
+  'reminders.turnOn': 'চালু করুন',
+  'reminders.inBackground': 'Gardenify বন্ধ থাকলেও রিমাইন্ডার আসবে, শেষবার খোলার সময় যেমন ঠিক করা হয়েছিল।',
+  'reminders.whileOpen':
+    'Gardenify খোলা থাকলেই কেবল রিমাইন্ডার আসে। বন্ধ থাকা অবস্থায় পেতে এটিকে অ্যাপ হিসেবে ইনস্টল করুন।',
+  'reminders.unsupported': 'এই ব্রাউজার নোটিফিকেশন সমর্থন করে না।',
+  'reminders.blocked':
+    'Gardenify-এর নোটিফিকেশন বন্ধ করা আছে। রিমাইন্ডার চালু করতে ব্রাউজারের সাইট সেটিংসে অনুমতি দিন।',
+  'reminders.quietHours': 'নীরব সময়',
+  'reminders.quietStart': 'নীরব সময় শুরু',
+  'reminders.quietEnd': 'নীরব সময় শেষ',
+  'reminders.test': 'একটি পরীক্ষামূলক নোটিফিকেশন পাঠান',
+  'inventory.amountInvalid': '০ বা তার বেশি পরিমাণ লিখুন।',
+  'inventory.nameUnitRequired': 'নাম ও একক দরকার।',
+  'inventory.amountsInvalid': 'পরিমাণ ০ বা তার বেশি হতে হবে।',
+  'inventory.saveFailed': 'পণ্যটি সংরক্ষণ করা যায়নি। আবার চেষ্টা করুন।',
+  'inventory.promptRestock': 'কতটা {product} কিনেছেন ({unit})?',
+  'inventory.promptCount': 'কতটা {product} বাকি আছে ({unit})?',
+  'inventory.promptNote': 'নোট (দোকান, দাম, লট…)',
+  'inventory.stockFailed': 'মজুত হালনাগাদ করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'inventory.intro':
+    'আপনার রাখা রাসায়নিক ও সার যোগ করুন, আর কোন পরিচর্যায় সেগুলো লাগে। পরিমাণসহ লেখা প্রয়োগ মজুত থেকে বাদ যায়।',
+  'inventory.noTreatments': 'কোনো পরিচর্যা নেই',
+  'inventory.runsOutIn.one': 'প্রায় {count}টি প্রয়োগে শেষ হবে (প্রতিবার {amount})',
+  'inventory.runsOutIn.other': 'প্রায় {count}টি প্রয়োগে শেষ হবে (প্রতিবার {amount})',
+  'inventory.noUsage': 'কত দিন চলবে দেখতে পরিমাণ লিখুন বা সাধারণ পরিমাণ ঠিক করুন',
+  'inventory.notEnough': '{date}-এ {task}-এর জন্য যথেষ্ট নয়',
+  'inventory.atOrBelow': '{amount} বা তার কম',
+  'inventory.restock': 'আবার কিনুন',
+  'inventory.stockTake': 'মজুত গণনা',
+  'inventory.edit': '{product} সম্পাদনা করুন',
+  'inventory.name': 'নাম',
+  'inventory.namePlaceholder': 'নিম তেল, অ্যামিস্টার টপ…',
+  'inventory.unit': 'একক',
+  'inventory.unitPlaceholder': 'ml, g, kg',
+  'inventory.lowStockAt': 'এর সমান বা কম হলে জানান',
+  'inventory.usualQuantity': 'প্রতি প্রয়োগে সাধারণ পরিমাণ',
+  'inventory.usedBy': 'যে পরিচর্যায় লাগে',
+  'inventory.archive': 'আর্কাইভ করুন',
+  'inventory.add': 'পণ্য যোগ করুন',
+  'inventory.new': 'নতুন পণ্য',
+  'inventory.archived': 'আর্কাইভ করা',
+  'inventory.restore': 'ফিরিয়ে আনুন',
+  'inventory.recentEntries': 'সাম্প্রতিক কেনা ও মজুত গণনা',
+  'inventory.bought': '{amount} {product} কেনা হয়েছে',
+  'inventory.counted': '{amount} {product} গোনা হয়েছে',
+  'common.treatment': 'পরিচর্যা',
+  'history.loadFailed': 'ইতিহাস লোড করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'stats.period.season': 'এই মৌসুম',
+  'stats.period.90d': 'গত ৯০ দিন',
+  'stats.period.12m': 'গত ১২ মাস',
+  'stats.period.all': 'সব সময়',
+  'stats.applied': 'প্রয়োগ',
+  'stats.onTime': 'সময়মতো',
+  'stats.late': 'দেরিতে',
+  'stats.averageInterval': 'গড় ব্যবধান',
+  'stats.longestOverdue': 'সবচেয়ে বেশি দেরি',
+  'stats.perBed': 'ব্যবধান প্রতিটি বেডের মধ্যে মাপা হয়, তারপর যোগ করা হয়।',
+  'stats.perMonth': 'মাসে প্রয়োগ',
+  'stats.nothingLogged': 'এই সময়ে কিছু লেখা হয়নি।',
+  'stats.productUsed': 'ব্যবহৃত পণ্য',
+  'stats.noQuantities': 'এই সময়ে কোনো পরিমাণ লেখা হয়নি। “{details}” দিয়ে যোগ করুন।',
+  'history.search': 'নোট, লক্ষ্য, লট খুঁজুন…',
+  'history.taskFilter': 'পরিচর্যা বা শ্রেণি',
+  'history.allTreatments': 'সব পরিচর্যা',
+  'history.categories': 'শ্রেণি',
+  'history.treatments': 'পরিচর্যা',
+  'history.from': 'থেকে',
+  'history.byDay': 'দিন অনুযায়ী',
+  'history.byWeek': 'সপ্তাহ অনুযায়ী',
+  'history.noMatchesLoaded':
+    'এখন পর্যন্ত লোড হওয়া প্রয়োগে কোনো মিল নেই। খোঁজ চালিয়ে যেতে পুরোনোগুলো লোড করুন।',
+  'history.loadOlder': 'পুরোনো প্রয়োগ লোড করুন',
+  'season.loadFailed': 'মৌসুম লোড করা যায়নি। সংযোগ দেখে আবার চেষ্টা করুন।',
+  'season.current': 'এই মৌসুম',
+  'season.intro': 'মৌসুম বন্ধ করলে এর ইতিহাস ও শেষ প্রয়োগের তারিখ আর্কাইভ হয়, আর নতুন করে শুরু হয়।',
+  'season.none': 'এখনো কোনো মৌসুম বন্ধ হয়নি।',
+  'season.closedOn': '{date}-এ বন্ধ',
+  'season.closedOnBy': '{date}-এ {name} বন্ধ করেছেন',
+  'season.compare': 'তুলনা',
+  'season.browse': 'দেখুন',
+  'season.restore': 'ফিরিয়ে আনুন',
+  'season.purgeIntro': 'বর্তমান ইতিহাস আর্কাইভ না করে চিরতরে মুছে ফেলুন।',
+  'season.purge': 'ইতিহাস মুছুন',
+  'backup.csvTitle': 'প্রয়োগের তালিকা, স্প্রেডশিটের জন্য',
+  'backup.jsonTitle': 'পূর্ণ ব্যাকআপ, ফিরিয়ে আনার জন্য',
+  'backup.importTitle': 'একটি CSV বা JSON ব্যাকআপ মিলিয়ে নিন',
+  'backup.import': 'ইমপোর্ট',
+  'backup.importing': 'ইমপোর্ট হচ্ছে…',
+  'calendar.entry.applied': 'প্রয়োগ করা',
+  'calendar.entry.projected': 'নির্ধারিত',
+  'calendar.entry.overdue': 'সময় পেরিয়েছে',
+  'calendar.entry.cycle': 'চক্রের পরিকল্পনা',
+  'calendar.entryTitle': '{kind}: {task}',
+  'calendar.previous': 'আগের',
+  'calendar.next': 'পরের',
+  'calendar.today': 'আজ',
+  'calendar.month': 'মাস',
+  'calendar.week': 'সপ্তাহ',
+  'calendar.seasonStart': 'মৌসুমের শুরু (চক্রের ১ম দিন):',
+  'calendar.cycleDay': 'দি{day}',
+  'calendar.crowded': 'এই দিনে অনেক পরিচর্যা',
+  'calendar.crowdedDay': 'ব্যস্ত দিন',
+  'household.inviteFailed': 'আমন্ত্রণ লিংক তৈরি করা যায়নি। আবার চেষ্টা করুন।',
+  'household.calendarNamePrompt': 'লিংকটি কোন ক্যালেন্ডারের জন্য?',
+  'household.calendarNameDefault': 'ফোনের ক্যালেন্ডার',
+  'household.tokenNamePrompt': 'টোকেনটি কীসের জন্য?',
+  'household.tokenNameDefault': 'শেডের বোতাম',
+  'household.tokenFailed': 'API টোকেন তৈরি করা যায়নি। আবার চেষ্টা করুন।',
+  'household.confirmRevoke': '“{name}” বাতিল করবেন? এটি ব্যবহার করা সবকিছু কাজ করা বন্ধ করবে।',
+  'household.revokeFailed': 'টোকেন বাতিল করা যায়নি। আবার চেষ্টা করুন।',
+  'household.signedInAs': '{name} হিসেবে সাইন ইন করা। এখানে সবাই একই বেড, পরিচর্যা ও ইতিহাস ভাগ করেন।',
+  'household.signOut': 'সাইন আউট',
+  'household.owner': 'মালিক',
+  'household.you': '(আপনি)',
+  'household.createInvite': 'আমন্ত্রণ লিংক তৈরি করুন',
+  'household.inviteCopied': 'ক্লিপবোর্ডে কপি করা হয়েছে, এক সপ্তাহ বৈধ:',
+  'household.apiTokens': 'API টোকেন',
+  'household.apiTokensIntro':
+    'এই হেডার পাঠিয়ে স্ক্রিপ্ট, শর্টকাট ও বোতাম দিয়ে প্রয়োগ লিখুন এবং কী বাকি আছে দেখুন:',
+  'household.calendarLink': 'ক্যালেন্ডার লিংক',
+  'household.revoke': '{name} বাতিল করুন',
+  'household.createToken': 'API টোকেন তৈরি করুন',
+  'household.createCalendarLink': 'ক্যালেন্ডার লিংক তৈরি করুন',
+  'household.tokenShownOnce': 'এখনই কপি করুন, এটি আর দেখানো হবে না:',
+  'household.calendarLinkShownOnce':
+    'Google বা Apple Calendar-এ নির্ধারিত তারিখ দেখতে এই লিংকে সাবস্ক্রাইব করুন। এখনই কপি করুন, এটি আর দেখানো হবে না; এটি শুধু নির্ধারিত তারিখ পড়তে পারে:',
+  'schedule.outOfSeason': 'মৌসুম নয়',
+  'schedule.seasonCount': 'এই মৌসুমে {max}টির মধ্যে {count}টি',
+  'ics.overdue': 'সময় পেরিয়ে গেছে: {summary}',
+  'ics.alarm': '{task} করণীয়',
+};
+
+const hi: Catalog = {
+  'app.tagline': 'आपका निजी बागवानी सहायक 🌼',
+  'app.loading': 'आपका बगीचा लोड हो रहा है...',
+  'nav.beds': 'बगीचे की क्यारियाँ',
+  'nav.allBeds': 'सभी क्यारियाँ',
+  'nav.manageBeds': 'क्यारियाँ प्रबंधित करें',
+  'nav.reminders': 'रिमाइंडर सेटिंग्स',
+  'nav.household': 'परिवार',
+  'nav.language': 'भाषा',
+  'nav.views': 'दृश्य',
+  'view.schedule': 'समय-सारणी',
+  'view.calendar': 'कैलेंडर',
+  'view.history': 'इतिहास',
+  'view.stats': 'आँकड़े',
+  'view.inventory': 'भंडार',
+  'view.seasons': 'सीज़न',
+  'view.journal': 'जर्नल',
+  'season.close': 'सीज़न बंद करें',
+  'stock.runningLow': 'कम हो रहा है: {products}',
+  'calendar.title': 'उपचार कैलेंडर',
+  'journal.title': 'फ़ोटो जर्नल',
+  'calendar.weekOf': '{date} से शुरू सप्ताह',
+  'schedule.title': 'उपचार समय-सारणी',
+  'schedule.appliedInWindow': 'पिछले {duration} में लगाया गया:',
+  'schedule.manageTreatments': 'उपचार प्रबंधित करें',
+  'schedule.done': 'हो गया',
+  'schedule.recentApplications': 'हाल के प्रयोग:',
+  'schedule.appliedAt': 'लगाया: {date} – {time}',
+  'schedule.editApplication': 'प्रयोग संपादित करें',
+  'schedule.cancelSnooze': 'टालना रद्द करें',
+  'schedule.snooze': 'टालें',
+  'schedule.skip': 'इसे छोड़ें',
+  'schedule.addToCalendar': 'कैलेंडर में जोड़ें',
+  'schedule.safeFrom': '{date} से लगाना सुरक्षित',
+  'schedule.applyNow': 'अभी लगाएँ',
+  'schedule.applyWithDetails': 'विवरण के साथ लगाएँ',
+  'schedule.applyTaskWithDetails': '{task} विवरण के साथ लगाएँ',
+  'schedule.appliedTimes.one': '{count} बार लगाया',
+  'schedule.appliedTimes.other': '{count} बार लगाया',
+  'countdown.overdue': 'समय सीमा पार · {duration} की देरी',
+  'countdown.due': 'आज देय',
+  'countdown.upcoming': 'अगला प्रयोग {relative}',
+  'countdown.snoozed': '{date} तक टाला गया · {reason}',
+  'countdown.complete': 'इस सीज़न के लिए पूरा ({reason})',
+  'countdown.resumes': '{date} से फिर',
+  'defer.snoozeDays': '{task} को कितने दिन टालें?',
+  'defer.snoozeReason': 'क्यों टाल रहे हैं?',
+  'defer.skipReason': 'क्यों छोड़ रहे हैं?',
+  'defer.defaultReason': 'बारिश का पूर्वानुमान',
+  'defer.snoozed': 'टाला गया',
+  'defer.skipped': 'छोड़ा गया',
+  'defer.saveFailed': 'सहेजा नहीं जा सका। कनेक्शन जाँचकर फिर कोशिश करें।',
+  'activity.title': 'हाल की गतिविधि',
+  'activity.search': 'लक्ष्य, लॉट, नोट खोजें…',
+  'activity.weather': 'मौसम',
+  'activity.anyWeather': 'कोई भी मौसम',
+  'activity.rainedAfter': 'बाद में बारिश हुई',
+  'activity.withDetails': 'विवरण सहित',
+  'activity.noMatches': 'इन फ़िल्टरों से कोई प्रयोग मेल नहीं खाता।',
+  'activity.empty': 'अभी तक कुछ नहीं लगाया गया। चलिए बागवानी शुरू करें! 🌱',
+  'activity.seeAll': 'पूरा इतिहास देखें',
+  'activity.applied': '{task} लगाया गया (दिन {day})',
+  'activity.loggedAt': '{date} को',
+  'activity.loggedBy': '{name} द्वारा',
+  'activity.pending': 'सिंक बाकी',
+  'activity.lot': 'लॉट {lot}',
+  'activity.target': 'लक्ष्य: {target}',
+  'undo.applied': '"{task}" लगाया गया',
+  'undo.undo': 'पूर्ववत करें',
+  'undo.dismiss': 'बंद करें',
+  'sync.changes.one': '{count} बदलाव',
+  'sync.changes.other': '{count} बदलाव',
+  'sync.offlineWaiting': 'ऑफ़लाइन · {changes} बाकी',
+  'sync.offline': 'ऑफ़लाइन · सहेजा गया डेटा दिख रहा है',
+  'sync.syncing': '{changes} सिंक हो रहे हैं…',
+  'sync.connecting': 'कनेक्ट हो रहा है…',
+  'sync.live': 'लाइव',
+  'beds.treatments.one': '{count} उपचार',
+  'beds.treatments.other': '{count} उपचार',
+  'beds.applications.one': '{count} प्रयोग',
+  'beds.applications.other': '{count} प्रयोग',
+  'beds.overdue': '{count} बकाया',
+  'beds.nothingOverdue': 'कुछ भी बकाया नहीं',
+  'weather.sunny': 'धूप ☀️',
+  'weather.cloudy': 'बादल ☁️',
+  'weather.humid': 'उमस 💧',
+  'weather.windy': 'तेज़ हवा 🌬️',
+  'weather.rainy': 'बारिश 🌧️',
+  'reminder.overdue': '{task} बकाया है',
+  'reminder.due': '{task} आज देय है',
+  'reminder.upcoming': '{task} {relative} देय है',
+  'reminder.lastApplied': '{bed} · अंतिम प्रयोग {date}',
+  'reminder.testTitle': 'Gardenify रिमाइंडर चालू हैं 🌱',
+  'reminder.testBody': 'जब कोई उपचार देय होगा, आपको यहाँ सूचना मिलेगी।',
+  'journal.bed': 'बेड',
+  'journal.about': 'किस बारे में',
+  'journal.aboutPlants': 'पौधे सामान्य रूप से',
+  'journal.note': 'नोट',
+  'journal.notePlaceholder': 'निचली पत्तियों पर पीले धब्बे…',
+  'journal.add': 'जर्नल में जोड़ें',
+  'journal.chooseBed': 'एक बेड चुनें।',
+  'journal.addPhotoOrNote': 'एक फ़ोटो या नोट जोड़ें।',
+  'journal.saveFailed': 'फ़ोटो सहेजी नहीं जा सकीं। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'journal.confirmDelete': 'जर्नल की यह प्रविष्टि और इसकी फ़ोटो हटाएँ?',
+  'journal.deleteFailed': 'प्रविष्टि हटाई नहीं जा सकी। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'journal.deleteEntry': 'प्रविष्टि हटाएँ',
+  'journal.timelineOf': 'टाइमलाइन:',
+  'journal.treatment': 'उपचार',
+  'journal.everyTreatment': 'सभी उपचार',
+  'journal.empty': 'जर्नल में अभी कुछ नहीं है।',
+  'journal.observation': 'अवलोकन',
+  'journal.before': 'पहले · {date}',
+  'journal.atTreatment': 'उपचार के समय',
+  'journal.after': 'बाद में · {date}',
+  'common.loading': 'लोड हो रहा है',
+  'photo.unavailable': 'फ़ोटो उपलब्ध नहीं',
+  'safety.doNotMix': '{task} को {other} वाले दिन नहीं डालना चाहिए।',
+  'safety.minGap': '{other} {when} डाला गया था; इसके और {task} के बीच कम से कम {gap} का अंतर रखें।',
+  'safety.preHarvest': 'कटाई से पहले {task} के लिए {interval} चाहिए, और {bed} की कटाई {when} है।',
+  'safety.blocked': '{task} दर्ज नहीं किया जा सकता:\n\n{problems}',
+  'safety.confirm': '{problems}\n\nफिर भी {task} दर्ज करें?',
+  'household.joinFailed':
+    'परिवार में शामिल नहीं हो सके। आमंत्रण लिंक शायद अमान्य है या उसकी अवधि खत्म हो गई है।',
+  'auth.signOutPending':
+    'कुछ प्रयोग अभी सिंक नहीं हुए हैं। अगली बार साइन इन करने पर वे सिंक होंगे। साइन आउट करें?',
+  'backup.exportFailed': 'इतिहास निर्यात नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'backup.nothingToImport': '{file} में आयात करने के लिए कुछ नहीं है।\n\n{errors}',
+  'backup.confirmInvalid.one':
+    '{file} की {count} प्रविष्टि अमान्य है और छोड़ दी जाएगी:\n\n{errors}\n\nबाकी आयात करें?',
+  'backup.confirmInvalid.other':
+    '{file} की {count} प्रविष्टियाँ अमान्य हैं और छोड़ दी जाएँगी:\n\n{errors}\n\nबाकी आयात करें?',
+  'backup.imported.one': '{count} प्रयोग आयात हुआ।',
+  'backup.imported.other': '{count} प्रयोग आयात हुए।',
+  'backup.alreadyThere.one': 'बगीचे में पहले से मौजूद {count} को छोड़ दिया गया।',
+  'backup.alreadyThere.other': 'बगीचे में पहले से मौजूद {count} को छोड़ दिया गया।',
+  'backup.importFailed': 'बैकअप आयात नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'season.unsynced': 'कुछ बदलाव अभी सिंक नहीं हुए हैं। फिर से ऑनलाइन होने पर सीज़न बंद करें।',
+  'season.namePrompt':
+    'जिस सीज़न को बंद कर रहे हैं उसका नाम दें। उसका इतिहास सीज़न व्यू में चला जाएगा, जहाँ से उसे वापस लाया जा सकता है।',
+  'season.defaultName': '{date} में खत्म होने वाला सीज़न',
+  'season.closeFailed':
+    'सीज़न बंद नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें; अब तक जो संग्रहित हुआ है वह नहीं खोएगा।',
+  'season.confirmRestore.one':
+    '"{name}" वापस लाएँ? इसका {count} प्रयोग इतिहास में लौट आएगा, उसके बाद दर्ज की गई हर चीज़ के साथ।',
+  'season.confirmRestore.other':
+    '"{name}" वापस लाएँ? इसके {count} प्रयोग इतिहास में लौट आएँगे, उसके बाद दर्ज की गई हर चीज़ के साथ।',
+  'season.restoreFailed': 'सीज़न वापस नहीं लाया जा सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'history.purgePrompt':
+    'यह हर प्रयोग और अंतिम प्रयोग की तारीख को संग्रहित किए बिना हमेशा के लिए हटा देगा। इसे पलटा नहीं जा सकता।\n\nपुष्टि के लिए "{name}" लिखें।',
+  'history.purgeMismatch': 'नाम मेल नहीं खाया; कुछ भी नहीं हटाया गया।',
+  'history.purgeBackup': 'हटाने से पहले अपने इतिहास का बैकअप डाउनलोड करें?',
+  'history.purgeFailed': 'इतिहास हटाया नहीं जा सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'common.cancel': 'रद्द करें',
+  'common.saveChanges': 'बदलाव सहेजें',
+  'common.to': 'तक',
+  'category.pest-control': 'कीट नियंत्रण',
+  'category.fungicide': 'फफूंदनाशक',
+  'category.fertilizer': 'उर्वरक',
+  'category.pgr': 'वृद्धि नियामक (PGR)',
+  'category.other': 'अन्य',
+  'tasks.schedule.monthDays': 'महीने की {days} तारीख को',
+  'tasks.schedule.interval': 'हर {duration}',
+  'tasks.schedule.none': 'कोई शेड्यूल नहीं',
+  'tasks.schedule.window': '{start} से {end} तक',
+  'tasks.schedule.maxPerSeason': 'एक सीज़न में अधिकतम {count} बार',
+  'tasks.noCycleDay': 'कोई चक्र दिवस नहीं',
+  'tasks.archived': 'संग्रहित',
+  'tasks.edit': '{task} संपादित करें',
+  'tasks.archive': '{task} संग्रहित करें',
+  'tasks.restore': '{task} वापस लाएँ',
+  'tasks.error.label': 'नाम ज़रूरी है।',
+  'tasks.error.interval': 'अंतराल दिनों की पूर्ण संख्या होना चाहिए।',
+  'tasks.error.leadDays': 'रिमाइंडर का अग्रिम समय दिनों की पूर्ण संख्या होना चाहिए।',
+  'tasks.error.preHarvest': 'कटाई-पूर्व अंतराल दिनों की पूर्ण संख्या होना चाहिए।',
+  'tasks.error.minGap': 'न्यूनतम अंतर दिनों की पूर्ण संख्या होना चाहिए।',
+  'tasks.error.monthDays': 'महीने की तारीखें 1 से 31 तक की संख्या होनी चाहिए।',
+  'tasks.error.intervalAndMonthDays': 'या तो अंतराल या महीने की तारीखें दें, दोनों नहीं।',
+  'tasks.error.monthDay': 'सीज़न और विराम की तारीखें MM-DD रूप में लिखें, जैसे 03-01।',
+  'tasks.error.maxPerSeason': 'प्रति सीज़न प्रयोग पूर्ण संख्या होना चाहिए।',
+  'tasks.error.saveFailed': 'उपचार सहेजा नहीं जा सका। फिर से कोशिश करें।',
+  'tasks.label': 'नाम',
+  'tasks.labelPlaceholder': 'फफूंदनाशक - Amistar Top 🍄',
+  'tasks.cycleDay': 'चक्र दिवस',
+  'tasks.cycleDayPlaceholder': 'दिन 15',
+  'tasks.category': 'श्रेणी',
+  'tasks.interval': 'हर कितने दिन में डालें (शेड्यूल न चाहें तो खाली छोड़ें)',
+  'tasks.leadDays': 'याद दिलाएँ (देय तिथि से कितने दिन पहले)',
+  'tasks.recurrence': 'पुनरावृत्ति',
+  'tasks.monthDays': 'महीने की तारीखें (अंतराल के बजाय)',
+  'tasks.maxPerSeason': 'प्रति सीज़न अधिकतम',
+  'tasks.seasonFrom': 'सीज़न:',
+  'tasks.seasonStart': 'सीज़न की शुरुआत (MM-DD)',
+  'tasks.seasonEnd': 'सीज़न का अंत (MM-DD)',
+  'tasks.allYear': 'पूरे साल के शेड्यूल के लिए खाली छोड़ें',
+  'tasks.pauses': 'विराम',
+  'tasks.pauseStart': 'विराम की शुरुआत (MM-DD)',
+  'tasks.pauseEnd': 'विराम का अंत (MM-DD)',
+  'tasks.pauseReason': 'विराम का कारण',
+  'tasks.pauseReasonPlaceholder': 'मानसून',
+  'tasks.removePause': 'विराम हटाएँ',
+  'tasks.addPause': 'विराम जोड़ें',
+  'tasks.safetyRules': 'सुरक्षा नियम',
+  'tasks.preHarvest': 'कटाई-पूर्व अंतराल (दिन)',
+  'tasks.otherTreatment': 'अन्य उपचार',
+  'tasks.minGap': 'न्यूनतम अंतर (दिन)',
+  'tasks.doNotMix': 'न मिलाएँ',
+  'tasks.minGapTo': '{task} से न्यूनतम अंतर',
+  'tasks.doNotMixWith': '{task} के साथ न मिलाएँ',
+  'tasks.icon': 'आइकन',
+  'tasks.add': 'उपचार जोड़ें',
+  'tasks.new': 'नया उपचार',
+  'bedEditor.error.name': 'नाम ज़रूरी है।',
+  'bedEditor.error.interval': 'अंतराल दिनों की पूर्ण संख्या होने चाहिए।',
+  'bedEditor.error.saveFailed': 'बेड सहेजा नहीं जा सका। फिर से कोशिश करें।',
+  'bedEditor.error.updateFailed': 'बेड अपडेट नहीं हो सका। फिर से कोशिश करें।',
+  'bedEditor.confirmUpdate': '{bed} को {profile} v{version} पर अपडेट करें?',
+  'bedEditor.keptEdits': 'इसके बाद इस बेड में किए गए बदलाव बने रहेंगे: {treatments}।',
+  'bedEditor.replacesProgram': 'यह नए संस्करण से इसके उपचार, अंतराल और चक्र दिवस तय करेगा।',
+  'bedEditor.allTreatments': 'सभी उपचार',
+  'bedEditor.customIntervals.one': '{count} अपना अंतराल',
+  'bedEditor.customIntervals.other': '{count} अपने अंतराल',
+  'bedEditor.updateLabel': '{bed} को प्रोफ़ाइल के नए संस्करण पर अपडेट करें',
+  'bedEditor.update': 'अपडेट',
+  'bedEditor.edit': '{bed} संपादित करें',
+  'bedEditor.name': 'नाम',
+  'bedEditor.namePlaceholder': 'गुलाब की क्यारी, बालकनी के गमले…',
+  'bedEditor.harvestDate': 'कटाई की तारीख (कटाई-पूर्व अंतराल से जाँची जाती है)',
+  'bedEditor.profile': 'पौधे की प्रोफ़ाइल',
+  'bedEditor.noProfile': 'कोई नहीं, उपचार खुद चुनें',
+  'bedEditor.profileSetup.one':
+    '{profile} से {count} उपचार, उसके अंतराल और चक्र दिवस के साथ, तय होगा। सूची में जो उपचार नहीं हैं, वे सूची में जोड़ दिए जाएँगे।',
+  'bedEditor.profileSetup.other':
+    '{profile} से {count} उपचार, उसके अंतराल और चक्र दिवस के साथ, तय होंगे। सूची में जो उपचार नहीं हैं, वे सूची में जोड़ दिए जाएँगे।',
+  'bedEditor.allTasks': 'सूची के सभी उपचार इस्तेमाल करें',
+  'bedEditor.intervalFor': '{task} का अंतराल',
+  'bedEditor.add': 'बेड जोड़ें',
+  'bedEditor.new': 'नया बेड',
+  'common.close': 'बंद करें',
+  'common.delete': 'हटाएँ',
+  'common.save': 'सहेजें',
+  'application.error.date': 'सही तारीख और समय दर्ज करें।',
+  'application.error.future': 'भविष्य का प्रयोग दर्ज नहीं किया जा सकता।',
+  'application.error.quantity': 'मात्रा धनात्मक संख्या होनी चाहिए।',
+  'application.confirmDelete': '"{task}" का यह प्रयोग हटाएँ?',
+  'application.appliedAt': 'प्रयोग का समय',
+  'application.quantity': 'मात्रा',
+  'application.unit': 'इकाई',
+  'application.dilution': 'घोल का अनुपात',
+  'application.productLot': 'उत्पाद लॉट',
+  'application.target': 'लक्षित कीट / रोग',
+  'application.targetPlaceholder': 'पत्ती धब्बा',
+  'application.weatherNotRecorded': 'दर्ज नहीं',
+  'application.rainedAfter': 'बाद में बारिश हुई',
+  'application.notes': 'नोट',
+  'application.notesPlaceholder': 'सिर्फ़ आगे की पंक्ति में छिड़काव किया…',
+  'application.photos': 'फ़ोटो',
+  'application.apply': 'डालें',
+  'profiles.title': 'पौधों की प्रोफ़ाइल',
+  'profiles.error.name': 'नाम ज़रूरी है।',
+  'profiles.error.numbers': 'अंतराल और चक्र दिवस दिनों की पूर्ण संख्या होने चाहिए।',
+  'profiles.error.noTreatments': 'कम से कम एक उपचार चुनें।',
+  'profiles.error.saveFailed': 'प्रोफ़ाइल सहेजी नहीं जा सकी। फिर से कोशिश करें।',
+  'profiles.edit': '{profile} संपादित करें',
+  'profiles.name': 'नाम',
+  'profiles.namePlaceholder': 'गुलाब, मिर्च, लॉन…',
+  'profiles.once': 'एक बार',
+  'profiles.intervalFor': '{task} का अंतराल',
+  'profiles.cycleDayPlaceholder': 'दिन {day}',
+  'profiles.cycleDayFor': '{task} का चक्र दिवस',
+  'profiles.changeNote': 'क्या बदला (पिछले संस्करण वाले बेड को दिखाया जाएगा)',
+  'profiles.changeNotePlaceholder': 'मानसून में हर 10 दिन पर फफूंदनाशक',
+  'profiles.add': 'प्रोफ़ाइल जोड़ें',
+  'profiles.new': 'नई प्रोफ़ाइल',
+  'signIn.confirmEmail': 'जिस ईमेल पते से साइन इन किया था, उसकी पुष्टि करें',
+  'signIn.linkInvalid': 'यह साइन-इन लिंक अमान्य है या इसकी अवधि खत्म हो गई है। नया लिंक मँगाएँ।',
+  'signIn.googleFailed': 'Google से साइन इन नहीं हो सका। फिर से कोशिश करें।',
+  'signIn.sendFailed': 'साइन-इन लिंक नहीं भेजा जा सका। पता जाँचें और फिर से कोशिश करें।',
+  'signIn.invite': 'जिस बगीचे में आपको आमंत्रित किया गया है, उसमें शामिल होने के लिए साइन इन करें।',
+  'signIn.intro': 'अपने बगीचे के उपचार का लॉग रखने और उसे अपने परिवार के साथ साझा करने के लिए साइन इन करें।',
+  'signIn.google': 'Google के साथ जारी रखें',
+  'signIn.or': 'या',
+  'signIn.sent': 'साइन-इन लिंक के लिए {email} देखें। उसे इसी डिवाइस पर खोलें।',
+  'signIn.email': 'ईमेल पता',
+  'signIn.emailLink': 'ईमेल लिंक',
+  'reminders.title': 'देय तिथि के रिमाइंडर',
+  'reminders.description':
+    'जब कोई उपचार आने वाला हो, आज देय हो या बकाया हो, तो इस डिवाइस पर सूचना देता है। हर उपचार के लिए कितने दिन पहले याद दिलाना है, यह “{manage}” में तय करें।',
+  'reminders.turnOff': 'बंद करें',
+  'reminders.turnOn': 'चालू करें',
+  'reminders.inBackground': 'Gardenify बंद होने पर भी रिमाइंडर आएँगे, जैसा पिछली बार खोलने पर तय हुआ था।',
+  'reminders.whileOpen':
+    'रिमाइंडर सिर्फ़ तब आते हैं जब Gardenify खुला हो। बंद रहने पर भी पाने के लिए इसे ऐप के रूप में इंस्टॉल करें।',
+  'reminders.unsupported': 'यह ब्राउज़र सूचनाओं का समर्थन नहीं करता।',
+  'reminders.blocked':
+    'Gardenify के लिए सूचनाएँ ब्लॉक हैं। रिमाइंडर चालू करने के लिए ब्राउज़र की साइट सेटिंग्स में इन्हें अनुमति दें।',
+  'reminders.quietHours': 'शांत समय',
+  'reminders.quietStart': 'शांत समय की शुरुआत',
+  'reminders.quietEnd': 'शांत समय का अंत',
+  'reminders.test': 'एक परीक्षण सूचना भेजें',
+  'inventory.amountInvalid': '0 या उससे अधिक मात्रा दर्ज करें।',
+  'inventory.nameUnitRequired': 'नाम और इकाई आवश्यक हैं।',
+  'inventory.amountsInvalid': 'मात्रा 0 या उससे अधिक होनी चाहिए।',
+  'inventory.saveFailed': 'उत्पाद सहेजा नहीं जा सका। कृपया फिर से प्रयास करें।',
+  'inventory.promptRestock': 'आपने कितना {product} खरीदा ({unit})?',
+  'inventory.promptCount': 'कितना {product} बचा है ({unit})?',
+  'inventory.promptNote': 'नोट (दुकान, कीमत, लॉट…)',
+  'inventory.stockFailed': 'स्टॉक अपडेट नहीं हो सका। अपना कनेक्शन जाँचें और फिर से प्रयास करें।',
+  'inventory.intro':
+    'आपके पास रखे रसायन और उर्वरक जोड़ें, और कौन-से उपचार उनका उपयोग करते हैं। मात्रा के साथ दर्ज किए गए प्रयोग स्टॉक से घटाए जाते हैं।',
+  'inventory.noTreatments': 'कोई उपचार नहीं',
+  'inventory.runsOutIn.one': 'लगभग {count} प्रयोग में खत्म होगा (हर बार {amount})',
+  'inventory.runsOutIn.other': 'लगभग {count} प्रयोगों में खत्म होगा (हर बार {amount})',
+  'inventory.noUsage': 'यह कितना चलेगा देखने के लिए मात्रा दर्ज करें या सामान्य मात्रा तय करें',
+  'inventory.notEnough': '{date} को {task} के लिए पर्याप्त नहीं',
+  'inventory.atOrBelow': '{amount} या उससे कम',
+  'inventory.restock': 'फिर से भरें',
+  'inventory.stockTake': 'स्टॉक गिनती',
+  'inventory.edit': '{product} संपादित करें',
+  'inventory.name': 'नाम',
+  'inventory.namePlaceholder': 'नीम तेल, एमिस्टार टॉप…',
+  'inventory.unit': 'इकाई',
+  'inventory.unitPlaceholder': 'ml, g, kg',
+  'inventory.lowStockAt': 'इतना या कम होने पर सूचित करें',
+  'inventory.usualQuantity': 'प्रति प्रयोग सामान्य मात्रा',
+  'inventory.usedBy': 'किन उपचारों में प्रयोग',
+  'inventory.archive': 'संग्रहित करें',
+  'inventory.add': 'उत्पाद जोड़ें',
+  'inventory.new': 'नया उत्पाद',
+  'inventory.archived': 'संग्रहित',
+  'inventory.restore': 'वापस लाएँ',
+  'inventory.recentEntries': 'हाल में भरा गया स्टॉक और गिनती',
+  'inventory.bought': '{amount} {product} खरीदा',
+  'inventory.counted': '{amount} {product} गिना गया',
+  'common.treatment': 'उपचार',
+  'history.loadFailed': 'इतिहास लोड नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'stats.period.season': 'यह सीज़न',
+  'stats.period.90d': 'पिछले 90 दिन',
+  'stats.period.12m': 'पिछले 12 महीने',
+  'stats.period.all': 'अब तक',
+  'stats.applied': 'प्रयोग',
+  'stats.onTime': 'समय पर',
+  'stats.late': 'देर से',
+  'stats.averageInterval': 'औसत अंतराल',
+  'stats.longestOverdue': 'सबसे लंबी देरी',
+  'stats.perBed': 'अंतराल हर क्यारी में अलग से मापे जाते हैं, फिर जोड़े जाते हैं।',
+  'stats.perMonth': 'हर महीने के प्रयोग',
+  'stats.nothingLogged': 'इस अवधि में कुछ दर्ज नहीं हुआ।',
+  'stats.productUsed': 'इस्तेमाल हुआ उत्पाद',
+  'stats.noQuantities': 'इस अवधि में कोई मात्रा दर्ज नहीं हुई। उन्हें “{details}” से जोड़ें।',
+  'history.search': 'नोट, लक्ष्य, लॉट खोजें…',
+  'history.taskFilter': 'उपचार या श्रेणी',
+  'history.allTreatments': 'सभी उपचार',
+  'history.categories': 'श्रेणियाँ',
+  'history.treatments': 'उपचार',
+  'history.from': 'से',
+  'history.byDay': 'दिन के अनुसार',
+  'history.byWeek': 'सप्ताह के अनुसार',
+  'history.noMatchesLoaded':
+    'अब तक लोड हुए प्रयोगों में कोई मेल नहीं। खोज जारी रखने के लिए पुराने प्रयोग लोड करें।',
+  'history.loadOlder': 'पुराने प्रयोग लोड करें',
+  'season.loadFailed': 'सीज़न लोड नहीं हो सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें।',
+  'season.current': 'यह सीज़न',
+  'season.intro':
+    'सीज़न बंद करने से उसका इतिहास और आखिरी प्रयोग की तारीखें संग्रहित हो जाती हैं, और नई शुरुआत होती है।',
+  'season.none': 'अभी तक कोई सीज़न बंद नहीं हुआ।',
+  'season.closedOn': '{date} को बंद',
+  'season.closedOnBy': '{date} को {name} ने बंद किया',
+  'season.compare': 'तुलना',
+  'season.browse': 'देखें',
+  'season.restore': 'वापस लाएँ',
+  'season.purgeIntro': 'मौजूदा इतिहास को संग्रहित किए बिना हमेशा के लिए हटाएँ।',
+  'season.purge': 'इतिहास हटाएँ',
+  'backup.csvTitle': 'प्रयोग, स्प्रेडशीट के लिए',
+  'backup.jsonTitle': 'पूरा बैकअप, वापस लाने के लिए',
+  'backup.importTitle': 'CSV या JSON बैकअप मिलाएँ',
+  'backup.import': 'इंपोर्ट',
+  'backup.importing': 'इंपोर्ट हो रहा है…',
+  'calendar.entry.applied': 'प्रयोग किया',
+  'calendar.entry.projected': 'देय',
+  'calendar.entry.overdue': 'समय निकल गया',
+  'calendar.entry.cycle': 'चक्र योजना',
+  'calendar.entryTitle': '{kind}: {task}',
+  'calendar.previous': 'पिछला',
+  'calendar.next': 'अगला',
+  'calendar.today': 'आज',
+  'calendar.month': 'महीना',
+  'calendar.week': 'सप्ताह',
+  'calendar.seasonStart': 'सीज़न की शुरुआत (चक्र का पहला दिन):',
+  'calendar.cycleDay': 'दि{day}',
+  'calendar.crowded': 'इस दिन कई उपचार',
+  'calendar.crowdedDay': 'व्यस्त दिन',
+  'household.inviteFailed': 'आमंत्रण लिंक नहीं बन सका। कृपया फिर से प्रयास करें।',
+  'household.calendarNamePrompt': 'यह लिंक किस कैलेंडर के लिए है?',
+  'household.calendarNameDefault': 'फ़ोन कैलेंडर',
+  'household.tokenNamePrompt': 'यह टोकन किसलिए है?',
+  'household.tokenNameDefault': 'शेड का बटन',
+  'household.tokenFailed': 'API टोकन नहीं बन सका। कृपया फिर से प्रयास करें।',
+  'household.confirmRevoke': '“{name}” रद्द करें? इसका उपयोग करने वाली हर चीज़ काम करना बंद कर देगी।',
+  'household.revokeFailed': 'टोकन रद्द नहीं हो सका। कृपया फिर से प्रयास करें।',
+  'household.signedInAs':
+    '{name} के रूप में साइन इन। यहाँ सभी एक ही क्यारियाँ, उपचार और इतिहास साझा करते हैं।',
+  'household.signOut': 'साइन आउट',
+  'household.owner': 'मालिक',
+  'household.you': '(आप)',
+  'household.createInvite': 'आमंत्रण लिंक बनाएँ',
+  'household.inviteCopied': 'क्लिपबोर्ड पर कॉपी किया गया, एक सप्ताह तक मान्य:',
+  'household.apiTokens': 'API टोकन',
+  'household.apiTokensIntro':
+    'यह हेडर भेजकर स्क्रिप्ट, शॉर्टकट और बटन से प्रयोग दर्ज करें और देखें कि क्या देय है:',
+  'household.calendarLink': 'कैलेंडर लिंक',
+  'household.revoke': '{name} रद्द करें',
+  'household.createToken': 'API टोकन बनाएँ',
+  'household.createCalendarLink': 'कैलेंडर लिंक बनाएँ',
+  'household.tokenShownOnce': 'इसे अभी कॉपी करें, यह फिर नहीं दिखाया जाएगा:',
+  'household.calendarLinkShownOnce':
+    'Google या Apple Calendar में देय तिथियाँ देखने के लिए इस लिंक की सदस्यता लें। इसे अभी कॉपी करें, यह फिर नहीं दिखाया जाएगा; यह केवल देय तिथियाँ पढ़ सकता है:',
+  'schedule.outOfSeason': 'सीज़न नहीं है',
+  'schedule.seasonCount': 'इस सीज़न में {max} में से {count}',
+  'ics.overdue': 'बकाया: {summary}',
+  'ics.alarm': '{task} देय है',
+};
+
+const MESSAGES: Record<Locale, Catalog> = { en, bn, hi };
+
+// --- Locale choice ---
+
+const LOCALE_STORAGE_KEY = 'gardenify.locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(({ code }) => code === value);
+
+// The device's saved choice, or the first browser language we have a catalog for
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage unavailable; fall back to the browser languages
+  }
+  const preferred = (navigator.languages ?? [navigator.language]).map((tag) => tag.split('-')[0]);
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+
+// --- Translating and formatting ---
+
+// Quantity units `Intl.NumberFormat` can spell out; the others are shown as entered
+const INTL_UNITS: Record<string, string> = { ml: 'milliliter', l: 'liter', g: 'gram', kg: 'kilogram' };
+
+type Params = Record<string, string | number>;
+
+export type I18n = ReturnType<typeof createI18n>;
+
+export const createI18n = (locale: Locale) => {
+  const numberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 });
+  const pluralRules = new Intl.PluralRules(locale);
+  const relativeFormat = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  const dayFormat = new Intl.NumberFormat(locale, { style: 'unit', unit: 'day', unitDisplay: 'long' });
+
+  const percentFormat = new Intl.NumberFormat(locale, { style: 'percent' });
+
+  const formatNumber = (value: number) => numberFormat.format(value);
+
+  // Fills `{name}` placeholders, formatting numbers for the locale. Placeholders without a
+  // value are left in place, so callers can split a message around them.
+  const t = (key: MessageKey, params: Params = {}) =>
+    MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+
+  const plural = (key: PluralKey, count: number, params: Params = {}) => {
+    const category = pluralRules.select(count);
+    const formKey = `${key}.${category}` in MESSAGES[locale] ? `${key}.${category}` : `${key}.other`;
+    return t(formKey as MessageKey, { count, ...params });
+  };
+
+  const toDate = (value: Date | string) => (typeof value === 'string' ? new Date(value) : value);
+
+  return {
+    locale,
+    t,
+    plural,
+    formatNumber,
+    // 0.85 as "85%"
+    formatPercent: (ratio: number) => percentFormat.format(ratio),
+    formatDate: (
+      value: Date | string,
+      options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }
+    ) => toDate(value).toLocaleDateString(locale, options),
+    formatMonthDay: (value: Date | string) =>
+      toDate(value).toLocaleDateString(locale, { month: 'short', day: 'numeric' }),
+    formatTime: (value: Date | string) =>
+      toDate(value).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' }),
+    formatDateTime: (value: Date | string) =>
+      toDate(value).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }),
+    // "tomorrow", "in 3 days", "2 days ago"
+    formatRelativeDays: (days: number) => relativeFormat.format(days, 'day'),
+    // "3 days"
+    formatDays: (days: number) => dayFormat.format(days),
+    formatQuantity: (amount: number, unit?: string) => {
+      const intlUnit = unit && INTL_UNITS[unit];
+      if (intlUnit) {
+        return new Intl.NumberFormat(locale, { style: 'unit', unit: intlUnit, maximumFractionDigits: 2 }).format(
+          amount
+        );
+      }
+      return `${formatNumber(amount)} ${unit ?? ''}`.trim();
+    },
+  };
+};
+
+// For code that runs before a language is chosen, or outside the app's pages
+export const defaultI18n = createI18n(DEFAULT_LOCALE);
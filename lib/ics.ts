@@ -0,0 +1,116 @@
+import type { BedSchedule } from './calendar';
+import { addDays, startOfDay, toDateKey } from './dates';
+import { defaultI18n, type I18n } from './i18n';
+import { evaluateBedTask, projectOccurrences } from './recurrence';
+import { DEFAULT_LEAD_DAYS } from './reminders';
+
+// iCalendar (RFC 5545) export of upcoming due dates, served as a subscribable feed by
+// app/api/calendar and downloaded per treatment from the schedule. Each occurrence keeps its
+// UID from one export to the next, so calendar apps move the event when an application shifts
+// the due date instead of adding another one.
+
+// How far ahead occurrences are listed
+export const ICS_HORIZON_DAYS = 90;
+
+// Hour of the day reminders go off, before the all-day event
+const ALARM_HOUR = 9;
+
+// Feeds are refreshed by calendar apps at most this often
+const REFRESH_INTERVAL = 'PT6H';
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line, indented by a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: Date) => toDateKey(date).replace(/-/g, '');
+
+const formatTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Relative to the start of the all-day event: ALARM_HOUR on the day `leadDays` before it
+const alarmTrigger = (leadDays: number) => {
+  const hours = leadDays * 24 - ALARM_HOUR;
+  return hours > 0 ? `-PT${hours}H` : `PT${-hours}H`;
+};
+
+export const buildIcs = ({
+  schedules,
+  today,
+  calendarName,
+  taskId,
+  horizonDays = ICS_HORIZON_DAYS,
+  i18n = defaultI18n,
+}: {
+  schedules: BedSchedule[];
+  today: Date;
+  calendarName: string;
+  taskId?: string; // Only this treatment
+  horizonDays?: number;
+  i18n?: I18n;
+}) => {
+  const todayStart = startOfDay(today);
+  const horizon = addDays(todayStart, horizonDays);
+  const stamp = formatTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gardenify//Treatment schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  schedules.forEach((schedule) => {
+    const { bed } = schedule;
+    schedule.tasks
+      .filter((task) => !taskId || task.id === taskId)
+      .forEach((task) => {
+        const state = evaluateBedTask(schedule, task, todayStart, i18n);
+        const leadDays = task.reminderLeadDays ?? DEFAULT_LEAD_DAYS;
+
+        // A missed due date is listed on today, like in the calendar view
+        projectOccurrences(schedule, task, todayStart, horizon).forEach((due, index) => {
+          const overdue = index === 0 && state?.status === 'overdue';
+          const summary = `${task.label} · ${bed.name}`;
+          lines.push(
+            'BEGIN:VEVENT',
+            // Numbered from the next occurrence, so it stays the same event when the date moves
+            `UID:${bed.id}.${task.id}.${index}@gardenify`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatDate(due)}`,
+            `DTEND;VALUE=DATE:${formatDate(addDays(due, 1))}`,
+            `SUMMARY:${escapeText(overdue ? i18n.t('ics.overdue', { summary }) : summary)}`,
+            `DESCRIPTION:${escapeText(
+              state?.reason && index === 0 ? `${task.dayLabel}\n${state.reason}` : task.dayLabel
+            )}`,
+            'TRANSP:TRANSPARENT',
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(i18n.t('ics.alarm', { task: task.label }))}`,
+            `TRIGGER:${alarmTrigger(overdue ? 0 : leadDays)}`,
+            'END:VALARM',
+            'END:VEVENT'
+          );
+        });
+      });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
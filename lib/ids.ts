@@ -0,0 +1,20 @@
+// Turns a display name into a readable document ID that is not in `takenIds`
+export const createReadableId = (name: string, takenIds: string[], fallback: string) => {
+  const base =
+    name
+      .toLowerCase()
+      .normalize('NFKD')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || fallback;
+  let id = base;
+  for (let n = 2; takenIds.includes(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+};
+
+// API tokens are stored under their SHA-256 hash, so the token itself is never kept
+export const hashApiToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,145 @@
+import type { BedSchedule } from './calendar';
+import { addDays, startOfDay } from './dates';
+import { createReadableId } from './ids';
+import { projectOccurrences } from './recurrence';
+import { resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Product, StockEntry, StockUsage, Task } from './types';
+
+// Stock of chemicals and fertilizers. Each product's level is kept in one document, like the
+// last-applied dates: restocks and stock takes change it directly, and an application logged
+// with a quantity draws down the product its treatment uses.
+
+// A restock or stock take entered by a member; usage is recorded with applications
+export type StockAdjustment = Omit<StockEntry, 'id' | 'kind'> & { kind: 'restock' | 'count' };
+
+// Products running out within this many days are flagged along with those below `lowStockAt`
+export const RUNS_OUT_WARNING_DAYS = 14;
+
+// How far ahead upcoming applications are counted
+const PROJECTION_DAYS = 365;
+
+// Recorded quantities averaged into the usual amount per application
+const USAGE_SAMPLE_SIZE = 5;
+
+export const createProductId = (name: string, existing: Product[]) =>
+  createReadableId(name, existing.map((product) => product.id), 'product');
+
+// The product a treatment draws from, the first in order when several list it
+export const getProductForTask = (taskId: string | undefined, products: Product[]) =>
+  taskId ? products.find((product) => !product.archived && product.taskIds.includes(taskId)) : undefined;
+
+// Whether a treatment's applications draw from `product`, out of all the household's `products`
+const drawsFrom = (taskId: string | undefined, product: Product, products: Product[]) =>
+  getProductForTask(taskId, products)?.id === product.id;
+
+// Only quantities recorded in the product's unit, or without a unit, are counted
+const isSameUnit = (unit: string | undefined, product: Product) =>
+  !unit || unit.trim().toLowerCase() === product.unit.trim().toLowerCase();
+
+// What an application uses: null when its treatment's product isn't measured in this
+// application, undefined when the treatment uses no tracked product
+export const getStockUsage = (
+  event: ApplicationEvent,
+  products: Product[],
+  tasks: Task[]
+): StockUsage | null | undefined => {
+  const product = getProductForTask(resolveEventTaskId(event, tasks), products);
+  if (!product) return undefined;
+  if (!event.quantity || !isSameUnit(event.unit, product)) return null;
+  return { productId: product.id, quantity: event.quantity };
+};
+
+// The level after a restock or stock take
+export const applyStockEntry = (level: number, entry: Pick<StockAdjustment, 'kind' | 'quantity'>) =>
+  entry.kind === 'count' ? entry.quantity : level + entry.quantity;
+
+// The levels that change when an application's usage goes from `previous` to `next`
+export const applyUsageChange = (
+  levels: Record<string, number>,
+  previous: StockUsage | null,
+  next: StockUsage | null
+) => {
+  const changed: Record<string, number> = {};
+  const levelOf = (productId: string) => changed[productId] ?? levels[productId] ?? 0;
+  if (previous) changed[previous.productId] = levelOf(previous.productId) + previous.quantity;
+  if (next) changed[next.productId] = levelOf(next.productId) - next.quantity;
+  return changed;
+};
+
+// The average of the latest quantities recorded for the product, or its usual quantity
+export const getQuantityPerApplication = (
+  product: Product,
+  products: Product[],
+  applications: ApplicationEvent[],
+  tasks: Task[]
+) => {
+  const recorded = applications
+    .filter(
+      (event) =>
+        event.quantity &&
+        isSameUnit(event.unit, product) &&
+        drawsFrom(resolveEventTaskId(event, tasks), product, products)
+    )
+    .sort((a, b) => b.timestampIso.localeCompare(a.timestampIso))
+    .slice(0, USAGE_SAMPLE_SIZE)
+    .map((event) => event.quantity as number);
+  if (recorded.length === 0) return product.usualQuantity;
+  return recorded.reduce((sum, quantity) => sum + quantity, 0) / recorded.length;
+};
+
+export type StockProjection = {
+  onHand: number;
+  perApplication?: number; // Unknown until a quantity is recorded or set as usual
+  applicationsLeft?: number;
+  runsOut?: { date: Date; taskId: string; bedId: string }; // The first upcoming application it can't cover
+  isLow: boolean;
+};
+
+// How long the stock lasts at the upcoming due dates of the treatments that use it
+export const projectStock = ({
+  product,
+  products,
+  onHand,
+  schedules,
+  applications,
+  tasks,
+  today,
+}: {
+  product: Product;
+  products: Product[]; // Every product, since a treatment only draws from the first listing it
+  onHand: number;
+  schedules: BedSchedule[];
+  applications: ApplicationEvent[];
+  tasks: Task[];
+  today: Date;
+}): StockProjection => {
+  const todayStart = startOfDay(today);
+  const horizon = addDays(todayStart, PROJECTION_DAYS);
+  const perApplication = getQuantityPerApplication(product, products, applications, tasks);
+
+  let runsOut: StockProjection['runsOut'];
+  if (perApplication) {
+    const upcoming: { date: Date; taskId: string; bedId: string }[] = [];
+    schedules.forEach((schedule) => {
+      schedule.tasks
+        .filter((task) => drawsFrom(task.id, product, products))
+        .forEach((task) => {
+          projectOccurrences(schedule, task, todayStart, horizon).forEach((date) =>
+            upcoming.push({ date, taskId: task.id, bedId: schedule.bed.id })
+          );
+        });
+    });
+    upcoming.sort((a, b) => a.date.getTime() - b.date.getTime());
+    runsOut = upcoming[Math.max(0, Math.floor(onHand / perApplication))];
+  }
+
+  return {
+    onHand,
+    perApplication,
+    applicationsLeft: perApplication ? Math.max(0, Math.floor(onHand / perApplication)) : undefined,
+    runsOut,
+    isLow:
+      (product.lowStockAt !== undefined && onHand <= product.lowStockAt) ||
+      (!!runsOut && runsOut.date <= addDays(todayStart, RUNS_OUT_WARNING_DAYS)),
+  };
+};
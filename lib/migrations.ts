@@ -0,0 +1,47 @@
+import { doc, getDoc, getDocs, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  applicationsCollection,
+  bedLastDatesDoc,
+  bedsCollection,
+  legacyLastDatesDoc,
+} from './collections';
+import { DEFAULT_BED } from './beds';
+import { toBatches } from './firestoreWrites';
+import { resolveEventTaskId, resolveLastDateKey } from './taskCatalog';
+import type { ApplicationEvent, Task } from './types';
+
+// Moves data from the single-garden layout into the default bed: creates the bed, copies the
+// garden-wide last-applied dates (re-keyed from label to task ID) and tags every existing
+// application with its bed and task. The legacy dates document is left in place.
+export const migrateToBeds = async (householdId: string, tasks: Task[]) => {
+  const { id: bedId, ...bedData } = DEFAULT_BED;
+
+  const legacySnapshot = await getDoc(legacyLastDatesDoc(householdId));
+  const lastDates: Record<string, string> = {};
+  if (legacySnapshot.exists()) {
+    Object.entries(legacySnapshot.data() as Record<string, string>).forEach(([key, iso]) => {
+      lastDates[resolveLastDateKey(key, tasks)] = iso;
+    });
+  }
+
+  const appSnapshot = await getDocs(applicationsCollection(householdId));
+  const untagged = appSnapshot.docs.filter((appDoc) => !appDoc.data().bedId);
+
+  for (const appBatch of toBatches(untagged)) {
+    const batch = writeBatch(db);
+    appBatch.forEach((appDoc) => {
+      const taskId = resolveEventTaskId(appDoc.data() as ApplicationEvent, tasks);
+      batch.update(appDoc.ref, { bedId, ...(taskId ? { taskId } : {}) });
+    });
+    await batch.commit();
+  }
+
+  // Written last so an interrupted migration runs again on the next load
+  const batch = writeBatch(db);
+  batch.set(bedLastDatesDoc(householdId, bedId), lastDates);
+  batch.set(doc(bedsCollection(householdId), bedId), bedData);
+  await batch.commit();
+
+  return { bed: DEFAULT_BED, lastDates };
+};
@@ -0,0 +1,198 @@
+import { deleteObject, getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { storage } from './firebase';
+import { getEventBedId } from './beds';
+import { addDays } from './dates';
+import { resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Observation, PhotoRef, Task } from './types';
+
+// The photo journal. Photos are compressed in the browser and kept by a `PhotoStore`: Cloud
+// Storage under `households/{householdId}/photos/` (see storage.rules), or IndexedDB on this
+// device only with NEXT_PUBLIC_PHOTO_STORE=local. What each photo shows is recorded as an
+// `Observation` in Firestore, on its own or linked to the application it was taken with.
+
+export interface PhotoStore {
+  put(path: string, image: Blob): Promise<void>;
+  getUrl(path: string): Promise<string>; // For an <img> src
+  remove(path: string): Promise<void>;
+}
+
+export const createStoragePhotoStore = (householdId: string): PhotoStore => {
+  const photoRef = (path: string) => ref(storage, `households/${householdId}/photos/${path}`);
+  return {
+    async put(path, image) {
+      await uploadBytes(photoRef(path), image, { contentType: image.type });
+    },
+    getUrl: (path) => getDownloadURL(photoRef(path)),
+    async remove(path) {
+      await deleteObject(photoRef(path));
+    },
+  };
+};
+
+// --- Photos kept on this device ---
+
+const LOCAL_DB_NAME = 'gardenify-photos';
+const LOCAL_STORE_NAME = 'photos';
+
+const openLocalDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(LOCAL_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(LOCAL_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runLocal = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const localDb = await openLocalDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(localDb.transaction(LOCAL_STORE_NAME, mode).objectStore(LOCAL_STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Other members of the household can't see these photos
+export const createLocalPhotoStore = (householdId: string): PhotoStore => {
+  const urls = new Map<string, string>(); // Object URLs already made, so each blob is read once
+  const key = (path: string) => `${householdId}/${path}`;
+  return {
+    async put(path, image) {
+      await runLocal('readwrite', (store) => store.put(image, key(path)));
+    },
+    async getUrl(path) {
+      const cached = urls.get(path);
+      if (cached) return cached;
+      const image = await runLocal<Blob | undefined>('readonly', (store) => store.get(key(path)));
+      if (!image) throw new Error(`Photo ${path} is not on this device`);
+      const url = URL.createObjectURL(image);
+      urls.set(path, url);
+      return url;
+    },
+    async remove(path) {
+      await runLocal('readwrite', (store) => store.delete(key(path)));
+      const cached = urls.get(path);
+      if (cached) URL.revokeObjectURL(cached);
+      urls.delete(path);
+    },
+  };
+};
+
+// --- Compression ---
+
+// Longest side of a stored photo, in pixels; phone photos shrink to a few hundred KB
+const MAX_PHOTO_DIMENSION = 1600;
+const PHOTO_QUALITY = 0.8;
+
+export const compressImage = async (file: Blob) => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_PHOTO_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const image = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', PHOTO_QUALITY));
+  if (!image) throw new Error('Could not compress the photo');
+  return { image, width, height };
+};
+
+// Compresses and stores the photos of an observation, named after it
+export const storePhotos = async (store: PhotoStore, observationId: string, files: File[]) => {
+  const photos: PhotoRef[] = [];
+  for (const [index, file] of files.entries()) {
+    const { image, width, height } = await compressImage(file);
+    const path = `${observationId}-${index}.jpg`;
+    await store.put(path, image);
+    photos.push({ path, width, height });
+  }
+  return photos;
+};
+
+// --- Timeline ---
+
+// How far from an application the standalone photos shown as its before and after can be
+const BEFORE_WINDOW_DAYS = 14;
+const AFTER_WINDOW_DAYS = 30;
+
+export type JournalEntry =
+  | {
+      kind: 'application';
+      timestampIso: string;
+      event: ApplicationEvent;
+      photos: PhotoRef[]; // Taken with the application
+      before?: Observation; // The latest photos of the bed in the two weeks before
+      after?: Observation; // The first photos of the bed in the month after
+    }
+  | { kind: 'observation'; timestampIso: string; observation: Observation };
+
+// Applications and observations of a bed, or of one treatment, newest first. Standalone
+// observations about another treatment aren't used as an application's before or after, and
+// photos linked to an application that isn't in `applications` (deleted, or older) stand alone.
+export const buildJournal = ({
+  applications,
+  observations,
+  tasks,
+  bedId,
+  taskId,
+}: {
+  applications: ApplicationEvent[];
+  observations: Observation[];
+  tasks: Task[];
+  bedId?: string; // Every bed when missing
+  taskId?: string; // Every treatment when missing
+}): JournalEntry[] => {
+  const applicationIds = new Set(applications.map((event) => event.id));
+  const inBed = (id: string) => !bedId || id === bedId;
+  const attached = new Map<string, PhotoRef[]>();
+  const standalone: Observation[] = [];
+  observations.forEach((observation) => {
+    if (observation.applicationId && applicationIds.has(observation.applicationId)) {
+      attached.set(observation.applicationId, [
+        ...(attached.get(observation.applicationId) ?? []),
+        ...observation.photos,
+      ]);
+    } else if (inBed(observation.bedId)) {
+      standalone.push(observation);
+    }
+  });
+
+  const applicationEntries = applications
+    .filter((event) => inBed(getEventBedId(event)))
+    .map((event): JournalEntry & { kind: 'application' } => {
+      const eventTaskId = resolveEventTaskId(event, tasks);
+      const applied = new Date(event.timestampIso);
+      const candidates = standalone.filter(
+        (observation) =>
+          observation.bedId === getEventBedId(event) &&
+          observation.photos.length > 0 &&
+          (!observation.taskId || observation.taskId === eventTaskId)
+      );
+      const beforeFrom = addDays(applied, -BEFORE_WINDOW_DAYS).toISOString();
+      const afterUntil = addDays(applied, AFTER_WINDOW_DAYS + 1).toISOString();
+      const before = candidates
+        .filter((o) => o.timestampIso <= event.timestampIso && o.timestampIso >= beforeFrom)
+        .sort((a, b) => b.timestampIso.localeCompare(a.timestampIso))[0];
+      const after = candidates
+        .filter((o) => o.timestampIso > event.timestampIso && o.timestampIso < afterUntil)
+        .sort((a, b) => a.timestampIso.localeCompare(b.timestampIso))[0];
+      return {
+        kind: 'application',
+        timestampIso: event.timestampIso,
+        event,
+        photos: attached.get(event.id ?? '') ?? [],
+        before,
+        after,
+      };
+    })
+    .filter((entry) => !taskId || resolveEventTaskId(entry.event, tasks) === taskId);
+
+  const observationEntries = standalone
+    .filter((observation) => !taskId || observation.taskId === taskId)
+    .map((observation): JournalEntry => ({ kind: 'observation', timestampIso: observation.timestampIso, observation }));
+
+  return [...applicationEntries, ...observationEntries].sort((a, b) => b.timestampIso.localeCompare(a.timestampIso));
+};
@@ -0,0 +1,206 @@
+import { toDateKey } from './dates';
+import { createReadableId } from './ids';
+import { parseCycleDay } from './recurrence';
+import { DEFAULT_TASKS } from './taskCatalog';
+import type { Bed, BedProgram, PlantProfile, Task } from './types';
+
+// Plant profiles are treatment programs for a crop. Assigning one to a bed sets the bed's
+// treatments, intervals and cycle days from the profile, adding any task it needs to the
+// catalog. The bed keeps that program, with any later edits, until a member updates it to a
+// newer version of the profile; the edits are then made again on the new version's program.
+
+// Tasks used by the default profiles that the original program didn't have. They are added to
+// the catalog the first time a bed is set up with a profile that uses them.
+export const PROFILE_TASKS: Omit<Task, 'order'>[] = [
+  { id: 'rose-bone-meal', label: 'Bone Meal 🦴', dayLabel: 'Day 20', icon: 'sprout', category: 'fertilizer', applyIntervalDays: 45 },
+  { id: 'chili-micronutrients', label: 'Micronutrient Spray 💧', dayLabel: 'Day 10', icon: 'flask', category: 'fertilizer', applyIntervalDays: 15 },
+  { id: 'tomato-calcium-spray', label: 'Calcium Spray 🍅', dayLabel: 'Day 8', icon: 'flask', category: 'fertilizer', applyIntervalDays: 10 },
+  { id: 'lawn-mowing', label: 'Mowing 🌾', dayLabel: 'Day 1', icon: 'wheat', category: 'other', applyIntervalDays: 7 },
+  { id: 'lawn-fertilizer', label: 'Lawn Fertilizer 🌱', dayLabel: 'Day 15', icon: 'sprout', category: 'fertilizer', applyIntervalDays: 45 },
+  { id: 'lawn-weed-control', label: 'Weed Control 🌿', dayLabel: 'Day 20', icon: 'shovel', category: 'pest-control', applyIntervalDays: 60 },
+];
+
+// Seeds an empty `profiles` collection
+export const DEFAULT_PROFILES: PlantProfile[] = [
+  {
+    id: 'classic',
+    name: 'Classic 30-day program',
+    treatments: DEFAULT_TASKS.map((task) => ({ taskId: task.id })),
+    version: 1,
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    order: 0,
+  },
+  {
+    id: 'rose',
+    name: 'Rose',
+    treatments: [
+      { taskId: 'pest-control-neem', applyIntervalDays: 7, cycleDay: 1 },
+      { taskId: 'mustard-fertilizer', applyIntervalDays: 15, cycleDay: 5 },
+      { taskId: 'fungicide-amistar-top', applyIntervalDays: 14, cycleDay: 10 },
+      { taskId: 'rose-bone-meal', cycleDay: 20 },
+    ],
+    version: 1,
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    order: 1,
+  },
+  {
+    id: 'chili',
+    name: 'Chili',
+    treatments: [
+      { taskId: 'pest-control-neem', applyIntervalDays: 7, cycleDay: 1 },
+      { taskId: 'mustard-fertilizer', applyIntervalDays: 20, cycleDay: 5 },
+      { taskId: 'chili-micronutrients', cycleDay: 10 },
+      { taskId: 'fungicide-masnsar', applyIntervalDays: 21, cycleDay: 14 },
+    ],
+    version: 1,
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    order: 2,
+  },
+  {
+    id: 'tomato',
+    name: 'Tomato',
+    treatments: [
+      { taskId: 'pest-control-neem', applyIntervalDays: 7, cycleDay: 1 },
+      { taskId: 'cow-dung-vermicompost', cycleDay: 3 },
+      { taskId: 'tomato-calcium-spray', cycleDay: 8 },
+      { taskId: 'fungicide-amistar-top', applyIntervalDays: 14, cycleDay: 12 },
+    ],
+    version: 1,
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    order: 3,
+  },
+  {
+    id: 'lawn',
+    name: 'Lawn',
+    treatments: [{ taskId: 'lawn-mowing' }, { taskId: 'lawn-fertilizer' }, { taskId: 'lawn-weed-control' }],
+    version: 1,
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    order: 4,
+  },
+];
+
+export const createProfileId = (name: string, existing: PlantProfile[]) =>
+  createReadableId(name, existing.map((profile) => profile.id), 'profile');
+
+// The newer version of a bed's profile, when there is one
+export const getProfileUpdate = (bed: Bed, profiles: PlantProfile[]) => {
+  const profile = bed.profile && profiles.find((p) => p.id === bed.profile?.id);
+  return profile && bed.profile && profile.version > bed.profile.version ? profile : undefined;
+};
+
+// The edits made to a bed since its profile set it up: treatments added or removed, and
+// intervals and cycle days changed (null where an override was removed). Beds set up before
+// `applied` was recorded count every override they have as an edit.
+export const getProgramEdits = (bed: Bed) => {
+  const applied = bed.profile?.applied ?? { taskIds: bed.taskIds };
+  const diff = (current: Record<string, number> = {}, original: Record<string, number> = {}) =>
+    Object.fromEntries(
+      [...new Set([...Object.keys(current), ...Object.keys(original)])]
+        .filter((taskId) => current[taskId] !== original[taskId])
+        .map((taskId) => [taskId, current[taskId] ?? null])
+    ) as Record<string, number | null>;
+  return {
+    addedTaskIds: (bed.taskIds ?? []).filter((taskId) => !applied.taskIds?.includes(taskId)),
+    removedTaskIds: (applied.taskIds ?? []).filter((taskId) => bed.taskIds && !bed.taskIds.includes(taskId)),
+    intervalOverrides: diff(bed.intervalOverrides, applied.intervalOverrides),
+    cycleDays: diff(bed.cycleDays, applied.cycleDays),
+  };
+};
+
+// Task IDs whose treatment, interval or cycle day was edited in the bed since its profile set it up
+export const getEditedTaskIds = (bed: Bed) => {
+  const edits = getProgramEdits(bed);
+  return [
+    ...new Set([
+      ...edits.addedTaskIds,
+      ...edits.removedTaskIds,
+      ...Object.keys(edits.intervalOverrides),
+      ...Object.keys(edits.cycleDays),
+    ]),
+  ];
+};
+
+// Makes the edits again on top of a new program
+const mergeOverrides = (program: Record<string, number>, edits: Record<string, number | null>) => {
+  const merged = { ...program };
+  Object.entries(edits).forEach(([taskId, value]) => {
+    if (value === null) {
+      delete merged[taskId];
+    } else {
+      merged[taskId] = value;
+    }
+  });
+  return Object.keys(merged).length > 0 ? merged : undefined;
+};
+
+// Sets a bed's program from a profile. Moving a bed to a newer version of its profile keeps the
+// edits made since it was set up (see `getProgramEdits`); picking another profile replaces the
+// program. Returns the updated bed and the catalog tasks to save: tasks the catalog didn't have
+// yet, and archived ones brought back.
+export const applyProfile = ({
+  bed,
+  profile,
+  tasks,
+  today,
+}: {
+  bed: Bed;
+  profile: PlantProfile;
+  tasks: Task[]; // Full catalog
+  today: Date;
+}) => {
+  const templates = [...DEFAULT_TASKS, ...PROFILE_TASKS];
+  let nextOrder = tasks.reduce((max, task) => Math.max(max, task.order + 1), 0);
+  const savedTasks: Task[] = [];
+  const taskIds: string[] = [];
+  const intervalOverrides: Record<string, number> = {};
+  const cycleDays: Record<string, number> = {};
+
+  profile.treatments.forEach(({ taskId, applyIntervalDays, cycleDay }) => {
+    let task = tasks.find((t) => t.id === taskId);
+    if (!task) {
+      const template = templates.find((t) => t.id === taskId);
+      if (!template) return;
+      task = { ...template, order: nextOrder++ };
+      savedTasks.push(task);
+    } else if (task.archived) {
+      task = { ...task, archived: false };
+      savedTasks.push(task);
+    }
+    taskIds.push(taskId);
+    if (applyIntervalDays !== undefined && applyIntervalDays !== task.applyIntervalDays) {
+      intervalOverrides[taskId] = applyIntervalDays;
+    }
+    if (cycleDay !== undefined && cycleDay !== parseCycleDay(task.dayLabel)) {
+      cycleDays[taskId] = cycleDay;
+    }
+  });
+
+  const applied: BedProgram = {
+    taskIds,
+    intervalOverrides: Object.keys(intervalOverrides).length > 0 ? intervalOverrides : undefined,
+    cycleDays: Object.keys(cycleDays).length > 0 ? cycleDays : undefined,
+  };
+  let program = applied;
+  if (bed.profile?.id === profile.id) {
+    const edits = getProgramEdits(bed);
+    program = {
+      taskIds: bed.taskIds
+        ? [
+            ...taskIds.filter((taskId) => !edits.removedTaskIds.includes(taskId)),
+            ...edits.addedTaskIds.filter((taskId) => !taskIds.includes(taskId)),
+          ]
+        : undefined, // The bed was switched to every treatment
+      intervalOverrides: mergeOverrides(intervalOverrides, edits.intervalOverrides),
+      cycleDays: mergeOverrides(cycleDays, edits.cycleDays),
+    };
+  }
+
+  const updated: Bed = {
+    ...bed,
+    ...program,
+    profile: { id: profile.id, version: profile.version, applied },
+    // Cycle days count from the season start, so a new program starts today
+    seasonStart: bed.seasonStart ?? toDateKey(today),
+  };
+  return { bed: updated, savedTasks };
+};
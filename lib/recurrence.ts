@@ -0,0 +1,262 @@
+import { getEventBedId } from './beds';
+import type { BedSchedule } from './calendar';
+import { addDays, daysBetween, fromDateKey, startOfDay, toDateKey } from './dates';
+import { defaultI18n, type I18n } from './i18n';
+import { getLastAppliedIso, resolveEventTaskId } from './taskCatalog';
+import type { ApplicationEvent, Bed, RecurrenceRule, Task, YearlyRange } from './types';
+
+// When a task is next due. A task repeats every `applyIntervalDays` days after its last
+// application, or on fixed days of the month, and its `recurrence` rule can limit that to a
+// season window, pause it for part of the year or cap it per season. Members can also snooze
+// or skip a single occurrence (`Bed.deferrals`).
+
+export type ScheduleStatus = 'overdue' | 'due' | 'upcoming' | 'snoozed' | 'out-of-season' | 'complete';
+
+export type ScheduleState = {
+  status: ScheduleStatus;
+  dueDate?: Date; // Missing once the season's applications are done and there's no next season
+  daysUntil?: number;
+  reason?: string; // Why the task is snoozed, paused or done for the season
+};
+
+export const hasSchedule = (task: Task) =>
+  task.applyIntervalDays !== undefined || !!task.recurrence?.monthDays?.length;
+
+// "Day 15" -> 15; undefined for labels that aren't a cycle day
+export const parseCycleDay = (dayLabel: string) => {
+  const match = /day\s*(\d+)/i.exec(dayLabel);
+  return match ? Number(match[1]) : undefined;
+};
+
+// --- Yearly ranges ---
+
+export const isInYearlyRange = (date: Date, range: YearlyRange) => {
+  const monthDay = toDateKey(date).slice(5);
+  return range.start <= range.end
+    ? monthDay >= range.start && monthDay <= range.end
+    : monthDay >= range.start || monthDay <= range.end;
+};
+
+// The first date on or after `date` that falls on "MM-DD"
+const nextMonthDayOf = (date: Date, monthDay: string) => {
+  const [month, day] = monthDay.split('-').map(Number);
+  const thisYear = new Date(date.getFullYear(), month - 1, day);
+  return thisYear >= startOfDay(date) ? thisYear : new Date(date.getFullYear() + 1, month - 1, day);
+};
+
+// The last date on or before `date` that falls on "MM-DD"
+const previousMonthDayOf = (date: Date, monthDay: string) => {
+  const [month, day] = monthDay.split('-').map(Number);
+  const thisYear = new Date(date.getFullYear(), month - 1, day);
+  return thisYear <= startOfDay(date) ? thisYear : new Date(date.getFullYear() - 1, month - 1, day);
+};
+
+// --- Occurrences ---
+
+// Moves `date` past the rule's pauses and off-season, to the first day the task can be due
+export const nextAllowedDate = (rule: RecurrenceRule | undefined, date: Date) => {
+  let result = startOfDay(date);
+  // Each step lands on a range boundary, so a handful is enough unless the pauses cover the
+  // whole season, which would never settle
+  for (let i = 0; i < 8; i++) {
+    const pause = rule?.pauses?.find((p) => isInYearlyRange(result, p));
+    if (pause) {
+      result = addDays(nextMonthDayOf(result, pause.end), 1);
+    } else if (rule?.seasonWindow && !isInYearlyRange(result, rule.seasonWindow)) {
+      result = nextMonthDayOf(result, rule.seasonWindow.start);
+    } else {
+      break;
+    }
+  }
+  return result;
+};
+
+// The first of `monthDays` on or after `date`. Days past the end of a short month fall on its
+// last day, so "31" means the end of every month.
+const nextDayOfMonth = (date: Date, monthDays: number[]) => {
+  const from = startOfDay(date);
+  for (let month = from.getMonth(); ; month++) {
+    const lastDay = new Date(from.getFullYear(), month + 1, 0).getDate();
+    const candidates = monthDays
+      .map((day) => new Date(from.getFullYear(), month, Math.min(day, lastDay)))
+      .filter((candidate) => candidate >= from)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (candidates.length > 0) return candidates[0];
+  }
+};
+
+// The first occurrence on or after `date`
+const firstOccurrenceFrom = (task: Task, date: Date): Date => {
+  const monthDays = task.recurrence?.monthDays;
+  if (!monthDays?.length) return nextAllowedDate(task.recurrence, date);
+  let candidate = nextDayOfMonth(date, monthDays);
+  for (let i = 0; i < 8; i++) {
+    const allowed = nextAllowedDate(task.recurrence, candidate);
+    if (allowed.getTime() === candidate.getTime()) break;
+    candidate = nextDayOfMonth(allowed, monthDays);
+  }
+  return candidate;
+};
+
+// The occurrence that follows one on (or an application made on) `from`. It is always at least
+// a day later, even for an interval under a day that slipped past the editor, so the loops over
+// upcoming occurrences in the calendar, the feed and the stock projection always end.
+export const nextOccurrence = (task: Task, from: Date): Date | null => {
+  if (task.recurrence?.monthDays?.length) {
+    const monthDays = task.recurrence.monthDays.filter((day) => Number.isInteger(day) && day >= 1 && day <= 31);
+    if (monthDays.length === 0) return null;
+    return firstOccurrenceFrom({ ...task, recurrence: { ...task.recurrence, monthDays } }, addDays(from, 1));
+  }
+  if (task.applyIntervalDays === undefined || !Number.isFinite(task.applyIntervalDays)) return null;
+  return nextAllowedDate(task.recurrence, addDays(from, Math.max(1, Math.round(task.applyIntervalDays))));
+};
+
+// Start of the current season: the latest window start, or the bed's season start
+export const getSeasonStart = (task: Task, bed: Bed, today: Date) => {
+  const window = task.recurrence?.seasonWindow;
+  if (window) return previousMonthDayOf(today, window.start);
+  return bed.seasonStart ? fromDateKey(bed.seasonStart) : undefined;
+};
+
+// A season window lasts a year at most
+export const SEASON_LOOKBACK_DAYS = 366;
+
+// The earliest start of any current season in these beds, from which applications count towards
+// per-season limits: the start of the longest possible window, or an earlier bed season start
+export const getSeasonLookback = (beds: Bed[], today: Date) =>
+  beds.reduce((since, bed) => {
+    const seasonStart = bed.seasonStart ? fromDateKey(bed.seasonStart) : undefined;
+    return seasonStart && seasonStart < since ? seasonStart : since;
+  }, addDays(startOfDay(today), -SEASON_LOOKBACK_DAYS));
+
+const withDaysUntil = (state: ScheduleState, today: Date): ScheduleState =>
+  state.dueDate ? { ...state, daysUntil: daysBetween(today, state.dueDate) } : state;
+
+export const evaluateSchedule = ({
+  task,
+  bed,
+  lastAppliedIso,
+  applications,
+  tasks,
+  today,
+  i18n = defaultI18n,
+}: {
+  task: Task; // Effective task, with the bed's interval override applied
+  bed: Bed;
+  lastAppliedIso: string | null | undefined;
+  applications: ApplicationEvent[]; // Counted towards `maxPerSeason`
+  tasks: Task[]; // Used to resolve older events logged by label
+  today: Date;
+  i18n?: I18n; // For the reasons given
+}): ScheduleState | null => {
+  if (!hasSchedule(task)) return null;
+  const rule = task.recurrence;
+  const todayStart = startOfDay(today);
+
+  const pause = rule?.pauses?.find((p) => isInYearlyRange(todayStart, p));
+  if (pause || (rule?.seasonWindow && !isInYearlyRange(todayStart, rule.seasonWindow))) {
+    return withDaysUntil(
+      {
+        status: 'out-of-season',
+        dueDate: firstOccurrenceFrom(task, todayStart),
+        reason: pause?.reason || i18n.t('schedule.outOfSeason'),
+      },
+      todayStart
+    );
+  }
+
+  const seasonStart = getSeasonStart(task, bed, todayStart);
+  if (rule?.maxPerSeason !== undefined && seasonStart) {
+    const seasonStartIso = seasonStart.toISOString();
+    const count = applications.filter(
+      (appEvent) =>
+        getEventBedId(appEvent) === bed.id &&
+        resolveEventTaskId(appEvent, tasks) === task.id &&
+        appEvent.timestampIso >= seasonStartIso
+    ).length;
+    if (count >= rule.maxPerSeason) {
+      const nextSeason = rule.seasonWindow
+        ? firstOccurrenceFrom(task, nextMonthDayOf(addDays(todayStart, 1), rule.seasonWindow.start))
+        : undefined;
+      return withDaysUntil(
+        {
+          status: 'complete',
+          dueDate: nextSeason,
+          reason: i18n.t('schedule.seasonCount', { count, max: rule.maxPerSeason }),
+        },
+        todayStart
+      );
+    }
+  }
+
+  // Tasks on fixed days of the month are due from the first one, even if never applied, and
+  // other tasks never applied on their cycle day ("Day 15") counted from the bed's season start
+  const cycleDay = parseCycleDay(task.dayLabel);
+  let due = lastAppliedIso
+    ? nextOccurrence(task, new Date(lastAppliedIso))
+    : rule?.monthDays?.length
+      ? firstOccurrenceFrom(task, todayStart)
+      : bed.seasonStart && cycleDay
+        ? firstOccurrenceFrom(task, addDays(fromDateKey(bed.seasonStart), cycleDay - 1))
+        : null;
+  if (!due) return null;
+
+  // A deferral holds until an application moves the due date past the occurrence it was for
+  const deferral = bed.deferrals?.[task.id];
+  if (deferral && due <= fromDateKey(deferral.dueDate)) {
+    if (deferral.kind === 'skip') {
+      due = nextOccurrence(task, fromDateKey(deferral.dueDate)) ?? due;
+    } else if (deferral.until) {
+      due = fromDateKey(deferral.until);
+      if (due > todayStart) {
+        return withDaysUntil({ status: 'snoozed', dueDate: due, reason: deferral.reason }, todayStart);
+      }
+    }
+  }
+
+  const daysUntil = daysBetween(todayStart, due);
+  return {
+    status: daysUntil < 0 ? 'overdue' : daysUntil === 0 ? 'due' : 'upcoming',
+    dueDate: due,
+    daysUntil,
+  };
+};
+
+// `evaluateSchedule` for one of the tasks in a bed's schedule
+export const evaluateBedTask = (schedule: BedSchedule, task: Task, today: Date, i18n: I18n = defaultI18n) =>
+  evaluateSchedule({
+    task,
+    bed: schedule.bed,
+    lastAppliedIso: getLastAppliedIso(schedule.lastDates, task),
+    applications: schedule.applications,
+    tasks: schedule.tasks,
+    today,
+    i18n,
+  });
+
+// The due dates of a task in a bed from `today` to `until`, each as if the task were applied on
+// it, so a season's `maxPerSeason` ends the occurrences until the next season starts. A missed
+// due date is counted on today.
+export const projectOccurrences = (schedule: BedSchedule, task: Task, today: Date, until: Date) => {
+  const todayStart = startOfDay(today);
+  const occurrences: Date[] = [];
+  const applications = [...schedule.applications];
+  let due = evaluateBedTask(schedule, task, todayStart)?.dueDate;
+  if (due && due < todayStart) due = todayStart;
+  while (due && due <= until) {
+    occurrences.push(due);
+    const timestampIso = due.toISOString();
+    const { id: taskId, label, dayLabel } = task;
+    applications.push({ taskId, bedId: schedule.bed.id, label, dayLabel, timestampIso });
+    const next: Date | undefined = evaluateSchedule({
+      task,
+      bed: schedule.bed,
+      lastAppliedIso: timestampIso,
+      applications,
+      tasks: schedule.tasks,
+      today: due,
+    })?.dueDate;
+    due = next && next > due ? next : undefined;
+  }
+  return occurrences;
+};
@@ -0,0 +1,333 @@
+import { addDays, startOfDay, toDateKey, type BedSchedule } from './calendar';
+import { defaultI18n, type I18n } from './i18n';
+import { evaluateBedTask } from './recurrence';
+
+// Due-date reminders. The scheduling logic here is framework-free: it takes the schedules,
+// the current time and the device settings, and hands reminders to a `Notifier`. The page
+// uses the browser notifier; `createMemoryNotifier` is a stand-in for trying it out
+// without a push service or notification permission. While the app is closed, the service
+// worker sends the reminders the page planned for the days ahead (see "Background reminders").
+
+export type QuietHours = {
+  start: string; // "HH:MM", local time
+  end: string; // "HH:MM"; earlier than `start` for quiet hours that span midnight
+};
+
+// Per-device settings, kept in localStorage
+export type ReminderSettings = {
+  enabled: boolean;
+  quietHours?: QuietHours;
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  quietHours: { start: '21:00', end: '07:00' },
+};
+
+const SETTINGS_STORAGE_KEY = 'gardenify.reminderSettings';
+
+export const loadReminderSettings = (): ReminderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_REMINDER_SETTINGS;
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = (settings: ReminderSettings) =>
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+
+// Days before the due date to start reminding, when a task doesn't set its own
+export const DEFAULT_LEAD_DAYS = 1;
+
+export type ReminderKind = 'upcoming' | 'due' | 'overdue';
+
+export type Reminder = {
+  key: string; // Identifies the occurrence, so each one is only sent once
+  kind: ReminderKind;
+  bedId: string;
+  taskId: string;
+  dueDate: string; // "YYYY-MM-DD"
+  title: string;
+  body: string;
+};
+
+export interface Notifier {
+  notify(reminder: Reminder): Promise<void>;
+}
+
+// Remembers which reminders were already sent
+export interface SentReminderStore {
+  has(key: string): boolean;
+  add(key: string): void;
+}
+
+const toMinutes = (hhmm: string) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinQuietHours = (now: Date, quietHours?: QuietHours) => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+// Reminders that apply right now, whether or not they were already sent
+export const computeReminders = (schedules: BedSchedule[], now: Date, i18n: I18n = defaultI18n): Reminder[] => {
+  const today = startOfDay(now);
+  const reminders: Reminder[] = [];
+
+  schedules.forEach((schedule) => {
+    const { bed, tasks, lastDates } = schedule;
+    tasks.forEach((task) => {
+      // Snoozed, paused and finished tasks stay quiet until they are due again
+      const state = evaluateBedTask(schedule, task, today);
+      if (!state?.dueDate || state.daysUntil === undefined) return;
+      if (state.status === 'snoozed' || state.status === 'out-of-season' || state.status === 'complete') {
+        return;
+      }
+
+      const { daysUntil } = state;
+      const leadDays = task.reminderLeadDays ?? DEFAULT_LEAD_DAYS;
+
+      let kind: ReminderKind;
+      let title: string;
+      if (daysUntil < 0) {
+        kind = 'overdue';
+        title = i18n.t('reminder.overdue', { task: task.label });
+      } else if (daysUntil === 0) {
+        kind = 'due';
+        title = i18n.t('reminder.due', { task: task.label });
+      } else if (daysUntil <= leadDays) {
+        kind = 'upcoming';
+        title = i18n.t('reminder.upcoming', { task: task.label, relative: i18n.formatRelativeDays(daysUntil) });
+      } else {
+        return;
+      }
+
+      const dueDate = toDateKey(state.dueDate);
+      const lastAppliedIso = lastDates[task.id] ?? lastDates[task.label];
+      reminders.push({
+        key: `${bed.id}:${task.id}:${dueDate}:${kind}`,
+        kind,
+        bedId: bed.id,
+        taskId: task.id,
+        dueDate,
+        title,
+        body: lastAppliedIso
+          ? i18n.t('reminder.lastApplied', { bed: bed.name, date: i18n.formatDate(lastAppliedIso) })
+          : bed.name,
+      });
+    });
+  });
+
+  return reminders;
+};
+
+// Sends the reminders that are due and not sent yet. Outside quiet hours only: anything
+// held back is sent by the first check after they end.
+export const runReminderCheck = async ({
+  schedules,
+  now,
+  settings,
+  notifier,
+  store,
+  i18n,
+}: {
+  schedules: BedSchedule[];
+  now: Date;
+  settings: ReminderSettings;
+  notifier: Notifier;
+  store: SentReminderStore;
+  i18n?: I18n; // Language of the reminder text
+}) => {
+  if (!settings.enabled || isWithinQuietHours(now, settings.quietHours)) return [];
+
+  const sent: Reminder[] = [];
+  for (const reminder of computeReminders(schedules, now, i18n)) {
+    if (store.has(reminder.key)) continue;
+    await notifier.notify(reminder);
+    store.add(reminder.key);
+    sent.push(reminder);
+  }
+  return sent;
+};
+
+// --- Notifiers ---
+
+// Shows notifications through the service worker, so they work on mobile PWAs
+export const createBrowserNotifier = (): Notifier => ({
+  async notify(reminder) {
+    const options: NotificationOptions = {
+      body: reminder.body,
+      tag: reminder.key,
+      icon: '/icons/icon-192x192.png',
+      data: { url: '/' },
+    };
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) {
+      await registration.showNotification(reminder.title, options);
+    } else {
+      new Notification(reminder.title, options);
+    }
+  },
+});
+
+// Local stand-in that records reminders instead of showing them
+export const createMemoryNotifier = (log: (reminder: Reminder) => void = console.info) => {
+  const sent: Reminder[] = [];
+  const notifier: Notifier & { sent: Reminder[] } = {
+    sent,
+    async notify(reminder) {
+      sent.push(reminder);
+      log(reminder);
+    },
+  };
+  return notifier;
+};
+
+// --- Sent reminder stores ---
+
+const SENT_STORAGE_KEY = 'gardenify.sentReminders';
+const MAX_SENT_KEYS = 500;
+
+export const createLocalStorageStore = (): SentReminderStore => {
+  const read = (): string[] => JSON.parse(localStorage.getItem(SENT_STORAGE_KEY) ?? '[]');
+  return {
+    has: (key) => read().includes(key),
+    add: (key) =>
+      localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify([...read(), key].slice(-MAX_SENT_KEYS))),
+  };
+};
+
+export const createMemoryStore = (): SentReminderStore => {
+  const keys = new Set<string>();
+  return { has: (key) => keys.has(key), add: (key) => void keys.add(key) };
+};
+
+// --- Background reminders ---
+
+// The page can't run while the app is closed, so each check also plans the reminders of the
+// coming days and leaves them in IndexedDB. Where Periodic Background Sync is available (an
+// installed app in Chromium browsers), the service worker (worker/index.js) wakes up every few
+// hours and sends the planned reminders whose day has come. The plan is only as fresh as the
+// last time the app was open: an application logged since on another device doesn't cancel it.
+// Whatever the worker sent is taken over by the page's store on the next check, so it isn't
+// sent twice. The names below are repeated in worker/index.js.
+
+const BACKGROUND_DB_NAME = 'gardenify-reminders';
+const BACKGROUND_STORE_NAME = 'plan';
+const BACKGROUND_PLAN_KEY = 'current';
+export const BACKGROUND_SYNC_TAG = 'gardenify-reminders';
+
+// How far ahead reminders are planned, and how often the worker asks to be woken up
+const BACKGROUND_PLAN_DAYS = 7;
+const BACKGROUND_SYNC_INTERVAL_MS = 1000 * 60 * 60 * 4;
+
+export type PlannedReminder = Reminder & {
+  notBeforeIso: string; // Start of the day the reminder applies from
+};
+
+export type BackgroundReminders = {
+  settings: ReminderSettings;
+  reminders: PlannedReminder[];
+  sentKeys: string[]; // Sent by the worker since the page last saved the plan
+};
+
+// The first reminder of each occurrence in the days after `now`, leaving out those already sent
+export const planReminders = (
+  schedules: BedSchedule[],
+  now: Date,
+  store: SentReminderStore,
+  i18n: I18n = defaultI18n,
+  days = BACKGROUND_PLAN_DAYS
+): PlannedReminder[] => {
+  const planned = new Map<string, PlannedReminder>();
+  for (let day = 1; day <= days; day++) {
+    const from = addDays(startOfDay(now), day);
+    computeReminders(schedules, from, i18n).forEach((reminder) => {
+      if (!store.has(reminder.key) && !planned.has(reminder.key)) {
+        planned.set(reminder.key, { ...reminder, notBeforeIso: from.toISOString() });
+      }
+    });
+  }
+  return [...planned.values()];
+};
+
+const openBackgroundDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(BACKGROUND_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(BACKGROUND_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Marks what the worker sent as sent in `store`, then leaves it the plan for the coming days.
+// Both happen in one transaction, so nothing the worker sends in between is lost.
+export const updateBackgroundReminders = async ({
+  schedules,
+  now,
+  settings,
+  store,
+  i18n,
+}: {
+  schedules: BedSchedule[];
+  now: Date;
+  settings: ReminderSettings;
+  store: SentReminderStore;
+  i18n?: I18n;
+}) => {
+  const idb = await openBackgroundDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = idb.transaction(BACKGROUND_STORE_NAME, 'readwrite');
+      const plans = transaction.objectStore(BACKGROUND_STORE_NAME);
+      const request = plans.get(BACKGROUND_PLAN_KEY);
+      request.onsuccess = () => {
+        const previous = request.result as BackgroundReminders | undefined;
+        previous?.sentKeys.forEach((key) => {
+          if (!store.has(key)) store.add(key);
+        });
+        const next: BackgroundReminders = {
+          settings,
+          reminders: settings.enabled ? planReminders(schedules, now, store, i18n) : [],
+          sentKeys: [],
+        };
+        plans.put(next, BACKGROUND_PLAN_KEY);
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    idb.close();
+  }
+};
+
+type PeriodicSyncManager = {
+  register(tag: string, options: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+};
+
+// Asks for the worker to be woken up while reminders are on. Resolves to whether reminders
+// can arrive in the background on this device.
+export const registerBackgroundReminders = async (enabled: boolean) => {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  const periodicSync = (registration as { periodicSync?: PeriodicSyncManager } | undefined)?.periodicSync;
+  if (!periodicSync) return false;
+  if (!enabled) {
+    await periodicSync.unregister(BACKGROUND_SYNC_TAG);
+    return false;
+  }
+  // Only granted to installed apps
+  const permission = await navigator.permissions
+    .query({ name: 'periodic-background-sync' as PermissionName })
+    .catch(() => null);
+  if (permission?.state !== 'granted') return false;
+  await periodicSync.register(BACKGROUND_SYNC_TAG, { minInterval: BACKGROUND_SYNC_INTERVAL_MS });
+  return true;
+};
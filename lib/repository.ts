@@ -0,0 +1,338 @@
+import type { ImportPlan } from './backup';
+import { DEFAULT_BED, getLatestApplicationIso } from './beds';
+import {
+  HISTORY_PAGE_SIZE,
+  matchesHistoryQuery,
+  type HistoryCursor,
+  type HistoryPage,
+  type HistoryQuery,
+} from './history';
+import { applyStockEntry, applyUsageChange, type StockAdjustment } from './inventory';
+import { DEFAULT_PROFILES } from './profiles';
+import { getRestoredDates, summarizeSeason } from './seasons';
+import { DEFAULT_TASKS } from './taskCatalog';
+import type {
+  ApplicationEvent,
+  Bed,
+  Observation,
+  PlantProfile,
+  Product,
+  SeasonArchive,
+  StockEntry,
+  StockUsage,
+  Task,
+} from './types';
+
+// Storage for one household's garden. The page, the sync queue and the API routes read and
+// write the garden only through these interfaces: `createFirestoreRepository`
+// (lib/firestoreRepository.ts) is the app's, `createAdminRepository`
+// (lib/server/adminRepository.ts) the API routes', and `createMemoryRepository` keeps
+// everything in memory, for the tests. Signing in and joining a household (lib/households.ts),
+// and the one-off migrations the Firestore repository runs, still use Firestore directly.
+
+export type Unsubscribe = () => void;
+
+export type StoredApplication = ApplicationEvent & { id: string };
+
+export interface GardenRepository {
+  readonly householdId: string;
+  // The task catalog, beds, plant profiles and products, in order, seeded with the default
+  // program and profiles on first run
+  loadGarden(): Promise<{ tasks: Task[]; beds: Bed[]; profiles: PlantProfile[]; products: Product[] }>;
+  saveTask(task: Task): Promise<void>;
+  saveBed(bed: Bed): Promise<void>;
+  saveProfile(profile: PlantProfile): Promise<void>;
+  saveProduct(product: Product): Promise<void>;
+  // An ID for a new application, generated up front so replaying a write can't duplicate it
+  newApplicationId(): string;
+  // Every application, newest first
+  listApplications(): Promise<ApplicationEvent[]>;
+  // Applications logged since `since`, newest first. `confirmed` is false while the data only
+  // comes from the offline cache.
+  watchApplications(
+    since: Date,
+    onChange: (applications: ApplicationEvent[], confirmed: boolean) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  watchLastDates(
+    bedId: string,
+    onChange: (lastDates: Record<string, string>) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  putApplication(event: StoredApplication): Promise<void>;
+  deleteApplication(id: string): Promise<void>;
+  // Moves a task's last-applied date forward to `timestampIso`, never back, and returns the
+  // date now stored. Another device may have logged a later application meanwhile.
+  advanceLastDate(bedId: string, taskId: string, timestampIso: string): Promise<string>;
+  // Recomputes a task's last-applied date from the bed's remaining history, after an
+  // application was back-dated or deleted; null once none is left
+  recomputeLastDate(bedId: string, taskId: string): Promise<string | null>;
+  // Deletes every application and last-applied date, keeping the catalog and beds
+  resetHistory(bedIds: string[]): Promise<void>;
+  // How much of each product is left, by product ID (see lib/inventory.ts)
+  watchStockLevels(
+    onChange: (levels: Record<string, number>) => void,
+    onError: (error: Error) => void
+  ): Unsubscribe;
+  // Restocks, stock takes and usage, newest first
+  listStockEntries(): Promise<StockEntry[]>;
+  addStockEntry(entry: StockAdjustment): Promise<void>;
+  // Records what an application used, or null for nothing, undoing what it was recorded as
+  // using before. Replaying the same usage leaves the stock unchanged.
+  recordStockUsage(applicationId: string, usage: StockUsage | null, timestampIso: string): Promise<void>;
+  // Photo journal entries, newest first (see lib/photos.ts). IDs are generated up front so the
+  // photos can be stored under them before the entry is saved.
+  newObservationId(): string;
+  listObservations(): Promise<Observation[]>;
+  saveObservation(observation: Observation): Promise<void>;
+  deleteObservation(id: string): Promise<void>;
+}
+
+// What the app's views need besides the garden itself: the full history a page at a time,
+// imports and seasons (see lib/history.ts, lib/backup.ts and lib/seasons.ts)
+export interface AppRepository extends GardenRepository {
+  // Applications matching `filter`, newest first, continuing after the previous page's cursor
+  listHistoryPage(filter: HistoryQuery, cursor?: HistoryCursor | null): Promise<HistoryPage>;
+  // Writes what `planImport` found to add. Applications are written before the last-applied
+  // dates that point at them.
+  importGarden(plan: ImportPlan): Promise<void>;
+  // Closed seasons, newest first
+  listSeasons(): Promise<SeasonArchive[]>;
+  // A closed season's applications, newest first
+  listSeasonApplications(seasonId: string): Promise<ApplicationEvent[]>;
+  // Archives every application and last-applied date under a new season, leaving a clean slate
+  closeSeason(details: { name: string; closedByName?: string }, bedIds: string[]): Promise<SeasonArchive>;
+  // Moves a closed season's history back, next to anything logged since
+  restoreSeason(season: SeasonArchive): Promise<void>;
+}
+
+export type ApplicationChange = {
+  kind: 'add' | 'update' | 'delete';
+  event: StoredApplication & { bedId: string };
+  updatesLastDate: boolean; // Whether the task has a schedule tracked in `lastApplicationDates`
+  stockUsage?: StockUsage | null; // Missing when the task uses no tracked product
+};
+
+// Writes an application change and keeps the task's last-applied date and stock in step. Returns the
+// date now stored when it is tracked, null once the task has no history left in the bed.
+export const writeApplicationChange = async (
+  repository: GardenRepository,
+  { kind, event, updatesLastDate, stockUsage }: ApplicationChange
+) => {
+  if (kind === 'delete') {
+    await repository.deleteApplication(event.id);
+  } else {
+    await repository.putApplication(event);
+  }
+  if (stockUsage !== undefined) {
+    await repository.recordStockUsage(event.id, kind === 'delete' ? null : stockUsage, event.timestampIso);
+  }
+
+  if (!updatesLastDate || !event.taskId) return undefined;
+  return kind === 'add'
+    ? repository.advanceLastDate(event.bedId, event.taskId, event.timestampIso)
+    : repository.recomputeLastDate(event.bedId, event.taskId);
+};
+
+// --- In memory ---
+
+export const createMemoryRepository = (
+  householdId = 'local',
+  seed: {
+    tasks?: Task[];
+    beds?: Bed[];
+    profiles?: PlantProfile[];
+    products?: Product[];
+    applications?: StoredApplication[];
+  } = {}
+) => {
+  const tasks = new Map((seed.tasks ?? []).map((task) => [task.id, task]));
+  const beds = new Map((seed.beds ?? []).map((bed) => [bed.id, bed]));
+  const profiles = new Map((seed.profiles ?? []).map((profile) => [profile.id, profile]));
+  const products = new Map((seed.products ?? []).map((product) => [product.id, product]));
+  const stockEntries = new Map<string, StockEntry>();
+  const observations = new Map<string, Observation>();
+  let stockLevels: Record<string, number> = {};
+  const applications = new Map((seed.applications ?? []).map((event) => [event.id, event]));
+  const lastDates = new Map<string, Record<string, string>>();
+  const seasons = new Map<string, { season: SeasonArchive; applications: StoredApplication[] }>();
+  const listeners = new Set<() => void>();
+  let nextId = 1;
+
+  const byOrder = <T extends { order: number }>(items: Iterable<T>) =>
+    [...items].sort((a, b) => a.order - b.order);
+  const newestFirst = (events: ApplicationEvent[]) =>
+    events.sort((a, b) => b.timestampIso.localeCompare(a.timestampIso));
+  // Listeners are called asynchronously, like Firestore's
+  const notify = () => listeners.forEach((listener) => queueMicrotask(listener));
+  const watch = (listener: () => void): Unsubscribe => {
+    listeners.add(listener);
+    queueMicrotask(listener);
+    return () => void listeners.delete(listener);
+  };
+  const setLastDate = (bedId: string, taskId: string, iso: string | null) => {
+    const dates = { ...lastDates.get(bedId) };
+    if (iso) {
+      dates[taskId] = iso;
+    } else {
+      delete dates[taskId];
+    }
+    lastDates.set(bedId, dates);
+  };
+
+  const repository: AppRepository = {
+    householdId,
+    async loadGarden() {
+      if (tasks.size === 0) DEFAULT_TASKS.forEach((task) => tasks.set(task.id, task));
+      if (beds.size === 0) beds.set(DEFAULT_BED.id, DEFAULT_BED);
+      if (profiles.size === 0) DEFAULT_PROFILES.forEach((profile) => profiles.set(profile.id, profile));
+      return {
+        tasks: byOrder(tasks.values()),
+        beds: byOrder(beds.values()),
+        profiles: byOrder(profiles.values()),
+        products: byOrder(products.values()),
+      };
+    },
+    async saveTask(task) {
+      tasks.set(task.id, task);
+    },
+    async saveBed(bed) {
+      beds.set(bed.id, bed);
+    },
+    async saveProfile(profile) {
+      profiles.set(profile.id, profile);
+    },
+    async saveProduct(product) {
+      products.set(product.id, product);
+    },
+    newApplicationId: () => `local-${nextId++}`,
+    async listApplications() {
+      return newestFirst([...applications.values()]);
+    },
+    watchApplications(since, onChange) {
+      const sinceIso = since.toISOString();
+      return watch(() =>
+        onChange(
+          newestFirst([...applications.values()].filter((event) => event.timestampIso >= sinceIso)),
+          true
+        )
+      );
+    },
+    watchLastDates(bedId, onChange) {
+      return watch(() => onChange(lastDates.get(bedId) ?? {}));
+    },
+    async putApplication(event) {
+      applications.set(event.id, event);
+      notify();
+    },
+    async deleteApplication(id) {
+      applications.delete(id);
+      notify();
+    },
+    async advanceLastDate(bedId, taskId, timestampIso) {
+      const current = lastDates.get(bedId)?.[taskId];
+      if (current && current >= timestampIso) return current;
+      setLastDate(bedId, taskId, timestampIso);
+      notify();
+      return timestampIso;
+    },
+    async recomputeLastDate(bedId, taskId) {
+      const latestIso = getLatestApplicationIso(
+        [...applications.values()],
+        bedId,
+        taskId,
+        [...tasks.values()]
+      );
+      setLastDate(bedId, taskId, latestIso);
+      notify();
+      return latestIso;
+    },
+    async resetHistory() {
+      applications.clear();
+      lastDates.clear();
+      notify();
+    },
+    watchStockLevels(onChange) {
+      return watch(() => onChange(stockLevels));
+    },
+    async listStockEntries() {
+      return [...stockEntries.values()].sort((a, b) => b.timestampIso.localeCompare(a.timestampIso));
+    },
+    async addStockEntry(entry) {
+      const id = `local-${nextId++}`;
+      stockEntries.set(id, { ...entry, id });
+      stockLevels = { ...stockLevels, [entry.productId]: applyStockEntry(stockLevels[entry.productId] ?? 0, entry) };
+      notify();
+    },
+    async recordStockUsage(applicationId, usage, timestampIso) {
+      const previous = stockEntries.get(applicationId) ?? null;
+      stockLevels = { ...stockLevels, ...applyUsageChange(stockLevels, previous, usage) };
+      if (usage) {
+        stockEntries.set(applicationId, { ...usage, id: applicationId, kind: 'use', timestampIso });
+      } else {
+        stockEntries.delete(applicationId);
+      }
+      notify();
+    },
+    newObservationId: () => `local-${nextId++}`,
+    async listObservations() {
+      return [...observations.values()].sort((a, b) => b.timestampIso.localeCompare(a.timestampIso));
+    },
+    async saveObservation(observation) {
+      observations.set(observation.id, observation);
+    },
+    async deleteObservation(id) {
+      observations.delete(id);
+    },
+    async listHistoryPage(filter, cursor) {
+      const matching = newestFirst(
+        [...applications.values()].filter((event) => matchesHistoryQuery(event, filter))
+      );
+      // The cursor is how many applications the earlier pages held
+      const start = typeof cursor === 'number' ? cursor : 0;
+      const end = start + HISTORY_PAGE_SIZE;
+      return { events: matching.slice(start, end), cursor: end, hasMore: matching.length > end };
+    },
+    async importGarden(plan) {
+      plan.tasks.forEach((task) => tasks.set(task.id, task));
+      plan.beds.forEach((bed) => beds.set(bed.id, bed));
+      plan.applications.forEach((event) => applications.set(event.id, event));
+      Object.entries(plan.lastDateChanges).forEach(([bedId, dates]) =>
+        Object.entries(dates).forEach(([taskId, iso]) => setLastDate(bedId, taskId, iso))
+      );
+      notify();
+    },
+    async listSeasons() {
+      return [...seasons.values()]
+        .map(({ season }) => season)
+        .sort((a, b) => b.closedAtIso.localeCompare(a.closedAtIso));
+    },
+    async listSeasonApplications(seasonId) {
+      return newestFirst([...(seasons.get(seasonId)?.applications ?? [])]);
+    },
+    async closeSeason({ name, closedByName }, bedIds) {
+      const archived = [...applications.values()];
+      const season = summarizeSeason(
+        { id: `season-${nextId++}`, name, closedAtIso: new Date().toISOString(), closedByName },
+        archived,
+        Object.fromEntries(bedIds.map((bedId) => [bedId, lastDates.get(bedId) ?? {}]))
+      );
+      seasons.set(season.id, { season, applications: archived });
+      applications.clear();
+      lastDates.clear();
+      notify();
+      return season;
+    },
+    async restoreSeason(season) {
+      seasons.get(season.id)?.applications.forEach((event) => applications.set(event.id, event));
+      Object.entries(season.lastDates).forEach(([bedId, archived]) =>
+        Object.entries(getRestoredDates(lastDates.get(bedId) ?? {}, archived)).forEach(([taskId, iso]) =>
+          setLastDate(bedId, taskId, iso)
+        )
+      );
+      seasons.delete(season.id);
+      notify();
+    },
+  };
+  return repository;
+};
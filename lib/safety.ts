@@ -0,0 +1,99 @@
+import { addDays, daysBetween, fromDateKey, startOfDay } from './calendar';
+import { defaultI18n, type I18n } from './i18n';
+import type { Bed, Task } from './types';
+
+// Chemical safety rules checked before an application is logged:
+// - minimum gap: warns when another task was applied fewer than N days before or after
+// - do not mix: blocks two tasks on the same day
+// - pre-harvest interval: blocks a task within N days before the bed's harvest date
+
+export type RuleViolation = {
+  severity: 'warn' | 'block';
+  kind: 'min-gap' | 'do-not-mix' | 'pre-harvest';
+  message: string;
+  safeFrom: Date; // First day the rule no longer applies
+};
+
+type SafetyContext = {
+  task: Task;
+  bed: Bed;
+  bedTasks: Task[]; // The other tasks scheduled in the bed
+  latestApplied: Record<string, string>; // Latest application per task ID in the bed
+};
+
+// Rules configured on either task of the pair apply, taking the stricter gap
+const getMinGap = (a: Task, b: Task) => Math.max(a.minGapDays?.[b.id] ?? 0, b.minGapDays?.[a.id] ?? 0);
+
+const isDoNotMix = (a: Task, b: Task) =>
+  !!a.doNotMixWith?.includes(b.id) || !!b.doNotMixWith?.includes(a.id);
+
+export const checkApplication = (
+  { task, bed, bedTasks, latestApplied }: SafetyContext,
+  at: Date,
+  i18n: I18n = defaultI18n // Language of the messages
+): RuleViolation[] => {
+  const day = startOfDay(at);
+  const violations: RuleViolation[] = [];
+
+  bedTasks.forEach((other) => {
+    const otherIso = latestApplied[other.id];
+    if (other.id === task.id || !otherIso) return;
+    const otherDay = startOfDay(new Date(otherIso));
+    const gap = Math.abs(daysBetween(otherDay, day));
+
+    if (isDoNotMix(task, other) && gap === 0) {
+      violations.push({
+        severity: 'block',
+        kind: 'do-not-mix',
+        message: i18n.t('safety.doNotMix', { task: task.label, other: other.label }),
+        safeFrom: addDays(otherDay, 1),
+      });
+    }
+
+    const minGap = getMinGap(task, other);
+    if (gap < minGap) {
+      violations.push({
+        severity: 'warn',
+        kind: 'min-gap',
+        message: i18n.t('safety.minGap', {
+          other: other.label,
+          when: i18n.formatRelativeDays(-gap),
+          gap: i18n.formatDays(minGap),
+          task: task.label,
+        }),
+        safeFrom: addDays(otherDay, minGap),
+      });
+    }
+  });
+
+  if (bed.harvestDate && task.preHarvestIntervalDays) {
+    const harvest = fromDateKey(bed.harvestDate);
+    const daysToHarvest = daysBetween(day, harvest);
+    if (daysToHarvest >= 0 && daysToHarvest < task.preHarvestIntervalDays) {
+      violations.push({
+        severity: 'block',
+        kind: 'pre-harvest',
+        message: i18n.t('safety.preHarvest', {
+          task: task.label,
+          interval: i18n.formatDays(task.preHarvestIntervalDays),
+          bed: bed.name,
+          when: i18n.formatRelativeDays(daysToHarvest),
+        }),
+        safeFrom: addDays(harvest, 1),
+      });
+    }
+  }
+
+  return violations;
+};
+
+// First day from `today` on which applying the task breaks no rule, or null if that's today
+export const getSafeToApplyFrom = (context: SafetyContext, today: Date) => {
+  let day = startOfDay(today);
+  // Waiting out one rule can run into another, so re-check from each new date
+  for (let violations = checkApplication(context, day); violations.length > 0; ) {
+    day = violations.reduce((latest, v) => (v.safeFrom > latest ? v.safeFrom : latest), day);
+    violations = checkApplication(context, day);
+  }
+  return day > startOfDay(today) ? day : null;
+};
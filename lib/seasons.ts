@@ -0,0 +1,30 @@
+import type { ApplicationEvent, SeasonArchive } from './types';
+
+// Closing a season archives the household's history instead of deleting it: the applications
+// are copied under `seasons/{seasonId}` before the originals are removed, and the season
+// document is only written once every copy exists, so an interrupted close can be run again
+// without losing anything. Restoring a season moves its history back the same way. The
+// repositories do the moving (see `AppRepository`); what to write is worked out here.
+
+// The archive of a season closed with these applications and last-applied dates (by bed ID)
+export const summarizeSeason = (
+  season: Pick<SeasonArchive, 'id' | 'name' | 'closedAtIso' | 'closedByName'>,
+  applications: Pick<ApplicationEvent, 'timestampIso'>[],
+  lastDates: Record<string, Record<string, string>>
+): SeasonArchive => {
+  const timestamps = applications.map((event) => event.timestampIso).sort();
+  return {
+    ...season,
+    firstAppliedIso: timestamps[0],
+    lastAppliedIso: timestamps[timestamps.length - 1],
+    applicationCount: applications.length,
+    lastDates,
+  };
+};
+
+// The archived last-applied dates of a bed that are later than its current ones. Applications
+// logged since the season closed keep their place, so each date only moves forward.
+export const getRestoredDates = (current: Record<string, string>, archived: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(archived).filter(([taskId, iso]) => !current[taskId] || current[taskId] < iso)
+  );
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  ApiError,
+  parseApplicationDetails,
+  parseDate,
+  parseLimit,
+  parseLocale,
+  readJsonBody,
+  withApi,
+} from '../api';
+
+// No token exists, so every request that gets as far as the lookup is turned away
+vi.mock('../firebaseAdmin', () => ({
+  adminDb: { collection: () => ({ doc: () => ({ get: async () => ({ exists: false }) }) }) },
+}));
+
+const post = (body: string, token?: string) =>
+  new Request('http://localhost/api/applications', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body,
+  });
+
+describe('API validation', () => {
+  it('reads a JSON object body', async () => {
+    expect(await readJsonBody(post('{"taskId":"neem"}'))).toEqual({ taskId: 'neem' });
+    await expect(readJsonBody(post('nope'))).rejects.toThrow('The request body must be JSON.');
+    await expect(readJsonBody(post('[1]'))).rejects.toThrow('The request body must be a JSON object.');
+  });
+
+  it('reads dates as local midnight, and timestamps as given', () => {
+    expect(parseDate('2026-10-25', 'from')).toEqual(new Date(2026, 9, 25));
+    expect(parseDate('2026-10-25T08:30:00Z', 'from')).toEqual(new Date(Date.UTC(2026, 9, 25, 8, 30)));
+    expect(parseDate(null, 'from')).toBeUndefined();
+    expect(() => parseDate('25/10/2026', 'from')).toThrow('"from" must be an ISO date or timestamp.');
+  });
+
+  it('keeps limits in range', () => {
+    expect(parseLimit(null, 50, 200)).toBe(50);
+    expect(parseLimit('200', 50, 200)).toBe(200);
+    ['0', '201', '2.5', 'all'].forEach((value) =>
+      expect(() => parseLimit(value, 50, 200)).toThrow('"limit" must be a whole number from 1 to 200.')
+    );
+  });
+
+  it('writes in the language asked for, or in English', () => {
+    expect(parseLocale(null).locale).toBe('en');
+    expect(parseLocale('bn').locale).toBe('bn');
+    expect(() => parseLocale('fr')).toThrow('"lang" must be one of en, bn, hi.');
+  });
+
+  it('checks the details of an application', () => {
+    expect(
+      parseApplicationDetails({ quantity: 250, unit: ' ml ', weather: 'rainy', rainedAfter: true })
+    ).toMatchObject({ quantity: 250, unit: 'ml', weather: 'rainy', rainedAfter: true });
+    expect(() => parseApplicationDetails({ quantity: -1 })).toThrow(ApiError);
+    expect(() => parseApplicationDetails({ quantity: 0 })).toThrow('"quantity" must be a positive number.');
+    expect(() => parseApplicationDetails({ quantity: '250' })).toThrow(ApiError);
+    expect(() => parseApplicationDetails({ rainedAfter: 'yes' })).toThrow('"rainedAfter" must be true or false.');
+    expect(() => parseApplicationDetails({ weather: 'foggy' })).toThrow(/"weather" must be one of sunny/);
+  });
+});
+
+describe('API authentication', () => {
+  const handler = withApi(async () => new Response('ok'));
+
+  it('turns away requests without a valid token', async () => {
+    const missing = await handler(post('{}'));
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toMatchObject({ error: expect.stringContaining('Missing API token') });
+
+    const revoked = await handler(post('{}', 'gdn_revoked'));
+    expect(revoked.status).toBe(401);
+    expect(await revoked.json()).toMatchObject({ error: 'This API token is invalid or has been revoked.' });
+  });
+});
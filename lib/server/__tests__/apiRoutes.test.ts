@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { POST as postApplication } from '../../../app/api/applications/route';
+import { GET as getCalendar } from '../../../app/api/calendar/route';
+import { GET as getDue } from '../../../app/api/schedule/due/route';
+import { hashApiToken } from '../../ids';
+import { makeBed, makeTask } from '../../__tests__/fixtures';
+import { adminDb } from '../firebaseAdmin';
+
+// The API routes against the Firestore emulator, through the Admin SDK like in production.
+// Skipped unless FIRESTORE_EMULATOR_HOST is set; `npm run test:emulator` starts the emulator
+// and runs these.
+
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+const householdId = 'api-test';
+const API_TOKEN = 'gdn_full';
+const CALENDAR_TOKEN = 'gdn_calendar';
+
+const request = (path: string, { token = API_TOKEN, body }: { token?: string; body?: unknown } = {}) =>
+  new Request(`http://localhost${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe.skipIf(!emulatorHost)('API routes on the Firestore emulator', () => {
+  beforeAll(async () => {
+    const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ?? process.env.GCLOUD_PROJECT;
+    await fetch(`http://${emulatorHost}/emulator/v1/projects/${projectId}/databases/(default)/documents`, {
+      method: 'DELETE',
+    });
+
+    const household = adminDb.collection('households').doc(householdId);
+    const { id: taskId, ...task } = makeTask({ applyIntervalDays: 7 });
+    const { id: bedId, ...bed } = makeBed();
+    await Promise.all([
+      household.set({ name: 'Test garden', ownerUid: 'owner', createdAtIso: new Date().toISOString() }),
+      household.collection('tasks').doc(taskId).set(task),
+      household.collection('beds').doc(bedId).set(bed),
+      ...[
+        [API_TOKEN, 'full'],
+        [CALENDAR_TOKEN, 'calendar'],
+      ].map(async ([token, scope]) =>
+        adminDb
+          .collection('apiTokens')
+          .doc(await hashApiToken(token))
+          .set({ householdId, name: `${scope} token`, scope, createdByUid: 'owner', createdAtIso: '' })
+      ),
+    ]);
+  });
+
+  it('logs an application and moves the due date', async () => {
+    const appliedIso = new Date(Date.now() - 3 * 86_400_000).toISOString();
+    const response = await postApplication(
+      request('/api/applications', { body: { taskId: 'neem', timestampIso: appliedIso } })
+    );
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      application: { taskId: 'neem', bedId: 'main', loggedByName: 'full token' },
+      lastAppliedIso: appliedIso,
+    });
+
+    const due = await getDue(request('/api/schedule/due?days=7'));
+    expect((await due.json()).due).toMatchObject([{ taskId: 'neem', status: 'upcoming', daysUntil: 4 }]);
+  });
+
+  it('serves the calendar feed to a calendar token in the URL, and nothing else', async () => {
+    const feed = await getCalendar(new Request(`http://localhost/api/calendar?token=${CALENDAR_TOKEN}`));
+    expect(feed.status).toBe(200);
+    expect(await feed.text()).toContain('BEGIN:VCALENDAR');
+
+    expect((await getDue(request('/api/schedule/due', { token: CALENDAR_TOKEN }))).status).toBe(403);
+    expect((await getDue(new Request(`http://localhost/api/schedule/due?token=${API_TOKEN}`))).status).toBe(401);
+  });
+});
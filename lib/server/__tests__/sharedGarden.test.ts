@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { makeTask } from '../../__tests__/fixtures';
+import { claimSharedGarden } from '../sharedGarden';
+
+// Firestore documents by path, read and written through the mocked Admin SDK below
+const firestore = vi.hoisted(() => ({ docs: new Map<string, Record<string, unknown>>() }));
+
+vi.mock('../firebaseAdmin', () => {
+  const idOf = (path: string) => path.split('/').pop()!;
+  const parentOf = (path: string) => path.split('/').slice(0, -1).join('/');
+  const snapshotOf = (path: string) => ({
+    id: idOf(path),
+    ref: docRef(path),
+    exists: firestore.docs.has(path),
+    data: () => firestore.docs.get(path),
+  });
+  const docRef = (path: string): Record<string, unknown> => ({
+    path,
+    id: idOf(path),
+    get parent() {
+      return collectionRef(parentOf(path));
+    },
+    collection: (name: string) => collectionRef(`${path}/${name}`),
+    get: async () => snapshotOf(path),
+  });
+  const collectionRef = (path: string): Record<string, unknown> => ({
+    path,
+    id: idOf(path),
+    get parent() {
+      return path.includes('/') ? docRef(parentOf(path)) : null;
+    },
+    doc: (id: string) => docRef(`${path}/${id}`),
+    get: async () => ({
+      docs: [...firestore.docs.keys()].filter((key) => parentOf(key) === path).sort().map(snapshotOf),
+    }),
+  });
+  const batch = () => {
+    const writes: (() => void)[] = [];
+    return {
+      set: (ref: { path: string }, data: Record<string, unknown>, options?: { merge: boolean }) =>
+        writes.push(() =>
+          firestore.docs.set(ref.path, options?.merge ? { ...firestore.docs.get(ref.path), ...data } : data)
+        ),
+      delete: (ref: { path: string }) => writes.push(() => firestore.docs.delete(ref.path)),
+      commit: async () => writes.forEach((write) => write()),
+    };
+  };
+  return { adminDb: { collection: collectionRef, doc: docRef, batch } };
+});
+
+const neem = makeTask();
+const fungicide = makeTask({ id: 'fungicide', label: 'Fungicide', applyIntervalDays: 30 });
+
+// Logged before beds and the task catalog existed: only the label says which task it was
+const untagged = (id: string, label: string, timestampIso: string) =>
+  firestore.docs.set(`applications/${id}`, { label, dayLabel: 'Day 1', timestampIso });
+
+const householdDocs = () =>
+  Object.fromEntries(
+    [...firestore.docs]
+      .filter(([path]) => path.startsWith('households/home/'))
+      .map(([path, data]) => [path.slice('households/home/'.length), data])
+  );
+
+describe('claiming the shared garden', () => {
+  beforeEach(() => {
+    firestore.docs.clear();
+    firestore.docs.set('households/home', { name: 'Home', ownerUid: 'owner' });
+  });
+
+  it('tags the applications and moves the garden-wide dates into the default bed', async () => {
+    const { id: neemId, ...neemData } = neem;
+    firestore.docs.set(`tasks/${neemId}`, neemData);
+    untagged('a1', 'Neem', '2026-10-01T08:00:00.000Z');
+    untagged('a2', 'Fungicide', '2026-10-02T08:00:00.000Z');
+    firestore.docs.set('metadata/lastApplicationDates', {
+      Neem: '2026-10-01T08:00:00.000Z',
+      fungicide: '2026-10-02T08:00:00.000Z',
+    });
+
+    expect(await claimSharedGarden('home')).toBe(4);
+    expect([...firestore.docs.keys()]).toEqual(expect.not.arrayContaining(['tasks/neem', 'applications/a1']));
+    expect(householdDocs()).toEqual({
+      'tasks/neem': neemData,
+      'applications/a1': expect.objectContaining({ bedId: 'main', taskId: 'neem' }),
+      // Fungicide isn't in the claimed catalog, so it keeps only its bed
+      'applications/a2': {
+        label: 'Fungicide',
+        dayLabel: 'Day 1',
+        timestampIso: '2026-10-02T08:00:00.000Z',
+        bedId: 'main',
+      },
+      'beds/main': { name: 'My Garden', order: 0 },
+      'beds/main/metadata/lastApplicationDates': {
+        neem: '2026-10-01T08:00:00.000Z',
+        fungicide: '2026-10-02T08:00:00.000Z',
+      },
+    });
+  });
+
+  it("keeps the household's newer last-applied dates and its own bed", async () => {
+    const { id: fungicideId, ...fungicideData } = fungicide;
+    firestore.docs.set(`households/home/tasks/${fungicideId}`, fungicideData);
+    firestore.docs.set('households/home/beds/main', { name: 'Front yard', order: 0 });
+    firestore.docs.set('households/home/beds/main/metadata/lastApplicationDates', {
+      neem: '2026-10-10T08:00:00.000Z',
+    });
+    untagged('a1', 'Fungicide', '2026-10-02T08:00:00.000Z');
+    firestore.docs.set('metadata/lastApplicationDates', {
+      Neem: '2026-10-01T08:00:00.000Z',
+      Fungicide: '2026-10-02T08:00:00.000Z',
+    });
+
+    await claimSharedGarden('home');
+    expect(householdDocs()).toMatchObject({
+      'applications/a1': { bedId: 'main', taskId: 'fungicide' },
+      'beds/main': { name: 'Front yard' },
+      'beds/main/metadata/lastApplicationDates': {
+        neem: '2026-10-10T08:00:00.000Z',
+        fungicide: '2026-10-02T08:00:00.000Z',
+      },
+    });
+    expect(await claimSharedGarden('home')).toBe(0);
+  });
+
+  it('refuses a household that does not exist', async () => {
+    await expect(claimSharedGarden('nowhere')).rejects.toThrow('Household nowhere does not exist');
+  });
+});
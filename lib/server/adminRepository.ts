@@ -0,0 +1,209 @@
+import { FieldValue, Timestamp, type DocumentReference, type Query } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import {
+  addStockEntryIn,
+  advanceLastDateIn,
+  getLatestTimestampIso,
+  recordStockUsageIn,
+  toBatches,
+} from '../firestoreWrites';
+import type { GardenRepository } from '../repository';
+import type {
+  ApplicationEvent,
+  Bed,
+  Observation,
+  PlantProfile,
+  Product,
+  StockEntry,
+  Task,
+} from '../types';
+
+// The same layout as lib/collections.ts, through the Admin SDK
+const householdDoc = (householdId: string) => adminDb.collection('households').doc(householdId);
+const bedLastDatesDoc = (householdId: string, bedId: string) =>
+  householdDoc(householdId).collection('beds').doc(bedId).collection('metadata').doc('lastApplicationDates');
+const stockLevelsDoc = (householdId: string) =>
+  householdDoc(householdId).collection('metadata').doc('stockLevels');
+
+// The household's garden for the API routes. Unlike the app's repository, `loadGarden` only
+// reads: the app sets the garden up the first time a member opens it.
+export const createAdminRepository = (householdId: string): GardenRepository => {
+  const applications = householdDoc(householdId).collection('applications');
+  const stockEntries = householdDoc(householdId).collection('stockEntries');
+  const observations = householdDoc(householdId).collection('observations');
+
+  return {
+    householdId,
+
+    async loadGarden() {
+      const [taskSnapshot, bedSnapshot, profileSnapshot, productSnapshot] = await Promise.all([
+        householdDoc(householdId).collection('tasks').orderBy('order').get(),
+        householdDoc(householdId).collection('beds').orderBy('order').get(),
+        householdDoc(householdId).collection('profiles').orderBy('order').get(),
+        householdDoc(householdId).collection('products').orderBy('order').get(),
+      ]);
+      return {
+        tasks: taskSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Task)),
+        beds: bedSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Bed)),
+        profiles: profileSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as PlantProfile)),
+        products: productSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Product)),
+      };
+    },
+
+    async saveTask({ id, ...data }) {
+      await householdDoc(householdId).collection('tasks').doc(id).set(data);
+    },
+
+    async saveBed({ id, ...data }) {
+      await householdDoc(householdId).collection('beds').doc(id).set(data);
+    },
+
+    async saveProfile({ id, ...data }) {
+      await householdDoc(householdId).collection('profiles').doc(id).set(data);
+    },
+
+    async saveProduct({ id, ...data }) {
+      await householdDoc(householdId).collection('products').doc(id).set(data);
+    },
+
+    newApplicationId: () => applications.doc().id,
+
+    async listApplications() {
+      const snapshot = await applications.orderBy('timestamp', 'desc').get();
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as ApplicationEvent));
+    },
+
+    watchApplications(since, onChange, onError) {
+      return applications
+        .where('timestamp', '>=', Timestamp.fromDate(since))
+        .orderBy('timestamp', 'desc')
+        .onSnapshot(
+          (snapshot) =>
+            onChange(
+              snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as ApplicationEvent)),
+              true
+            ),
+          onError
+        );
+    },
+
+    watchLastDates(bedId, onChange, onError) {
+      return bedLastDatesDoc(householdId, bedId).onSnapshot(
+        (snapshot) => onChange(snapshot.data() ?? {}),
+        onError
+      );
+    },
+
+    async putApplication({ id, ...data }) {
+      await applications.doc(id).set({
+        ...data,
+        timestamp: Timestamp.fromDate(new Date(data.timestampIso)),
+      });
+    },
+
+    async deleteApplication(id) {
+      await applications.doc(id).delete();
+    },
+
+    advanceLastDate(bedId, taskId, timestampIso) {
+      return adminDb.runTransaction((transaction) =>
+        advanceLastDateIn<DocumentReference>(
+          transaction,
+          bedLastDatesDoc(householdId, bedId),
+          taskId,
+          timestampIso
+        )
+      );
+    },
+
+    async recomputeLastDate(bedId, taskId) {
+      const snapshot = await applications.where('bedId', '==', bedId).where('taskId', '==', taskId).get();
+      const latestIso = getLatestTimestampIso(snapshot.docs.map((appDoc) => appDoc.data() as ApplicationEvent));
+      await bedLastDatesDoc(householdId, bedId).set(
+        { [taskId]: latestIso ?? FieldValue.delete() },
+        { merge: true }
+      );
+      return latestIso;
+    },
+
+    async resetHistory(bedIds) {
+      const appSnapshot = await applications.get();
+      const refs: DocumentReference[] = [
+        ...appSnapshot.docs.map((appDoc) => appDoc.ref),
+        ...bedIds.map((bedId) => bedLastDatesDoc(householdId, bedId)),
+        householdDoc(householdId).collection('metadata').doc('lastApplicationDates'),
+      ];
+      for (const refBatch of toBatches(refs)) {
+        const batch = adminDb.batch();
+        refBatch.forEach((ref) => batch.delete(ref));
+        await batch.commit();
+      }
+    },
+
+    watchStockLevels(onChange, onError) {
+      return stockLevelsDoc(householdId).onSnapshot((snapshot) => onChange(snapshot.data() ?? {}), onError);
+    },
+
+    async listStockEntries() {
+      const snapshot = await stockEntries.orderBy('timestampIso', 'desc').get();
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as StockEntry));
+    },
+
+    addStockEntry(entry) {
+      return adminDb.runTransaction((transaction) =>
+        addStockEntryIn<DocumentReference>(transaction, stockLevelsDoc(householdId), stockEntries.doc(), entry)
+      );
+    },
+
+    recordStockUsage(applicationId, usage, timestampIso) {
+      return adminDb.runTransaction((transaction) =>
+        recordStockUsageIn<DocumentReference>(
+          transaction,
+          stockLevelsDoc(householdId),
+          stockEntries.doc(applicationId),
+          usage,
+          timestampIso
+        )
+      );
+    },
+
+    newObservationId: () => observations.doc().id,
+
+    async listObservations() {
+      const snapshot = await observations.orderBy('timestampIso', 'desc').get();
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as Observation));
+    },
+
+    async saveObservation({ id, ...data }) {
+      await observations.doc(id).set(data);
+    },
+
+    async deleteObservation(id) {
+      await observations.doc(id).delete();
+    },
+  };
+};
+
+// --- Reads for the API routes ---
+
+export type ApplicationQuery = {
+  bedId?: string;
+  taskId?: string;
+  since?: Date;
+  limit?: number;
+};
+
+// Applications newest first, filtered in Firestore (see firestore.indexes.json)
+export const queryApplications = async (householdId: string, filter: ApplicationQuery) => {
+  let q: Query = householdDoc(householdId).collection('applications');
+  if (filter.bedId) q = q.where('bedId', '==', filter.bedId);
+  if (filter.taskId) q = q.where('taskId', '==', filter.taskId);
+  if (filter.since) q = q.where('timestamp', '>=', Timestamp.fromDate(filter.since));
+  q = q.orderBy('timestamp', 'desc');
+  if (filter.limit) q = q.limit(filter.limit);
+  const snapshot = await q.get();
+  return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as ApplicationEvent));
+};
+
+export const getLastDates = async (householdId: string, bedId: string) =>
+  ((await bedLastDatesDoc(householdId, bedId).get()).data() ?? {}) as Record<string, string>;
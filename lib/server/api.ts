@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from './firebaseAdmin';
+import { createAdminRepository, getLastDates, queryApplications } from './adminRepository';
+import { WEATHER_LABELS } from '../applicationDetails';
+import { getBedTasks } from '../beds';
+import type { BedSchedule } from '../calendar';
+import { createI18n, defaultI18n, isLocale, LOCALES } from '../i18n';
+import { hashApiToken } from '../ids';
+import { getSeasonLookback } from '../recurrence';
+import type { GardenRepository } from '../repository';
+import type { ApiToken, ApplicationDetails, Bed, Task, WeatherCondition } from '../types';
+
+// Shared plumbing for the route handlers in app/api: API token auth, JSON errors and input
+// validation. Tokens are created in the household panel (see lib/apiTokens.ts).
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown // Extra JSON sent with the error, e.g. safety rule violations
+  ) {
+    super(message);
+  }
+}
+
+export type ApiContext = {
+  repository: GardenRepository;
+  tokenName: string; // Recorded as who logged an application
+};
+
+export type ApiOptions = {
+  // The iCalendar feed: calendar apps can't send headers, so the token may come as `?token=`,
+  // and calendar tokens, which can't use any other route, are accepted
+  calendarFeed?: boolean;
+};
+
+const readToken = (request: Request, { calendarFeed }: ApiOptions) => {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '');
+  if (match) return match[1];
+  return calendarFeed ? new URL(request.url).searchParams.get('token') : null;
+};
+
+const authenticate = async (request: Request, options: ApiOptions): Promise<ApiContext> => {
+  const token = readToken(request, options);
+  if (!token) {
+    throw new ApiError(401, 'Missing API token. Send it as "Authorization: Bearer <token>".');
+  }
+  const snapshot = await adminDb.collection('apiTokens').doc(await hashApiToken(token)).get();
+  if (!snapshot.exists) {
+    throw new ApiError(401, 'This API token is invalid or has been revoked.');
+  }
+  const { householdId, name, scope = 'full' } = snapshot.data() as Omit<ApiToken, 'id'>;
+  if (scope === 'calendar' && !options.calendarFeed) {
+    throw new ApiError(403, 'This token can only read the calendar feed.');
+  }
+  return { repository: createAdminRepository(householdId), tokenName: name };
+};
+
+// Authenticates the request before running the handler, and turns errors into JSON responses
+export const withApi =
+  (handler: (request: Request, context: ApiContext) => Promise<Response>, options: ApiOptions = {}) =>
+  async (request: Request) => {
+    try {
+      return await handler(request, await authenticate(request, options));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message, details: error.details }, { status: error.status });
+      }
+      console.error('Error handling API request:', error);
+      return NextResponse.json({ error: 'Something went wrong.' }, { status: 500 });
+    }
+  };
+
+// The garden is set up by the app the first time a member opens it
+export const loadGarden = async (repository: GardenRepository) => {
+  const garden = await repository.loadGarden();
+  if (garden.beds.length === 0) {
+    throw new ApiError(409, 'This garden has not been set up yet. Open Gardenify once first.');
+  }
+  return garden;
+};
+
+// What the scheduling modules need to work out the due dates of each bed on `today`
+export const loadBedSchedules = (
+  repository: GardenRepository,
+  beds: Bed[],
+  tasks: Task[],
+  today: Date
+): Promise<BedSchedule[]> =>
+  Promise.all(
+    beds.map(async (bed) => {
+      const [lastDates, applications] = await Promise.all([
+        getLastDates(repository.householdId, bed.id),
+        queryApplications(repository.householdId, {
+          bedId: bed.id,
+          since: getSeasonLookback([bed], today),
+        }),
+      ]);
+      return { bed, tasks: getBedTasks(bed, tasks), lastDates, applications };
+    })
+  );
+
+// --- Validation ---
+
+const WEATHER_CONDITIONS = Object.keys(WEATHER_LABELS) as WeatherCondition[];
+
+export const readJsonBody = async (request: Request): Promise<Record<string, unknown>> => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'The request body must be JSON.');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiError(400, 'The request body must be a JSON object.');
+  }
+  return body as Record<string, unknown>;
+};
+
+export const optionalString = (body: Record<string, unknown>, field: string) => {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ApiError(400, `"${field}" must be a string.`);
+  return value.trim();
+};
+
+// An ISO timestamp, or a "YYYY-MM-DD" date read as local midnight
+export const parseDate = (value: string | null | undefined, field: string) => {
+  if (!value) return undefined;
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ApiError(400, `"${field}" must be an ISO date or timestamp.`);
+  }
+  return date;
+};
+
+export const parseLimit = (value: string | null, fallback: number, max: number) => {
+  if (!value) return fallback;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > max) {
+    throw new ApiError(400, `"limit" must be a whole number from 1 to ${max}.`);
+  }
+  return limit;
+};
+
+// The language of text written for the caller, like the calendar feed's event titles
+export const parseLocale = (value: string | null) => {
+  if (!value) return defaultI18n;
+  if (!isLocale(value)) {
+    throw new ApiError(400, `"lang" must be one of ${LOCALES.map(({ code }) => code).join(', ')}.`);
+  }
+  return createI18n(value);
+};
+
+// The optional details of an application, as the detailed form in the app records them
+export const parseApplicationDetails = (body: Record<string, unknown>): ApplicationDetails => {
+  const { quantity, rainedAfter } = body;
+  if (quantity !== undefined && (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0)) {
+    throw new ApiError(400, '"quantity" must be a positive number.');
+  }
+  if (rainedAfter !== undefined && typeof rainedAfter !== 'boolean') {
+    throw new ApiError(400, '"rainedAfter" must be true or false.');
+  }
+  const weather = optionalString(body, 'weather');
+  if (weather && !WEATHER_CONDITIONS.includes(weather as WeatherCondition)) {
+    throw new ApiError(400, `"weather" must be one of ${WEATHER_CONDITIONS.join(', ')}.`);
+  }
+  return {
+    quantity,
+    unit: optionalString(body, 'unit'),
+    dilution: optionalString(body, 'dilution'),
+    productLot: optionalString(body, 'productLot'),
+    target: optionalString(body, 'target'),
+    weather: weather as WeatherCondition | undefined,
+    rainedAfter,
+    notes: optionalString(body, 'notes'),
+  };
+};
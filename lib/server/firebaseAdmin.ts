@@ -0,0 +1,24 @@
+import { applicationDefault, cert, getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// The Admin SDK, for the API routes only: it bypasses firestore.rules, so every route checks
+// its API token first (see lib/server/api.ts).
+//
+// Credentials come from FIREBASE_SERVICE_ACCOUNT (the service account key as JSON), or from the
+// environment's default credentials. With FIRESTORE_EMULATOR_HOST set, the SDK talks to the
+// emulator and needs no credentials.
+const isFirstInit = getApps().length === 0;
+const app = isFirstInit
+  ? initializeApp({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      credential: process.env.FIREBASE_SERVICE_ACCOUNT
+        ? cert(JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT))
+        : applicationDefault(),
+    })
+  : getApps()[0];
+
+const adminDb = getFirestore(app);
+// Optional fields are written as `undefined`, like in the app (see lib/firebase.js)
+if (isFirstInit) adminDb.settings({ ignoreUndefinedProperties: true });
+
+export { adminDb };
@@ -0,0 +1,117 @@
+import type { DocumentSnapshot, WriteBatch } from 'firebase-admin/firestore';
+import { adminDb } from './firebaseAdmin';
+import { DEFAULT_BED } from '../beds';
+import { toBatches } from '../firestoreWrites';
+import { getRestoredDates } from '../seasons';
+import { DEFAULT_TASKS, resolveEventTaskId, resolveLastDateKey } from '../taskCatalog';
+import type { ApplicationEvent, Task } from '../types';
+
+// Until sign-in existed, every visitor shared one garden at the root of the database. It goes
+// to a single household, named by whoever runs scripts/claimSharedGarden.ts, and is then removed
+// from the root, which firestore.rules no longer lets anyone read. The household may already
+// have beds, so `migrateToBeds` won't run on the claimed data; the claim does its work instead:
+// untagged applications get their bed and task, and the garden-wide last-applied dates are
+// re-keyed into the default bed.
+
+// Every document of the shared garden
+const readSharedGarden = async () => {
+  const [tasks, beds, applications, legacyDates] = await Promise.all([
+    adminDb.collection('tasks').get(),
+    adminDb.collection('beds').get(),
+    adminDb.collection('applications').get(),
+    adminDb.collection('metadata').doc('lastApplicationDates').get(),
+  ]);
+  const bedDates = await Promise.all(
+    beds.docs.map((bedDoc) => bedDoc.ref.collection('metadata').doc('lastApplicationDates').get())
+  );
+  return {
+    tasks: tasks.docs,
+    beds: beds.docs,
+    applications: applications.docs,
+    bedDates: bedDates.filter((snapshot) => snapshot.exists),
+    legacyDates: legacyDates.exists ? legacyDates : undefined,
+  };
+};
+
+const runBatches = async (operations: ((batch: WriteBatch) => void)[]) => {
+  for (const operationBatch of toBatches(operations)) {
+    const batch = adminDb.batch();
+    operationBatch.forEach((operation) => operation(batch));
+    await batch.commit();
+  }
+};
+
+// The claimed last-applied dates by bed ID, keeping the newest date of each task
+const collectLastDates = (garden: Awaited<ReturnType<typeof readSharedGarden>>, tasks: Task[]) => {
+  const lastDates = new Map<string, Record<string, string>>();
+  const add = (bedId: string, taskId: string, iso: string) => {
+    const dates = lastDates.get(bedId) ?? {};
+    if (!dates[taskId] || dates[taskId] < iso) dates[taskId] = iso;
+    lastDates.set(bedId, dates);
+  };
+  garden.bedDates.forEach((snapshot) =>
+    Object.entries(snapshot.data() as Record<string, string>).forEach(([taskId, iso]) =>
+      add(snapshot.ref.parent.parent!.id, taskId, iso)
+    )
+  );
+  Object.entries((garden.legacyDates?.data() ?? {}) as Record<string, string>).forEach(([key, iso]) =>
+    add(DEFAULT_BED.id, resolveLastDateKey(key, tasks), iso)
+  );
+  return lastDates;
+};
+
+// Copies the shared garden into the household, then deletes it from the root. Every copy is
+// written before anything is deleted, and last-applied dates only move forward, so an
+// interrupted claim can be run again. Resolves to the number of documents moved.
+export const claimSharedGarden = async (householdId: string) => {
+  const household = adminDb.collection('households').doc(householdId);
+  if (!(await household.get()).exists) {
+    throw new Error(`Household ${householdId} does not exist`);
+  }
+
+  const garden = await readSharedGarden();
+  const householdTasks = await household.collection('tasks').get();
+  // Untagged applications are matched by label, against the catalog they were logged with
+  const catalog = [...garden.tasks, ...householdTasks.docs].map((doc) => ({ id: doc.id, ...doc.data() }) as Task);
+  const tasks = catalog.length > 0 ? catalog : DEFAULT_TASKS;
+
+  const copy = (snapshot: DocumentSnapshot, data = snapshot.data() ?? {}) => (batch: WriteBatch) =>
+    batch.set(adminDb.doc(`${household.path}/${snapshot.ref.path}`), data);
+  const copies = [
+    ...garden.tasks.map((snapshot) => copy(snapshot)),
+    ...garden.beds.map((snapshot) => copy(snapshot)),
+    ...garden.applications.map((snapshot) => {
+      const event = snapshot.data() as ApplicationEvent;
+      const taskId = resolveEventTaskId(event, tasks);
+      return copy(snapshot, { ...event, bedId: event.bedId ?? DEFAULT_BED.id, ...(taskId ? { taskId } : {}) });
+    }),
+  ];
+
+  // The default bed the untagged data now belongs to, unless either garden already has it
+  const { id: defaultBedId, ...defaultBedData } = DEFAULT_BED;
+  const lastDates = collectLastDates(garden, tasks);
+  const defaultBed = household.collection('beds').doc(defaultBedId);
+  const needsDefaultBed =
+    (lastDates.has(defaultBedId) || garden.applications.some((snapshot) => !snapshot.data().bedId)) &&
+    !garden.beds.some((snapshot) => snapshot.id === defaultBedId) &&
+    !(await defaultBed.get()).exists;
+  if (needsDefaultBed) copies.push((batch) => batch.set(defaultBed, defaultBedData));
+
+  // Merged into the household's own dates, where an application logged since may be newer
+  for (const [bedId, dates] of lastDates) {
+    const ref = household.collection('beds').doc(bedId).collection('metadata').doc('lastApplicationDates');
+    const later = getRestoredDates(((await ref.get()).data() ?? {}) as Record<string, string>, dates);
+    if (Object.keys(later).length > 0) copies.push((batch) => batch.set(ref, later, { merge: true }));
+  }
+
+  const claimed = [
+    ...garden.tasks,
+    ...garden.beds,
+    ...garden.applications,
+    ...garden.bedDates,
+    ...(garden.legacyDates ? [garden.legacyDates] : []),
+  ];
+  await runBatches(copies);
+  await runBatches(claimed.map((snapshot) => (batch) => batch.delete(snapshot.ref)));
+  return claimed.length;
+};
@@ -0,0 +1,176 @@
+import { getLatestApplicationIso } from './beds';
+import { writeApplicationChange, type GardenRepository } from './repository';
+import type { ApplicationEvent, StockUsage, Task } from './types';
+
+// Applications are written to this IndexedDB queue before Firestore, so a spray logged
+// without signal survives a reload and is replayed once the device is back online.
+// Entries are keyed by application ID, so a later edit or delete replaces an earlier
+// unsynced write of the same application. Each entry records the household it belongs to,
+// so a change is only replayed while its household is signed in.
+
+const DB_NAME = 'gardenify';
+const DB_VERSION = 1;
+const STORE = 'pendingApplications';
+
+export type QueuedApplication = {
+  householdId?: string; // Missing on entries queued before sign-in existed
+  kind: 'add' | 'update' | 'delete';
+  event: ApplicationEvent & { id: string; bedId: string };
+  updatesLastDate: boolean; // Whether the task has a schedule tracked in `lastApplicationDates`
+  stockUsage?: StockUsage | null; // Missing when the task uses no tracked product
+  queuedAtIso: string;
+};
+
+export type SyncResult = Pick<QueuedApplication, 'kind' | 'queuedAtIso'> & {
+  id: string;
+  bedId: string;
+  taskId?: string;
+  // Latest date on the server after the write, when tracked; null once no history is left
+  lastAppliedIso?: string | null;
+};
+
+const openQueue = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'event.id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const idb = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(idb.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    idb.close();
+  }
+};
+
+export const enqueueApplication = (entry: QueuedApplication) =>
+  runRequest('readwrite', (store) => store.put(entry));
+
+// Entries queued before sign-in existed go to the first household that loads
+const belongsTo = (entry: QueuedApplication, householdId: string) =>
+  (entry.householdId ?? householdId) === householdId;
+
+export const getQueuedApplications = async (householdId: string) => {
+  const entries = await runRequest<QueuedApplication[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => belongsTo(entry, householdId))
+    .sort((a, b) => a.queuedAtIso.localeCompare(b.queuedAtIso));
+};
+
+// Whether two entries for an application record the same change, rather than a later one
+export const isSameChange = (
+  a: Pick<QueuedApplication, 'kind' | 'queuedAtIso'>,
+  b: Pick<QueuedApplication, 'kind' | 'queuedAtIso'>
+) => a.kind === b.kind && a.queuedAtIso === b.queuedAtIso;
+
+// Removes the entry unless a newer change of the same application replaced it since it was
+// read, e.g. an undo logged while it was syncing. The check and the delete share a transaction.
+// Resolves to whether the entry was removed.
+export const removeQueuedApplication = async (entry: QueuedApplication) => {
+  const idb = await openQueue();
+  try {
+    return await new Promise<boolean>((resolve, reject) => {
+      const transaction = idb.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      let removed = false;
+      const request = store.get(entry.event.id);
+      request.onsuccess = () => {
+        const stored: QueuedApplication | undefined = request.result;
+        if (stored && isSameChange(stored, entry)) {
+          store.delete(entry.event.id);
+          removed = true;
+        }
+      };
+      transaction.oncomplete = () => resolve(removed);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    idb.close();
+  }
+};
+
+export const clearQueue = async (householdId: string) => {
+  for (const entry of await getQueuedApplications(householdId)) {
+    await removeQueuedApplication(entry);
+  }
+};
+
+// Overlays changes that haven't reached Firestore on the server's applications and last-applied
+// dates (keyed by bed, then task ID), which is what the UI shows until the queue is replayed.
+// Server echoes carry the same IDs as the queued events, so an event never appears twice.
+export const applyQueuedChanges = (
+  applications: ApplicationEvent[],
+  lastDates: Record<string, Record<string, string>>,
+  queued: QueuedApplication[],
+  tasks: Task[]
+) => {
+  let merged = applications;
+  queued.forEach(({ kind, event }) => {
+    merged = merged.filter((app) => app.id !== event.id);
+    if (kind !== 'delete') merged = [...merged, event];
+  });
+
+  const mergedDates = { ...lastDates };
+  queued.forEach(({ kind, event, updatesLastDate }) => {
+    if (!updatesLastDate || !event.taskId) return;
+    const bedDates = { ...mergedDates[event.bedId] };
+    // A new application only moves the date forward; edits and deletes may move it back
+    if (kind === 'add' && bedDates[event.taskId] >= event.timestampIso) return;
+    const latestIso = getLatestApplicationIso(merged, event.bedId, event.taskId, tasks);
+    if (latestIso) {
+      bedDates[event.taskId] = latestIso;
+    } else {
+      delete bedDates[event.taskId];
+    }
+    mergedDates[event.bedId] = bedDates;
+  });
+
+  return {
+    applications: merged.sort((a, b) => b.timestampIso.localeCompare(a.timestampIso)),
+    lastApplicationDates: mergedDates,
+  };
+};
+
+// Writes one queued change. The document ID was generated when the application was logged,
+// so replaying an entry that already reached Firestore overwrites it instead of duplicating it.
+const syncEntry = async (repository: GardenRepository, entry: QueuedApplication): Promise<SyncResult> => {
+  const { kind, queuedAtIso, event: { id, bedId, taskId } } = entry;
+  const lastAppliedIso = await writeApplicationChange(repository, entry);
+  const result = { kind, queuedAtIso, id, bedId, taskId };
+  return lastAppliedIso === undefined ? result : { ...result, lastAppliedIso };
+};
+
+// Replays the queue oldest first, stopping at the first failure so order is kept.
+// Returns the entries that reached Firestore. A change queued for the same application while
+// its entry was being written stays queued, and is replayed on the next pass.
+export const flushQueue = async (repository: GardenRepository) => {
+  const results: SyncResult[] = [];
+  let entries = await getQueuedApplications(repository.householdId);
+  while (entries.length > 0) {
+    for (const entry of entries) {
+      try {
+        results.push(await syncEntry(repository, entry));
+        await removeQueuedApplication(entry);
+      } catch (error) {
+        console.error('Error syncing queued application:', error);
+        return results;
+      }
+    }
+    // Pick up applications logged while this pass was running
+    entries = await getQueuedApplications(repository.householdId);
+  }
+  return results;
+};
@@ -0,0 +1,88 @@
+import { createReadableId } from './ids';
+import type { ApplicationEvent, Task, TaskCategory } from './types';
+
+// The treatment program Gardenify shipped with. Used to seed an empty `tasks` collection.
+export const DEFAULT_TASKS: Task[] = [
+  { id: 'pest-control-chemical', label: 'Pest Control - Ch🧪', dayLabel: 'Day 1', icon: 'droplets', category: 'pest-control', applyIntervalDays: 7, order: 0 },
+  { id: 'pest-control-neem', label: 'Pest Control - Neem 🌿', dayLabel: 'Day 7', icon: 'leaf', category: 'pest-control', applyIntervalDays: 7, order: 1 },
+  { id: 'fungicide-amistar-top', label: 'Fungicide - Amistar Top 🍄', dayLabel: 'Day 15', icon: 'flower', category: 'fungicide', applyIntervalDays: 30, order: 2 },
+  { id: 'chemical-fertilizer', label: 'Chemical Fertilizer 🔬', dayLabel: 'Day 18', icon: 'sprout', category: 'fertilizer', applyIntervalDays: 30, order: 3 },
+  { id: 'fungicide-masnsar', label: 'Fungicide - Masnsar 🧪', dayLabel: 'Day 20', icon: 'flower', category: 'fungicide', applyIntervalDays: 30, order: 4 },
+  { id: 'mustard-fertilizer', label: 'Mustard Fertilizer 🌱', dayLabel: 'Day 22', icon: 'sprout', category: 'fertilizer', applyIntervalDays: 15, order: 5 },
+  { id: 'cow-dung-vermicompost', label: 'Cow Dung & Vermicompost 🐮', dayLabel: 'Day 26', icon: 'sprout', category: 'fertilizer', order: 6 },
+  { id: 'pgr-application', label: 'PGR Application 🪴', dayLabel: 'Day 30', icon: 'sun', category: 'pgr', applyIntervalDays: 30, order: 7 },
+];
+
+export const TASK_CATEGORY_LABELS: Record<TaskCategory, string> = {
+  'pest-control': 'Pest control',
+  fungicide: 'Fungicide',
+  fertilizer: 'Fertilizer',
+  pgr: 'PGR',
+  other: 'Other',
+};
+
+// Tasks seeded before categories existed take the category of the default they came from
+export const getTaskCategory = (task: Task): TaskCategory =>
+  task.category ?? DEFAULT_TASKS.find((defaultTask) => defaultTask.id === task.id)?.category ?? 'other';
+
+// Events logged before the catalog existed only carry the task label, so fall back to
+// matching on the label the task had when they were written.
+export const resolveEventTaskId = (event: ApplicationEvent, tasks: Task[]) =>
+  event.taskId ?? tasks.find((task) => task.label === event.label)?.id;
+
+// Last-applied dates are keyed by task ID; older documents used the label as the key.
+export const getLastAppliedIso = (dates: Record<string, string>, task: Task) =>
+  dates[task.id] ?? dates[task.label];
+
+// The task a last-applied date is for, when moving dates that may still be keyed by label
+export const resolveLastDateKey = (key: string, tasks: Task[]) =>
+  tasks.find((task) => task.id === key || task.label === key)?.id ?? key;
+
+export const createTaskId = (label: string, existing: Task[]) =>
+  createReadableId(label, existing.map((task) => task.id), 'task');
+
+// --- Validation ---
+
+// How season windows and pauses are written
+export const MONTH_DAY_PATTERN = /^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export const isWholeNumber = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
+
+// Checks a task that didn't come from the task editor, e.g. from an imported backup, against the
+// rules the editor enforces. Returns what's wrong with it, if anything.
+export const getTaskProblem = (task: Task) => {
+  if (typeof task?.id !== 'string' || !task.id || typeof task.label !== 'string') return 'missing ID or label';
+  if (task.applyIntervalDays !== undefined && !isWholeNumber(task.applyIntervalDays, 1)) {
+    return 'the interval must be a whole number of days';
+  }
+  if (task.reminderLeadDays !== undefined && !isWholeNumber(task.reminderLeadDays, 0)) {
+    return 'the reminder lead time must be a whole number of days';
+  }
+  if (task.preHarvestIntervalDays !== undefined && !isWholeNumber(task.preHarvestIntervalDays, 1)) {
+    return 'the pre-harvest interval must be a whole number of days';
+  }
+  if (task.minGapDays !== undefined && !Object.values(task.minGapDays).every((days) => isWholeNumber(days, 1))) {
+    return 'minimum gaps must be whole numbers of days';
+  }
+  if (task.doNotMixWith !== undefined && !Array.isArray(task.doNotMixWith)) return 'invalid do-not-mix list';
+
+  const rule = task.recurrence;
+  if (rule === undefined) return null;
+  const { monthDays = [], seasonWindow, pauses = [], maxPerSeason } = rule;
+  if (!Array.isArray(monthDays) || !Array.isArray(pauses)) return 'invalid recurrence';
+  if (!monthDays.every((day) => isWholeNumber(day, 1) && day <= 31)) {
+    return 'days of the month must be numbers from 1 to 31';
+  }
+  if (monthDays.length > 0 && task.applyIntervalDays !== undefined) {
+    return 'both an interval and days of the month';
+  }
+  const ranges = [...pauses, ...(seasonWindow ? [seasonWindow] : [])];
+  if (!ranges.every((range) => MONTH_DAY_PATTERN.test(range?.start) && MONTH_DAY_PATTERN.test(range?.end))) {
+    return 'season and pause dates must be written as MM-DD';
+  }
+  if (maxPerSeason !== undefined && !isWholeNumber(maxPerSeason, 1)) {
+    return 'applications per season must be a whole number';
+  }
+  return null;
+};
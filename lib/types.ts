@@ -0,0 +1,230 @@
+// Shared type definitions for the garden data stored in Firestore
+
+// Keys of the icons a task can be displayed with (see app/components/taskIcons.ts)
+export type TaskIconKey =
+  | 'droplets'
+  | 'leaf'
+  | 'flower'
+  | 'sprout'
+  | 'sun'
+  | 'bug'
+  | 'flask'
+  | 'shovel'
+  | 'wheat';
+
+// Groups tasks in the history filters
+export type TaskCategory = 'pest-control' | 'fungicide' | 'fertilizer' | 'pgr' | 'other';
+
+// A yearly date range as "MM-DD" strings; `end` before `start` spans the new year
+export type YearlyRange = {
+  start: string;
+  end: string;
+};
+
+// A recurring break in the schedule, such as the monsoon
+export type SchedulePause = YearlyRange & {
+  reason: string;
+};
+
+// Recurrence beyond "every `applyIntervalDays` days", see lib/recurrence.ts
+export type RecurrenceRule = {
+  monthDays?: number[]; // Due on these days of the month (e.g. 1 and 15) instead of every N days
+  seasonWindow?: YearlyRange; // Only scheduled within this part of the year
+  pauses?: SchedulePause[];
+  maxPerSeason?: number; // Counted from the window start, or the bed's season start
+};
+
+export type Task = {
+  id: string; // Stable Firestore document ID, never derived from the label
+  label: string;
+  dayLabel: string;
+  icon: TaskIconKey;
+  category?: TaskCategory; // Missing on tasks created before categories existed
+  applyIntervalDays?: number;
+  recurrence?: RecurrenceRule;
+  reminderLeadDays?: number; // Days before the due date to send a reminder
+  // Safety rules, see lib/safety.ts
+  minGapDays?: Record<string, number>; // Minimum days between this task and another, by task ID
+  doNotMixWith?: string[]; // Tasks that must not be applied on the same day
+  preHarvestIntervalDays?: number; // Days before the bed's harvest after which this can't be applied
+  archived?: boolean;
+  order: number;
+};
+
+export type WeatherCondition = 'sunny' | 'cloudy' | 'humid' | 'windy' | 'rainy';
+
+// Optional details recorded with an application
+export type ApplicationDetails = {
+  quantity?: number;
+  unit?: string;
+  dilution?: string; // Free text, e.g. "2 ml/L"
+  productLot?: string;
+  target?: string; // Pest or disease being treated
+  weather?: WeatherCondition; // At the time of application
+  rainedAfter?: boolean;
+  notes?: string;
+  photoRef?: string; // Legacy: link or file name typed in before the photo journal; no longer entered
+};
+
+export type ApplicationEvent = ApplicationDetails & {
+  id?: string; // Add ID for keying
+  taskId?: string; // Missing on events logged before tasks had stable IDs
+  bedId?: string; // Missing on events logged before beds existed
+  loggedByUid?: string; // Missing on events logged before sign-in existed
+  loggedByName?: string; // Copied from the member so the history reads without a lookup
+  label: string;
+  dayLabel: string;
+  timestampIso: string;
+};
+
+// A garden bed, pot or plot with its own treatment cycle
+export type Bed = {
+  id: string;
+  name: string;
+  taskIds?: string[]; // Tasks that apply to this bed; all active tasks when missing
+  intervalOverrides?: Record<string, number>; // Per-task `applyIntervalDays` for this bed
+  cycleDays?: Record<string, number>; // Per-task day of the treatment cycle, replacing "Day N"
+  profile?: BedProfile; // The plant profile the bed's program was set up from
+  seasonStart?: string; // "YYYY-MM-DD" that Day 1 of the treatment cycle is anchored to
+  harvestDate?: string; // "YYYY-MM-DD", checked against each task's pre-harvest interval
+  deferrals?: Record<string, Deferral>; // Snoozed or skipped occurrences, by task ID
+  order: number;
+};
+
+// A due occurrence put off by a member. It only applies while the task's next due date is
+// still `dueDate`, so logging an application clears it.
+export type Deferral = {
+  kind: 'snooze' | 'skip';
+  dueDate: string; // "YYYY-MM-DD" of the occurrence
+  until?: string; // "YYYY-MM-DD" a snoozed occurrence is moved to
+  reason: string;
+  byName?: string;
+};
+
+// A closed season, at `households/{id}/seasons/{seasonId}`. Closing a season moves the
+// household's applications into its `applications` subcollection and its last-applied dates
+// into `lastDates`; restoring it moves them back. See lib/seasons.ts.
+export type SeasonArchive = {
+  id: string;
+  name: string;
+  closedAtIso: string;
+  closedByName?: string;
+  firstAppliedIso?: string; // Missing when the season had no applications
+  lastAppliedIso?: string;
+  applicationCount: number;
+  lastDates: Record<string, Record<string, string>>; // By bed ID, then task ID
+};
+
+// A compressed photo in the journal. The image itself is kept by a `PhotoStore` under `path`;
+// see lib/photos.ts.
+export type PhotoRef = {
+  path: string;
+  width: number;
+  height: number;
+};
+
+// A photo journal entry showing how a bed's plants look, at
+// `households/{id}/observations/{observationId}`. Photos attached to an application are an
+// observation linked to it; the others stand on their own.
+export type Observation = {
+  id: string;
+  bedId: string;
+  taskId?: string; // The treatment it is about, e.g. the fungicide for a leaf spot
+  applicationId?: string; // Set when the photos were taken with an application
+  note?: string;
+  photos: PhotoRef[];
+  timestampIso: string;
+  byName?: string;
+};
+
+// A crop's treatment program, at `households/{id}/profiles/{profileId}` (see lib/profiles.ts).
+// Every change to the program bumps `version`; beds keep the version they were set up with
+// until a member updates them.
+export type PlantProfile = {
+  id: string;
+  name: string;
+  treatments: ProfileTreatment[];
+  version: number;
+  changeNote?: string; // What changed in this version
+  updatedAtIso: string;
+  order: number;
+};
+
+// A catalog task in a plant profile, with the interval and cycle day it has for that crop
+export type ProfileTreatment = {
+  taskId: string;
+  applyIntervalDays?: number; // The task's own interval when missing
+  cycleDay?: number; // The task's own "Day N" when missing
+};
+
+// The program a profile set a bed up with
+export type BedProgram = Pick<Bed, 'taskIds' | 'intervalOverrides' | 'cycleDays'>;
+
+export type BedProfile = {
+  id: string;
+  version: number;
+  // What the profile set, to tell the bed's later edits apart; missing on beds set up before
+  // updates kept them
+  applied?: BedProgram;
+};
+
+// A chemical or fertilizer kept on hand, at `households/{id}/products/{productId}`. How much is
+// left is kept per product in `metadata/stockLevels`, see lib/inventory.ts.
+export type Product = {
+  id: string;
+  name: string;
+  unit: string; // What the stock is counted in, e.g. "ml" or "kg"
+  taskIds: string[]; // Treatments that use it; applications logged with a quantity draw it down
+  lowStockAt?: number; // Alert once this much or less is left
+  usualQuantity?: number; // Used per application, for projections until quantities are recorded
+  archived?: boolean;
+  order: number;
+};
+
+// A change in stock, at `households/{id}/stockEntries/{entryId}`. Usage is keyed by the
+// application it was logged with, so editing or deleting the application corrects the stock.
+export type StockEntry = {
+  id: string;
+  productId: string;
+  kind: 'restock' | 'count' | 'use';
+  quantity: number; // Bought, counted in a stock take, or used
+  timestampIso: string;
+  byName?: string;
+  note?: string;
+};
+
+// How much of a product an application used
+export type StockUsage = {
+  productId: string;
+  quantity: number;
+};
+
+// A group of users sharing one garden, at `households/{id}`
+export type Household = {
+  id: string;
+  name: string;
+  ownerUid: string; // Only the owner can rename the household or purge its history in the app
+  createdAtIso: string;
+};
+
+// A user's membership, at `households/{householdId}/members/{uid}`
+export type HouseholdMember = {
+  uid: string;
+  name: string;
+  role: 'owner' | 'member';
+  joinedAtIso: string;
+  inviteCode?: string; // The invite a member joined with, checked by the security rules
+};
+
+// A token for the API routes, at `apiTokens/{hash of the token}`
+// What a token can do: everything the API offers, or only read the calendar feed
+export type ApiTokenScope = 'full' | 'calendar';
+
+export type ApiToken = {
+  id: string; // SHA-256 hash of the token, which is only shown once
+  householdId: string;
+  name: string; // What the token is for, e.g. "Shed button"; recorded as who logged an application
+  scope?: ApiTokenScope; // Missing on tokens created before calendar tokens existed, which are full
+  createdByUid: string;
+  createdAtIso: string;
+};
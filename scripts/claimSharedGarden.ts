@@ -0,0 +1,22 @@
+import { claimSharedGarden } from '../lib/server/sharedGarden';
+
+// Moves the garden shared before sign-in into one household, once:
+//   npm run claim-shared-garden -- <householdId>
+// with the Admin SDK credentials the API routes use (see lib/server/firebaseAdmin.ts).
+
+const householdId = process.argv[2];
+if (!householdId) {
+  console.error('Usage: npm run claim-shared-garden -- <householdId>');
+  process.exit(1);
+}
+
+claimSharedGarden(householdId)
+  .then((count) => {
+    console.log(
+      count > 0 ? `Moved ${count} documents into household ${householdId}.` : 'There is no shared garden left to claim.'
+    );
+  })
+  .catch((error) => {
+    console.error('Error claiming the shared garden:', error);
+    process.exit(1);
+  });
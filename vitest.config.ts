@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['lib/**/*.test.ts'],
+    environment: 'node',
+    // Each file runs in its own process, so the tests can switch `process.env.TZ`
+    pool: 'forks',
+    restoreMocks: true,
+  },
+});
@@ -0,0 +1,109 @@
+// Custom service worker code, bundled by next-pwa into public/sw.js
+
+// Focus an open Gardenify window when a due-date reminder is tapped, or open a new one
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url ?? '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      return client ? client.focus() : self.clients.openWindow(url);
+    })
+  );
+});
+
+// --- Background reminders ---
+
+// Sends the reminders the page planned (see "Background reminders" in lib/reminders.ts) when
+// Periodic Background Sync wakes the worker while the app is closed. The names match those
+// in lib/reminders.ts.
+const REMINDER_SYNC_TAG = 'gardenify-reminders';
+const REMINDER_DB_NAME = 'gardenify-reminders';
+const REMINDER_STORE_NAME = 'plan';
+const REMINDER_PLAN_KEY = 'current';
+
+const openReminderDb = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(REMINDER_DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(REMINDER_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const readReminderPlan = async () => {
+  const db = await openReminderDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const plans = db.transaction(REMINDER_STORE_NAME).objectStore(REMINDER_STORE_NAME);
+      const request = plans.get(REMINDER_PLAN_KEY);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Adds to the sent keys of the plan that is stored now, which the page may have replaced
+const markRemindersSent = async (keys) => {
+  const db = await openReminderDb();
+  try {
+    await new Promise((resolve, reject) => {
+      const transaction = db.transaction(REMINDER_STORE_NAME, 'readwrite');
+      const plans = transaction.objectStore(REMINDER_STORE_NAME);
+      const request = plans.get(REMINDER_PLAN_KEY);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        const sentKeys = [...new Set([...request.result.sentKeys, ...keys])];
+        plans.put({ ...request.result, sentKeys }, REMINDER_PLAN_KEY);
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Same as isWithinQuietHours in lib/reminders.ts
+const toMinutes = (hhmm) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const isWithinQuietHours = (now, quietHours) => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? current >= start && current < end : current >= start || current < end;
+};
+
+const sendPlannedReminders = async () => {
+  const plan = await readReminderPlan();
+  const now = new Date();
+  if (!plan?.settings.enabled || isWithinQuietHours(now, plan.settings.quietHours)) return;
+
+  // A window that is open checks reminders itself
+  const clients = await self.clients.matchAll({ type: 'window' });
+  if (clients.some((client) => client.visibilityState === 'visible')) return;
+
+  const sent = [];
+  for (const reminder of plan.reminders) {
+    if (plan.sentKeys.includes(reminder.key) || new Date(reminder.notBeforeIso) > now) continue;
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      tag: reminder.key,
+      icon: '/icons/icon-192x192.png',
+      data: { url: '/' },
+    });
+    sent.push(reminder.key);
+  }
+  if (sent.length > 0) await markRemindersSent(sent);
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === REMINDER_SYNC_TAG) event.waitUntil(sendPlannedReminders());
+});